@@ -1,6 +1,5 @@
 import React from 'react';
 import { render, fireEvent } from '@testing-library/react-native';
-import { View } from 'react-native';
 import CaloriesScreen from '../calories';
 
 // Mock expo-router
@@ -32,12 +31,32 @@ jest.mock('@/hooks/useCalories', () => ({
     useCalories: () => ({
         entries: [],
         loading: false,
+        recentFoods: [{ food: 'Oatmeal', calories: 150, count: 3, lastUsed: 1 }],
+        favorites: [],
+        toggleFavorite: jest.fn(),
         addEntry: jest.fn(),
         deleteEntry: jest.fn(),
         refresh: jest.fn(),
     }),
 }));
 
+jest.mock('@/hooks/useWorkouts', () => ({
+    useWorkouts: () => ({
+        stats: null,
+        activities: [],
+        loading: false,
+    }),
+}));
+
+jest.mock('@/hooks/useMealTemplates', () => ({
+    useMealTemplates: () => ({
+        templates: [],
+        saveTemplate: jest.fn(),
+        deleteTemplate: jest.fn(),
+        logTemplate: jest.fn(),
+    }),
+}));
+
 jest.mock('@/context/ThemeContext', () => ({
     useTheme: () => ({
         colors: {
@@ -94,6 +113,39 @@ describe('CaloriesScreen', () => {
         expect(getByPlaceholderText('e.g. 105')).toBeTruthy();
     });
 
+    it('asks for physical stats before showing a calorie budget', () => {
+        const { getByTestId, queryByTestId } = render(<CaloriesScreen />);
+
+        expect(getByTestId('energy-budget-setup')).toBeTruthy();
+        expect(queryByTestId('energy-budget')).toBeNull();
+    });
+
+    it('fills in a recent food with the calories it was last logged with', () => {
+        const { getByText, getByPlaceholderText, getByDisplayValue } = render(<CaloriesScreen />);
+
+        fireEvent.press(getByText('Add Entry'));
+        fireEvent.changeText(getByPlaceholderText('e.g. Banana'), 'oat');
+        fireEvent.press(getByText('Oatmeal'));
+
+        expect(getByDisplayValue('Oatmeal')).toBeTruthy();
+        expect(getByDisplayValue('150')).toBeTruthy();
+    });
+
+    it('fills in calories for a portion from the food database', () => {
+        const { getByText, getByPlaceholderText, getByLabelText, getByDisplayValue } = render(<CaloriesScreen />);
+
+        fireEvent.press(getByText('Add Entry'));
+        fireEvent.press(getByLabelText('calories.database.search'));
+        fireEvent.changeText(getByPlaceholderText('calories.database.placeholder'), 'kimbap');
+        fireEvent.press(getByText('Gimbap'));
+        fireEvent.changeText(getByLabelText('calories.database.amount'), '2');
+        fireEvent.press(getByText('calories.database.use'));
+
+        expect(getByDisplayValue('Gimbap')).toBeTruthy();
+        // 2 rolls of 230 g at 151 kcal / 100 g
+        expect(getByDisplayValue('695')).toBeTruthy();
+    });
+
     it('shows localized JSDatePicker on iOS', () => {
         const { getByText } = render(<CaloriesScreen />);
 
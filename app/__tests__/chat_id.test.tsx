@@ -51,6 +51,8 @@ const mockNotificationValue = {
     setRouteSegments: jest.fn(),
     typingThreads: new Set(),
     setTyping: jest.fn(),
+    streamingReplies: {},
+    connectionState: 'connected',
 };
 
 const wrapper = ({ children }: { children: React.ReactNode }) => (
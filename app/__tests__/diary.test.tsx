@@ -6,6 +6,7 @@ import { AuthContext } from '../../context/AuthContext';
 import { ThemeProvider } from '../../context/ThemeContext';
 import { LanguageProvider } from '../../context/LanguageContext';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
+import { lockApps, setAppLockPin, updateAppLockSettings } from '../../services/appLock';
 
 // Mocks
 jest.mock('../../services/api');
@@ -48,7 +49,7 @@ describe('DiaryScreen', () => {
 
     it('should render entries fetched from api', async () => {
         const mockEntries = [
-            { id: '1', date: '2024-01-01', content: 'Dear Diary...', title: 'My First Entry', created_at: '2024-01-01' }
+            { id: 1, date: '2024-01-01', content: 'Dear Diary...', title: 'My First Entry', created_at: '2024-01-01' }
         ];
         (api.get as jest.Mock).mockResolvedValue({ data: mockEntries });
 
@@ -65,9 +66,25 @@ describe('DiaryScreen', () => {
         await findByText('No entries yet. Start writing!');
     });
 
+    it('keeps entries behind the lock gate while Diary is locked', async () => {
+        (api.get as jest.Mock).mockResolvedValue({ data: [] });
+        await updateAppLockSettings({ apps: { passwords: false, diary: true, notes: false } });
+        await setAppLockPin('2580');
+        lockApps();
+
+        const { findByText, queryByText, unmount } = render(<DiaryScreen />, { wrapper });
+
+        await findByText('Locked');
+        expect(queryByText('No entries yet. Start writing!')).toBeNull();
+        expect(api.get).not.toHaveBeenCalled();
+
+        unmount();
+        await updateAppLockSettings({ apps: { passwords: false, diary: false, notes: false } });
+    });
+
     describe('Platform-specific rendering', () => {
         const mockEntries = [
-            { id: '1', date: '2024-01-01', content: 'Dear Diary with enough content to scroll', title: 'My Entry', created_at: '2024-01-01' }
+            { id: 1, date: '2024-01-01', content: 'Dear Diary with enough content to scroll', title: 'My Entry', created_at: '2024-01-01' }
         ];
 
         beforeEach(() => {
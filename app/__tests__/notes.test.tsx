@@ -48,7 +48,7 @@ describe('NotesScreen', () => {
 
     it('should render notes fetched from api', async () => {
         const mockNotes = [
-            { id: '1', date: '2024-01-01', content: 'Note content', title: 'My Note', created_at: '2024-01-01', updated_at: '2024-01-01', position: 0 }
+            { id: 1, date: '2024-01-01', content: 'Note content', title: 'My Note', created_at: '2024-01-01', updated_at: '2024-01-01', position: 0 }
         ];
         (api.get as jest.Mock).mockResolvedValue({ data: mockNotes });
 
@@ -66,7 +66,7 @@ describe('NotesScreen', () => {
 
     describe('Platform-specific rendering', () => {
         const mockNotes = [
-            { id: '1', date: '2024-01-01', content: 'Note content that is long enough to scroll', title: 'My Note', created_at: '2024-01-01', updated_at: '2024-01-01', position: 0 }
+            { id: 1, date: '2024-01-01', content: 'Note content that is long enough to scroll', title: 'My Note', created_at: '2024-01-01', updated_at: '2024-01-01', position: 0 }
         ];
 
         beforeEach(() => {
@@ -14,6 +14,11 @@ import ErrorBoundary from '@/components/ui/ErrorBoundary';
 import { PROFILE_AVATAR_MAP } from '@/constants/avatars';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import GlobalAppShortcut from '@/components/features/chat/GlobalAppShortcut';
+import SyncConflictReview from '@/components/features/sync/SyncConflictReview';
+import CopyToast from '@/components/features/passwords/CopyToast';
+import { runStorageMigrations } from '@/services/storageRegistry';
+import { loadAppLock, startAppLockWatcher } from '@/services/appLock';
+import { startSecureClipboardWatcher } from '@/services/secureClipboard';
 
 
 
@@ -91,6 +96,13 @@ function RootLayoutNav() {
         setRouteSegments(segments);
     }, [segments, setRouteSegments]);
 
+    useEffect(() => {
+        loadAppLock();
+        return startAppLockWatcher();
+    }, []);
+
+    useEffect(() => startSecureClipboardWatcher(), []);
+
 
 
     useEffect(() => {
@@ -155,18 +167,33 @@ function RootLayoutNav() {
                 <Stack.Screen name="bible" options={{ title: t('bible.title'), headerShown: false }} />
                 <Stack.Screen name="calories" options={{ title: t('calories.title') }} />
                 <Stack.Screen name="passwords" options={{ title: t('passwords.title') }} />
+                <Stack.Screen name="passwords/audit" options={{ title: t('passwords.audit.title') }} />
+                <Stack.Screen name="passwords/transfer" options={{ title: t('passwords.transfer.title') }} />
+                <Stack.Screen name="passwords/groups" options={{ title: t('passwords.custom_groups.title') }} />
                 <Stack.Screen name="notes" options={{ title: t('notes.title') }} />
                 <Stack.Screen name="diary" options={{ title: t('diary.title') }} />
                 <Stack.Screen name="socius-setup/index" options={{ headerShown: false }} />
                 <Stack.Screen name="workout" options={{ title: t('workout.title') }} />
                 <Stack.Screen name="onboarding/index" options={{ headerShown: false }} />
+                <Stack.Screen name="diagnostics" options={{ title: t('diagnostics.title') }} />
             </Stack>
             <GlobalAppShortcut />
+            <SyncConflictReview />
+            <CopyToast />
         </>
     );
 }
 
 export default function RootLayout() {
+    const [storageReady, setStorageReady] = useState(false);
+
+    // Stored data is upgraded before any provider reads it
+    useEffect(() => {
+        runStorageMigrations().finally(() => setStorageReady(true));
+    }, []);
+
+    if (!storageReady) return null;
+
     return (
         <GestureHandlerRootView style={{ flex: 1 }}>
             <SafeAreaProvider>
@@ -1,15 +1,29 @@
 import React, { useState, useMemo } from 'react';
-import { StyleSheet, View, Text, TouchableOpacity, FlatList, Modal, TextInput, Alert, ActivityIndicator, TouchableWithoutFeedback, KeyboardAvoidingView, Platform } from 'react-native';
+import { StyleSheet, View, Text, TouchableOpacity, FlatList, Modal, TextInput, Alert, ActivityIndicator, TouchableWithoutFeedback, KeyboardAvoidingView, Platform, ScrollView } from 'react-native';
 import DateTimePicker from '@react-native-community/datetimepicker';
-import { Stack } from 'expo-router';
+import { Stack, useRouter } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '@/context/ThemeContext';
 import { useLanguage } from '@/context/LanguageContext';
 import AppSpecificChatHead from '@/components/features/chat/AppSpecificChatHead';
-import { useCalories, CalorieEntry } from '../hooks/useCalories';
+import EnergyBudgetCard from '@/components/features/calories/EnergyBudgetCard';
+import FoodDatabasePicker from '@/components/features/calories/FoodDatabasePicker';
+import FoodSuggestions from '@/components/features/calories/FoodSuggestions';
+import MacroSummary from '@/components/features/calories/MacroSummary';
+import MealTemplateBar from '@/components/features/calories/MealTemplateBar';
+import { CalorieEntry } from '../hooks/useCalories';
+import { useEnergyBalance } from '../hooks/useEnergyBalance';
+import { MealTemplate, useMealTemplates } from '../hooks/useMealTemplates';
+import { MACRO_KEYS, MacroKey, Macros, formatMacros, macroLabels, parseMacros } from '@/utils/macros';
+import { MEAL_ICONS, MEAL_TYPES, MealType, mealForTime, mealOf, sortByMeal } from '@/utils/meals';
+import { FoodSuggestion, foodKey, suggestFoods } from '@/utils/recentFoods';
 import dayjs from 'dayjs';
 
+type MacroInputs = Record<MacroKey, string>;
+
+const EMPTY_MACROS = Object.fromEntries(MACRO_KEYS.map(key => [key, ''])) as MacroInputs;
+
 function JSDatePicker({ value, onChange, onClose, colors, isDark }: { value: Date, onChange: (date: Date) => void, onClose: () => void, colors: any, isDark: boolean }) {
     const { t } = useLanguage();
     const d = dayjs(value);
@@ -61,9 +75,18 @@ function JSDatePicker({ value, onChange, onClose, colors, isDark }: { value: Dat
 export default function CaloriesScreen() {
     const { colors, isDark } = useTheme();
     const { t } = useLanguage();
+    const labels = macroLabels(t);
+    const shortLabels = macroLabels(t, true);
+
+    const router = useRouter();
 
     // Use Shared Hook
-    const { entries, loading, addEntry, updateEntry, deleteEntry } = useCalories();
+    const {
+        entries, loading, addEntry, updateEntry, deleteEntry,
+        recentFoods, favorites, toggleFavorite,
+        stats: physicalStats, tdee, today, trend
+    } = useEnergyBalance();
+    const { templates, saveTemplate, deleteTemplate, logTemplate } = useMealTemplates();
 
     const [modalVisible, setModalVisible] = useState(false);
 
@@ -73,6 +96,18 @@ export default function CaloriesScreen() {
     const [calories, setCalories] = useState('');
     const [selectedDate, setSelectedDate] = useState(new Date());
     const [showDatePicker, setShowDatePicker] = useState(false);
+    const [macros, setMacros] = useState<MacroInputs>(EMPTY_MACROS);
+    const [meal, setMeal] = useState<MealType>(() => mealForTime(Date.now()));
+    const [showFoodSearch, setShowFoodSearch] = useState(false);
+
+    // Foods of one day's meal being saved as a template
+    const [templateDraft, setTemplateDraft] = useState<{ meal: MealType; items: CalorieEntry[] } | null>(null);
+    const [templateName, setTemplateName] = useState('');
+
+    const openAddModal = () => {
+        setMeal(mealForTime(Date.now()));
+        setModalVisible(true);
+    };
 
     const handleAddEntry = async () => {
         if (!food.trim() || !calories.trim()) {
@@ -86,17 +121,21 @@ export default function CaloriesScreen() {
         }
 
         try {
+            // Blank fields are left out; an edit with all of them blank clears the macros
+            const macroGrams = parseMacros(macros);
             if (editingEntry) {
                 // Pass updated date along with food and calories
                 const dateStr = dayjs(selectedDate).format('YYYY-MM-DD');
-                await updateEntry(editingEntry.id, food.trim(), calNum, dateStr);
+                await updateEntry(editingEntry.id, food.trim(), calNum, dateStr, macroGrams ?? {}, meal);
             } else {
                 const dateStr = dayjs(selectedDate).format('YYYY-MM-DD');
-                await addEntry(food.trim(), calNum, dateStr);
+                await addEntry(food.trim(), calNum, dateStr, macroGrams, meal);
             }
             // Reset and close
             setFood('');
             setCalories('');
+            setMacros(EMPTY_MACROS);
+            setShowFoodSearch(false);
             setSelectedDate(new Date());
             setEditingEntry(null);
             setModalVisible(false);
@@ -109,11 +148,37 @@ export default function CaloriesScreen() {
         setEditingEntry(entry);
         setFood(entry.food);
         setCalories(entry.calories.toString());
+        setMacros(Object.fromEntries(
+            MACRO_KEYS.map(key => [key, entry.macros?.[key]?.toString() ?? ''])
+        ) as MacroInputs);
+        setMeal(mealOf(entry));
         // Parse the entry's date in local time to avoid timezone offset issues
         setSelectedDate(dayjs(entry.date).toDate());
         setModalVisible(true);
     };
 
+    // Autocomplete for new entries; hidden once the name matches a suggestion exactly
+    const suggestions = useMemo(
+        () => editingEntry ? [] : suggestFoods(recentFoods, favorites, food).filter(s => foodKey(s.food) !== foodKey(food)),
+        [editingEntry, recentFoods, favorites, food]
+    );
+
+    const fillFood = (name: string, kcal: number, grams?: Macros) => {
+        setFood(name);
+        setCalories(kcal.toString());
+        setMacros(Object.fromEntries(
+            MACRO_KEYS.map(key => [key, grams?.[key]?.toString() ?? ''])
+        ) as MacroInputs);
+    };
+
+    const handleSelectSuggestion = (suggestion: FoodSuggestion) =>
+        fillFood(suggestion.food, suggestion.calories, suggestion.macros);
+
+    const handlePickFromDatabase = (name: string, kcal: number, grams: Macros) => {
+        fillFood(name, kcal, grams);
+        setShowFoodSearch(false);
+    };
+
     const handleDelete = (id: string) => {
         Alert.alert(
             t('calories.delete'),
@@ -129,6 +194,43 @@ export default function CaloriesScreen() {
         );
     };
 
+    const handleLogTemplate = async (template: MealTemplate) => {
+        try {
+            await logTemplate(template);
+        } catch {
+            Alert.alert(t('common.error'), 'Failed to save entry');
+        }
+    };
+
+    const handleDeleteTemplate = (template: MealTemplate) => {
+        Alert.alert(
+            t('calories.templates.delete'),
+            t('calories.templates.delete_confirm'),
+            [
+                { text: t('common.cancel'), style: 'cancel' },
+                {
+                    text: t('common.confirm'),
+                    style: 'destructive',
+                    onPress: () => deleteTemplate(template.id)
+                }
+            ]
+        );
+    };
+
+    const closeTemplateModal = () => {
+        setTemplateDraft(null);
+        setTemplateName('');
+    };
+
+    const handleSaveTemplate = async () => {
+        if (!templateDraft || !templateName.trim()) return;
+        await saveTemplate(templateName, templateDraft.meal, templateDraft.items);
+        closeTemplateModal();
+    };
+
+    // Each day's entries grouped by meal
+    const sortedEntries = useMemo(() => sortByMeal(entries), [entries]);
+
     // Stats
     const stats = useMemo(() => {
         const todayStr = dayjs().format('YYYY-MM-DD');
@@ -148,8 +250,13 @@ export default function CaloriesScreen() {
     }, [entries]);
 
     const renderItem = ({ item, index }: { item: CalorieEntry, index: number }) => {
-        const prevItem = entries[index - 1];
+        const prevItem = sortedEntries[index - 1];
         const showDateHeader = !prevItem || prevItem.date !== item.date;
+        const itemMeal = mealOf(item);
+        const showMealHeader = showDateHeader || mealOf(prevItem) !== itemMeal;
+        const mealEntries = showMealHeader
+            ? sortedEntries.filter(e => e.date === item.date && mealOf(e) === itemMeal)
+            : [];
         const isToday = item.date === dayjs().format('YYYY-MM-DD');
 
         return (
@@ -164,6 +271,21 @@ export default function CaloriesScreen() {
                         </Text>
                     </View>
                 )}
+                {showMealHeader && (
+                    <View style={styles.mealHeader}>
+                        <Ionicons name={MEAL_ICONS[itemMeal]} size={16} color={colors.textSecondary} />
+                        <Text style={[styles.mealHeaderText, { color: colors.textSecondary }]}>
+                            {t(`calories.meals.${itemMeal}`)} · {mealEntries.reduce((sum, e) => sum + e.calories, 0)} kcal
+                        </Text>
+                        <TouchableOpacity
+                            onPress={() => setTemplateDraft({ meal: itemMeal, items: mealEntries })}
+                            accessibilityLabel={t('calories.templates.save')}
+                            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                        >
+                            <Ionicons name="bookmark-outline" size={16} color={colors.primary} />
+                        </TouchableOpacity>
+                    </View>
+                )}
                 <TouchableOpacity
                     style={[styles.entryItem, { backgroundColor: colors.card }]}
                     onPress={() => handleEdit(item)}
@@ -177,6 +299,11 @@ export default function CaloriesScreen() {
                         <Text style={[styles.entryTime, { color: colors.textSecondary }]}>
                             {dayjs(item.timestamp).format('h:mm A')}
                         </Text>
+                        {!!item.macros && (
+                            <Text style={[styles.entryMacros, { color: colors.textSecondary }]}>
+                                {formatMacros(item.macros, shortLabels)}
+                            </Text>
+                        )}
                     </View>
                     <Text style={[styles.entryCalories, { color: colors.primary }]}>
                         {item.calories} kcal
@@ -206,7 +333,7 @@ export default function CaloriesScreen() {
                     headerTitleStyle: { color: colors.text, fontWeight: '600' },
                     headerTintColor: colors.primary,
                     headerRight: () => (
-                        <TouchableOpacity onPress={() => setModalVisible(true)} style={{ paddingRight: 8 }}>
+                        <TouchableOpacity onPress={openAddModal} style={{ paddingRight: 8 }}>
                             <Ionicons name="add-circle" size={28} color={colors.primary} />
                         </TouchableOpacity>
                     ),
@@ -227,6 +354,16 @@ export default function CaloriesScreen() {
                 </View>
             </View>
 
+            <EnergyBudgetCard
+                stats={physicalStats}
+                tdee={tdee}
+                today={today}
+                trend={trend}
+                onSetup={() => router.push('/workout')}
+            />
+
+            <MealTemplateBar templates={templates} onLog={handleLogTemplate} onDelete={handleDeleteTemplate} />
+
             {/* List */}
             {entries.length === 0 ? (
                 <View style={styles.emptyContainer}>
@@ -234,18 +371,19 @@ export default function CaloriesScreen() {
                     <Text style={[styles.emptyText, { color: colors.textSecondary }]}>{t('calories.no_entries')}</Text>
                     <TouchableOpacity
                         style={[styles.addButton, { backgroundColor: colors.primary }]}
-                        onPress={() => setModalVisible(true)}
+                        onPress={openAddModal}
                     >
                         <Text style={styles.addButtonText}>{t('calories.add_entry')}</Text>
                     </TouchableOpacity>
                 </View>
             ) : (
                 <FlatList
-                    data={entries}
+                    data={sortedEntries}
                     keyExtractor={item => item.id}
                     renderItem={renderItem}
                     contentContainerStyle={styles.listContent}
                     showsVerticalScrollIndicator={false}
+                    ListHeaderComponent={<MacroSummary entries={entries} />}
                 />
             )}
 
@@ -260,6 +398,8 @@ export default function CaloriesScreen() {
                     setEditingEntry(null);
                     setFood('');
                     setCalories('');
+                    setMacros(EMPTY_MACROS);
+                    setShowFoodSearch(false);
                 }}
             >
                 <KeyboardAvoidingView
@@ -281,83 +421,190 @@ export default function CaloriesScreen() {
                                 setEditingEntry(null);
                                 setFood('');
                                 setCalories('');
+                                setMacros(EMPTY_MACROS);
+                                setShowFoodSearch(false);
                             }}>
                                 <Ionicons name="close" size={24} color={colors.textSecondary} />
                             </TouchableOpacity>
                         </View>
 
-                        <Text style={[styles.inputLabel, { color: colors.text }]}>{t('calories.food_name')}</Text>
-                        <TextInput
-                            style={[styles.input, { backgroundColor: colors.inputBackground, color: colors.text, borderColor: colors.border }]}
-                            placeholder={t('calories.placeholder_name')}
-                            placeholderTextColor={colors.textSecondary}
-                            value={food}
-                            onChangeText={setFood}
-                            autoFocus
-                        />
-
-                        <Text style={[styles.inputLabel, { color: colors.text }]}>{t('common.date') || 'Date'}</Text>
-                        {Platform.OS === 'ios' ? (
-                            <View>
+                        <ScrollView keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+                            <View style={styles.labelRow}>
+                                <Text style={[styles.inputLabel, { color: colors.text }]}>{t('calories.food_name')}</Text>
                                 <TouchableOpacity
-                                    style={[styles.input, { backgroundColor: colors.inputBackground, borderColor: colors.border, justifyContent: 'center' }]}
-                                    onPress={() => setShowDatePicker(!showDatePicker)}
+                                    onPress={() => setShowFoodSearch(!showFoodSearch)}
+                                    accessibilityLabel={t('calories.database.search')}
+                                    hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
                                 >
-                                    <Text style={{ color: colors.text, fontSize: 16 }}>
-                                        {selectedDate.toLocaleDateString()}
-                                    </Text>
+                                    <Ionicons name={showFoodSearch ? 'close-circle-outline' : 'search'} size={20} color={colors.primary} />
                                 </TouchableOpacity>
-                                {showDatePicker && (
-                                    <JSDatePicker
-                                        value={selectedDate}
-                                        onChange={setSelectedDate}
-                                        onClose={() => setShowDatePicker(false)}
-                                        colors={colors}
-                                        isDark={isDark}
-                                    />
-                                )}
                             </View>
-                        ) : (
-                            <>
-                                <TouchableOpacity
-                                    style={[styles.input, { backgroundColor: colors.inputBackground, borderColor: colors.border, justifyContent: 'center' }]}
-                                    onPress={() => setShowDatePicker(true)}
-                                >
-                                    <Text style={{ color: colors.text, fontSize: 16 }}>
-                                        {selectedDate.toLocaleDateString()}
-                                    </Text>
-                                </TouchableOpacity>
-                                {showDatePicker && (
-                                    <DateTimePicker
-                                        value={selectedDate}
-                                        mode="date"
-                                        display="default"
-                                        onChange={(event, date) => {
-                                            setShowDatePicker(false);
-                                            if (date) setSelectedDate(date);
-                                        }}
-                                    />
-                                )}
-                            </>
-                        )}
+                            <TextInput
+                                style={[styles.input, { backgroundColor: colors.inputBackground, color: colors.text, borderColor: colors.border }]}
+                                placeholder={t('calories.placeholder_name')}
+                                placeholderTextColor={colors.textSecondary}
+                                value={food}
+                                onChangeText={setFood}
+                                autoFocus
+                            />
+                            {showFoodSearch ? (
+                                <FoodDatabasePicker initialQuery={food} onPick={handlePickFromDatabase} />
+                            ) : (
+                                <FoodSuggestions
+                                    suggestions={suggestions}
+                                    onSelect={handleSelectSuggestion}
+                                    onToggleFavorite={s => toggleFavorite(s.food, s.calories, s.macros)}
+                                />
+                            )}
+
+                            <Text style={[styles.inputLabel, { color: colors.text }]}>{t('common.date') || 'Date'}</Text>
+                            {Platform.OS === 'ios' ? (
+                                <View>
+                                    <TouchableOpacity
+                                        style={[styles.input, { backgroundColor: colors.inputBackground, borderColor: colors.border, justifyContent: 'center' }]}
+                                        onPress={() => setShowDatePicker(!showDatePicker)}
+                                    >
+                                        <Text style={{ color: colors.text, fontSize: 16 }}>
+                                            {selectedDate.toLocaleDateString()}
+                                        </Text>
+                                    </TouchableOpacity>
+                                    {showDatePicker && (
+                                        <JSDatePicker
+                                            value={selectedDate}
+                                            onChange={setSelectedDate}
+                                            onClose={() => setShowDatePicker(false)}
+                                            colors={colors}
+                                            isDark={isDark}
+                                        />
+                                    )}
+                                </View>
+                            ) : (
+                                <>
+                                    <TouchableOpacity
+                                        style={[styles.input, { backgroundColor: colors.inputBackground, borderColor: colors.border, justifyContent: 'center' }]}
+                                        onPress={() => setShowDatePicker(true)}
+                                    >
+                                        <Text style={{ color: colors.text, fontSize: 16 }}>
+                                            {selectedDate.toLocaleDateString()}
+                                        </Text>
+                                    </TouchableOpacity>
+                                    {showDatePicker && (
+                                        <DateTimePicker
+                                            value={selectedDate}
+                                            mode="date"
+                                            display="default"
+                                            onChange={(event, date) => {
+                                                setShowDatePicker(false);
+                                                if (date) setSelectedDate(date);
+                                            }}
+                                        />
+                                    )}
+                                </>
+                            )}
+
+                            <Text style={[styles.inputLabel, { color: colors.text }]}>{t('calories.meals.title')}</Text>
+                            <View style={styles.mealRow}>
+                                {MEAL_TYPES.map(type => (
+                                    <TouchableOpacity
+                                        key={type}
+                                        style={[
+                                            styles.mealChip,
+                                            { borderColor: colors.border },
+                                            meal === type && { backgroundColor: colors.primary, borderColor: colors.primary }
+                                        ]}
+                                        onPress={() => setMeal(type)}
+                                    >
+                                        <Ionicons name={MEAL_ICONS[type]} size={16} color={meal === type ? '#fff' : colors.textSecondary} />
+                                        <Text style={{ color: meal === type ? '#fff' : colors.text, fontSize: 12 }}>{t(`calories.meals.${type}`)}</Text>
+                                    </TouchableOpacity>
+                                ))}
+                            </View>
+
+                            <Text style={[styles.inputLabel, { color: colors.text }]}>{t('calories.calories')}</Text>
+                            <TextInput
+                                style={[styles.input, { backgroundColor: colors.inputBackground, color: colors.text, borderColor: colors.border }]}
+                                placeholder={t('calories.placeholder_calories')}
+                                placeholderTextColor={colors.textSecondary}
+                                value={calories}
+                                onChangeText={setCalories}
+                                keyboardType="number-pad"
+                            />
+
+                            <Text style={[styles.inputLabel, { color: colors.text }]}>{t('calories.macros.optional')}</Text>
+                            <View style={styles.macroGrid}>
+                                {MACRO_KEYS.map(key => (
+                                    <View key={key} style={styles.macroField}>
+                                        <Text style={[styles.macroLabel, { color: colors.textSecondary }]}>{labels[key]}</Text>
+                                        <TextInput
+                                            style={[styles.input, styles.macroInput, { backgroundColor: colors.inputBackground, color: colors.text, borderColor: colors.border }]}
+                                            placeholder="0"
+                                            placeholderTextColor={colors.textSecondary}
+                                            value={macros[key]}
+                                            onChangeText={value => setMacros({ ...macros, [key]: value })}
+                                            keyboardType="decimal-pad"
+                                        />
+                                    </View>
+                                ))}
+                            </View>
+
+                            <TouchableOpacity
+                                style={[styles.modalAddButton, { backgroundColor: colors.primary }]}
+                                onPress={handleAddEntry}
+                            >
+                                <Text style={styles.modalAddButtonText}>
+                                    {editingEntry ? t('calories.update') : t('common.add')}
+                                </Text>
+                            </TouchableOpacity>
+                        </ScrollView>
+                    </View>
+                </KeyboardAvoidingView>
+            </Modal>
 
-                        <Text style={[styles.inputLabel, { color: colors.text }]}>{t('calories.calories')}</Text>
+            {/* Save Meal Modal */}
+            <Modal
+                animationType="fade"
+                transparent={true}
+                visible={templateDraft !== null}
+                onRequestClose={closeTemplateModal}
+            >
+                <KeyboardAvoidingView
+                    behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+                    style={styles.modalOverlay}
+                    keyboardVerticalOffset={0}
+                >
+                    <TouchableWithoutFeedback onPress={closeTemplateModal}>
+                        <View style={styles.modalBackdrop} />
+                    </TouchableWithoutFeedback>
+
+                    <View style={[styles.modalContent, { backgroundColor: colors.card }]}>
+                        <View style={styles.modalHeader}>
+                            <Text style={[styles.modalTitle, { color: colors.text }]}>{t('calories.templates.save_title')}</Text>
+                            <TouchableOpacity onPress={closeTemplateModal}>
+                                <Ionicons name="close" size={24} color={colors.textSecondary} />
+                            </TouchableOpacity>
+                        </View>
+
+                        {templateDraft?.items.map(item => (
+                            <Text key={item.id} style={[styles.templateItem, { color: colors.textSecondary }]}>
+                                {item.food} · {item.calories} kcal
+                            </Text>
+                        ))}
+
+                        <Text style={[styles.inputLabel, { color: colors.text, marginTop: 12 }]}>{t('calories.templates.name')}</Text>
                         <TextInput
                             style={[styles.input, { backgroundColor: colors.inputBackground, color: colors.text, borderColor: colors.border }]}
-                            placeholder={t('calories.placeholder_calories')}
+                            placeholder={t('calories.templates.name_placeholder')}
                             placeholderTextColor={colors.textSecondary}
-                            value={calories}
-                            onChangeText={setCalories}
-                            keyboardType="number-pad"
+                            value={templateName}
+                            onChangeText={setTemplateName}
+                            autoFocus
                         />
 
                         <TouchableOpacity
                             style={[styles.modalAddButton, { backgroundColor: colors.primary }]}
-                            onPress={handleAddEntry}
+                            onPress={handleSaveTemplate}
                         >
-                            <Text style={styles.modalAddButtonText}>
-                                {editingEntry ? t('calories.update') : t('common.add')}
-                            </Text>
+                            <Text style={styles.modalAddButtonText}>{t('common.save')}</Text>
                         </TouchableOpacity>
                     </View>
                 </KeyboardAvoidingView>
@@ -412,6 +659,15 @@ const styles = StyleSheet.create({
     },
     dateHeaderText: { fontSize: 14, fontWeight: '700' },
     dateHeaderTotal: { fontSize: 14, fontWeight: 'bold' },
+    mealHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        paddingHorizontal: 4,
+        marginTop: 6,
+        marginBottom: 6,
+    },
+    mealHeaderText: { flex: 1, fontSize: 13, fontWeight: '600' },
     entryItem: {
         flexDirection: 'row',
         alignItems: 'center',
@@ -431,6 +687,7 @@ const styles = StyleSheet.create({
     entryInfo: { flex: 1 },
     entryFood: { fontSize: 16, fontWeight: '600' },
     entryTime: { fontSize: 12, marginTop: 2 },
+    entryMacros: { fontSize: 12, marginTop: 2 },
     entryCalories: { fontSize: 16, fontWeight: '700' },
     emptyContainer: {
         flex: 1,
@@ -471,6 +728,11 @@ const styles = StyleSheet.create({
     },
     modalTitle: { fontSize: 20, fontWeight: 'bold' },
     inputLabel: { fontSize: 14, marginBottom: 8, fontWeight: '500' },
+    labelRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'flex-start',
+    },
     input: {
         borderRadius: 12,
         padding: 16,
@@ -485,4 +747,26 @@ const styles = StyleSheet.create({
         marginTop: 10,
     },
     modalAddButtonText: { color: '#fff', fontSize: 16, fontWeight: 'bold' },
+    macroGrid: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+    },
+    macroField: { flexBasis: '30%', flexGrow: 1 },
+    macroLabel: { fontSize: 12, marginBottom: 4 },
+    macroInput: { padding: 10, marginBottom: 12 },
+    mealRow: {
+        flexDirection: 'row',
+        gap: 8,
+        marginBottom: 20,
+    },
+    mealChip: {
+        flex: 1,
+        alignItems: 'center',
+        gap: 4,
+        paddingVertical: 8,
+        borderRadius: 12,
+        borderWidth: 1,
+    },
+    templateItem: { fontSize: 14, marginBottom: 4 },
 });
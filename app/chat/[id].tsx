@@ -4,7 +4,7 @@ import { Ionicons } from '@expo/vector-icons';
 import React, { useState, useEffect } from 'react';
 import ChatInterface from '@/components/features/chat/ChatInterface';
 import { useLanguage } from '@/context/LanguageContext';
-import api from '@/services/api';
+import { getFriends, getSociusCompanions } from '@/services/apiClient';
 
 export default function ChatScreen() {
     const router = useRouter();
@@ -38,8 +38,8 @@ export default function ChatScreen() {
             try {
                 if (type === 'socius') {
                     const numericId = id.replace('socius-', '');
-                    const res = await api.get('/friends/socius');
-                    const companion = (res.data || []).find((c: any) => String(c.id) === numericId);
+                    const companions = await getSociusCompanions();
+                    const companion = companions.find(c => String(c.id) === numericId);
 
                     if (companion) {
                         setMetadata({
@@ -53,8 +53,8 @@ export default function ChatScreen() {
                     }
                 } else if (type === 'user') {
                     const numericId = id.replace('user-', '');
-                    const res = await api.get('/friends');
-                    const friend = (res.data || []).find((f: any) => String(f.friend_id) === numericId);
+                    const friends = await getFriends();
+                    const friend = friends.find(f => String(f.friend_id) === numericId);
 
                     if (friend) {
                         setMetadata({
@@ -0,0 +1,121 @@
+import React from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, FlatList } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Stack } from 'expo-router';
+import { useTheme } from '@/context/ThemeContext';
+import { useLanguage } from '@/context/LanguageContext';
+import { useValidationFailures } from '@/hooks/useValidationFailures';
+
+// Development builds only; settings hides the entry point in release builds
+export default function DiagnosticsScreen() {
+    const { colors } = useTheme();
+    const { t } = useLanguage();
+    const { failures, clear } = useValidationFailures();
+
+    if (!__DEV__) return null;
+
+    return (
+        <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['bottom']}>
+            <Stack.Screen
+                options={{
+                    headerRight: () => failures.length > 0 ? (
+                        <TouchableOpacity onPress={clear}>
+                            <Text style={{ color: colors.primary, fontSize: 16 }}>{t('diagnostics.clear')}</Text>
+                        </TouchableOpacity>
+                    ) : null
+                }}
+            />
+            <FlatList
+                data={failures}
+                keyExtractor={item => item.endpoint}
+                contentContainerStyle={styles.list}
+                ListHeaderComponent={
+                    <View style={styles.header}>
+                        <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+                            {t('diagnostics.validation_failures')}
+                        </Text>
+                        <Text style={[styles.hint, { color: colors.textSecondary }]}>{t('diagnostics.hint')}</Text>
+                    </View>
+                }
+                ListEmptyComponent={
+                    <Text style={[styles.empty, { color: colors.textSecondary }]}>{t('diagnostics.none')}</Text>
+                }
+                renderItem={({ item }) => (
+                    <View style={[styles.item, { backgroundColor: colors.card, borderColor: colors.border }]}>
+                        <View style={styles.itemHeader}>
+                            <Text style={[styles.endpoint, { color: colors.text }]}>{item.endpoint}</Text>
+                            <Text style={[styles.count, { color: colors.error }]}>
+                                {t('diagnostics.count')} {item.count}
+                            </Text>
+                        </View>
+                        <Text style={[styles.problem, { color: colors.text }]}>{item.problem}</Text>
+                        <Text style={[styles.sample, { color: colors.textSecondary, backgroundColor: colors.inputBackground }]}>
+                            {item.sample}
+                        </Text>
+                        <Text style={[styles.meta, { color: colors.textSecondary }]}>
+                            {t('diagnostics.last_seen')} {new Date(item.lastSeen).toLocaleTimeString()}
+                        </Text>
+                    </View>
+                )}
+            />
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    list: {
+        padding: 16,
+    },
+    header: {
+        marginBottom: 12,
+        gap: 4,
+    },
+    sectionTitle: {
+        fontSize: 13,
+        fontWeight: '600',
+        textTransform: 'uppercase',
+    },
+    hint: {
+        fontSize: 13,
+    },
+    empty: {
+        fontSize: 15,
+        textAlign: 'center',
+        marginTop: 40,
+    },
+    item: {
+        padding: 14,
+        borderRadius: 12,
+        borderWidth: 1,
+        marginBottom: 12,
+        gap: 6,
+    },
+    itemHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+    },
+    endpoint: {
+        fontSize: 15,
+        fontWeight: '600',
+    },
+    count: {
+        fontSize: 13,
+        fontWeight: '600',
+    },
+    problem: {
+        fontSize: 14,
+    },
+    sample: {
+        fontSize: 12,
+        fontFamily: 'monospace',
+        padding: 8,
+        borderRadius: 6,
+    },
+    meta: {
+        fontSize: 12,
+    },
+});
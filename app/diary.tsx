@@ -5,19 +5,21 @@ import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context'
 import { Stack } from 'expo-router';
 import { useTheme } from '@/context/ThemeContext';
 import { Ionicons } from '@expo/vector-icons';
-import api from '@/services/api';
+import { createDiaryEntry, deleteDiaryEntry, getDiaryEntries, updateDiaryEntry } from '@/services/apiClient';
+import { DiaryEntry } from '@/types/api';
 import { useLanguage } from '@/context/LanguageContext';
 import { useDebounce } from '@/hooks/useDebounce';
-
-type DiaryEntry = {
-    id: string;
-    date: string;
-    content: string;
-    title?: string;
-    created_at: string;
-};
+import AppLockGate from '@/components/features/lock/AppLockGate';
 
 export default function DiaryScreen() {
+    return (
+        <AppLockGate app="diary">
+            <DiaryContent />
+        </AppLockGate>
+    );
+}
+
+function DiaryContent() {
     const insets = useSafeAreaInsets();
     const { colors, isDark } = useTheme();
     const { t, language } = useLanguage();
@@ -25,7 +27,7 @@ export default function DiaryScreen() {
     const [isLoading, setIsLoading] = useState(true);
 
     // Edit States
-    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editingId, setEditingId] = useState<number | null>(null);
     const [editContent, setEditContent] = useState('');
     const [editTitle, setEditTitle] = useState('');
     const [isAutosaving, setIsAutosaving] = useState(false);
@@ -53,8 +55,7 @@ export default function DiaryScreen() {
     const fetchEntries = async () => {
         try {
             setIsLoading(true);
-            const res = await api.get('/diary');
-            setEntries(res.data);
+            setEntries(await getDiaryEntries());
         } catch (error) {
             console.error('Failed to fetch diary entries:', error);
         } finally {
@@ -74,17 +75,17 @@ export default function DiaryScreen() {
         setEditTitle('');
     };
 
-    const saveEdit = async (id: string, silent: boolean = false) => {
+    const saveEdit = async (id: number, silent: boolean = false) => {
         if (editContent.trim() === '' && editTitle.trim() === '') return;
 
         if (silent) setIsAutosaving(true);
 
         try {
-            const res = await api.put(`/diary/${id}`, {
+            const updated = await updateDiaryEntry(id, {
                 content: editContent,
                 title: editTitle.trim() === '' ? undefined : editTitle
             });
-            setEntries(entries.map(e => e.id === id ? res.data : e));
+            setEntries(entries.map(e => e.id === id ? updated : e));
 
             if (!silent) {
                 setModalVisible(false); // Close on manual save if needed, but we rely on autosave mostly
@@ -101,13 +102,12 @@ export default function DiaryScreen() {
         setIsAutosaving(true);
         try {
             const today = new Date().toISOString();
-            const res = await api.post('/diary', {
+            const newDiary = await createDiaryEntry({
                 content: editContent,
                 title: editTitle.trim() === '' ? undefined : editTitle,
                 date: today
             });
 
-            const newDiary = res.data;
             setEditingId(newDiary.id);
             setEntries(prev => [newDiary, ...prev]);
         } catch (error) {
@@ -190,7 +190,7 @@ export default function DiaryScreen() {
                                             style: 'destructive',
                                             onPress: async () => {
                                                 try {
-                                                    await api.delete(`/diary/${item.id}`);
+                                                    await deleteDiaryEntry(item.id);
                                                     setEntries(entries.filter(e => e.id !== item.id));
                                                 } catch (error) {
                                                     console.error('Failed to delete diary entry:', error);
@@ -247,7 +247,7 @@ export default function DiaryScreen() {
             ) : (
                 <FlatList
                     data={entries}
-                    keyExtractor={(item) => item.id}
+                    keyExtractor={(item) => String(item.id)}
                     renderItem={renderTimelineItem}
                     contentContainerStyle={styles.listContent}
                     showsVerticalScrollIndicator={false}
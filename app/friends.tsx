@@ -7,30 +7,25 @@ import { useNotifications } from '@/context/NotificationContext';
 import { useLanguage } from '@/context/LanguageContext';
 import { useRouter, Stack } from 'expo-router';
 import api from '@/services/api';
+import {
+    deleteConversation,
+    getFriendRequests,
+    getFriends,
+    removeFriend,
+    respondToFriendRequest,
+    searchUsers,
+    sendFriendRequest
+} from '@/services/apiClient';
+import { Friend, UserSearchResult } from '@/types/api';
 import { PROFILE_AVATAR_MAP } from '@/constants/avatars';
 
-type FriendItem = {
-    id: number;
-    friend_id: number;
-    friend_username: string;
-    friend_avatar?: string;
-    status: string;
-};
-
-type UserSearchResult = {
-    id: number;
-    username: string;
-    email: string;
-    custom_avatar_url?: string;
-};
-
 export default function FriendsScreen() {
     const router = useRouter();
     const { colors } = useTheme();
     const { t } = useLanguage();
     const [activeTab, setActiveTab] = useState<'friends' | 'requests'>('friends');
-    const [friends, setFriends] = useState<FriendItem[]>([]);
-    const [requests, setRequests] = useState<FriendItem[]>([]);
+    const [friends, setFriends] = useState<Friend[]>([]);
+    const [requests, setRequests] = useState<Friend[]>([]);
 
     const { refreshNotifications } = useNotifications();
 
@@ -49,8 +44,7 @@ export default function FriendsScreen() {
 
     const fetchFriends = async () => {
         try {
-            const res = await api.get('/friends');
-            setFriends(res.data);
+            setFriends(await getFriends());
         } catch (error) {
             console.error(error);
         }
@@ -58,8 +52,7 @@ export default function FriendsScreen() {
 
     const fetchRequests = async () => {
         try {
-            const res = await api.get('/friends/requests');
-            setRequests(res.data);
+            setRequests(await getFriendRequests());
         } catch (error) {
             console.error(error);
         }
@@ -79,8 +72,7 @@ export default function FriendsScreen() {
 
         setIsSearching(true);
         try {
-            const res = await api.get('/users/search', { params: { q: query } });
-            setSearchResults(res.data);
+            setSearchResults(await searchUsers(query));
         } catch (error) {
             console.error(error);
         } finally {
@@ -90,19 +82,19 @@ export default function FriendsScreen() {
 
     const sendRequest = async (username: string) => {
         try {
-            await api.post('/friends/request', { username });
+            await sendFriendRequest(username);
             Alert.alert(t('common.success'), `Friend request sent to ${username}`);
             setSearchQuery('');
             setSearchResults([]);
             setIsAddModalVisible(false);
         } catch (error: any) {
-            Alert.alert(t('common.error'), error.response?.data?.detail || 'Failed to send request');
+            Alert.alert(t('common.error'), error.detail || 'Failed to send request');
         }
     };
 
     const acceptRequest = async (id: number) => {
         try {
-            await api.post(`/friends/respond/${id}`, { action: 'accept' });
+            await respondToFriendRequest(id, 'accept');
             fetchRequests();
             fetchFriends();
             refreshNotifications();
@@ -113,7 +105,7 @@ export default function FriendsScreen() {
 
     const rejectRequest = async (id: number) => {
         try {
-            await api.post(`/friends/respond/${id}`, { action: 'reject' });
+            await respondToFriendRequest(id, 'reject');
             fetchRequests();
             refreshNotifications();
         } catch (error) {
@@ -133,8 +125,8 @@ export default function FriendsScreen() {
                     onPress: async () => {
                         try {
                             // Delete conversation history first to reset counts
-                            await api.delete(`/messages/user/${friendId}`).catch(() => { });
-                            await api.delete(`/friends/${friendId}`);
+                            await deleteConversation(friendId).catch(() => { });
+                            await removeFriend(friendId);
                             fetchFriends();
                             refreshNotifications();
                         } catch (error) {
@@ -146,7 +138,7 @@ export default function FriendsScreen() {
         );
     };
 
-    const renderFriendItem = ({ item }: { item: FriendItem }) => (
+    const renderFriendItem = ({ item }: { item: Friend }) => (
         <View style={[styles.friendCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
             {item.friend_avatar && getAvatarSource(item.friend_avatar) ? (
                 <Image
@@ -172,7 +164,7 @@ export default function FriendsScreen() {
         </View>
     );
 
-    const renderRequestItem = ({ item }: { item: FriendItem }) => (
+    const renderRequestItem = ({ item }: { item: Friend }) => (
         <View style={[styles.friendCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
             {item.friend_avatar && getAvatarSource(item.friend_avatar) ? (
                 <Image
@@ -8,7 +8,10 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useSession } from '@/context/AuthContext';
 import { useTheme } from '@/context/ThemeContext';
 import { useLanguage } from '@/context/LanguageContext';
-import api from '@/services/api';
+import { signInWithGoogle, updateMe } from '@/services/apiClient';
+import { STORAGE_KEYS, claimUserData } from '@/services/storageRegistry';
+import { IS_MOCK } from '@/constants/env';
+import { GoogleAuthRequest } from '@/types/api';
 
 
 
@@ -27,7 +30,7 @@ export default function LoginScreen() {
         const checkAuthAndOnboarding = async () => {
             try {
                 // 1. Check if user has selected language (First open)
-                const selectedLanguage = await AsyncStorage.getItem('selected_language');
+                const selectedLanguage = await AsyncStorage.getItem(STORAGE_KEYS.selectedLanguage);
 
                 if (!isMounted) return;
 
@@ -60,36 +63,42 @@ export default function LoginScreen() {
         setIsLoading(true);
         setError(null);
         try {
-            await GoogleSignin.hasPlayServices();
-            const signInResult = await GoogleSignin.signIn();
-            const idToken = signInResult?.data?.idToken;
+            // The mock backend accepts any token, so skip Google (and the network) entirely
+            let authRequest: GoogleAuthRequest = { id_token: 'mock-id-token' };
+            if (!IS_MOCK) {
+                await GoogleSignin.hasPlayServices();
+                const signInResult = await GoogleSignin.signIn();
+                const idToken = signInResult?.data?.idToken;
+
+                if (!idToken) {
+                    throw new Error('No ID token received');
+                }
 
-            if (!idToken) {
-                throw new Error('No ID token received');
-            }
+                // Get Google profile photo
+                const googlePhoto = signInResult?.data?.user?.photo || null;
+                const googleFirstName = signInResult?.data?.user?.givenName || null;
 
-            // Get Google profile photo
-            const googlePhoto = signInResult?.data?.user?.photo || null;
-            const googleFirstName = signInResult?.data?.user?.givenName || null;
+                authRequest = {
+                    id_token: idToken,
+                    photo: googlePhoto,
+                    username: googleFirstName
+                };
+            }
 
-            const response = await api.post('/auth/google', {
-                id_token: idToken,
-                photo: googlePhoto,
-                username: googleFirstName
-            });
-            const { access_token } = response.data;
+            const { access_token, user_id } = await signInWithGoogle(authRequest);
+            await claimUserData(user_id);
 
             await signIn(access_token);
 
             // Save language preference to backend after login
             try {
-                await api.put('/users/me', { language });
+                await updateMe({ language });
             } catch {
 
             }
 
             // Mark onboarding as complete
-            await AsyncStorage.setItem('onboarding_complete', 'true');
+            await AsyncStorage.setItem(STORAGE_KEYS.onboardingComplete, 'true');
 
             router.replace('/messages');
         } catch (err: any) {
@@ -6,7 +6,8 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '@/context/ThemeContext';
 import { useLanguage } from '@/context/LanguageContext';
-import api from '@/services/api';
+import { getSociusCompanions } from '@/services/apiClient';
+import { SociusCompanion } from '@/types/api';
 import { SOCIUS_AVATAR_MAP } from '@/constants/avatars';
 
 const { width } = Dimensions.get('window');
@@ -29,21 +30,11 @@ const SAMPLE_WORDS: Record<string, { word: string, phonetic: string, definitions
     'de': { word: 'Fernweh', phonetic: '/ˈfɛrnveː/', definitions: { en: 'Aching for far-off places.', ko: '먼 곳에 대한 동경/향수.' } }
 };
 
-interface MultilingualFriend {
-    id: number;
-    name: string;
-    avatar: string;
-    role: string;
-    multilingual_selection: string;
-    last_message: string;
-    last_message_time: string;
-}
-
 export default function LanguagesApp() {
     const { colors } = useTheme();
     const { t, language: userLang } = useLanguage();
     const router = useRouter();
-    const [friends, setFriends] = useState<MultilingualFriend[]>([]);
+    const [friends, setFriends] = useState<SociusCompanion[]>([]);
     const [refreshing, setRefreshing] = useState(false);
     const [wordIndex, setWordIndex] = useState(0); // For skipping words
 
@@ -52,9 +43,8 @@ export default function LanguagesApp() {
 
     const loadFriends = useCallback(async () => {
         try {
-            const response = await api.get('/friends/socius');
-            const allFriends = response.data || [];
-            const multilingual = allFriends.filter((f: any) => f.role === 'multilingual');
+            const allFriends = await getSociusCompanions();
+            const multilingual = allFriends.filter(f => f.role === 'multilingual');
             setFriends(multilingual);
         } catch (error) {
             console.error('Failed to load language friends', error);
@@ -118,7 +108,7 @@ export default function LanguagesApp() {
         setWordIndex(prev => prev + 1);
     };
 
-    const handleChatPress = (friend: MultilingualFriend) => {
+    const handleChatPress = (friend: SociusCompanion) => {
         router.push({
             pathname: '/chat/[id]',
             params: {
@@ -204,7 +194,7 @@ export default function LanguagesApp() {
                                 />
                                 <View style={styles.flagOverlay}>
                                     <Text style={styles.flagEmoji}>
-                                        {FLAGS[friend.multilingual_selection] || ''}
+                                        {FLAGS[friend.multilingual_selection || ''] || ''}
                                     </Text>
                                 </View>
                             </View>
@@ -16,16 +16,18 @@ import { useSession } from '@/context/AuthContext';
 import { useNotifications } from '@/context/NotificationContext';
 import { useLanguage } from '@/context/LanguageContext';
 import { SOCIUS_AVATAR_MAP, PROFILE_AVATAR_MAP } from '@/constants/avatars';
-import api from '@/services/api';
+import { getRecentConversations, getSociusCompanions } from '@/services/apiClient';
 import DraggableFlatList, { ScaleDecorator, RenderItemParams } from 'react-native-draggable-flatlist';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import TypingIndicator from '@/components/features/chat/widgets/TypingIndicator';
+import ConnectionBanner from '@/components/ui/ConnectionBanner';
 import { getCachedThreads, cacheThreads, CachedThread } from '@/services/ChatCache';
+import { STORAGE_KEYS } from '@/services/storageRegistry';
 import { DraggableAppsGrid } from '@/components/features/home/DraggableAppsGrid';
 import { stripJsonBlocks } from '@/utils/string';
 
 import { DEFAULT_APPS, AppItem } from '@/constants/apps';
-const APPS_ORDER_KEY = 'user_apps_order_v1';
+const APPS_ORDER_KEY = STORAGE_KEYS.appsOrder;
 
 interface ChatThread {
     id: string;
@@ -63,7 +65,7 @@ export default function MessagesScreen() {
     const loadAppsOrder = async () => {
         try {
             // Batch read instead of 2 separate calls - reduces iOS thread blocking
-            const keys = ['user_apps_two_row', APPS_ORDER_KEY];
+            const keys = [STORAGE_KEYS.appsTwoRow, APPS_ORDER_KEY];
             const results = await AsyncStorage.multiGet(keys);
 
             const twoRow = results[0][1];
@@ -175,33 +177,33 @@ export default function MessagesScreen() {
 
         try {
             // Load real user chats
-            const dmResponse = await api.get('/messages/recent');
-            const userThreads: ChatThread[] = (dmResponse.data || []).map((conv: any) => ({
+            const conversations = await getRecentConversations();
+            const userThreads: ChatThread[] = conversations.map(conv => ({
                 id: `user-${conv.friend_id}`,
                 type: 'user',
                 name: conv.friend_display_name || conv.friend_username,
-                avatar: conv.friend_avatar,
-                lastMessage: conv.last_message,
-                lastMessageTime: conv.last_message_time,
+                avatar: conv.friend_avatar ?? undefined,
+                lastMessage: conv.last_message ?? undefined,
+                lastMessageTime: conv.last_message_time ?? undefined,
                 unread: conv.unread_count || 0,
             }));
 
             // Load Socius AI friends from API
             try {
-                const sociusResponse = await api.get('/friends/socius');
+                const companions = await getSociusCompanions();
                 // Filter to only show Socius companions with actual messages
-                const sociusThreads: ChatThread[] = (sociusResponse.data || [])
-                    .filter((comp: any) => comp.last_message !== null || (comp.unread_count || 0) > 0)
-                    .map((comp: any) => ({
+                const sociusThreads: ChatThread[] = companions
+                    .filter(comp => comp.last_message !== null || (comp.unread_count || 0) > 0)
+                    .map(comp => ({
                         id: `socius-${comp.id}`,
                         type: 'socius',
                         name: comp.name,
                         avatar: comp.avatar,
-                        lastMessage: comp.last_message,
-                        lastMessageTime: comp.last_message_time,
-                        lastMessageIsFromUser: comp.last_message_is_from_user,
+                        lastMessage: comp.last_message ?? undefined,
+                        lastMessageTime: comp.last_message_time ?? undefined,
+                        lastMessageIsFromUser: comp.last_message_is_from_user ?? undefined,
                         sociusRole: comp.role,
-                        multilingual_selection: comp.multilingual_selection,
+                        multilingual_selection: comp.multilingual_selection ?? undefined,
                         unread: comp.unread_count || 0
                     }));
 
@@ -418,6 +420,7 @@ export default function MessagesScreen() {
     // Replace render logic
     return (
         <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['bottom']}>
+            <ConnectionBanner />
             {/* Apps Row (Draggable) */}
             <View style={[styles.appsContainer, isTwoRow && { height: 180 }]}>
                 {isTwoRow ? (
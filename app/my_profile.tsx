@@ -3,7 +3,7 @@ import { StyleSheet, View, Text, TextInput, TouchableOpacity, Image, Alert, Scro
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useRouter, useFocusEffect } from 'expo-router';
-import api from '@/services/api';
+import { getMe } from '@/services/apiClient';
 import { useSession } from '@/context/AuthContext';
 import { useTheme } from '@/context/ThemeContext';
 import { useLanguage } from '@/context/LanguageContext';
@@ -87,10 +87,10 @@ export default function ProfileScreen() {
 
     const loadBackendProfile = async () => {
         try {
-            const res = await api.get('/users/me');
-            if (res.data.username) {
-                setUsername(res.data.username);
-                setEditUsername(res.data.username);
+            const profile = await getMe();
+            if (profile.username) {
+                setUsername(profile.username);
+                setEditUsername(profile.username);
             }
 
         } catch {
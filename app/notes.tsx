@@ -4,26 +4,26 @@ import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context'
 import { Stack } from 'expo-router';
 import { useTheme } from '@/context/ThemeContext';
 import { Ionicons } from '@expo/vector-icons';
-import api from '@/services/api';
+import { createNote, deleteNote, getNotes, reorderNotes, updateNote } from '@/services/apiClient';
+import { NoteEntry } from '@/types/api';
 import { useLanguage } from '@/context/LanguageContext';
 import { useDebounce } from '@/hooks/useDebounce';
 import React, { useState, useEffect, useRef } from 'react';
 import GlobalAppShortcut from '../components/features/chat/GlobalAppShortcut';
+import AppLockGate from '@/components/features/lock/AppLockGate';
 
 const { width } = Dimensions.get('window');
 const COLUMN_WIDTH = (width - 40) / 2; // 16px side margins + 8px gap
 
-type NoteEntry = {
-    id: string;
-    date: string;
-    content: string;
-    title?: string;
-    position: number;
-    created_at: string;
-    updated_at: string;
-};
-
 export default function NotesScreen() {
+    return (
+        <AppLockGate app="notes">
+            <NotesContent />
+        </AppLockGate>
+    );
+}
+
+function NotesContent() {
     const insets = useSafeAreaInsets();
     const { colors, isDark } = useTheme();
     const { t, language } = useLanguage();
@@ -33,7 +33,7 @@ export default function NotesScreen() {
     const [searchQuery, setSearchQuery] = useState('');
 
     // Editing states
-    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editingId, setEditingId] = useState<number | null>(null);
     const [editContent, setEditContent] = useState('');
     const [editTitle, setEditTitle] = useState('');
     const [isAutosaving, setIsAutosaving] = useState(false);
@@ -63,9 +63,9 @@ export default function NotesScreen() {
     const fetchEntries = async () => {
         try {
             setIsLoading(true);
-            const res = await api.get('/notes');
-            setEntries(res.data);
-            setFilteredEntries(res.data);
+            const notes = await getNotes();
+            setEntries(notes);
+            setFilteredEntries(notes);
         } catch (error) {
             console.error('Failed to fetch notes:', error);
         } finally {
@@ -106,18 +106,18 @@ export default function NotesScreen() {
         setEditTitle('');
     };
 
-    const saveEdit = async (id: string, silent: boolean = false) => {
+    const saveEdit = async (id: number, silent: boolean = false) => {
         if (editContent.trim() === '' && editTitle.trim() === '') return;
 
         if (silent) setIsAutosaving(true);
 
         try {
-            const res = await api.put(`/notes/${id}`, {
+            const saved = await updateNote(id, {
                 content: editContent,
                 title: editTitle
             });
 
-            const updated = entries.map((e: NoteEntry) => e.id === id ? res.data : e);
+            const updated = entries.map((e: NoteEntry) => e.id === id ? saved : e);
             setEntries(updated);
 
             if (!silent) {
@@ -140,13 +140,12 @@ export default function NotesScreen() {
         setIsAutosaving(true);
         try {
             const today = new Date().toISOString();
-            const res = await api.post('/notes', {
+            const newNote = await createNote({
                 content: editContent,
                 title: editTitle.trim() === '' ? (t('common.untitled') || 'Untitled') : editTitle,
                 date: today
             });
 
-            const newNote = res.data;
             setEditingId(newNote.id);
             setEntries((prev: NoteEntry[]) => [newNote, ...prev]);
         } catch (error) {
@@ -186,9 +185,7 @@ export default function NotesScreen() {
     const handleReorder = async (newData: NoteEntry[]) => {
         setEntries(newData);
         try {
-            await api.put('/notes/reorder', {
-                note_ids: newData.map(n => parseInt(n.id))
-            });
+            await reorderNotes(newData.map(n => n.id));
         } catch (error) {
             console.error('Failed to sync note order:', error);
             Alert.alert(t('common.error'), 'Failed to save note order');
@@ -206,7 +203,7 @@ export default function NotesScreen() {
                     style: 'destructive',
                     onPress: async () => {
                         try {
-                            await api.delete(`/notes/${note.id}`);
+                            await deleteNote(note.id);
                             // Optimistic update
                             const newEntries = entries.filter(e => e.id !== note.id);
                             setEntries(newEntries);
@@ -3,6 +3,7 @@ import { StyleSheet, View, Text, TouchableOpacity, Image, FlatList, NativeSynthe
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter, Stack } from 'expo-router';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { STORAGE_KEYS } from '@/services/storageRegistry';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '@/context/ThemeContext';
 import { useLanguage } from '@/context/LanguageContext';
@@ -52,7 +53,7 @@ export default function OnboardingScreen() {
 
     const handleContinue = async () => {
         const selectedLang = LANGUAGES[activeIndex].code;
-        await AsyncStorage.setItem('selected_language', selectedLang);
+        await AsyncStorage.setItem(STORAGE_KEYS.selectedLanguage, selectedLang);
         router.replace('/');
     };
 
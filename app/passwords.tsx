@@ -1,20 +1,46 @@
-import React, { useState, useMemo } from 'react';
-import { KeyboardAvoidingView, Platform, StyleSheet, View, Text, TouchableOpacity, SectionList, Modal, TextInput, Alert, ActivityIndicator, TouchableWithoutFeedback, ScrollView } from 'react-native';
+import React, { useState, useMemo, useEffect } from 'react';
+import { KeyboardAvoidingView, Platform, StyleSheet, View, Text, TouchableOpacity, SectionList, Modal, TextInput, Alert, ActivityIndicator, TouchableWithoutFeedback, ScrollView, Linking } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { Stack } from 'expo-router';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import * as Clipboard from 'expo-clipboard';
 import { useTheme } from '@/context/ThemeContext';
 import { useLanguage } from '@/context/LanguageContext';
-import { usePasswords, PasswordAccount } from '@/hooks/usePasswords';
+import { usePasswords, PasswordAccount, CustomField, PasswordHistoryEntry } from '@/hooks/usePasswords';
+import { usePasswordGroups, groupLabel, resolveGroup, DEFAULT_GROUP, PasswordGroup } from '@/hooks/usePasswordGroups';
 import AppSpecificChatHead from '@/components/features/chat/AppSpecificChatHead';
+import VaultGate from '@/components/features/passwords/VaultGate';
+import AppLockGate from '@/components/features/lock/AppLockGate';
+import PasswordGenerator from '@/components/features/passwords/PasswordGenerator';
+import PasswordStrengthMeter from '@/components/features/passwords/PasswordStrengthMeter';
+import TotpCode from '@/components/features/passwords/TotpCode';
+import { formatTotpUri, parseTotpInput } from '@/utils/totp';
+import { copySecret } from '@/services/secureClipboard';
+
+// Entered as "work, banking"; stored trimmed and without repeats
+const parseTags = (text: string) =>
+    Array.from(new Set(text.split(',').map(tag => tag.trim()).filter(Boolean)));
+
+// Bare domains open as https
+const websiteUrl = (url: string) => /^[a-z][a-z\d+.-]*:/i.test(url) ? url : `https://${url}`;
 
-const GROUPS = ['social', 'work', 'personal', 'finance', 'other'];
 export default function PasswordsScreen() {
-    const { accounts, loading, saveAccount, deleteAccount } = usePasswords();
+    return (
+        <AppLockGate app="passwords">
+            <PasswordsContent />
+        </AppLockGate>
+    );
+}
+
+function PasswordsContent() {
+    const { accounts, loading, vaultState, setupVault, unlock, lock, saveAccount, deleteAccount } = usePasswords();
+    const { groups } = usePasswordGroups();
 
     const { colors, isDark } = useTheme();
     const { t } = useLanguage();
+    const router = useRouter();
+    // Set by the password audit to open an entry for editing
+    const { edit } = useLocalSearchParams<{ edit?: string }>();
 
     const [modalVisible, setModalVisible] = useState(false);
     const [searchQuery, setSearchQuery] = useState('');
@@ -25,18 +51,40 @@ export default function PasswordsScreen() {
     const [service, setService] = useState('');
     const [username, setUsername] = useState('');
     const [password, setPassword] = useState('');
-    const [group, setGroup] = useState('other');
+    const [group, setGroup] = useState(DEFAULT_GROUP);
+    const [totp, setTotp] = useState('');
+    const [url, setUrl] = useState('');
+    const [notes, setNotes] = useState('');
+    const [tags, setTags] = useState('');
+    const [customFields, setCustomFields] = useState<CustomField[]>([]);
+    const [history, setHistory] = useState<PasswordHistoryEntry[]>([]);
+    const [showHistory, setShowHistory] = useState(false);
+    const [visibleHistory, setVisibleHistory] = useState<Set<number>>(new Set());
+    const [showGenerator, setShowGenerator] = useState(false);
 
     const handleSave = async () => {
         if (!service.trim() || !password.trim()) {
             return;
         }
 
+        const totpConfig = totp.trim() ? parseTotpInput(totp) : null;
+        if (totp.trim() && !totpConfig) {
+            Alert.alert(t('passwords.totp.invalid'));
+            return;
+        }
+
         await saveAccount({
             service: service.trim(),
             username: username.trim(),
             password: password.trim(),
-            group
+            group,
+            totp: totpConfig ? formatTotpUri(totpConfig) : undefined,
+            url: url.trim() || undefined,
+            notes: notes.trim() || undefined,
+            tags: parseTags(tags),
+            customFields: customFields
+                .map(field => ({ key: field.key.trim(), value: field.value }))
+                .filter(field => field.key || field.value)
         }, editingId || undefined);
 
         closeModal();
@@ -64,29 +112,87 @@ export default function PasswordsScreen() {
             setUsername(account.username);
             setPassword(account.password);
             setGroup(account.group);
+            setTotp(account.totp || '');
+            setUrl(account.url || '');
+            setNotes(account.notes || '');
+            setTags((account.tags || []).join(', '));
+            setCustomFields(account.customFields || []);
+            setHistory(account.history || []);
         } else {
             setEditingId(null);
             setService('');
             setUsername('');
             setPassword('');
             setGroup('social');
+            setTotp('');
+            setUrl('');
+            setNotes('');
+            setTags('');
+            setCustomFields([]);
+            setHistory([]);
         }
+        setShowHistory(false);
+        setVisibleHistory(new Set());
         setModalVisible(true);
     };
 
     const closeModal = () => {
         setModalVisible(false);
+        setShowGenerator(false);
         setEditingId(null);
         setService('');
         setUsername('');
         setPassword('');
+        setTotp('');
+        setUrl('');
+        setNotes('');
+        setTags('');
+        setCustomFields([]);
+        setHistory([]);
+        setVisibleHistory(new Set());
+    };
+
+    const updateCustomField = (index: number, patch: Partial<CustomField>) => {
+        setCustomFields(fields => fields.map((field, i) => i === index ? { ...field, ...patch } : field));
     };
 
-    const copyToClipboard = async (text: string, type: 'username' | 'password') => {
-        await Clipboard.setStringAsync(text);
-        // Could show a toast here if configured, for now just standard behavior
+    // An otpauth:// link also names the service and account; use them for empty fields
+    const pasteTotp = async () => {
+        const text = (await Clipboard.getStringAsync()).trim();
+        setTotp(text);
+        const config = parseTotpInput(text);
+        if (config?.issuer && !service.trim()) setService(config.issuer);
+        if (config?.account && !username.trim()) setUsername(config.account);
     };
 
+    // Drop decrypted values held by the form once the vault locks
+    useEffect(() => {
+        if (vaultState === 'unlocked') return;
+        setModalVisible(false);
+        setEditingId(null);
+        setService('');
+        setUsername('');
+        setPassword('');
+        setTotp('');
+        setUrl('');
+        setNotes('');
+        setTags('');
+        setCustomFields([]);
+        setHistory([]);
+        setVisibleHistory(new Set());
+        setVisiblePasswords(new Set());
+    }, [vaultState]);
+
+    useEffect(() => {
+        if (!edit || vaultState !== 'unlocked' || loading) return;
+        const account = accounts.find(a => a.id === edit);
+        if (account) openModal(account);
+        router.setParams({ edit: undefined });
+        // openModal only sets form state
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [edit, vaultState, loading, accounts]);
+
+
     const toggleVisibility = (id: string) => {
         const newSet = new Set(visiblePasswords);
         if (newSet.has(id)) {
@@ -97,35 +203,53 @@ export default function PasswordsScreen() {
         setVisiblePasswords(newSet);
     };
 
+    const toggleHistoryVisibility = (index: number) => {
+        const newSet = new Set(visibleHistory);
+        if (newSet.has(index)) {
+            newSet.delete(index);
+        } else {
+            newSet.add(index);
+        }
+        setVisibleHistory(newSet);
+    };
+
     const filteredSections = useMemo(() => {
         let filtered = accounts;
         if (searchQuery) {
             const lower = searchQuery.toLowerCase();
             filtered = accounts.filter(a =>
-                a.service.toLowerCase().includes(lower) ||
-                a.username.toLowerCase().includes(lower)
+                [
+                    a.service,
+                    a.username,
+                    a.url,
+                    a.notes,
+                    ...(a.tags || []),
+                    ...(a.customFields || []).flatMap(field => [field.key, field.value]),
+                ].some(value => value?.toLowerCase().includes(lower))
             );
         }
 
         // Group by 'group'
         const grouped: { [key: string]: PasswordAccount[] } = {};
-        GROUPS.forEach(g => grouped[g] = []);
+        groups.forEach(g => grouped[g.id] = []);
 
         filtered.forEach(a => {
-            const g = GROUPS.includes(a.group) ? a.group : 'other';
-            grouped[g].push(a);
+            grouped[resolveGroup(groups, a.group).id].push(a);
         });
 
-        return GROUPS
+        return groups
             .map(g => ({
-                title: t(`passwords.groups.${g}` as any) || g.toUpperCase(),
-                data: grouped[g]
+                title: groupLabel(g, t),
+                group: g,
+                data: grouped[g.id]
             }))
             .filter(section => section.data.length > 0);
-    }, [accounts, searchQuery, t]);
+    }, [accounts, groups, searchQuery, t]);
 
-    const renderItem = ({ item }: { item: PasswordAccount }) => {
+    const renderItem = ({ item, section }: { item: PasswordAccount; section: { group: PasswordGroup } }) => {
         const isVisible = visiblePasswords.has(item.id);
+        const groupColor = section.group.color;
+        const website = item.url ? websiteUrl(item.url) : null;
 
         return (
             <TouchableOpacity
@@ -134,20 +258,32 @@ export default function PasswordsScreen() {
                 onLongPress={() => handleDelete(item.id)}
             >
                 <View style={styles.itemIcon}>
-                    {/* Placeholder icon based on group or generic */}
-                    <View style={[styles.iconCircle, { backgroundColor: isDark ? '#333' : '#f0f0f0' }]}>
-                        <Text style={[styles.iconText, { color: colors.primary }]}>
+                    <View style={[styles.iconCircle, { backgroundColor: `${groupColor}26` }]}>
+                        <Text style={[styles.iconText, { color: groupColor }]}>
                             {item.service.charAt(0).toUpperCase()}
                         </Text>
                     </View>
                 </View>
 
                 <View style={styles.itemContent}>
-                    <Text style={[styles.itemService, { color: colors.text }]}>{item.service}</Text>
+                    <View style={styles.serviceRow}>
+                        <Text style={[styles.itemService, { color: colors.text }]}>{item.service}</Text>
+                        {!!website && (
+                            <TouchableOpacity
+                                onPress={(e) => {
+                                    e.stopPropagation();
+                                    Linking.openURL(website).catch(err => console.error('Failed to open website', err));
+                                }}
+                                accessibilityLabel={t('passwords.details.open_url')}
+                            >
+                                <Ionicons name="open-outline" size={16} color={colors.textSecondary} />
+                            </TouchableOpacity>
+                        )}
+                    </View>
                     {!!item.username && (
                         <TouchableOpacity onPress={(e) => {
                             e.stopPropagation();
-                            copyToClipboard(item.username, 'username');
+                            copySecret(item.username, 'username');
                         }}>
                             <Text style={[styles.itemUsername, { color: colors.textSecondary }]}>{item.username}</Text>
                         </TouchableOpacity>
@@ -165,12 +301,22 @@ export default function PasswordsScreen() {
                             </TouchableOpacity>
                             <TouchableOpacity onPress={(e) => {
                                 e.stopPropagation();
-                                copyToClipboard(item.password, 'password');
+                                copySecret(item.password, 'password', item.id);
                             }} style={{ marginLeft: 12 }}>
                                 <Ionicons name="copy-outline" size={20} color={colors.textSecondary} />
                             </TouchableOpacity>
                         </View>
                     </View>
+                    {!!item.totp && <TotpCode uri={item.totp} />}
+                    {!!item.tags?.length && (
+                        <View style={styles.tags}>
+                            {item.tags.map(tag => (
+                                <Text key={tag} style={[styles.tag, { color: colors.textSecondary, backgroundColor: isDark ? '#333' : '#f0f0f0' }]}>
+                                    #{tag}
+                                </Text>
+                            ))}
+                        </View>
+                    )}
                 </View>
 
                 <Ionicons name="chevron-forward" size={20} color={colors.border} />
@@ -178,14 +324,37 @@ export default function PasswordsScreen() {
         );
     };
 
+    if (vaultState !== 'unlocked') {
+        return (
+            <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['bottom']}>
+                <Stack.Screen options={{ title: t('passwords.title'), headerRight: undefined }} />
+                <VaultGate state={vaultState} onSetup={setupVault} onUnlock={unlock} />
+            </SafeAreaView>
+        );
+    }
+
     return (
         <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['bottom']}>
             <Stack.Screen options={{
                 title: t('passwords.title'),
                 headerRight: () => (
-                    <TouchableOpacity onPress={() => openModal()} style={{ paddingRight: 8 }}>
-                        <Ionicons name="add-circle" size={28} color={colors.primary} />
-                    </TouchableOpacity>
+                    <View style={styles.headerActions}>
+                        <TouchableOpacity onPress={() => router.push('/passwords/audit')} accessibilityLabel={t('passwords.audit.title')}>
+                            <Ionicons name="shield-checkmark-outline" size={24} color={colors.primary} />
+                        </TouchableOpacity>
+                        <TouchableOpacity onPress={() => router.push('/passwords/transfer')} accessibilityLabel={t('passwords.transfer.title')}>
+                            <Ionicons name="swap-vertical-outline" size={24} color={colors.primary} />
+                        </TouchableOpacity>
+                        <TouchableOpacity onPress={() => router.push('/passwords/groups')} accessibilityLabel={t('passwords.custom_groups.manage')}>
+                            <Ionicons name="folder-open-outline" size={24} color={colors.primary} />
+                        </TouchableOpacity>
+                        <TouchableOpacity onPress={lock} accessibilityLabel={t('passwords.lock')}>
+                            <Ionicons name="lock-closed-outline" size={24} color={colors.primary} />
+                        </TouchableOpacity>
+                        <TouchableOpacity onPress={() => openModal()} style={{ paddingRight: 8 }}>
+                            <Ionicons name="add-circle" size={28} color={colors.primary} />
+                        </TouchableOpacity>
+                    </View>
                 ),
             }} />
 
@@ -215,8 +384,9 @@ export default function PasswordsScreen() {
                     sections={filteredSections}
                     keyExtractor={item => item.id}
                     renderItem={renderItem}
-                    renderSectionHeader={({ section: { title } }) => (
+                    renderSectionHeader={({ section: { title, group: sectionGroup } }) => (
                         <View style={[styles.sectionHeader, { backgroundColor: colors.background }]}>
+                            <Ionicons name={sectionGroup.icon as keyof typeof Ionicons.glyphMap} size={14} color={sectionGroup.color} />
                             <Text style={[styles.sectionHeaderText, { color: colors.textSecondary }]}>{title}</Text>
                         </View>
                     )}
@@ -278,36 +448,183 @@ export default function PasswordsScreen() {
                                 placeholderTextColor={colors.textSecondary}
                             />
 
-                            <Text style={[styles.label, { color: colors.textSecondary }]}>{t('passwords.password_placeholder')}</Text>
+                            <View style={styles.labelRow}>
+                                <Text style={[styles.label, { color: colors.textSecondary }]}>{t('passwords.password_placeholder')}</Text>
+                                <TouchableOpacity style={styles.generateToggle} onPress={() => setShowGenerator(!showGenerator)}>
+                                    <Ionicons name={showGenerator ? 'chevron-up' : 'dice-outline'} size={18} color={colors.primary} />
+                                    <Text style={[styles.generateToggleText, { color: colors.primary }]}>{t('passwords.generator.generate')}</Text>
+                                </TouchableOpacity>
+                            </View>
+                            <View style={styles.passwordField}>
+                                <TextInput
+                                    style={[styles.input, styles.passwordInput, { backgroundColor: colors.inputBackground, color: colors.text, borderColor: colors.border }]}
+                                    value={password}
+                                    onChangeText={setPassword}
+                                    secureTextEntry={false}
+                                    autoCapitalize="none"
+                                    autoCorrect={false}
+                                    placeholder="********"
+                                    placeholderTextColor={colors.textSecondary}
+                                />
+                                <PasswordStrengthMeter password={password} />
+                                {showGenerator && (
+                                    <PasswordGenerator service={service} group={group} onGenerate={setPassword} />
+                                )}
+                            </View>
+
+                            {history.length > 0 && (
+                                <View style={styles.history}>
+                                    <TouchableOpacity style={styles.generateToggle} onPress={() => setShowHistory(!showHistory)}>
+                                        <Ionicons name={showHistory ? 'chevron-up' : 'time-outline'} size={18} color={colors.primary} />
+                                        <Text style={[styles.generateToggleText, { color: colors.primary }]}>
+                                            {t('passwords.history.title').replace('{{count}}', String(history.length))}
+                                        </Text>
+                                    </TouchableOpacity>
+                                    {showHistory && history.map((entry, index) => {
+                                        const visible = visibleHistory.has(index);
+                                        const current = entry.password === password;
+                                        return (
+                                            <View key={`${entry.changedAt}-${index}`} style={[styles.historyRow, { borderBottomColor: colors.border }]}>
+                                                <View style={styles.historyContent}>
+                                                    <Text style={[styles.itemPassword, { color: colors.text }]}>
+                                                        {visible ? entry.password : '••••••••••••'}
+                                                    </Text>
+                                                    <Text style={[styles.historyDate, { color: colors.textSecondary }]}>
+                                                        {t('passwords.history.replaced').replace('{{date}}', new Date(entry.changedAt).toLocaleString())}
+                                                    </Text>
+                                                </View>
+                                                <TouchableOpacity onPress={() => toggleHistoryVisibility(index)}>
+                                                    <Ionicons name={visible ? 'eye-off' : 'eye'} size={20} color={colors.textSecondary} />
+                                                </TouchableOpacity>
+                                                <TouchableOpacity onPress={() => copySecret(entry.password, 'password')}>
+                                                    <Ionicons name="copy-outline" size={20} color={colors.textSecondary} />
+                                                </TouchableOpacity>
+                                                <TouchableOpacity
+                                                    onPress={() => setPassword(entry.password)}
+                                                    disabled={current}
+                                                    accessibilityLabel={t('passwords.history.restore')}
+                                                >
+                                                    <Ionicons name="arrow-undo-outline" size={20} color={current ? colors.border : colors.primary} />
+                                                </TouchableOpacity>
+                                            </View>
+                                        );
+                                    })}
+                                    {showHistory && (
+                                        <Text style={[styles.historyDate, { color: colors.textSecondary }]}>{t('passwords.history.restore_hint')}</Text>
+                                    )}
+                                </View>
+                            )}
+
+                            <View style={styles.labelRow}>
+                                <Text style={[styles.label, { color: colors.textSecondary }]}>{t('passwords.totp.label')}</Text>
+                                <TouchableOpacity style={styles.generateToggle} onPress={pasteTotp}>
+                                    <Ionicons name="clipboard-outline" size={18} color={colors.primary} />
+                                    <Text style={[styles.generateToggleText, { color: colors.primary }]}>{t('passwords.totp.paste')}</Text>
+                                </TouchableOpacity>
+                            </View>
                             <TextInput
                                 style={[styles.input, { backgroundColor: colors.inputBackground, color: colors.text, borderColor: colors.border }]}
-                                value={password}
-                                onChangeText={setPassword}
-                                secureTextEntry={false}
-                                placeholder="********"
+                                value={totp}
+                                onChangeText={setTotp}
+                                autoCapitalize="none"
+                                autoCorrect={false}
+                                placeholder={t('passwords.totp.placeholder')}
+                                placeholderTextColor={colors.textSecondary}
+                            />
+
+                            <Text style={[styles.label, { color: colors.textSecondary }]}>{t('passwords.details.url')}</Text>
+                            <TextInput
+                                style={[styles.input, { backgroundColor: colors.inputBackground, color: colors.text, borderColor: colors.border }]}
+                                value={url}
+                                onChangeText={setUrl}
+                                autoCapitalize="none"
+                                autoCorrect={false}
+                                keyboardType="url"
+                                placeholder="https://example.com"
                                 placeholderTextColor={colors.textSecondary}
                             />
 
                             <Text style={[styles.label, { color: colors.textSecondary }]}>{t('passwords.group_label')}</Text>
                             <View style={styles.groupContainer}>
-                                {GROUPS.map(g => (
+                                {groups.map(g => {
+                                    const selected = resolveGroup(groups, group).id === g.id;
+                                    return (
+                                        <TouchableOpacity
+                                            key={g.id}
+                                            style={[
+                                                styles.groupChip,
+                                                { backgroundColor: selected ? g.color : (isDark ? '#333' : '#f0f0f0') }
+                                            ]}
+                                            onPress={() => setGroup(g.id)}
+                                        >
+                                            <Ionicons name={g.icon as keyof typeof Ionicons.glyphMap} size={14} color={selected ? '#fff' : g.color} />
+                                            <Text style={[
+                                                styles.groupText,
+                                                { color: selected ? '#fff' : colors.text }
+                                            ]}>
+                                                {groupLabel(g, t)}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    );
+                                })}
+                            </View>
+
+                            <Text style={[styles.label, { color: colors.textSecondary }]}>{t('passwords.details.tags')}</Text>
+                            <TextInput
+                                style={[styles.input, { backgroundColor: colors.inputBackground, color: colors.text, borderColor: colors.border }]}
+                                value={tags}
+                                onChangeText={setTags}
+                                autoCapitalize="none"
+                                placeholder={t('passwords.details.tags_placeholder')}
+                                placeholderTextColor={colors.textSecondary}
+                            />
+
+                            <Text style={[styles.label, { color: colors.textSecondary }]}>{t('passwords.details.notes')}</Text>
+                            <TextInput
+                                style={[styles.input, styles.notesInput, { backgroundColor: colors.inputBackground, color: colors.text, borderColor: colors.border }]}
+                                value={notes}
+                                onChangeText={setNotes}
+                                multiline
+                                textAlignVertical="top"
+                                placeholderTextColor={colors.textSecondary}
+                            />
+
+                            <View style={styles.labelRow}>
+                                <Text style={[styles.label, { color: colors.textSecondary }]}>{t('passwords.details.custom_fields')}</Text>
+                                <TouchableOpacity
+                                    style={styles.generateToggle}
+                                    onPress={() => setCustomFields(fields => [...fields, { key: '', value: '' }])}
+                                >
+                                    <Ionicons name="add" size={18} color={colors.primary} />
+                                    <Text style={[styles.generateToggleText, { color: colors.primary }]}>{t('passwords.details.add_field')}</Text>
+                                </TouchableOpacity>
+                            </View>
+                            {customFields.map((field, index) => (
+                                <View key={index} style={styles.customField}>
+                                    <TextInput
+                                        style={[styles.input, styles.customFieldKey, { backgroundColor: colors.inputBackground, color: colors.text, borderColor: colors.border }]}
+                                        value={field.key}
+                                        onChangeText={key => updateCustomField(index, { key })}
+                                        placeholder={t('passwords.details.field_key')}
+                                        placeholderTextColor={colors.textSecondary}
+                                    />
+                                    <TextInput
+                                        style={[styles.input, styles.customFieldValue, { backgroundColor: colors.inputBackground, color: colors.text, borderColor: colors.border }]}
+                                        value={field.value}
+                                        onChangeText={value => updateCustomField(index, { value })}
+                                        autoCapitalize="none"
+                                        autoCorrect={false}
+                                        placeholder={t('passwords.details.field_value')}
+                                        placeholderTextColor={colors.textSecondary}
+                                    />
                                     <TouchableOpacity
-                                        key={g}
-                                        style={[
-                                            styles.groupChip,
-                                            { backgroundColor: group === g ? colors.primary : (isDark ? '#333' : '#f0f0f0') }
-                                        ]}
-                                        onPress={() => setGroup(g)}
+                                        onPress={() => setCustomFields(fields => fields.filter((_, i) => i !== index))}
+                                        accessibilityLabel={t('passwords.details.remove_field')}
                                     >
-                                        <Text style={[
-                                            styles.groupText,
-                                            { color: group === g ? '#fff' : colors.text }
-                                        ]}>
-                                            {t(`passwords.groups.${g}` as any) || g}
-                                        </Text>
+                                        <Ionicons name="remove-circle-outline" size={22} color={colors.danger} />
                                     </TouchableOpacity>
-                                ))}
-                            </View>
+                                </View>
+                            ))}
 
                             <TouchableOpacity
                                 style={[styles.saveButton, { backgroundColor: colors.primary }]}
@@ -330,6 +647,11 @@ const styles = StyleSheet.create({
     container: {
         flex: 1,
     },
+    headerActions: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 16,
+    },
     searchContainer: {
         padding: 16,
         paddingTop: 8,
@@ -352,6 +674,9 @@ const styles = StyleSheet.create({
         paddingBottom: 80,
     },
     sectionHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
         paddingVertical: 8,
         paddingHorizontal: 16,
     },
@@ -385,11 +710,29 @@ const styles = StyleSheet.create({
         flex: 1,
         marginRight: 10,
     },
+    serviceRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+    },
     itemService: {
         fontSize: 17,
         fontWeight: '600',
         marginBottom: 2,
     },
+    tags: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 4,
+        marginTop: 6,
+    },
+    tag: {
+        fontSize: 12,
+        paddingHorizontal: 6,
+        paddingVertical: 2,
+        borderRadius: 6,
+        overflow: 'hidden',
+    },
     itemUsername: {
         fontSize: 14,
         marginBottom: 4,
@@ -470,6 +813,27 @@ const styles = StyleSheet.create({
         borderWidth: 1,
         marginBottom: 20,
     },
+    labelRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+    },
+    generateToggle: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        marginTop: 4,
+    },
+    generateToggleText: {
+        fontSize: 14,
+        fontWeight: '600',
+    },
+    passwordField: {
+        marginBottom: 20,
+    },
+    passwordInput: {
+        marginBottom: 0,
+    },
     groupContainer: {
         flexDirection: 'row',
         flexWrap: 'wrap',
@@ -477,6 +841,9 @@ const styles = StyleSheet.create({
         marginTop: 4,
     },
     groupChip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
         paddingVertical: 8,
         paddingHorizontal: 16,
         borderRadius: 20,
@@ -485,6 +852,42 @@ const styles = StyleSheet.create({
         fontSize: 14,
         fontWeight: '500',
     },
+    history: {
+        marginTop: -8,
+        marginBottom: 20,
+        gap: 4,
+    },
+    historyRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 14,
+        paddingVertical: 8,
+        borderBottomWidth: StyleSheet.hairlineWidth,
+    },
+    historyContent: {
+        flex: 1,
+    },
+    historyDate: {
+        fontSize: 12,
+        marginTop: 2,
+    },
+    notesInput: {
+        minHeight: 90,
+    },
+    customField: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        marginBottom: 12,
+    },
+    customFieldKey: {
+        flex: 2,
+        marginBottom: 0,
+    },
+    customFieldValue: {
+        flex: 3,
+        marginBottom: 0,
+    },
     saveButton: {
         height: 50,
         borderRadius: 12,
@@ -0,0 +1,254 @@
+import React, { useMemo, useState } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, FlatList, ScrollView, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Stack, useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useTheme } from '@/context/ThemeContext';
+import { useLanguage } from '@/context/LanguageContext';
+import { usePasswordAudit } from '@/hooks/usePasswordAudit';
+import { PasswordAccount } from '@/hooks/usePasswords';
+import { AUDIT_ISSUES, AuditEntry, AuditIssue, STALE_AGE_OPTIONS } from '@/utils/passwordAudit';
+import VaultGate from '@/components/features/passwords/VaultGate';
+import AppLockGate from '@/components/features/lock/AppLockGate';
+
+export default function PasswordAuditScreen() {
+    return (
+        <AppLockGate app="passwords">
+            <PasswordAuditContent />
+        </AppLockGate>
+    );
+}
+
+function PasswordAuditContent() {
+    const { audit, lastCopied, loading, vaultState, setupVault, unlock, staleAgeDays, setStaleAgeDays } = usePasswordAudit();
+    const { colors } = useTheme();
+    const { t } = useLanguage();
+    const router = useRouter();
+    const [filter, setFilter] = useState<AuditIssue | null>(null);
+
+    const entries = useMemo(
+        () => audit.entries.filter(entry => filter ? entry.issues.includes(filter) : entry.issues.length > 0),
+        [audit, filter]
+    );
+
+    const scoreColor = audit.score >= 80 ? colors.success : audit.score >= 50 ? colors.warning : colors.danger;
+
+    // Back to the list with the entry's edit form open, rather than stacking another list
+    const openAccount = (id: string) => router.dismissTo({ pathname: '/passwords', params: { edit: id } });
+
+    const issueLabel = (entry: AuditEntry<PasswordAccount>, issue: AuditIssue) => {
+        switch (issue) {
+            case 'reused':
+                return t('passwords.audit.issue_reused').replace('{{count}}', String(entry.reusedWith.length));
+            case 'similar':
+                return t('passwords.audit.issue_similar').replace('{{count}}', String(entry.similarTo.length));
+            case 'stale':
+                return t('passwords.audit.issue_stale').replace('{{count}}', String(entry.ageDays));
+            default:
+                return t('passwords.audit.issue_weak');
+        }
+    };
+
+    if (vaultState !== 'unlocked') {
+        return (
+            <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['bottom']}>
+                <VaultGate state={vaultState} onSetup={setupVault} onUnlock={unlock} />
+            </SafeAreaView>
+        );
+    }
+
+    const renderItem = ({ item }: { item: AuditEntry<PasswordAccount> }) => (
+        <TouchableOpacity
+            style={[styles.item, { backgroundColor: colors.card, borderBottomColor: colors.border }]}
+            onPress={() => openAccount(item.account.id)}
+        >
+            <View style={styles.itemContent}>
+                <Text style={[styles.itemService, { color: colors.text }]}>{item.account.service}</Text>
+                {!!item.account.username && (
+                    <Text style={[styles.itemUsername, { color: colors.textSecondary }]}>{item.account.username}</Text>
+                )}
+                <Text style={[styles.itemMeta, { color: colors.textSecondary }]}>
+                    {lastCopied[item.account.id]
+                        ? t('passwords.clipboard.last_copied').replace('{{date}}', new Date(lastCopied[item.account.id]).toLocaleDateString())
+                        : t('passwords.clipboard.never_copied')}
+                </Text>
+                <View style={styles.badges}>
+                    {item.issues.map(issue => (
+                        <View key={issue} style={[styles.badge, { borderColor: issue === 'stale' ? colors.warning : colors.danger }]}>
+                            <Text style={[styles.badgeText, { color: issue === 'stale' ? colors.warning : colors.danger }]}>
+                                {issueLabel(item, issue)}
+                            </Text>
+                        </View>
+                    ))}
+                </View>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color={colors.border} />
+        </TouchableOpacity>
+    );
+
+    return (
+        <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['bottom']}>
+            <Stack.Screen options={{ title: t('passwords.audit.title') }} />
+            {loading ? (
+                <ActivityIndicator size="large" color={colors.primary} style={{ marginTop: 20 }} />
+            ) : (
+                <FlatList
+                    data={entries}
+                    keyExtractor={item => item.account.id}
+                    renderItem={renderItem}
+                    contentContainerStyle={styles.listContent}
+                    ListHeaderComponent={
+                        <View>
+                            <View style={[styles.summary, { backgroundColor: colors.card, borderColor: colors.border }]}>
+                                <Text style={[styles.score, { color: scoreColor }]} testID="vault-health-score">{audit.score}</Text>
+                                <Text style={[styles.scoreLabel, { color: colors.textSecondary }]}>{t('passwords.audit.health_score')}</Text>
+                                <Text style={[styles.scoreHint, { color: colors.textSecondary }]}>
+                                    {t('passwords.audit.checked').replace('{{count}}', String(audit.entries.length))}
+                                </Text>
+                            </View>
+
+                            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+                                {AUDIT_ISSUES.map(issue => {
+                                    const selected = filter === issue;
+                                    return (
+                                        <TouchableOpacity
+                                            key={issue}
+                                            style={[styles.chip, { backgroundColor: selected ? colors.primary : colors.card, borderColor: selected ? colors.primary : colors.border }]}
+                                            onPress={() => setFilter(selected ? null : issue)}
+                                        >
+                                            <Text style={[styles.chipText, { color: selected ? '#fff' : colors.text }]}>
+                                                {t(`passwords.audit.filter_${issue}`)} · {audit.counts[issue]}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    );
+                                })}
+                            </ScrollView>
+
+                            <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>{t('passwords.audit.stale_after')}</Text>
+                            <View style={styles.chips}>
+                                {STALE_AGE_OPTIONS.map(days => {
+                                    const selected = staleAgeDays === days;
+                                    return (
+                                        <TouchableOpacity
+                                            key={days}
+                                            style={[styles.chip, { backgroundColor: selected ? colors.primary : colors.card, borderColor: selected ? colors.primary : colors.border }]}
+                                            onPress={() => setStaleAgeDays(days)}
+                                        >
+                                            <Text style={[styles.chipText, { color: selected ? '#fff' : colors.text }]}>
+                                                {t('passwords.audit.days').replace('{{count}}', String(days))}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    );
+                                })}
+                            </View>
+                        </View>
+                    }
+                    ListEmptyComponent={
+                        <View style={styles.emptyContainer}>
+                            <Ionicons name="shield-checkmark-outline" size={48} color={colors.success} />
+                            <Text style={[styles.emptyText, { color: colors.textSecondary }]}>{t('passwords.audit.no_issues')}</Text>
+                        </View>
+                    }
+                />
+            )}
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    listContent: {
+        paddingBottom: 40,
+    },
+    summary: {
+        alignItems: 'center',
+        margin: 16,
+        padding: 20,
+        borderRadius: 16,
+        borderWidth: 1,
+    },
+    score: {
+        fontSize: 48,
+        fontWeight: 'bold',
+    },
+    scoreLabel: {
+        fontSize: 14,
+        fontWeight: '600',
+    },
+    scoreHint: {
+        fontSize: 12,
+        marginTop: 4,
+    },
+    sectionTitle: {
+        fontSize: 13,
+        fontWeight: '600',
+        textTransform: 'uppercase',
+        paddingHorizontal: 16,
+        marginTop: 8,
+    },
+    chips: {
+        flexDirection: 'row',
+        gap: 8,
+        paddingHorizontal: 16,
+        paddingVertical: 8,
+    },
+    chip: {
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 16,
+        borderWidth: 1,
+    },
+    chipText: {
+        fontSize: 13,
+        fontWeight: '500',
+    },
+    item: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        padding: 16,
+        borderBottomWidth: StyleSheet.hairlineWidth,
+    },
+    itemContent: {
+        flex: 1,
+        marginRight: 10,
+    },
+    itemService: {
+        fontSize: 17,
+        fontWeight: '600',
+        marginBottom: 2,
+    },
+    itemUsername: {
+        fontSize: 14,
+    },
+    itemMeta: {
+        fontSize: 12,
+        marginTop: 2,
+    },
+    badges: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 6,
+        marginTop: 6,
+    },
+    badge: {
+        paddingHorizontal: 8,
+        paddingVertical: 2,
+        borderRadius: 10,
+        borderWidth: 1,
+    },
+    badgeText: {
+        fontSize: 12,
+        fontWeight: '500',
+    },
+    emptyContainer: {
+        alignItems: 'center',
+        justifyContent: 'center',
+        paddingTop: 40,
+    },
+    emptyText: {
+        marginTop: 12,
+        fontSize: 16,
+    },
+});
@@ -0,0 +1,327 @@
+import React, { useMemo, useState } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, TextInput, ScrollView, Alert, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Stack } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useTheme } from '@/context/ThemeContext';
+import { useLanguage } from '@/context/LanguageContext';
+import { usePasswords } from '@/hooks/usePasswords';
+import {
+    BUILT_IN_GROUPS,
+    GROUP_COLORS,
+    GROUP_ICONS,
+    PasswordGroup,
+    groupLabel,
+    resolveGroup,
+    usePasswordGroups
+} from '@/hooks/usePasswordGroups';
+import VaultGate from '@/components/features/passwords/VaultGate';
+import AppLockGate from '@/components/features/lock/AppLockGate';
+
+// The group being edited; no id while a new one is drafted
+type GroupDraft = {
+    id?: string;
+    name: string;
+    icon: string;
+    color: string;
+};
+
+export default function PasswordGroupsScreen() {
+    return (
+        <AppLockGate app="passwords">
+            <PasswordGroupsContent />
+        </AppLockGate>
+    );
+}
+
+function PasswordGroupsContent() {
+    const { accounts, loading, vaultState, setupVault, unlock } = usePasswords();
+    const { groups, customGroups, saveGroup, deleteGroup } = usePasswordGroups();
+    const { colors } = useTheme();
+    const { t } = useLanguage();
+    const [draft, setDraft] = useState<GroupDraft | null>(null);
+
+    const counts = useMemo(() => {
+        const byGroup: Record<string, number> = {};
+        accounts.forEach(account => {
+            const id = resolveGroup(groups, account.group).id;
+            byGroup[id] = (byGroup[id] || 0) + 1;
+        });
+        return byGroup;
+    }, [accounts, groups]);
+
+    const startDraft = (group?: PasswordGroup) => {
+        setDraft(group
+            ? { id: group.id, name: group.name, icon: group.icon, color: group.color }
+            : { name: '', icon: GROUP_ICONS[0], color: GROUP_COLORS[0] });
+    };
+
+    const handleSave = async () => {
+        if (!draft || !draft.name.trim()) return;
+        await saveGroup({ name: draft.name, icon: draft.icon, color: draft.color }, draft.id);
+        setDraft(null);
+    };
+
+    const handleDelete = () => {
+        const id = draft?.id;
+        if (!id) return;
+        Alert.alert(
+            t('common.confirm'),
+            t('passwords.custom_groups.delete_confirm'),
+            [
+                { text: t('common.cancel'), style: 'cancel' },
+                {
+                    text: t('passwords.custom_groups.delete'),
+                    style: 'destructive',
+                    onPress: async () => {
+                        await deleteGroup(id);
+                        setDraft(null);
+                    }
+                }
+            ]
+        );
+    };
+
+    if (vaultState !== 'unlocked') {
+        return (
+            <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['bottom']}>
+                <VaultGate state={vaultState} onSetup={setupVault} onUnlock={unlock} />
+            </SafeAreaView>
+        );
+    }
+
+    const renderGroup = (group: PasswordGroup) => (
+        <TouchableOpacity
+            key={group.id}
+            style={[styles.row, { borderBottomColor: colors.border }]}
+            onPress={() => startDraft(group)}
+            disabled={group.builtIn}
+        >
+            <View style={[styles.iconCircle, { backgroundColor: `${group.color}26` }]}>
+                <Ionicons name={group.icon as keyof typeof Ionicons.glyphMap} size={18} color={group.color} />
+            </View>
+            <View style={styles.rowContent}>
+                <Text style={[styles.rowTitle, { color: colors.text }]}>{groupLabel(group, t)}</Text>
+                <Text style={[styles.rowMeta, { color: colors.textSecondary }]}>
+                    {t('passwords.custom_groups.count').replace('{{count}}', String(counts[group.id] || 0))}
+                </Text>
+            </View>
+            {!group.builtIn && <Ionicons name="chevron-forward" size={20} color={colors.border} />}
+        </TouchableOpacity>
+    );
+
+    return (
+        <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['bottom']}>
+            <Stack.Screen options={{ title: t('passwords.custom_groups.title') }} />
+            {loading ? (
+                <ActivityIndicator size="large" color={colors.primary} style={{ marginTop: 20 }} />
+            ) : (
+                <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+                    {draft && (
+                        <View style={[styles.section, { backgroundColor: colors.card }]}>
+                            <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+                                {draft.id ? t('passwords.custom_groups.edit') : t('passwords.custom_groups.add')}
+                            </Text>
+
+                            <Text style={[styles.label, { color: colors.textSecondary }]}>{t('passwords.custom_groups.name')}</Text>
+                            <TextInput
+                                style={[styles.input, { backgroundColor: colors.inputBackground, color: colors.text, borderColor: colors.border }]}
+                                value={draft.name}
+                                onChangeText={name => setDraft({ ...draft, name })}
+                                placeholder={t('passwords.custom_groups.name_placeholder')}
+                                placeholderTextColor={colors.textSecondary}
+                                autoFocus={!draft.id}
+                            />
+
+                            <Text style={[styles.label, { color: colors.textSecondary }]}>{t('passwords.custom_groups.icon')}</Text>
+                            <View style={styles.grid}>
+                                {GROUP_ICONS.map(icon => {
+                                    const selected = draft.icon === icon;
+                                    return (
+                                        <TouchableOpacity
+                                            key={icon}
+                                            style={[styles.iconOption, { backgroundColor: selected ? draft.color : colors.inputBackground }]}
+                                            onPress={() => setDraft({ ...draft, icon })}
+                                        >
+                                            <Ionicons name={icon as keyof typeof Ionicons.glyphMap} size={20} color={selected ? '#fff' : colors.text} />
+                                        </TouchableOpacity>
+                                    );
+                                })}
+                            </View>
+
+                            <Text style={[styles.label, { color: colors.textSecondary }]}>{t('passwords.custom_groups.color')}</Text>
+                            <View style={styles.grid}>
+                                {GROUP_COLORS.map(color => (
+                                    <TouchableOpacity
+                                        key={color}
+                                        style={[styles.colorOption, { backgroundColor: color, borderColor: draft.color === color ? colors.text : 'transparent' }]}
+                                        onPress={() => setDraft({ ...draft, color })}
+                                    >
+                                        {draft.color === color && <Ionicons name="checkmark" size={18} color="#fff" />}
+                                    </TouchableOpacity>
+                                ))}
+                            </View>
+
+                            <View style={styles.actions}>
+                                {!!draft.id && (
+                                    <TouchableOpacity style={styles.textButton} onPress={handleDelete}>
+                                        <Text style={[styles.textButtonLabel, { color: colors.danger }]}>{t('passwords.custom_groups.delete')}</Text>
+                                    </TouchableOpacity>
+                                )}
+                                <View style={styles.spacer} />
+                                <TouchableOpacity style={styles.textButton} onPress={() => setDraft(null)}>
+                                    <Text style={[styles.textButtonLabel, { color: colors.textSecondary }]}>{t('common.cancel')}</Text>
+                                </TouchableOpacity>
+                                <TouchableOpacity
+                                    style={[styles.button, { backgroundColor: colors.primary, opacity: draft.name.trim() ? 1 : 0.5 }]}
+                                    onPress={handleSave}
+                                    disabled={!draft.name.trim()}
+                                >
+                                    <Text style={styles.buttonText}>{t('common.save')}</Text>
+                                </TouchableOpacity>
+                            </View>
+                        </View>
+                    )}
+
+                    <View style={[styles.section, { backgroundColor: colors.card }]}>
+                        <View style={styles.sectionHeader}>
+                            <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>{t('passwords.custom_groups.yours')}</Text>
+                            {!draft && (
+                                <TouchableOpacity style={styles.addButton} onPress={() => startDraft()}>
+                                    <Ionicons name="add" size={18} color={colors.primary} />
+                                    <Text style={[styles.textButtonLabel, { color: colors.primary }]}>{t('passwords.custom_groups.add')}</Text>
+                                </TouchableOpacity>
+                            )}
+                        </View>
+                        {customGroups.length > 0
+                            ? customGroups.map(renderGroup)
+                            : <Text style={[styles.hint, { color: colors.textSecondary }]}>{t('passwords.custom_groups.empty')}</Text>}
+                    </View>
+
+                    <View style={[styles.section, { backgroundColor: colors.card }]}>
+                        <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>{t('passwords.custom_groups.built_in')}</Text>
+                        {BUILT_IN_GROUPS.map(renderGroup)}
+                    </View>
+                </ScrollView>
+            )}
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    content: {
+        padding: 16,
+        gap: 16,
+    },
+    section: {
+        borderRadius: 12,
+        padding: 16,
+        gap: 10,
+    },
+    sectionHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+    },
+    sectionTitle: {
+        fontSize: 13,
+        fontWeight: '600',
+        textTransform: 'uppercase',
+    },
+    hint: {
+        fontSize: 13,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 8,
+        borderBottomWidth: StyleSheet.hairlineWidth,
+    },
+    iconCircle: {
+        width: 36,
+        height: 36,
+        borderRadius: 18,
+        alignItems: 'center',
+        justifyContent: 'center',
+        marginRight: 12,
+    },
+    rowContent: {
+        flex: 1,
+    },
+    rowTitle: {
+        fontSize: 16,
+        fontWeight: '500',
+    },
+    rowMeta: {
+        fontSize: 13,
+        marginTop: 2,
+    },
+    label: {
+        fontSize: 14,
+        fontWeight: '600',
+        marginTop: 4,
+    },
+    input: {
+        borderRadius: 12,
+        padding: 14,
+        fontSize: 16,
+        borderWidth: 1,
+    },
+    grid: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+    },
+    iconOption: {
+        width: 40,
+        height: 40,
+        borderRadius: 10,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    colorOption: {
+        width: 32,
+        height: 32,
+        borderRadius: 16,
+        borderWidth: 2,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    actions: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        marginTop: 8,
+    },
+    spacer: {
+        flex: 1,
+    },
+    addButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+    },
+    textButton: {
+        paddingVertical: 8,
+        paddingHorizontal: 4,
+    },
+    textButtonLabel: {
+        fontSize: 15,
+        fontWeight: '600',
+    },
+    button: {
+        height: 42,
+        borderRadius: 12,
+        alignItems: 'center',
+        justifyContent: 'center',
+        paddingHorizontal: 20,
+    },
+    buttonText: {
+        color: '#fff',
+        fontSize: 16,
+        fontWeight: 'bold',
+    },
+});
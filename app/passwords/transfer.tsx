@@ -0,0 +1,401 @@
+import React, { useState } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, TextInput, ScrollView, Switch, Alert, ActivityIndicator, Platform } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Stack } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useTheme } from '@/context/ThemeContext';
+import { useLanguage } from '@/context/LanguageContext';
+import { useAppLock } from '@/hooks/useAppLock';
+import { ExportFormat, usePasswordTransfer } from '@/hooks/usePasswordTransfer';
+import { PasswordAccount } from '@/hooks/usePasswords';
+import { updateAppLockSettings } from '@/services/appLock';
+import { MIN_PASSPHRASE_LENGTH, isVaultBackup, isVaultError } from '@/services/vault';
+import { ImportPlan, isTransferError } from '@/utils/passwordTransfer';
+import VaultGate from '@/components/features/passwords/VaultGate';
+import AppLockGate from '@/components/features/lock/AppLockGate';
+import PinSetupModal from '@/components/features/lock/PinSetupModal';
+
+const EXPORT_FORMATS: { format: ExportFormat; icon: keyof typeof Ionicons.glyphMap }[] = [
+    { format: 'backup', icon: 'shield-outline' },
+    { format: 'csv', icon: 'document-text-outline' },
+    { format: 'bitwarden', icon: 'code-slash-outline' },
+];
+
+export default function PasswordTransferScreen() {
+    return (
+        <AppLockGate app="passwords">
+            <PasswordTransferContent />
+        </AppLockGate>
+    );
+}
+
+function PasswordTransferContent() {
+    const { vaultState, setupVault, unlock, accounts, pickImportFile, prepareImport, applyImport, exportVault } = usePasswordTransfer();
+    const appLock = useAppLock();
+    const { colors } = useTheme();
+    const { t } = useLanguage();
+
+    const [showPinSetup, setShowPinSetup] = useState(false);
+    const [busy, setBusy] = useState(false);
+    // A picked backup waiting for its passphrase
+    const [pendingBackup, setPendingBackup] = useState<string | null>(null);
+    const [plan, setPlan] = useState<ImportPlan<PasswordAccount> | null>(null);
+    const [replaceChanged, setReplaceChanged] = useState(false);
+    const [exportingBackup, setExportingBackup] = useState(false);
+    const [passphrase, setPassphrase] = useState('');
+    const [confirmation, setConfirmation] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    // Whole-vault files leave the app, so they need the app lock in front of them
+    const lockEnabled = appLock.hasPin && appLock.settings.apps.passwords;
+
+    const resetForms = () => {
+        setPendingBackup(null);
+        setPlan(null);
+        setReplaceChanged(false);
+        setExportingBackup(false);
+        setPassphrase('');
+        setConfirmation('');
+        setError(null);
+    };
+
+    const describeError = (e: unknown) => {
+        if (isTransferError(e)) return t(`passwords.transfer.error_${e.code}`);
+        if (isVaultError(e) && e.code === 'wrong_passphrase') return t('passwords.wrong_passphrase');
+        console.error('Password import failed', e);
+        return t('passwords.transfer.error_unrecognized');
+    };
+
+    const readFile = async (text: string, backupPassphrase?: string) => {
+        setBusy(true);
+        setError(null);
+        try {
+            setPlan(await prepareImport(text, backupPassphrase));
+            setPendingBackup(null);
+            setPassphrase('');
+        } catch (e) {
+            setError(describeError(e));
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const chooseFile = async () => {
+        resetForms();
+        try {
+            const text = await pickImportFile();
+            if (text === null) return;
+            if (isVaultBackup(text)) {
+                setPendingBackup(text);
+                return;
+            }
+            await readFile(text);
+        } catch (e) {
+            setError(describeError(e));
+        }
+    };
+
+    const confirmImport = async () => {
+        if (!plan) return;
+        setBusy(true);
+        try {
+            const count = await applyImport(plan, replaceChanged);
+            Alert.alert(t('passwords.transfer.imported').replace('{{count}}', String(count)));
+            resetForms();
+        } catch (e) {
+            console.error('Failed to save imported passwords', e);
+            setError(t('passwords.transfer.error_save'));
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const runExport = async (format: ExportFormat, backupPassphrase?: string) => {
+        setBusy(true);
+        try {
+            await exportVault(format, backupPassphrase);
+            resetForms();
+        } catch (e) {
+            console.error('Password export failed', e);
+            setError(t('passwords.transfer.error_export'));
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const startExport = (format: ExportFormat) => {
+        resetForms();
+        if (format === 'backup') {
+            setExportingBackup(true);
+            return;
+        }
+        Alert.alert(
+            t('passwords.transfer.plain_warning_title'),
+            t('passwords.transfer.plain_warning'),
+            [
+                { text: t('common.cancel'), style: 'cancel' },
+                { text: t('passwords.transfer.export'), style: 'destructive', onPress: () => runExport(format) }
+            ]
+        );
+    };
+
+    const exportBackup = () => {
+        if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+            setError(t('passwords.passphrase_too_short').replace('{{count}}', String(MIN_PASSPHRASE_LENGTH)));
+            return;
+        }
+        if (passphrase !== confirmation) {
+            setError(t('passwords.passphrase_mismatch'));
+            return;
+        }
+        runExport('backup', passphrase);
+    };
+
+    const enableLock = () => {
+        if (appLock.hasPin) {
+            updateAppLockSettings({ apps: { ...appLock.settings.apps, passwords: true } });
+        } else {
+            setShowPinSetup(true);
+        }
+    };
+
+    const inputStyle = [styles.input, { backgroundColor: colors.inputBackground, color: colors.text, borderColor: colors.border }];
+
+    if (vaultState !== 'unlocked') {
+        return (
+            <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['bottom']}>
+                <VaultGate state={vaultState} onSetup={setupVault} onUnlock={unlock} />
+            </SafeAreaView>
+        );
+    }
+
+    if (!lockEnabled) {
+        return (
+            <SafeAreaView style={[styles.container, styles.centered, { backgroundColor: colors.background }]} edges={['bottom']}>
+                <Stack.Screen options={{ title: t('passwords.transfer.title') }} />
+                <Ionicons name="lock-closed-outline" size={48} color={colors.textSecondary} />
+                <Text style={[styles.hint, styles.centeredText, { color: colors.textSecondary }]}>{t('passwords.transfer.requires_lock')}</Text>
+                <TouchableOpacity style={[styles.button, { backgroundColor: colors.primary }]} onPress={enableLock}>
+                    <Text style={styles.buttonText}>{t('passwords.transfer.enable_lock')}</Text>
+                </TouchableOpacity>
+                <PinSetupModal
+                    visible={showPinSetup}
+                    onClose={() => setShowPinSetup(false)}
+                    onDone={() => {
+                        setShowPinSetup(false);
+                        updateAppLockSettings({ apps: { ...appLock.settings.apps, passwords: true } });
+                    }}
+                />
+            </SafeAreaView>
+        );
+    }
+
+    return (
+        <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['bottom']}>
+            <Stack.Screen options={{ title: t('passwords.transfer.title') }} />
+            <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+                <View style={[styles.section, { backgroundColor: colors.card }]}>
+                    <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>{t('passwords.transfer.import')}</Text>
+                    <Text style={[styles.hint, { color: colors.textSecondary }]}>{t('passwords.transfer.import_hint')}</Text>
+                    <TouchableOpacity style={[styles.button, { backgroundColor: colors.primary }]} onPress={chooseFile} disabled={busy}>
+                        <Text style={styles.buttonText}>{t('passwords.transfer.choose_file')}</Text>
+                    </TouchableOpacity>
+
+                    {pendingBackup !== null && (
+                        <View style={styles.form}>
+                            <Text style={[styles.hint, { color: colors.textSecondary }]}>{t('passwords.transfer.backup_passphrase_hint')}</Text>
+                            <TextInput
+                                style={inputStyle}
+                                value={passphrase}
+                                onChangeText={setPassphrase}
+                                placeholder={t('passwords.transfer.backup_passphrase')}
+                                placeholderTextColor={colors.textSecondary}
+                                secureTextEntry
+                                autoCapitalize="none"
+                            />
+                            <TouchableOpacity
+                                style={[styles.button, { backgroundColor: colors.primary }]}
+                                onPress={() => readFile(pendingBackup, passphrase)}
+                                disabled={busy}
+                            >
+                                <Text style={styles.buttonText}>{t('passwords.unlock')}</Text>
+                            </TouchableOpacity>
+                        </View>
+                    )}
+
+                    {plan && (
+                        <View style={styles.form} testID="import-plan">
+                            <Text style={[styles.planLine, { color: colors.text }]}>
+                                {t('passwords.transfer.plan_added').replace('{{count}}', String(plan.added.length))}
+                            </Text>
+                            {plan.duplicates > 0 && (
+                                <Text style={[styles.planLine, { color: colors.textSecondary }]}>
+                                    {t('passwords.transfer.plan_duplicates').replace('{{count}}', String(plan.duplicates))}
+                                </Text>
+                            )}
+                            {plan.skipped > 0 && (
+                                <Text style={[styles.planLine, { color: colors.textSecondary }]}>
+                                    {t('passwords.transfer.plan_skipped').replace('{{count}}', String(plan.skipped))}
+                                </Text>
+                            )}
+                            {plan.changed.length > 0 && (
+                                <View style={styles.switchRow}>
+                                    <Text style={[styles.planLine, styles.switchLabel, { color: colors.text }]}>
+                                        {t('passwords.transfer.plan_changed').replace('{{count}}', String(plan.changed.length))}
+                                    </Text>
+                                    <Switch
+                                        value={replaceChanged}
+                                        onValueChange={setReplaceChanged}
+                                        thumbColor={Platform.OS === 'ios' ? undefined : (replaceChanged ? colors.primary : '#f4f3f4')}
+                                        trackColor={{ false: '#767577', true: colors.primary }}
+                                    />
+                                </View>
+                            )}
+                            <TouchableOpacity
+                                style={[styles.button, { backgroundColor: colors.primary }]}
+                                onPress={confirmImport}
+                                disabled={busy || (plan.added.length === 0 && !(replaceChanged && plan.changed.length > 0))}
+                            >
+                                <Text style={styles.buttonText}>{t('passwords.transfer.confirm_import')}</Text>
+                            </TouchableOpacity>
+                        </View>
+                    )}
+                </View>
+
+                <View style={[styles.section, { backgroundColor: colors.card }]}>
+                    <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>{t('passwords.transfer.export')}</Text>
+                    <Text style={[styles.hint, { color: colors.textSecondary }]}>
+                        {t('passwords.transfer.export_hint').replace('{{count}}', String(accounts.length))}
+                    </Text>
+                    {EXPORT_FORMATS.map(({ format, icon }) => (
+                        <TouchableOpacity
+                            key={format}
+                            style={[styles.row, { borderBottomColor: colors.border }]}
+                            onPress={() => startExport(format)}
+                            disabled={busy || accounts.length === 0}
+                        >
+                            <Ionicons name={icon} size={22} color={colors.text} />
+                            <View style={styles.rowText}>
+                                <Text style={[styles.rowTitle, { color: colors.text }]}>{t(`passwords.transfer.format_${format}`)}</Text>
+                                <Text style={[styles.hint, { color: colors.textSecondary }]}>{t(`passwords.transfer.format_${format}_hint`)}</Text>
+                            </View>
+                            <Ionicons name="share-outline" size={20} color={colors.textSecondary} />
+                        </TouchableOpacity>
+                    ))}
+
+                    {exportingBackup && (
+                        <View style={styles.form}>
+                            <TextInput
+                                style={inputStyle}
+                                value={passphrase}
+                                onChangeText={setPassphrase}
+                                placeholder={t('passwords.transfer.backup_passphrase')}
+                                placeholderTextColor={colors.textSecondary}
+                                secureTextEntry
+                                autoCapitalize="none"
+                            />
+                            <TextInput
+                                style={inputStyle}
+                                value={confirmation}
+                                onChangeText={setConfirmation}
+                                placeholder={t('passwords.confirm_passphrase')}
+                                placeholderTextColor={colors.textSecondary}
+                                secureTextEntry
+                                autoCapitalize="none"
+                            />
+                            <TouchableOpacity style={[styles.button, { backgroundColor: colors.primary }]} onPress={exportBackup} disabled={busy}>
+                                <Text style={styles.buttonText}>{t('passwords.transfer.export')}</Text>
+                            </TouchableOpacity>
+                        </View>
+                    )}
+                </View>
+
+                {!!error && <Text style={[styles.error, { color: colors.danger }]}>{error}</Text>}
+                {busy && <ActivityIndicator color={colors.primary} />}
+            </ScrollView>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    centered: {
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: 32,
+        gap: 16,
+    },
+    centeredText: {
+        textAlign: 'center',
+    },
+    content: {
+        padding: 16,
+        gap: 16,
+    },
+    section: {
+        borderRadius: 12,
+        padding: 16,
+        gap: 10,
+    },
+    sectionTitle: {
+        fontSize: 13,
+        fontWeight: '600',
+        textTransform: 'uppercase',
+    },
+    hint: {
+        fontSize: 13,
+    },
+    form: {
+        gap: 10,
+        marginTop: 4,
+    },
+    input: {
+        borderRadius: 12,
+        padding: 14,
+        fontSize: 16,
+        borderWidth: 1,
+    },
+    button: {
+        height: 46,
+        borderRadius: 12,
+        alignItems: 'center',
+        justifyContent: 'center',
+        paddingHorizontal: 20,
+    },
+    buttonText: {
+        color: '#fff',
+        fontSize: 16,
+        fontWeight: 'bold',
+    },
+    planLine: {
+        fontSize: 15,
+    },
+    switchRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+    },
+    switchLabel: {
+        flex: 1,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        paddingVertical: 12,
+        borderBottomWidth: StyleSheet.hairlineWidth,
+    },
+    rowText: {
+        flex: 1,
+    },
+    rowTitle: {
+        fontSize: 16,
+        fontWeight: '500',
+    },
+    error: {
+        fontSize: 14,
+        textAlign: 'center',
+    },
+});
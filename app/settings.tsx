@@ -5,10 +5,28 @@ import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
 import { GoogleSignin } from '@react-native-google-signin/google-signin';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { STORAGE_KEYS } from '@/services/storageRegistry';
 import { useTheme } from '@/context/ThemeContext';
 import { useSession } from '@/context/AuthContext';
 import { useLanguage } from '@/context/LanguageContext';
+import { useAppLock } from '@/hooks/useAppLock';
+import { useSecureClipboard } from '@/hooks/useSecureClipboard';
+import {
+    AUTO_LOCK_TIMEOUTS,
+    LOCKABLE_APPS,
+    LockableApp,
+    canUseBiometrics,
+    updateAppLockSettings
+} from '@/services/appLock';
+import { CLIPBOARD_CLEAR_DELAYS, setClipboardClearDelay } from '@/services/secureClipboard';
+import PinSetupModal from '@/components/features/lock/PinSetupModal';
+import UnlockPrompt from '@/components/features/lock/UnlockPrompt';
 
+const LOCKABLE_APP_TITLES: Record<LockableApp, string> = {
+    passwords: 'passwords.title',
+    diary: 'diary.title',
+    notes: 'notes.title',
+};
 
 export default function SettingsScreen() {
     const router = useRouter();
@@ -19,26 +37,89 @@ export default function SettingsScreen() {
     // Settings State
     const [isTwoRow, setIsTwoRow] = React.useState(true);
 
+    // App Lock State
+    const appLock = useAppLock();
+    const clipboard = useSecureClipboard();
+    const [biometricsAvailable, setBiometricsAvailable] = React.useState(false);
+    const [showPinSetup, setShowPinSetup] = React.useState(false);
+    const [showUnlock, setShowUnlock] = React.useState(false);
+    const [pendingLockApp, setPendingLockApp] = React.useState<LockableApp | null>(null);
+
+    // Whoever changes lock settings must be able to unlock first
+    const lockSettingsLocked = appLock.hasPin && !appLock.unlocked && LOCKABLE_APPS.some(app => appLock.settings.apps[app]);
+
     // Easter Egg State
     const [devTapCount, setDevTapCount] = React.useState(0);
     const [showEasterEgg, setShowEasterEgg] = React.useState(false);
 
     React.useEffect(() => {
         loadSettings();
+        canUseBiometrics().then(setBiometricsAvailable);
     }, []);
 
+    React.useEffect(() => {
+        if (!lockSettingsLocked) setShowUnlock(false);
+    }, [lockSettingsLocked]);
+
     const loadSettings = async () => {
         try {
-            const twoRow = await AsyncStorage.getItem('user_apps_two_row');
+            const twoRow = await AsyncStorage.getItem(STORAGE_KEYS.appsTwoRow);
             setIsTwoRow(twoRow === 'true');
         } catch { }
     };
 
     const toggleTwoRow = async (value: boolean) => {
         setIsTwoRow(value);
-        await AsyncStorage.setItem('user_apps_two_row', String(value));
+        await AsyncStorage.setItem(STORAGE_KEYS.appsTwoRow, String(value));
+    };
+
+    const changeLockSettings = (change: () => void) => {
+        if (lockSettingsLocked) {
+            setShowUnlock(true);
+            return;
+        }
+        change();
+    };
+
+    const toggleAppLock = (app: LockableApp, value: boolean) => changeLockSettings(() => {
+        if (value && !appLock.hasPin) {
+            setPendingLockApp(app);
+            setShowPinSetup(true);
+            return;
+        }
+        updateAppLockSettings({ apps: { ...appLock.settings.apps, [app]: value } });
+    });
+
+    const cycleAutoLock = () => changeLockSettings(() => {
+        const index = AUTO_LOCK_TIMEOUTS.indexOf(appLock.settings.timeoutMs);
+        updateAppLockSettings({ timeoutMs: AUTO_LOCK_TIMEOUTS[(index + 1) % AUTO_LOCK_TIMEOUTS.length] });
+    });
+
+    const cycleClipboardClear = () => changeLockSettings(() => {
+        const index = CLIPBOARD_CLEAR_DELAYS.indexOf(clipboard.clearAfterMs);
+        setClipboardClearDelay(CLIPBOARD_CLEAR_DELAYS[(index + 1) % CLIPBOARD_CLEAR_DELAYS.length]);
+    });
+
+    const toggleBiometrics = (value: boolean) => changeLockSettings(() => {
+        updateAppLockSettings({ biometrics: value });
+    });
+
+    const handlePinSet = () => {
+        setShowPinSetup(false);
+        if (pendingLockApp) {
+            updateAppLockSettings({ apps: { ...appLock.settings.apps, [pendingLockApp]: true } });
+            setPendingLockApp(null);
+        }
     };
 
+    const autoLockLabel = appLock.settings.timeoutMs === 0
+        ? t('app_lock.immediately')
+        : t('app_lock.after_minutes').replace('{{count}}', String(appLock.settings.timeoutMs / 60_000));
+
+    const clipboardClearLabel = clipboard.clearAfterMs === 0
+        ? t('passwords.clipboard.never')
+        : t('passwords.clipboard.after_seconds').replace('{{count}}', String(clipboard.clearAfterMs / 1000));
+
     const handleSignOut = async () => {
         Alert.alert(
             t('settings.sign_out'),
@@ -106,6 +187,31 @@ export default function SettingsScreen() {
                 </TouchableOpacity>
             </Modal>
 
+            <PinSetupModal
+                visible={showPinSetup}
+                onClose={() => {
+                    setShowPinSetup(false);
+                    setPendingLockApp(null);
+                }}
+                onDone={handlePinSet}
+            />
+
+            <Modal
+                visible={showUnlock}
+                transparent
+                animationType="fade"
+                onRequestClose={() => setShowUnlock(false)}
+            >
+                <View style={styles.unlockOverlay}>
+                    <View style={[styles.unlockContent, { backgroundColor: colors.card }]}>
+                        <TouchableOpacity style={styles.unlockClose} onPress={() => setShowUnlock(false)}>
+                            <Ionicons name="close" size={24} color={colors.textSecondary} />
+                        </TouchableOpacity>
+                        <UnlockPrompt />
+                    </View>
+                </View>
+            </Modal>
+
             <ScrollView>
                 {/* Appearance */}
                 <View style={[styles.section, { backgroundColor: colors.card }]}>
@@ -199,6 +305,77 @@ export default function SettingsScreen() {
                     </View>
                 </View>
 
+                {/* App Lock */}
+                <View style={[styles.section, { backgroundColor: colors.card }]}>
+                    <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+                        {t('app_lock.title')}
+                    </Text>
+
+                    {LOCKABLE_APPS.map(app => (
+                        <View key={app} style={[styles.row, { borderBottomColor: colors.border }]}>
+                            <View style={styles.rowLeft}>
+                                <Ionicons name="lock-closed-outline" size={22} color={colors.text} />
+                                <Text style={[styles.rowText, { color: colors.text }]}>
+                                    {t(LOCKABLE_APP_TITLES[app])}
+                                </Text>
+                            </View>
+                            <Switch
+                                value={appLock.settings.apps[app]}
+                                onValueChange={value => toggleAppLock(app, value)}
+                                thumbColor={Platform.OS === 'ios' ? undefined : (appLock.settings.apps[app] ? colors.primary : '#f4f3f4')}
+                                trackColor={{ false: '#767577', true: colors.primary }}
+                            />
+                        </View>
+                    ))}
+
+                    <TouchableOpacity style={[styles.row, { borderBottomColor: colors.border }]} onPress={cycleAutoLock}>
+                        <View style={styles.rowLeft}>
+                            <Ionicons name="timer-outline" size={22} color={colors.text} />
+                            <Text style={[styles.rowText, { color: colors.text }]}>
+                                {t('app_lock.auto_lock')}
+                            </Text>
+                        </View>
+                        <Text style={[styles.rowValue, { color: colors.textSecondary }]}>{autoLockLabel}</Text>
+                    </TouchableOpacity>
+
+                    <TouchableOpacity style={[styles.row, { borderBottomColor: colors.border }]} onPress={cycleClipboardClear}>
+                        <View style={styles.rowLeft}>
+                            <Ionicons name="clipboard-outline" size={22} color={colors.text} />
+                            <Text style={[styles.rowText, { color: colors.text }]}>
+                                {t('passwords.clipboard.clear_after')}
+                            </Text>
+                        </View>
+                        <Text style={[styles.rowValue, { color: colors.textSecondary }]}>{clipboardClearLabel}</Text>
+                    </TouchableOpacity>
+
+                    {biometricsAvailable && (
+                        <View style={[styles.row, { borderBottomColor: colors.border }]}>
+                            <View style={styles.rowLeft}>
+                                <Ionicons name="finger-print-outline" size={22} color={colors.text} />
+                                <Text style={[styles.rowText, { color: colors.text }]}>
+                                    {t('app_lock.biometrics')}
+                                </Text>
+                            </View>
+                            <Switch
+                                value={appLock.settings.biometrics}
+                                onValueChange={toggleBiometrics}
+                                thumbColor={Platform.OS === 'ios' ? undefined : (appLock.settings.biometrics ? colors.primary : '#f4f3f4')}
+                                trackColor={{ false: '#767577', true: colors.primary }}
+                            />
+                        </View>
+                    )}
+
+                    <TouchableOpacity style={styles.row} onPress={() => changeLockSettings(() => setShowPinSetup(true))}>
+                        <View style={styles.rowLeft}>
+                            <Ionicons name="keypad-outline" size={22} color={colors.text} />
+                            <Text style={[styles.rowText, { color: colors.text }]}>
+                                {t(appLock.hasPin ? 'app_lock.change_pin' : 'app_lock.set_pin')}
+                            </Text>
+                        </View>
+                        <Ionicons name="chevron-forward" size={20} color={colors.textSecondary} />
+                    </TouchableOpacity>
+                </View>
+
                 {/* Account */}
                 <View style={[styles.section, { backgroundColor: colors.card }]}>
                     <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
@@ -243,6 +420,18 @@ export default function SettingsScreen() {
                             <Text style={{ color: colors.textSecondary, fontSize: 12 }}>hrak109@gmail.com</Text>
                         </View>
                     </TouchableOpacity>
+
+                    {__DEV__ && (
+                        <TouchableOpacity style={styles.row} onPress={() => router.push('/diagnostics')}>
+                            <View style={styles.rowLeft}>
+                                <Ionicons name="bug-outline" size={22} color={colors.text} />
+                                <Text style={[styles.rowText, { color: colors.text }]}>
+                                    {t('diagnostics.title')}
+                                </Text>
+                            </View>
+                            <Ionicons name="chevron-forward" size={20} color={colors.textSecondary} />
+                        </TouchableOpacity>
+                    )}
                 </View>
             </ScrollView>
         </SafeAreaView>
@@ -286,6 +475,20 @@ const styles = StyleSheet.create({
     rowValue: {
         fontSize: 16,
     },
+    unlockOverlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        justifyContent: 'center',
+        padding: 24,
+    },
+    unlockContent: {
+        borderRadius: 16,
+        paddingTop: 8,
+    },
+    unlockClose: {
+        alignSelf: 'flex-end',
+        padding: 8,
+    },
     colorContainer: {
         flexDirection: 'row',
         flexWrap: 'wrap',
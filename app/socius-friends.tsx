@@ -15,19 +15,11 @@ import { useRouter, Stack, useFocusEffect } from 'expo-router';
 import Swipeable from 'react-native-gesture-handler/Swipeable';
 import { useTheme } from '@/context/ThemeContext';
 import { useLanguage } from '@/context/LanguageContext';
-import api from '@/services/api';
+import { deleteSociusCompanion, getSociusCompanions, reorderSociusCompanions } from '@/services/apiClient';
+import { SociusCompanion } from '@/types/api';
 import { SOCIUS_AVATAR_MAP } from '@/constants/avatars';
 import DraggableFlatList, { ScaleDecorator, RenderItemParams } from 'react-native-draggable-flatlist';
 
-interface SociusFriend {
-    id: string;
-    name: string;
-    avatar: string;
-    role: string;
-    created_at?: string;
-    sort_order?: number | null;
-}
-
 type SortMode = 'recent' | 'alphabetical' | 'custom';
 
 export default function SociusManagerScreen() {
@@ -35,15 +27,14 @@ export default function SociusManagerScreen() {
     const { colors } = useTheme();
     const { t } = useLanguage();
 
-    const [friends, setFriends] = useState<SociusFriend[]>([]);
+    const [friends, setFriends] = useState<SociusCompanion[]>([]);
     const [loading, setLoading] = useState(true);
     const [refreshing, setRefreshing] = useState(false);
     const [sortMode, setSortMode] = useState<SortMode>('recent');
 
     const loadFriends = useCallback(async () => {
         try {
-            const response = await api.get('/friends/socius');
-            setFriends(response.data || []);
+            setFriends(await getSociusCompanions());
         } catch (error) {
             console.error('Failed to load socius friends:', error);
             Alert.alert(t('common.error'), 'Failed to load list');
@@ -91,7 +82,7 @@ export default function SociusManagerScreen() {
         router.push('/socius-setup');
     };
 
-    const handleChat = (friend: SociusFriend) => {
+    const handleChat = (friend: SociusCompanion) => {
         router.push({
             pathname: '/chat/[id]',
             params: {
@@ -104,7 +95,7 @@ export default function SociusManagerScreen() {
         });
     };
 
-    const handleDelete = (friendId: string) => {
+    const handleDelete = (friendId: number) => {
         Alert.alert(
             t('friends.unfriend_title'),
             t('friends.unfriend_message'),
@@ -115,10 +106,10 @@ export default function SociusManagerScreen() {
                     style: 'destructive',
                     onPress: async () => {
                         try {
-                            await api.delete(`/friends/socius/${friendId}`);
+                            await deleteSociusCompanion(friendId);
                             setFriends(prev => prev.filter(f => f.id !== friendId));
                         } catch (error: any) {
-                            Alert.alert(t('common.error'), error.response?.data?.detail || 'Failed to delete friend');
+                            Alert.alert(t('common.error'), error.detail || 'Failed to delete friend');
                         }
                     }
                 }
@@ -126,7 +117,7 @@ export default function SociusManagerScreen() {
         );
     };
 
-    const handleDragEnd = async ({ data }: { data: SociusFriend[] }) => {
+    const handleDragEnd = async ({ data }: { data: SociusCompanion[] }) => {
         // Update local state first (optimistic)
         const updatedWithOrder = data.map((f, idx) => ({ ...f, sort_order: idx }));
 
@@ -147,9 +138,7 @@ export default function SociusManagerScreen() {
 
         // Persist to backend
         try {
-            await api.patch('/friends/socius/order', {
-                orders: updatedWithOrder.map(f => ({ id: parseInt(f.id), sort_order: f.sort_order }))
-            });
+            await reorderSociusCompanions(updatedWithOrder.map(f => ({ id: f.id, sort_order: f.sort_order })));
         } catch (error) {
             console.error('Failed to save order:', error);
             loadFriends(); // Revert on error
@@ -157,7 +146,7 @@ export default function SociusManagerScreen() {
     };
 
 
-    const renderRightActions = (friendId: string) => (
+    const renderRightActions = (friendId: number) => (
         <TouchableOpacity
             style={styles.deleteAction}
             onPress={() => handleDelete(friendId)}
@@ -167,7 +156,7 @@ export default function SociusManagerScreen() {
         </TouchableOpacity>
     );
 
-    const renderItem = ({ item, drag, isActive }: RenderItemParams<SociusFriend>) => {
+    const renderItem = ({ item, drag, isActive }: RenderItemParams<SociusCompanion>) => {
         const roleLabel = t(`setup.roles.${item.role}`);
         const displayRole = roleLabel.startsWith('setup.roles.') ? item.role : roleLabel;
         const avatarSource = SOCIUS_AVATAR_MAP[item.avatar] || SOCIUS_AVATAR_MAP['socius-avatar-0'];
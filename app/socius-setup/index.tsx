@@ -21,7 +21,7 @@ import { useTheme } from '@/context/ThemeContext';
 import { useUserProfile } from '@/context/UserProfileContext';
 import { useLanguage } from '@/context/LanguageContext';
 import { SOCIUS_AVATAR_MAP } from '@/constants/avatars';
-import api from '@/services/api';
+import { createSociusCompanion, getSociusCompanions } from '@/services/apiClient';
 
 const { width } = Dimensions.get('window');
 
@@ -94,9 +94,8 @@ export default function SociusSetupScreen() {
     useEffect(() => {
         const checkExistingRoles = async () => {
             try {
-                const response = await api.get('/friends/socius');
-                const companions = response.data || [];
-                const roles = companions.map((c: any) => c.role);
+                const companions = await getSociusCompanions();
+                const roles = companions.map(c => c.role);
                 setExistingRoles(roles);
             } catch {
 
@@ -169,7 +168,7 @@ export default function SociusSetupScreen() {
     const handleSubmit = async () => {
         setLoading(true);
         try {
-            await api.post('/friends/socius', {
+            await createSociusCompanion({
                 name: state.name,
                 role: state.role,
                 avatar: state.avatar,
@@ -180,7 +179,7 @@ export default function SociusSetupScreen() {
             router.replace('/messages'); // Go to messages screen
         } catch (error: any) {
             console.error('Failed to create Socius companion:', error);
-            Alert.alert(t('common.error'), error.response?.data?.detail || 'Failed to create companion. Please try again.');
+            Alert.alert(t('common.error'), error.detail || 'Failed to create companion. Please try again.');
         } finally {
             setLoading(false);
         }
@@ -17,7 +17,8 @@ import { Stack } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import dayjs from 'dayjs';
-import { useWorkouts, Activity, PhysicalStats, ActivityLevel } from '@/hooks/useWorkouts';
+import { useWorkouts, Activity, PhysicalStats, ActivityLevel, WeightGoal } from '@/hooks/useWorkouts';
+import { ACTIVITY_LEVELS, GOAL_ADJUSTMENTS, WEIGHT_GOALS, activityMultiplier, calculateBmr, calculateTdee } from '@/utils/energy';
 import { useTheme } from '@/context/ThemeContext';
 import { useLanguage } from '@/context/LanguageContext';
 import AppSpecificChatHead from '@/components/features/chat/AppSpecificChatHead';
@@ -70,15 +71,6 @@ function JSDatePicker({ value, onChange, onClose, colors, isDark }: { value: Dat
     );
 }
 
-// Activity level multipliers (Harris-Benedict)
-const ACTIVITY_LEVELS: { key: ActivityLevel; multiplier: number; }[] = [
-    { key: 'sedentary', multiplier: 1.2 },      // Little or no exercise
-    { key: 'light', multiplier: 1.375 },        // Light exercise 1-3 days/week
-    { key: 'moderate', multiplier: 1.55 },      // Moderate exercise 3-5 days/week
-    { key: 'active', multiplier: 1.725 },       // Hard exercise 6-7 days/week
-    { key: 'very_active', multiplier: 1.9 },    // Very hard exercise, physical job
-];
-
 export default function WorkoutScreen() {
     const { colors, isDark } = useTheme();
     const { t } = useLanguage();
@@ -97,6 +89,7 @@ export default function WorkoutScreen() {
     const [ageInput, setAgeInput] = useState('');
     const [genderInput, setGenderInput] = useState<'male' | 'female'>('male');
     const [activityLevelInput, setActivityLevelInput] = useState<ActivityLevel>('moderate');
+    const [goalInput, setGoalInput] = useState<WeightGoal>('maintain');
 
     const [activityName, setActivityName] = useState('');
     const [durationInput, setDurationInput] = useState('');
@@ -112,6 +105,7 @@ export default function WorkoutScreen() {
             setAgeInput(stats.age?.toString() || '');
             setGenderInput(stats.gender || 'male');
             setActivityLevelInput(stats.activityLevel || 'moderate');
+            setGoalInput(stats.goal || 'maintain');
         } else if (!loading && !stats) {
             // If finished loading and no stats, prompt user
             setShowStatsModal(true);
@@ -126,7 +120,8 @@ export default function WorkoutScreen() {
             height: parseFloat(heightInput),
             age: parseInt(ageInput),
             gender: genderInput,
-            activityLevel: activityLevelInput
+            activityLevel: activityLevelInput,
+            goal: goalInput
         };
 
         await saveStats(newStats);
@@ -191,19 +186,9 @@ export default function WorkoutScreen() {
 
     // --- Calculations ---
 
-    const bmr = useMemo(() => {
-        if (!stats) return 0;
-        // Mifflin-St Jeor Equation
-        const s = stats.gender === 'male' ? 5 : -161;
-        const val = (10 * stats.weight) + (6.25 * stats.height) - (5 * stats.age) + s;
-        return Math.round(val);
-    }, [stats]);
+    const bmr = useMemo(() => calculateBmr(stats), [stats]);
 
-    const tdee = useMemo(() => {
-        if (!stats || !bmr) return 0;
-        const level = ACTIVITY_LEVELS.find(l => l.key === stats.activityLevel) || ACTIVITY_LEVELS[2];
-        return Math.round(bmr * level.multiplier);
-    }, [stats, bmr]);
+    const tdee = useMemo(() => calculateTdee(stats), [stats]);
 
     const todayActivities = useMemo(() => {
         const today = dayjs().format('YYYY-MM-DD');
@@ -503,6 +488,37 @@ export default function WorkoutScreen() {
                                 </View>
                             </View>
 
+                            {/* Weight Goal Selector */}
+                            <View style={styles.activityLevelContainer}>
+                                <Text style={[styles.inputLabel, { color: colors.text }]}>{t('workout.goal')}</Text>
+                                <View style={styles.activityLevelRow}>
+                                    {WEIGHT_GOALS.map(goal => (
+                                        <TouchableOpacity
+                                            key={goal}
+                                            style={[
+                                                styles.activityLevelBtn,
+                                                goalInput === goal && { backgroundColor: colors.primary, borderColor: colors.primary }
+                                            ]}
+                                            onPress={() => setGoalInput(goal)}
+                                        >
+                                            <Text style={{
+                                                color: goalInput === goal ? '#fff' : colors.text,
+                                                fontSize: 12,
+                                                fontWeight: goalInput === goal ? '600' : '400'
+                                            }}>
+                                                {t(`workout.goal_${goal}`)}
+                                            </Text>
+                                            <Text style={{
+                                                color: goalInput === goal ? 'rgba(255,255,255,0.7)' : colors.textSecondary,
+                                                fontSize: 10
+                                            }}>
+                                                {GOAL_ADJUSTMENTS[goal] > 0 ? '+' : ''}{GOAL_ADJUSTMENTS[goal]} kcal
+                                            </Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                </View>
+                            </View>
+
                             <TouchableOpacity style={[styles.saveButton, { backgroundColor: colors.primary }]} onPress={handleSaveStats}>
                                 <Text style={styles.saveButtonText}>{t('common.save')}</Text>
                             </TouchableOpacity>
@@ -661,7 +677,7 @@ export default function WorkoutScreen() {
                                         <View style={styles.calcRow}>
                                             <Text style={[styles.calcLabel, { color: colors.textSecondary }]}>TDEE Formula:</Text>
                                             <Text style={[styles.calcFormula, { color: colors.text }]}>
-                                                {bmr} × {ACTIVITY_LEVELS.find(l => l.key === stats.activityLevel)?.multiplier || 1.55}
+                                                {bmr} × {activityMultiplier(stats.activityLevel)}
                                             </Text>
                                         </View>
 
@@ -0,0 +1,179 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import dayjs from 'dayjs';
+import { useTheme } from '@/context/ThemeContext';
+import { useLanguage } from '@/context/LanguageContext';
+import { PhysicalStats } from '@/hooks/useWorkouts';
+import { DayBalance, GOAL_ADJUSTMENTS } from '@/utils/energy';
+
+type EnergyBudgetCardProps = {
+    stats: PhysicalStats | null;
+    tdee: number;
+    today: DayBalance;
+    trend: DayBalance[];
+    onSetup: () => void;
+};
+
+const DEFICIT_COLOR = '#34C759';
+const SURPLUS_COLOR = '#FF9500';
+const OVER_COLOR = '#FF3B30';
+const TREND_HEIGHT = 36; // Per side of the zero line
+
+/**
+ * What is left of today's calorie budget and whether each of the last days ended
+ * in a deficit or a surplus. Asks for physical stats first when none are saved.
+ */
+export default function EnergyBudgetCard({ stats, tdee, today, trend, onSetup }: EnergyBudgetCardProps) {
+    const { colors } = useTheme();
+    const { t } = useLanguage();
+
+    if (!stats || !tdee) {
+        return (
+            <View style={[styles.card, styles.setup, { backgroundColor: colors.card }]} testID="energy-budget-setup">
+                <Ionicons name="body-outline" size={24} color={colors.primary} />
+                <Text style={[styles.setupText, { color: colors.textSecondary }]}>{t('calories.budget.setup')}</Text>
+                <TouchableOpacity onPress={onSetup}>
+                    <Text style={[styles.setupButton, { color: colors.primary }]}>{t('calories.budget.setup_button')}</Text>
+                </TouchableOpacity>
+            </View>
+        );
+    }
+
+    const over = today.remaining < 0;
+    const progress = today.budget > 0 ? Math.min(1, today.intake / today.budget) : 0;
+    const goalAdjustment = GOAL_ADJUSTMENTS[stats.goal || 'maintain'];
+    const weekNet = trend.reduce((sum, day) => sum + day.net, 0);
+    const trendMax = Math.max(1, ...trend.map(day => Math.abs(day.net)));
+
+    return (
+        <View style={[styles.card, { backgroundColor: colors.card }]} testID="energy-budget">
+            <View style={styles.headerRow}>
+                <Text style={[styles.title, { color: colors.textSecondary }]}>{t('calories.budget.title')}</Text>
+                <Text style={[styles.remaining, { color: over ? OVER_COLOR : colors.primary }]}>
+                    {t(over ? 'calories.budget.over' : 'calories.budget.remaining')
+                        .replace('{{count}}', String(Math.abs(today.remaining)))}
+                </Text>
+            </View>
+
+            <View style={[styles.progressTrack, { backgroundColor: colors.border }]}>
+                <View style={{ flex: progress, backgroundColor: over ? OVER_COLOR : colors.primary }} />
+                <View style={{ flex: 1 - progress }} />
+            </View>
+            <Text style={[styles.caption, { color: colors.text }]}>
+                {t('calories.budget.of_budget')
+                    .replace('{{intake}}', String(today.intake))
+                    .replace('{{budget}}', String(today.budget))}
+            </Text>
+            <Text style={[styles.caption, { color: colors.textSecondary }]}>
+                {t('calories.budget.breakdown')
+                    .replace('{{tdee}}', String(tdee))
+                    .replace('{{goal}}', `${goalAdjustment > 0 ? '+' : ''}${goalAdjustment}`)
+                    .replace('{{active}}', String(today.active))}
+            </Text>
+
+            <Text style={[styles.title, { color: colors.textSecondary, marginTop: 6 }]}>{t('calories.budget.trend')}</Text>
+            <View style={styles.trend}>
+                {trend.map(day => {
+                    const height = (Math.abs(day.net) / trendMax) * TREND_HEIGHT;
+                    const color = day.net > 0 ? SURPLUS_COLOR : DEFICIT_COLOR;
+                    return (
+                        <View key={day.date} style={styles.trendColumn}>
+                            <View style={styles.trendHalf}>
+                                {day.net > 0 && <View style={[styles.trendBar, { height, backgroundColor: color }]} />}
+                            </View>
+                            <View style={[styles.zeroLine, { backgroundColor: colors.border }]} />
+                            <View style={[styles.trendHalf, { justifyContent: 'flex-start' }]}>
+                                {day.net < 0 && <View style={[styles.trendBar, { height, backgroundColor: color }]} />}
+                            </View>
+                            <Text style={[styles.trendLabel, { color: colors.textSecondary }]}>{dayjs(day.date).format('dd')}</Text>
+                        </View>
+                    );
+                })}
+            </View>
+            <View style={styles.legend}>
+                <Text style={[styles.legendText, { color: DEFICIT_COLOR }]}>■ {t('calories.budget.deficit')}</Text>
+                <Text style={[styles.legendText, { color: SURPLUS_COLOR }]}>■ {t('calories.budget.surplus')}</Text>
+                <Text style={[styles.legendText, { color: colors.text }]}>
+                    {t('calories.budget.week_net').replace('{{count}}', `${weekNet > 0 ? '+' : ''}${weekNet}`)}
+                </Text>
+            </View>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    card: {
+        padding: 16,
+        borderRadius: 16,
+        marginHorizontal: 20,
+        marginBottom: 10,
+        gap: 6,
+    },
+    setup: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 10,
+    },
+    setupText: {
+        flex: 1,
+        fontSize: 13,
+    },
+    setupButton: {
+        fontSize: 14,
+        fontWeight: '600',
+    },
+    headerRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+    },
+    title: {
+        fontSize: 13,
+        fontWeight: '600',
+    },
+    remaining: {
+        fontSize: 18,
+        fontWeight: 'bold',
+    },
+    progressTrack: {
+        flexDirection: 'row',
+        height: 10,
+        borderRadius: 5,
+        overflow: 'hidden',
+    },
+    caption: {
+        fontSize: 12,
+    },
+    trend: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+    },
+    trendColumn: {
+        flex: 1,
+        alignItems: 'center',
+    },
+    trendHalf: {
+        height: TREND_HEIGHT,
+        justifyContent: 'flex-end',
+    },
+    trendBar: {
+        width: 14,
+        borderRadius: 3,
+    },
+    zeroLine: {
+        height: 1,
+        alignSelf: 'stretch',
+    },
+    trendLabel: {
+        fontSize: 11,
+        marginTop: 4,
+    },
+    legend: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+    },
+    legendText: {
+        fontSize: 11,
+    },
+});
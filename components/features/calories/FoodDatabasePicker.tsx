@@ -0,0 +1,273 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/context/ThemeContext';
+import { useLanguage } from '@/context/LanguageContext';
+import { FoodItem } from '@/constants/foods';
+import {
+    PortionUnit,
+    foodName,
+    portionGrams,
+    portionNutrition,
+    searchFoods,
+    servingLabel
+} from '@/utils/foodDatabase';
+import { Macros, formatMacros, macroLabels } from '@/utils/macros';
+
+type FoodDatabasePickerProps = {
+    initialQuery: string;
+    onPick: (food: string, calories: number, macros: Macros) => void;
+};
+
+// Step of the − / + buttons per unit
+const STEPS: Record<PortionUnit, number> = { serving: 0.5, grams: 10 };
+
+/**
+ * Searches the bundled food table and works out calories and macros for a portion,
+ * in servings or grams. Runs entirely on the device.
+ */
+export default function FoodDatabasePicker({ initialQuery, onPick }: FoodDatabasePickerProps) {
+    const { colors } = useTheme();
+    const { t, language } = useLanguage();
+    const shortLabels = macroLabels(t, true);
+
+    const [query, setQuery] = useState(initialQuery);
+    const [selected, setSelected] = useState<FoodItem | null>(null);
+    const [unit, setUnit] = useState<PortionUnit>('serving');
+    const [amount, setAmount] = useState('1');
+
+    const results = useMemo(() => searchFoods(query), [query]);
+
+    const amountNum = parseFloat(amount);
+    const portion = selected && amountNum > 0
+        ? portionNutrition(selected, portionGrams(selected, amountNum, unit))
+        : null;
+
+    const select = (food: FoodItem) => {
+        setSelected(food);
+        setUnit('serving');
+        setAmount('1');
+    };
+
+    const changeUnit = (next: PortionUnit) => {
+        if (!selected || next === unit) return;
+        // Keep the same portion, expressed in the other unit
+        const grams = amountNum > 0 ? portionGrams(selected, amountNum, unit) : selected.serving.grams;
+        setAmount(next === 'grams'
+            ? String(Math.round(grams))
+            : String(Math.round((grams / selected.serving.grams) * 100) / 100));
+        setUnit(next);
+    };
+
+    const step = (direction: 1 | -1) => {
+        const next = Math.max(0, (amountNum > 0 ? amountNum : 0) + direction * STEPS[unit]);
+        setAmount(String(Math.round(next * 100) / 100));
+    };
+
+    if (selected) {
+        return (
+            <View style={[styles.container, { borderColor: colors.border }]} testID="food-database-portion">
+                <View style={styles.selectedHeader}>
+                    <TouchableOpacity onPress={() => setSelected(null)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                        <Ionicons name="chevron-back" size={20} color={colors.primary} />
+                    </TouchableOpacity>
+                    <Text style={[styles.selectedName, { color: colors.text }]}>{foodName(selected, language)}</Text>
+                </View>
+                <Text style={[styles.detail, { color: colors.textSecondary }]}>
+                    {t('calories.database.per_100g').replace('{{count}}', String(selected.per100g.calories))}
+                    {' · '}{servingLabel(selected, language)} = {selected.serving.grams} g
+                </Text>
+
+                <View style={styles.unitRow}>
+                    {(['serving', 'grams'] as PortionUnit[]).map(option => (
+                        <TouchableOpacity
+                            key={option}
+                            style={[
+                                styles.unitButton,
+                                { borderColor: colors.border },
+                                unit === option && { backgroundColor: colors.primary, borderColor: colors.primary }
+                            ]}
+                            onPress={() => changeUnit(option)}
+                        >
+                            <Text style={{ color: unit === option ? '#fff' : colors.text, fontSize: 13 }}>
+                                {t(option === 'serving' ? 'calories.database.servings' : 'calories.database.grams')}
+                            </Text>
+                        </TouchableOpacity>
+                    ))}
+                </View>
+
+                <View style={styles.amountRow}>
+                    <TouchableOpacity onPress={() => step(-1)} accessibilityLabel="-">
+                        <Ionicons name="remove-circle-outline" size={28} color={colors.primary} />
+                    </TouchableOpacity>
+                    <TextInput
+                        style={[styles.amountInput, { backgroundColor: colors.inputBackground, color: colors.text, borderColor: colors.border }]}
+                        value={amount}
+                        onChangeText={setAmount}
+                        keyboardType="decimal-pad"
+                        accessibilityLabel={t('calories.database.amount')}
+                    />
+                    <TouchableOpacity onPress={() => step(1)} accessibilityLabel="+">
+                        <Ionicons name="add-circle-outline" size={28} color={colors.primary} />
+                    </TouchableOpacity>
+                    <Text style={[styles.unitText, { color: colors.textSecondary }]}>
+                        {unit === 'serving' ? `× ${servingLabel(selected, language)}` : 'g'}
+                    </Text>
+                </View>
+
+                {portion && (
+                    <>
+                        <Text style={[styles.portionCalories, { color: colors.primary }]}>{portion.calories} kcal</Text>
+                        <Text style={[styles.detail, { color: colors.textSecondary }]}>{formatMacros(portion.macros, shortLabels)}</Text>
+                    </>
+                )}
+
+                <TouchableOpacity
+                    style={[styles.useButton, { backgroundColor: portion ? colors.primary : colors.border }]}
+                    onPress={() => portion && onPick(foodName(selected, language), portion.calories, portion.macros)}
+                    disabled={!portion}
+                >
+                    <Text style={styles.useButtonText}>{t('calories.database.use')}</Text>
+                </TouchableOpacity>
+                <Text style={[styles.note, { color: colors.textSecondary }]}>{t('calories.database.note')}</Text>
+            </View>
+        );
+    }
+
+    return (
+        <View style={[styles.container, { borderColor: colors.border }]} testID="food-database-search">
+            <View style={[styles.searchBox, { backgroundColor: colors.inputBackground, borderColor: colors.border }]}>
+                <Ionicons name="search" size={16} color={colors.textSecondary} />
+                <TextInput
+                    style={[styles.searchInput, { color: colors.text }]}
+                    placeholder={t('calories.database.placeholder')}
+                    placeholderTextColor={colors.textSecondary}
+                    value={query}
+                    onChangeText={setQuery}
+                    autoCorrect={false}
+                />
+            </View>
+
+            {results.map(food => (
+                <TouchableOpacity key={food.id} style={styles.resultRow} onPress={() => select(food)}>
+                    <View style={styles.resultInfo}>
+                        <Text style={[styles.resultName, { color: colors.text }]}>{foodName(food, language)}</Text>
+                        <Text style={[styles.detail, { color: colors.textSecondary }]}>
+                            {servingLabel(food, language)} ({food.serving.grams} g) · {t('calories.database.per_100g').replace('{{count}}', String(food.per100g.calories))}
+                        </Text>
+                    </View>
+                    <Text style={[styles.resultCalories, { color: colors.primary }]}>
+                        {portionNutrition(food, food.serving.grams).calories} kcal
+                    </Text>
+                </TouchableOpacity>
+            ))}
+
+            {query.trim() !== '' && results.length === 0 && (
+                <Text style={[styles.detail, { color: colors.textSecondary, paddingVertical: 8 }]}>{t('calories.database.no_results')}</Text>
+            )}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        borderWidth: 1,
+        borderRadius: 12,
+        padding: 12,
+        marginTop: -12,
+        marginBottom: 20,
+    },
+    searchBox: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        borderWidth: 1,
+        borderRadius: 10,
+        paddingHorizontal: 10,
+    },
+    searchInput: {
+        flex: 1,
+        paddingVertical: 10,
+        fontSize: 15,
+    },
+    resultRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 10,
+        gap: 10,
+    },
+    resultInfo: {
+        flex: 1,
+    },
+    resultName: {
+        fontSize: 15,
+    },
+    resultCalories: {
+        fontSize: 14,
+        fontWeight: '600',
+    },
+    detail: {
+        fontSize: 12,
+        marginTop: 2,
+    },
+    selectedHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+    },
+    selectedName: {
+        fontSize: 16,
+        fontWeight: '600',
+    },
+    unitRow: {
+        flexDirection: 'row',
+        gap: 8,
+        marginTop: 12,
+    },
+    unitButton: {
+        flex: 1,
+        alignItems: 'center',
+        paddingVertical: 8,
+        borderRadius: 10,
+        borderWidth: 1,
+    },
+    amountRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 10,
+        marginTop: 12,
+    },
+    amountInput: {
+        width: 80,
+        borderWidth: 1,
+        borderRadius: 10,
+        paddingVertical: 8,
+        textAlign: 'center',
+        fontSize: 16,
+    },
+    unitText: {
+        flex: 1,
+        fontSize: 13,
+    },
+    portionCalories: {
+        fontSize: 22,
+        fontWeight: 'bold',
+        marginTop: 12,
+    },
+    useButton: {
+        borderRadius: 12,
+        padding: 12,
+        alignItems: 'center',
+        marginTop: 12,
+    },
+    useButtonText: {
+        color: '#fff',
+        fontSize: 15,
+        fontWeight: 'bold',
+    },
+    note: {
+        fontSize: 11,
+        marginTop: 8,
+        textAlign: 'center',
+    },
+});
@@ -0,0 +1,93 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/context/ThemeContext';
+import { useLanguage } from '@/context/LanguageContext';
+import { FoodSuggestion } from '@/utils/recentFoods';
+
+type FoodSuggestionsProps = {
+    suggestions: FoodSuggestion[];
+    onSelect: (suggestion: FoodSuggestion) => void;
+    onToggleFavorite: (suggestion: FoodSuggestion) => void;
+};
+
+/**
+ * Favorites and recently logged foods under the food name field. Picking one fills
+ * in the name with the calories it was last logged with; the star toggles a favorite.
+ */
+export default function FoodSuggestions({ suggestions, onSelect, onToggleFavorite }: FoodSuggestionsProps) {
+    const { colors } = useTheme();
+    const { t } = useLanguage();
+
+    if (suggestions.length === 0) return null;
+
+    return (
+        <View style={[styles.container, { borderColor: colors.border }]} testID="food-suggestions">
+            <Text style={[styles.title, { color: colors.textSecondary }]}>{t('calories.favorites.suggestions')}</Text>
+            {suggestions.map(suggestion => (
+                <TouchableOpacity
+                    key={suggestion.food}
+                    style={styles.row}
+                    onPress={() => onSelect(suggestion)}
+                >
+                    <TouchableOpacity
+                        onPress={() => onToggleFavorite(suggestion)}
+                        accessibilityLabel={t(suggestion.favorite ? 'calories.favorites.remove' : 'calories.favorites.add')}
+                        hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                    >
+                        <Ionicons
+                            name={suggestion.favorite ? 'star' : 'star-outline'}
+                            size={18}
+                            color={suggestion.favorite ? '#FFCC00' : colors.textSecondary}
+                        />
+                    </TouchableOpacity>
+                    <View style={styles.info}>
+                        <Text style={[styles.food, { color: colors.text }]} numberOfLines={1}>{suggestion.food}</Text>
+                        {suggestion.count > 0 && (
+                            <Text style={[styles.detail, { color: colors.textSecondary }]}>
+                                {t('calories.favorites.times').replace('{{count}}', String(suggestion.count))}
+                            </Text>
+                        )}
+                    </View>
+                    <Text style={[styles.calories, { color: colors.primary }]}>{suggestion.calories} kcal</Text>
+                </TouchableOpacity>
+            ))}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        borderWidth: 1,
+        borderRadius: 12,
+        paddingHorizontal: 12,
+        paddingVertical: 8,
+        marginTop: -12,
+        marginBottom: 20,
+    },
+    title: {
+        fontSize: 12,
+        fontWeight: '600',
+        marginBottom: 4,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 10,
+        paddingVertical: 8,
+    },
+    info: {
+        flex: 1,
+    },
+    food: {
+        fontSize: 15,
+    },
+    detail: {
+        fontSize: 11,
+        marginTop: 1,
+    },
+    calories: {
+        fontSize: 14,
+        fontWeight: '600',
+    },
+});
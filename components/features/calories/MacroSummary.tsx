@@ -0,0 +1,166 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import dayjs from 'dayjs';
+import { useTheme } from '@/context/ThemeContext';
+import { useLanguage } from '@/context/LanguageContext';
+import { CalorieEntry } from '@/hooks/useCalories';
+import { ENERGY_MACROS, KCAL_PER_GRAM, MACRO_COLORS, MACRO_KEYS, macroLabels, macroSplit, sumMacros } from '@/utils/macros';
+
+type MacroSummaryProps = {
+    entries: CalorieEntry[];
+};
+
+const WEEK_DAYS = 7;
+const CHART_HEIGHT = 80;
+
+/**
+ * Today's macro totals, how today's calories split between protein, carbs and fat,
+ * and the same split for each of the last seven days. Hidden until a macro is logged.
+ */
+export default function MacroSummary({ entries }: MacroSummaryProps) {
+    const { colors } = useTheme();
+    const { t } = useLanguage();
+    const labels = macroLabels(t);
+
+    const { hasMacros, today, split, week, weekMax } = useMemo(() => {
+        const byDate = (date: string) => entries.filter(e => e.date === date);
+        const todayStr = dayjs().format('YYYY-MM-DD');
+        const todayTotals = sumMacros(byDate(todayStr));
+
+        const days = Array.from({ length: WEEK_DAYS }, (_, i) => {
+            const date = dayjs().subtract(WEEK_DAYS - 1 - i, 'day');
+            const totals = sumMacros(byDate(date.format('YYYY-MM-DD')));
+            const kcal = ENERGY_MACROS.map(key => ({ key, kcal: totals[key] * KCAL_PER_GRAM[key] }));
+            return { label: date.format('dd'), kcal, total: kcal.reduce((sum, part) => sum + part.kcal, 0) };
+        });
+
+        return {
+            hasMacros: entries.some(e => e.macros),
+            today: todayTotals,
+            split: macroSplit(todayTotals),
+            week: days,
+            weekMax: Math.max(1, ...days.map(day => day.total)),
+        };
+    }, [entries]);
+
+    if (!hasMacros) return null;
+
+    return (
+        <View style={[styles.card, { backgroundColor: colors.card }]} testID="macro-summary">
+            <Text style={[styles.title, { color: colors.textSecondary }]}>{t('calories.macros.today')}</Text>
+            <View style={styles.totals}>
+                {MACRO_KEYS.map(key => (
+                    <View key={key} style={styles.total}>
+                        <Text style={[styles.totalValue, { color: MACRO_COLORS[key] }]}>
+                            {t('calories.macros.grams').replace('{{count}}', String(today[key]))}
+                        </Text>
+                        <Text style={[styles.totalLabel, { color: colors.textSecondary }]}>{labels[key]}</Text>
+                    </View>
+                ))}
+            </View>
+
+            <Text style={[styles.title, { color: colors.textSecondary }]}>{t('calories.macros.split')}</Text>
+            <View style={[styles.splitBar, { backgroundColor: colors.border }]}>
+                {ENERGY_MACROS.map(key => split[key] > 0 && (
+                    <View key={key} style={{ flex: split[key], backgroundColor: MACRO_COLORS[key] }} />
+                ))}
+            </View>
+            <View style={styles.legend}>
+                {ENERGY_MACROS.map(key => (
+                    <View key={key} style={styles.legendItem}>
+                        <View style={[styles.dot, { backgroundColor: MACRO_COLORS[key] }]} />
+                        <Text style={[styles.legendText, { color: colors.text }]}>
+                            {labels[key]} {Math.round(split[key] * 100)}%
+                        </Text>
+                    </View>
+                ))}
+            </View>
+
+            <Text style={[styles.title, { color: colors.textSecondary }]}>{t('calories.macros.week')}</Text>
+            <View style={styles.chart}>
+                {week.map((day, i) => (
+                    <View key={i} style={styles.chartColumn}>
+                        <View style={[styles.chartBar, { height: (day.total / weekMax) * CHART_HEIGHT }]}>
+                            {day.kcal.map(part => part.kcal > 0 && (
+                                <View key={part.key} style={{ flex: part.kcal, backgroundColor: MACRO_COLORS[part.key] }} />
+                            ))}
+                        </View>
+                        <Text style={[styles.chartLabel, { color: colors.textSecondary }]}>{day.label}</Text>
+                    </View>
+                ))}
+            </View>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    card: {
+        padding: 16,
+        borderRadius: 16,
+        marginTop: 5,
+        gap: 10,
+    },
+    title: {
+        fontSize: 13,
+        fontWeight: '600',
+    },
+    totals: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+    },
+    total: {
+        alignItems: 'center',
+    },
+    totalValue: {
+        fontSize: 16,
+        fontWeight: 'bold',
+    },
+    totalLabel: {
+        fontSize: 11,
+        marginTop: 2,
+    },
+    splitBar: {
+        flexDirection: 'row',
+        height: 10,
+        borderRadius: 5,
+        overflow: 'hidden',
+    },
+    legend: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+    },
+    legendItem: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+    },
+    dot: {
+        width: 8,
+        height: 8,
+        borderRadius: 4,
+    },
+    legendText: {
+        fontSize: 12,
+    },
+    chart: {
+        flexDirection: 'row',
+        alignItems: 'flex-end',
+        justifyContent: 'space-between',
+        height: CHART_HEIGHT + 20,
+    },
+    chartColumn: {
+        flex: 1,
+        alignItems: 'center',
+        justifyContent: 'flex-end',
+    },
+    chartBar: {
+        width: 14,
+        borderRadius: 4,
+        overflow: 'hidden',
+        flexDirection: 'column-reverse',
+    },
+    chartLabel: {
+        fontSize: 11,
+        marginTop: 4,
+    },
+});
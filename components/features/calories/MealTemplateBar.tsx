@@ -0,0 +1,93 @@
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/context/ThemeContext';
+import { useLanguage } from '@/context/LanguageContext';
+import { MealTemplate, templateCalories } from '@/hooks/useMealTemplates';
+import { MEAL_ICONS } from '@/utils/meals';
+
+type MealTemplateBarProps = {
+    templates: MealTemplate[];
+    onLog: (template: MealTemplate) => void;
+    onDelete: (template: MealTemplate) => void;
+};
+
+/**
+ * Saved meals as a row of chips: a tap logs every food in the meal for today,
+ * holding one offers to delete it. Hidden while there are none.
+ */
+export default function MealTemplateBar({ templates, onLog, onDelete }: MealTemplateBarProps) {
+    const { colors } = useTheme();
+    const { t } = useLanguage();
+
+    if (templates.length === 0) return null;
+
+    return (
+        <View style={styles.container} testID="meal-templates">
+            <View style={styles.header}>
+                <Text style={[styles.title, { color: colors.text }]}>{t('calories.templates.title')}</Text>
+                <Text style={[styles.hint, { color: colors.textSecondary }]}>{t('calories.templates.hint')}</Text>
+            </View>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+                {templates.map(template => (
+                    <TouchableOpacity
+                        key={template.id}
+                        style={[styles.chip, { backgroundColor: colors.card, borderColor: colors.border }]}
+                        onPress={() => onLog(template)}
+                        onLongPress={() => onDelete(template)}
+                    >
+                        <Ionicons name={MEAL_ICONS[template.meal]} size={16} color={colors.primary} />
+                        <View>
+                            <Text style={[styles.chipName, { color: colors.text }]} numberOfLines={1}>{template.name}</Text>
+                            <Text style={[styles.chipDetail, { color: colors.textSecondary }]}>
+                                {t('calories.templates.items').replace('{{count}}', String(template.items.length))} · {templateCalories(template)} kcal
+                            </Text>
+                        </View>
+                    </TouchableOpacity>
+                ))}
+            </ScrollView>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        marginBottom: 10,
+    },
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'baseline',
+        paddingHorizontal: 20,
+        marginBottom: 8,
+    },
+    title: {
+        fontSize: 15,
+        fontWeight: '600',
+    },
+    hint: {
+        fontSize: 11,
+    },
+    chips: {
+        paddingHorizontal: 20,
+        gap: 8,
+    },
+    chip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        paddingVertical: 8,
+        paddingHorizontal: 12,
+        borderRadius: 12,
+        borderWidth: 1,
+        maxWidth: 200,
+    },
+    chipName: {
+        fontSize: 14,
+        fontWeight: '500',
+    },
+    chipDetail: {
+        fontSize: 11,
+        marginTop: 2,
+    },
+});
@@ -17,7 +17,9 @@ import { useTheme } from '@/context/ThemeContext';
 import { useLanguage } from '@/context/LanguageContext';
 import { useNotifications } from '@/context/NotificationContext';
 import { SOCIUS_AVATAR_MAP } from '@/constants/avatars';
-import api from '@/services/api';
+import { getSociusCompanions } from '@/services/apiClient';
+import { STORAGE_PREFIXES } from '@/services/storageRegistry';
+import { SociusCompanion } from '@/types/api';
 
 const { width, height } = Dimensions.get('window');
 const BUBBLE_SIZE = 56;
@@ -31,13 +33,9 @@ const ROLE_INFO: Record<string, { icon: string; color: string }> = {
     workout: { icon: 'fitness', color: '#FF3B30' },
 };
 
-interface SociusFriend {
-    id: string;
-    name: string;
-    avatar: string;
-    role: string;
+type SociusFriend = SociusCompanion & {
     unread?: number;
-}
+};
 
 interface AppSpecificChatHeadProps {
     roleType: 'christian' | 'cal_tracker' | 'secrets' | 'workout';
@@ -62,11 +60,9 @@ export default function AppSpecificChatHead({ roleType, appContext }: AppSpecifi
     const loadFriend = useCallback(async () => {
         try {
             // Add timestamp to prevent caching
-            const response = await api.get(`/friends/socius?_t=${Date.now()}`);
-            const companions = response.data || [];
-
+            const companions = await getSociusCompanions({ fresh: true });
 
-            const matchingFriend = companions.find((c: any) => {
+            const matchingFriend = companions.find(c => {
                 if (roleType === 'cal_tracker') {
                     return c.role === 'cal_tracker' || c.role === 'tracker';
                 }
@@ -113,7 +109,7 @@ export default function AppSpecificChatHead({ roleType, appContext }: AppSpecifi
     useEffect(() => {
         const loadPosition = async () => {
             try {
-                const savedPos = await AsyncStorage.getItem(`chat_head_pos_${appContext}`);
+                const savedPos = await AsyncStorage.getItem(`${STORAGE_PREFIXES.appChatHeadPosition}${appContext}`);
                 if (savedPos) {
                     const { x, y } = JSON.parse(savedPos);
                     pan.setValue({ x, y });
@@ -193,7 +189,7 @@ export default function AppSpecificChatHead({ roleType, appContext }: AppSpecifi
                 // Save persistence
                 try {
                     await AsyncStorage.setItem(
-                        `chat_head_pos_${appContext}`,
+                        `${STORAGE_PREFIXES.appChatHeadPosition}${appContext}`,
                         JSON.stringify({ x: finalX, y: finalY })
                     );
                 } catch {
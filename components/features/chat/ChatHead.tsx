@@ -1,6 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { StyleSheet, View, Image, Animated, PanResponder, useWindowDimensions, Text } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { STORAGE_KEYS } from '@/services/storageRegistry';
 import { useRouter, usePathname } from 'expo-router';
 import { SOCIUS_AVATAR_MAP } from '@/constants/avatars';
 import { useTheme } from '@/context/ThemeContext';
@@ -36,7 +37,7 @@ export default function ChatHead() {
         const loadState = async () => {
             // Load Position
             try {
-                const saved = await AsyncStorage.getItem('chat_head_pos');
+                const saved = await AsyncStorage.getItem(STORAGE_KEYS.chatHeadPosition);
                 if (saved) {
                     const pos = JSON.parse(saved);
                     pan.setValue({ x: 0, y: 0 });
@@ -113,7 +114,7 @@ export default function ChatHead() {
                 }
 
                 try {
-                    await AsyncStorage.setItem('chat_head_pos', JSON.stringify({ x: finalX, y: finalY }));
+                    await AsyncStorage.setItem(STORAGE_KEYS.chatHeadPosition, JSON.stringify({ x: finalX, y: finalY }));
                 } catch {
 
                 }
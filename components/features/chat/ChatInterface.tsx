@@ -10,7 +10,8 @@ import { useTheme } from '@/context/ThemeContext';
 import { useLanguage } from '@/context/LanguageContext';
 import { PROFILE_AVATAR_MAP, SOCIUS_AVATAR_MAP } from '@/constants/avatars';
 import { renderMessageWidgets } from '@/components/features/chat/MessageWidgets';
-import { useChat } from '@/hooks/useChat';
+import { useChat, ChatMessage } from '@/hooks/useChat';
+import ConnectionBanner from '@/components/ui/ConnectionBanner';
 
 const SociusAvatar = ({ source }: { source: any }) => {
     const { colors } = useTheme();
@@ -41,7 +42,7 @@ export default function ChatInterface({ onClose, isModal = false, initialMessage
     const { colors } = useTheme();
     const { t, language } = useLanguage();
     const {
-        messages, text, setText, onSend, isTyping,
+        messages, text, setText, onSend, retryMessage, deleteMessage, isTyping,
         isLoadingEarlier, canLoadMore, loadEarlierMessages, currentUser
     } = useChat({
         message_group_id, friendId, companionId, friendName, friendAvatar, initialMessage
@@ -76,6 +77,34 @@ export default function ChatInterface({ onClose, isModal = false, initialMessage
     }, []);
 
 
+    // Queued messages show a clock while waiting and a red mark once an attempt failed
+    const renderTicks = useCallback((message: ChatMessage) => {
+        if (message.failed) {
+            return <Ionicons name="alert-circle" size={14} color="#FF3B30" style={styles.tick} />;
+        }
+        if (message.pending) {
+            return <Ionicons name="time-outline" size={12} color="rgba(255, 255, 255, 0.7)" style={styles.tick} />;
+        }
+        return null;
+    }, []);
+
+    const handleLongPress = useCallback((message: ChatMessage) => {
+        if (message.pending || message.failed) {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+            Alert.alert(t('chat.not_sent_title'), t('chat.not_sent_message'), [
+                { text: t('common.cancel'), style: 'cancel' },
+                { text: t('chat.delete_message'), style: 'destructive', onPress: () => deleteMessage(String(message._id)) },
+                { text: t('chat.retry'), onPress: () => retryMessage(String(message._id)) },
+            ]);
+            return;
+        }
+        if (message.text) {
+            Clipboard.setStringAsync(message.text);
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            Alert.alert(t('common.success') || 'Success', t('chat.copy_success') || 'Text copied to clipboard');
+        }
+    }, [t, retryMessage, deleteMessage]);
+
     const renderBubble = useCallback((props: any) => (
         <Bubble
             {...props}
@@ -89,8 +118,9 @@ export default function ChatInterface({ onClose, isModal = false, initialMessage
             }}
             renderCustomView={renderCustomView}
             renderMessageText={renderMessageWidgets}
+            renderTicks={renderTicks}
         />
-    ), [colors, renderCustomView]);
+    ), [colors, renderCustomView, renderTicks]);
 
     const renderDay = useCallback((props: any) => {
         // DayAnimated passes createdAt directly (as timestamp), inline passes via currentMessage
@@ -246,6 +276,7 @@ export default function ChatInterface({ onClose, isModal = false, initialMessage
                     <View style={{ width: 40 }} />
                 </View>
             )}
+            <ConnectionBanner />
 
             {Platform.OS === 'ios' ? (
                 <KeyboardAvoidingView
@@ -321,13 +352,7 @@ export default function ChatInterface({ onClose, isModal = false, initialMessage
                             sameElse: language === 'ko' ? 'M[월] D[일]' : 'MMMM D',
                         }}
 
-                        onLongPress={(context, message) => {
-                            if (message.text) {
-                                Clipboard.setStringAsync(message.text);
-                                Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-                                Alert.alert(t('common.success') || 'Success', t('chat.copy_success') || 'Text copied to clipboard');
-                            }
-                        }}
+                        onLongPress={(context, message) => handleLongPress(message)}
                         listViewProps={{
                             removeClippedSubviews: false,
                             initialNumToRender: 8,
@@ -340,7 +365,10 @@ export default function ChatInterface({ onClose, isModal = false, initialMessage
                             keyboardShouldPersistTaps: 'handled',
                         } as any}
                         shouldUpdateMessage={(props, nextProps) =>
-                            props.currentMessage._id !== nextProps.currentMessage._id
+                            props.currentMessage._id !== nextProps.currentMessage._id ||
+                            props.currentMessage.text !== nextProps.currentMessage.text ||
+                            props.currentMessage.pending !== nextProps.currentMessage.pending ||
+                            (props.currentMessage as ChatMessage).failed !== (nextProps.currentMessage as ChatMessage).failed
                         }
                         {...(Platform.OS === 'ios' ? { isKeyboardInternallyHandled: false } : {})}
                     />
@@ -411,13 +439,7 @@ export default function ChatInterface({ onClose, isModal = false, initialMessage
                         lastWeek: language === 'ko' ? 'M[월] D[일]' : 'MMMM D',
                         sameElse: language === 'ko' ? 'M[월] D[일]' : 'MMMM D',
                     }}
-                    onLongPress={(context, message) => {
-                        if (message.text) {
-                            Clipboard.setStringAsync(message.text);
-                            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-                            Alert.alert(t('common.success') || 'Success', t('chat.copy_success') || 'Text copied to clipboard');
-                        }
-                    }}
+                    onLongPress={(context, message) => handleLongPress(message)}
                     listViewProps={{
                         removeClippedSubviews: true,
                         initialNumToRender: 20,
@@ -427,7 +449,10 @@ export default function ChatInterface({ onClose, isModal = false, initialMessage
                         keyboardShouldPersistTaps: 'handled',
                     } as any}
                     shouldUpdateMessage={(props, nextProps) =>
-                        props.currentMessage._id !== nextProps.currentMessage._id
+                        props.currentMessage._id !== nextProps.currentMessage._id ||
+                        props.currentMessage.text !== nextProps.currentMessage.text ||
+                        props.currentMessage.pending !== nextProps.currentMessage.pending ||
+                        (props.currentMessage as ChatMessage).failed !== (nextProps.currentMessage as ChatMessage).failed
                     }
                 />
             )}
@@ -492,6 +517,10 @@ const styles = StyleSheet.create({
         fontSize: 16,
         marginRight: 10,
     },
+    tick: {
+        marginRight: 8,
+        marginBottom: 4,
+    },
     customSendButton: {
         width: 40,
         height: 40,
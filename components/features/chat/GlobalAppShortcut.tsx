@@ -14,21 +14,25 @@ import {
 import { useRouter, useSegments } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { STORAGE_KEYS } from '@/services/storageRegistry';
 import { useTheme } from '@/context/ThemeContext';
 import { useLanguage } from '@/context/LanguageContext';
 import { BlurView } from 'expo-blur';
 import { DEFAULT_APPS } from '@/constants/apps';
+import { useAppLock } from '@/hooks/useAppLock';
+import { LOCKABLE_APPS, LockableApp } from '@/services/appLock';
 
 const { width, height } = Dimensions.get('window');
 const BUBBLE_SIZE = 48;
 const TUCK_MARGIN = -10;
-const STORAGE_KEY = 'global_app_shortcut_pos';
+const STORAGE_KEY = STORAGE_KEYS.appShortcutPosition;
 
 export default function GlobalAppShortcut() {
     const segments = useSegments();
     const router = useRouter();
     const { colors, isDark } = useTheme();
     const { t } = useLanguage();
+    const { isLocked } = useAppLock();
 
     // -- All Hooks at the top --
     const [showModal, setShowModal] = useState(false);
@@ -43,8 +47,10 @@ export default function GlobalAppShortcut() {
         if (!segs.length || segs.includes('onboarding')) return false;
         const firstSegment = segs[0];
         if (firstSegment === 'index' || firstSegment === 'socius-setup') return false;
+        // Nothing floats over a lock gate
+        if (LOCKABLE_APPS.includes(firstSegment as LockableApp) && isLocked(firstSegment as LockableApp)) return false;
         return true;
-    }, [segments]);
+    }, [segments, isLocked]);
 
     // -- Logic Functions --
     const handleAppPress = useCallback((route: string) => {
@@ -227,6 +233,11 @@ export default function GlobalAppShortcut() {
                                                 >
                                                     <View style={[styles.appIcon, { backgroundColor: app.color, opacity: 0.9 }]}>
                                                         <Ionicons name={app.icon as any} size={20} color="#fff" />
+                                                        {LOCKABLE_APPS.includes(app.id as LockableApp) && isLocked(app.id as LockableApp) && (
+                                                            <View style={[styles.lockBadge, { backgroundColor: colors.card }]}>
+                                                                <Ionicons name="lock-closed" size={9} color={colors.text} />
+                                                            </View>
+                                                        )}
                                                     </View>
                                                     <Text style={[styles.appLabel, { color: colors.text }]} numberOfLines={1}>
                                                         {t(app.label)}
@@ -307,6 +318,16 @@ const styles = StyleSheet.create({
         alignItems: 'center',
         marginBottom: 4,
     },
+    lockBadge: {
+        position: 'absolute',
+        right: -2,
+        bottom: -2,
+        width: 16,
+        height: 16,
+        borderRadius: 8,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
     appLabel: {
         fontSize: 8.5,
         textAlign: 'center',
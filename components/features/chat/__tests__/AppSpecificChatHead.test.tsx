@@ -49,7 +49,7 @@ describe('AppSpecificChatHead', () => {
     it('renders and loads friend with unread count', async () => {
         (api.get as jest.Mock).mockResolvedValue({
             data: [{
-                id: '123',
+                id: 123,
                 name: 'Jesus',
                 avatar: 'jesus.png',
                 role: 'christian',
@@ -1,14 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, TextInput, ActivityIndicator } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { STORAGE_PREFIXES, subscribeUserDataWipe } from '@/services/storageRegistry';
 import { useTheme } from '@/context/ThemeContext';
 import { useLanguage } from '@/context/LanguageContext';
 import { useCalories } from '@/hooks/useCalories';
 import { Ionicons } from '@expo/vector-icons';
+import { Macros, formatMacros, macroLabels, parseMacros } from '@/utils/macros';
+import { favoritesMatching } from '@/utils/recentFoods';
 
+// Macros may sit under `macros` or next to the calories ("protein": 20)
 type CalorieOption = {
     label: string;
     calories: number;
+    macros?: Macros;
+    [macro: string]: unknown;
 };
 
 type CalorieWidgetProps = {
@@ -20,11 +26,14 @@ type CalorieWidgetProps = {
 
 // Global cache for instant feedback
 const LOGGED_CACHE = new Map<string, boolean>();
+subscribeUserDataWipe(() => LOGGED_CACHE.clear());
 
 export default function CalorieWidget({ food, options, messageId, onLogged }: CalorieWidgetProps) {
     const { colors } = useTheme();
     const { t } = useLanguage();
-    const { addEntry } = useCalories();
+    const { addEntry, favorites } = useCalories();
+    const shortLabels = macroLabels(t, true);
+    const matchingFavorites = favoritesMatching(favorites, food || '');
 
     const [loading, setLoading] = useState(false);
     const [logged, setLogged] = useState(false);
@@ -43,7 +52,7 @@ export default function CalorieWidget({ food, options, messageId, onLogged }: Ca
             }
 
             try {
-                const key = `calorie_logged_${messageId}`;
+                const key = `${STORAGE_PREFIXES.calorieLogged}${messageId}`;
                 const status = await AsyncStorage.getItem(key);
                 if (status === 'true') {
                     setLogged(true);
@@ -56,21 +65,22 @@ export default function CalorieWidget({ food, options, messageId, onLogged }: Ca
         checkStatus();
     }, [messageId]);
 
-    const handleLog = async (calories: number) => {
+    // A favorite is logged under its own name
+    const handleLog = async (calories: number, macros?: Macros, favoriteName?: string) => {
         setLoading(true);
         try {
             // Debug: log what we're passing
 
 
             // Ensure food is a string at call time
-            const foodToLog = food || 'Unknown Food';
-            await addEntry(foodToLog, calories);
+            const foodToLog = favoriteName || food || 'Unknown Food';
+            await addEntry(foodToLog, calories, undefined, macros);
             setLogged(true);
 
             // Persist status
             if (messageId) {
                 LOGGED_CACHE.set(String(messageId), true);
-                await AsyncStorage.setItem(`calorie_logged_${messageId}`, 'true');
+                await AsyncStorage.setItem(`${STORAGE_PREFIXES.calorieLogged}${messageId}`, 'true');
             }
 
             if (onLogged) onLogged();
@@ -102,6 +112,7 @@ export default function CalorieWidget({ food, options, messageId, onLogged }: Ca
 
             <View style={styles.optionsContainer}>
                 {options.map((opt, index) => {
+                    const macros = parseMacros(opt);
                     let label = opt.label;
                     // Translate known keys
                     const lowerLabel = opt.label.toLowerCase();
@@ -119,16 +130,39 @@ export default function CalorieWidget({ food, options, messageId, onLogged }: Ca
                         <TouchableOpacity
                             key={index}
                             style={[styles.optionButton, { backgroundColor: colors.inputBackground, borderWidth: 1, borderColor: colors.border }]}
-                            onPress={() => handleLog(opt.calories)}
+                            onPress={() => handleLog(opt.calories, macros)}
                             disabled={loading}
                         >
                             <Text style={[styles.optionLabel, { color: colors.text }]}>{label}</Text>
                             <Text style={[styles.optionValue, { color: optionColor }]}>{opt.calories} {t('calories.kcal')}</Text>
+                            {!!macros && (
+                                <Text style={[styles.optionMacros, { color: colors.textSecondary }]}>
+                                    {formatMacros(macros, shortLabels)}
+                                </Text>
+                            )}
                         </TouchableOpacity>
                     );
                 })}
             </View>
 
+            {matchingFavorites.length > 0 && (
+                <View style={styles.favorites}>
+                    <Text style={[styles.favoritesTitle, { color: colors.textSecondary }]}>{t('calories.favorites.from_favorites')}</Text>
+                    {matchingFavorites.map(fav => (
+                        <TouchableOpacity
+                            key={fav.id}
+                            style={[styles.favoriteButton, { backgroundColor: colors.inputBackground, borderColor: colors.border }]}
+                            onPress={() => handleLog(fav.calories, fav.macros, fav.food)}
+                            disabled={loading}
+                        >
+                            <Ionicons name="star" size={14} color="#FFCC00" />
+                            <Text style={[styles.favoriteName, { color: colors.text }]} numberOfLines={1}>{fav.food}</Text>
+                            <Text style={[styles.optionValue, { color: colors.primary, marginTop: 0 }]}>{fav.calories} {t('calories.kcal')}</Text>
+                        </TouchableOpacity>
+                    ))}
+                </View>
+            )}
+
             {showCustom ? (
                 <View style={styles.customContainer}>
                     <TextInput
@@ -210,6 +244,32 @@ const styles = StyleSheet.create({
         fontWeight: 'bold',
         marginTop: 2,
     },
+    optionMacros: {
+        fontSize: 10,
+        marginTop: 2,
+        textAlign: 'center',
+    },
+    favorites: {
+        marginTop: 10,
+        gap: 6,
+    },
+    favoritesTitle: {
+        fontSize: 11,
+        fontWeight: '600',
+    },
+    favoriteButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        padding: 10,
+        borderRadius: 8,
+        borderWidth: 1,
+    },
+    favoriteName: {
+        flex: 1,
+        fontSize: 12,
+        fontWeight: '500',
+    },
     customContainer: {
         flexDirection: 'row',
         marginTop: 10,
@@ -1,9 +1,16 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, TextInput, ActivityIndicator, ScrollView } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { STORAGE_PREFIXES, subscribeUserDataWipe } from '@/services/storageRegistry';
 import { useTheme } from '@/context/ThemeContext';
 import { useLanguage } from '@/context/LanguageContext';
 import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { usePasswords } from '@/hooks/usePasswords';
+import { usePasswordGroups, groupLabel, DEFAULT_GROUP } from '@/hooks/usePasswordGroups';
+import VaultGate from '@/components/features/passwords/VaultGate';
+import PasswordGenerator from '@/components/features/passwords/PasswordGenerator';
+import PasswordStrengthMeter from '@/components/features/passwords/PasswordStrengthMeter';
 
 type PasswordWidgetProps = {
     service: string;
@@ -13,20 +20,9 @@ type PasswordWidgetProps = {
     onSaved?: () => void;
 };
 
-type PasswordAccount = {
-    id: string;
-    service: string;
-    username: string;
-    password: string;
-    group: string;
-    updated_at: number;
-};
-
-const STORAGE_KEY = 'user_passwords';
-const GROUPS = ['social', 'work', 'personal', 'finance', 'other'];
-
 // Global cache for instant feedback
 const SAVED_CACHE = new Map<string, boolean>();
+subscribeUserDataWipe(() => SAVED_CACHE.clear());
 
 export default function PasswordWidget({
     service: initialService,
@@ -37,14 +33,18 @@ export default function PasswordWidget({
 }: PasswordWidgetProps) {
     const { colors } = useTheme();
     const { t } = useLanguage();
+    const router = useRouter();
+    const { saveAccount, vaultState, setupVault, unlock } = usePasswords();
+    const { groups } = usePasswordGroups();
 
     const [loading, setLoading] = useState(false);
     const [saved, setSaved] = useState(false);
     const [service, setService] = useState(initialService || '');
     const [username, setUsername] = useState(initialUsername || '');
     const [password, setPassword] = useState(initialPassword || '');
-    const [selectedGroup, setSelectedGroup] = useState('other');
+    const [selectedGroup, setSelectedGroup] = useState(DEFAULT_GROUP);
     const [showPassword, setShowPassword] = useState(false);
+    const [showGenerator, setShowGenerator] = useState(false);
 
     // Check persistence
     useEffect(() => {
@@ -58,7 +58,7 @@ export default function PasswordWidget({
             }
 
             try {
-                const key = `password_saved_${messageId}`;
+                const key = `${STORAGE_PREFIXES.passwordSaved}${messageId}`;
                 const status = await AsyncStorage.getItem(key);
                 if (status === 'true') {
                     setSaved(true);
@@ -76,30 +76,19 @@ export default function PasswordWidget({
 
         setLoading(true);
         try {
-            // Load existing accounts
-            const existing = await AsyncStorage.getItem(STORAGE_KEY);
-            const accounts: PasswordAccount[] = existing ? JSON.parse(existing) : [];
-
-            // Create new account entry
-            const newAccount: PasswordAccount = {
-                id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+            await saveAccount({
                 service: service || 'Unknown',
                 username: username || '',
                 password: password,
                 group: selectedGroup,
-                updated_at: Date.now(),
-            };
-
-            // Add to accounts and save
-            accounts.unshift(newAccount);
-            await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(accounts));
+            });
 
             setSaved(true);
 
             // Persist widget status
             if (messageId) {
                 SAVED_CACHE.set(String(messageId), true);
-                await AsyncStorage.setItem(`password_saved_${messageId}`, 'true');
+                await AsyncStorage.setItem(`${STORAGE_PREFIXES.passwordSaved}${messageId}`, 'true');
             }
 
             if (onSaved) onSaved();
@@ -123,6 +112,27 @@ export default function PasswordWidget({
         );
     }
 
+    // Credentials are only saved encrypted, so the vault has to be open first
+    if (vaultState !== 'unlocked') {
+        return (
+            <View style={[styles.container, { backgroundColor: colors.card, borderColor: colors.border }]}>
+                <View style={styles.header}>
+                    <Ionicons name="lock-closed" size={20} color={colors.primary} />
+                    <Text style={[styles.title, { color: colors.text }]}>
+                        {t('passwords.save_credentials') || 'Save Credentials'}
+                    </Text>
+                </View>
+                <VaultGate
+                    state={vaultState}
+                    onSetup={setupVault}
+                    onUnlock={unlock}
+                    onOpenPasswords={() => router.push('/passwords')}
+                    compact
+                />
+            </View>
+        );
+    }
+
     return (
         <View style={[styles.container, { backgroundColor: colors.card, borderColor: colors.border }]}>
             <View style={styles.header}>
@@ -186,7 +196,18 @@ export default function PasswordWidget({
                             color={colors.textSecondary}
                         />
                     </TouchableOpacity>
+                    <TouchableOpacity
+                        style={[styles.eyeButton, { backgroundColor: showGenerator ? colors.primary : colors.inputBackground, borderColor: colors.border }]}
+                        onPress={() => setShowGenerator(!showGenerator)}
+                        accessibilityLabel={t('passwords.generator.generate')}
+                    >
+                        <Ionicons name="dice-outline" size={18} color={showGenerator ? '#fff' : colors.textSecondary} />
+                    </TouchableOpacity>
                 </View>
+                <PasswordStrengthMeter password={password} />
+                {showGenerator && (
+                    <PasswordGenerator service={service} group={selectedGroup} onGenerate={setPassword} />
+                )}
             </View>
 
             {/* Group Selector */}
@@ -195,23 +216,24 @@ export default function PasswordWidget({
                     {t('passwords.category') || 'Category'}
                 </Text>
                 <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.groupScroll}>
-                    {GROUPS.map((g) => (
+                    {groups.map((g) => (
                         <TouchableOpacity
-                            key={g}
+                            key={g.id}
                             style={[
                                 styles.groupChip,
                                 {
-                                    backgroundColor: selectedGroup === g ? colors.primary : colors.inputBackground,
-                                    borderColor: selectedGroup === g ? colors.primary : colors.border
+                                    backgroundColor: selectedGroup === g.id ? g.color : colors.inputBackground,
+                                    borderColor: selectedGroup === g.id ? g.color : colors.border
                                 }
                             ]}
-                            onPress={() => setSelectedGroup(g)}
+                            onPress={() => setSelectedGroup(g.id)}
                         >
+                            <Ionicons name={g.icon as keyof typeof Ionicons.glyphMap} size={12} color={selectedGroup === g.id ? '#fff' : g.color} />
                             <Text style={[
                                 styles.groupChipText,
-                                { color: selectedGroup === g ? '#fff' : colors.text }
+                                { color: selectedGroup === g.id ? '#fff' : colors.text }
                             ]}>
-                                {t(`passwords.group_${g}`) || g.charAt(0).toUpperCase() + g.slice(1)}
+                                {groupLabel(g, t)}
                             </Text>
                         </TouchableOpacity>
                     ))}
@@ -295,6 +317,9 @@ const styles = StyleSheet.create({
         flexDirection: 'row',
     },
     groupChip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
         paddingHorizontal: 12,
         paddingVertical: 6,
         borderRadius: 16,
@@ -1,10 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, TextInput, ActivityIndicator } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { STORAGE_PREFIXES, subscribeUserDataWipe } from '@/services/storageRegistry';
 import { useTheme } from '@/context/ThemeContext';
 import { useLanguage } from '@/context/LanguageContext';
 import { Ionicons } from '@expo/vector-icons';
-import dayjs from 'dayjs';
+import { useWorkouts } from '@/hooks/useWorkouts';
 
 type WorkoutOption = {
     label: string;
@@ -19,14 +20,14 @@ type WorkoutWidgetProps = {
     onLogged?: () => void;
 };
 
-const ACTIVITIES_KEY = 'workout_activities';
-
 // Global cache for instant feedback
 const LOGGED_CACHE = new Map<string, boolean>();
+subscribeUserDataWipe(() => LOGGED_CACHE.clear());
 
 export default function WorkoutWidget({ exercise, duration, options, messageId, onLogged }: WorkoutWidgetProps) {
     const { colors } = useTheme();
     const { t } = useLanguage();
+    const { addActivity } = useWorkouts();
 
     const [loading, setLoading] = useState(false);
     const [logged, setLogged] = useState(false);
@@ -45,7 +46,7 @@ export default function WorkoutWidget({ exercise, duration, options, messageId,
             }
 
             try {
-                const key = `workout_logged_${messageId}`;
+                const key = `${STORAGE_PREFIXES.workoutLogged}${messageId}`;
                 const status = await AsyncStorage.getItem(key);
                 if (status === 'true') {
                     setLogged(true);
@@ -71,28 +72,14 @@ export default function WorkoutWidget({ exercise, duration, options, messageId,
                 safeExerciseName = 'Workout';
             }
 
-            // Create new activity entry
-            const newActivity = {
-                id: Date.now().toString(),
-                name: safeExerciseName,
-                duration: duration || 0,
-                calories: calories,
-                date: dayjs().format('YYYY-MM-DD'),
-                timestamp: Date.now()
-            };
-
-            // Load existing activities and add new one
-            const savedActivities = await AsyncStorage.getItem(ACTIVITIES_KEY);
-            const activities = savedActivities ? JSON.parse(savedActivities) : [];
-            const updatedActivities = [newActivity, ...activities];
-            await AsyncStorage.setItem(ACTIVITIES_KEY, JSON.stringify(updatedActivities));
+            await addActivity(safeExerciseName, duration || 0, calories);
 
             setLogged(true);
 
             // Persist status
             if (messageId) {
                 LOGGED_CACHE.set(String(messageId), true);
-                await AsyncStorage.setItem(`workout_logged_${messageId}`, 'true');
+                await AsyncStorage.setItem(`${STORAGE_PREFIXES.workoutLogged}${messageId}`, 'true');
             }
 
             if (onLogged) onLogged();
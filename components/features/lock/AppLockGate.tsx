@@ -0,0 +1,51 @@
+import React from 'react';
+import { View, ActivityIndicator, StyleSheet } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Stack } from 'expo-router';
+import { useTheme } from '@/context/ThemeContext';
+import { useAppLock } from '@/hooks/useAppLock';
+import { LockableApp } from '@/services/appLock';
+import UnlockPrompt from './UnlockPrompt';
+
+type AppLockGateProps = {
+    app: LockableApp;
+    children: React.ReactNode;
+};
+
+/**
+ * Wraps a screen that can be locked from settings. The screen is not mounted until
+ * the lock settings have loaded and the app is unlocked, so nothing is fetched or
+ * shown behind the gate.
+ */
+export default function AppLockGate({ app, children }: AppLockGateProps) {
+    const { colors } = useTheme();
+    const { loaded, locked } = useAppLock(app);
+
+    if (!locked) return <>{children}</>;
+
+    return (
+        <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['bottom']}>
+            {/* Header actions set by the screen would act on content that is no longer there */}
+            <Stack.Screen options={{ headerRight: undefined }} />
+            {loaded ? (
+                <View style={styles.prompt}>
+                    <UnlockPrompt />
+                </View>
+            ) : (
+                <ActivityIndicator size="large" color={colors.primary} style={styles.loading} />
+            )}
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    prompt: {
+        paddingTop: 60,
+    },
+    loading: {
+        marginTop: 20,
+    },
+});
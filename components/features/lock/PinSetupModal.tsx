@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { Modal, View, Text, TextInput, TouchableOpacity, ActivityIndicator, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/context/ThemeContext';
+import { useLanguage } from '@/context/LanguageContext';
+import { MIN_PIN_LENGTH, setAppLockPin } from '@/services/appLock';
+
+type PinSetupModalProps = {
+    visible: boolean;
+    onClose: () => void;
+    onDone: () => void;
+};
+
+// Chooses a new PIN, entered twice
+export default function PinSetupModal({ visible, onClose, onDone }: PinSetupModalProps) {
+    const { colors } = useTheme();
+    const { t } = useLanguage();
+    const [pin, setPin] = useState('');
+    const [confirmation, setConfirmation] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+
+    const reset = () => {
+        setPin('');
+        setConfirmation('');
+        setError(null);
+        setBusy(false);
+    };
+
+    const handleClose = () => {
+        reset();
+        onClose();
+    };
+
+    const handleSave = async () => {
+        if (pin.length < MIN_PIN_LENGTH) {
+            setError(t('app_lock.pin_too_short').replace('{{count}}', String(MIN_PIN_LENGTH)));
+            return;
+        }
+        if (pin !== confirmation) {
+            setError(t('app_lock.pin_mismatch'));
+            return;
+        }
+
+        setBusy(true);
+        try {
+            await setAppLockPin(pin);
+            reset();
+            onDone();
+        } catch (e) {
+            console.error('Failed to save PIN', e);
+            setError(t('app_lock.pin_save_failed'));
+            setBusy(false);
+        }
+    };
+
+    const inputStyle = [styles.input, { backgroundColor: colors.inputBackground, color: colors.text, borderColor: colors.border }];
+
+    return (
+        <Modal visible={visible} transparent animationType="fade" onRequestClose={handleClose}>
+            <View style={styles.overlay}>
+                <View style={[styles.content, { backgroundColor: colors.card }]}>
+                    <View style={styles.header}>
+                        <Text style={[styles.title, { color: colors.text }]}>{t('app_lock.set_pin')}</Text>
+                        <TouchableOpacity onPress={handleClose}>
+                            <Ionicons name="close" size={24} color={colors.textSecondary} />
+                        </TouchableOpacity>
+                    </View>
+
+                    <TextInput
+                        style={inputStyle}
+                        value={pin}
+                        onChangeText={text => setPin(text.replace(/\D/g, ''))}
+                        placeholder={t('app_lock.new_pin')}
+                        placeholderTextColor={colors.textSecondary}
+                        keyboardType="number-pad"
+                        secureTextEntry
+                        maxLength={8}
+                    />
+                    <TextInput
+                        style={inputStyle}
+                        value={confirmation}
+                        onChangeText={text => setConfirmation(text.replace(/\D/g, ''))}
+                        placeholder={t('app_lock.confirm_pin')}
+                        placeholderTextColor={colors.textSecondary}
+                        keyboardType="number-pad"
+                        secureTextEntry
+                        maxLength={8}
+                        onSubmitEditing={handleSave}
+                    />
+
+                    {!!error && <Text style={[styles.error, { color: colors.error }]}>{error}</Text>}
+
+                    <TouchableOpacity
+                        style={[styles.button, { backgroundColor: colors.primary }]}
+                        onPress={handleSave}
+                        disabled={busy || !pin}
+                    >
+                        {busy ? (
+                            <ActivityIndicator color="#fff" size="small" />
+                        ) : (
+                            <Text style={styles.buttonText}>{t('common.save')}</Text>
+                        )}
+                    </TouchableOpacity>
+                </View>
+            </View>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        justifyContent: 'center',
+        padding: 24,
+    },
+    content: {
+        borderRadius: 16,
+        padding: 20,
+        gap: 12,
+    },
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+    },
+    title: {
+        fontSize: 18,
+        fontWeight: 'bold',
+    },
+    input: {
+        borderRadius: 12,
+        borderWidth: 1,
+        padding: 14,
+        fontSize: 18,
+        letterSpacing: 6,
+        textAlign: 'center',
+    },
+    error: {
+        fontSize: 13,
+    },
+    button: {
+        height: 48,
+        borderRadius: 12,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    buttonText: {
+        color: '#fff',
+        fontSize: 16,
+        fontWeight: 'bold',
+    },
+});
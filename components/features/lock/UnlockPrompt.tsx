@@ -0,0 +1,149 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, TextInput, TouchableOpacity, ActivityIndicator, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/context/ThemeContext';
+import { useLanguage } from '@/context/LanguageContext';
+import { useAppLock } from '@/hooks/useAppLock';
+import { canUseBiometrics, getAppLockState, unlockWithBiometrics, unlockWithPin } from '@/services/appLock';
+
+/**
+ * PIN entry with a biometric shortcut. Offers biometrics straight away when they
+ * are enabled, so unlocking usually takes no typing.
+ */
+export default function UnlockPrompt() {
+    const { colors } = useTheme();
+    const { t } = useLanguage();
+    const { settings } = useAppLock();
+    const [pin, setPin] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+    const [biometricsReady, setBiometricsReady] = useState(false);
+
+    const tryBiometrics = useCallback(async () => {
+        try {
+            await unlockWithBiometrics(t('app_lock.biometric_prompt'));
+        } catch (e) {
+            console.error('Biometric unlock failed', e);
+        }
+    }, [t]);
+
+    useEffect(() => {
+        if (!settings.biometrics) return;
+        let active = true;
+        canUseBiometrics().then(available => {
+            if (!active || !available) return;
+            setBiometricsReady(true);
+            tryBiometrics();
+        });
+        return () => { active = false; };
+    }, [settings.biometrics, tryBiometrics]);
+
+    const handleSubmit = async () => {
+        if (!pin || busy) return;
+        setBusy(true);
+        const unlocked = await unlockWithPin(pin);
+        if (!unlocked) {
+            const { retryAt } = getAppLockState();
+            setPin('');
+            setError(retryAt && Date.now() < retryAt
+                ? t('app_lock.too_many_attempts').replace('{{count}}', String(Math.ceil((retryAt - Date.now()) / 60_000)))
+                : t('app_lock.wrong_pin'));
+            setBusy(false);
+        }
+    };
+
+    return (
+        <View style={styles.container}>
+            <Ionicons name="lock-closed" size={48} color={colors.primary} />
+            <Text style={[styles.title, { color: colors.text }]}>{t('app_lock.locked')}</Text>
+            <Text style={[styles.hint, { color: colors.textSecondary }]}>{t('app_lock.enter_pin')}</Text>
+
+            <TextInput
+                style={[styles.input, { backgroundColor: colors.inputBackground, color: colors.text, borderColor: colors.border }]}
+                value={pin}
+                onChangeText={text => {
+                    setPin(text.replace(/\D/g, ''));
+                    setError(null);
+                }}
+                keyboardType="number-pad"
+                secureTextEntry
+                maxLength={8}
+                editable={!busy}
+                onSubmitEditing={handleSubmit}
+                testID="app-lock-pin"
+            />
+
+            {!!error && <Text style={[styles.error, { color: colors.error }]}>{error}</Text>}
+
+            <TouchableOpacity
+                style={[styles.button, { backgroundColor: colors.primary }]}
+                onPress={handleSubmit}
+                disabled={busy || !pin}
+            >
+                {busy ? (
+                    <ActivityIndicator color="#fff" size="small" />
+                ) : (
+                    <Text style={styles.buttonText}>{t('app_lock.unlock')}</Text>
+                )}
+            </TouchableOpacity>
+
+            {biometricsReady && (
+                <TouchableOpacity style={styles.biometricButton} onPress={tryBiometrics}>
+                    <Ionicons name="finger-print" size={22} color={colors.primary} />
+                    <Text style={[styles.biometricText, { color: colors.primary }]}>{t('app_lock.use_biometrics')}</Text>
+                </TouchableOpacity>
+            )}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        alignItems: 'center',
+        padding: 24,
+        gap: 12,
+    },
+    title: {
+        fontSize: 20,
+        fontWeight: 'bold',
+    },
+    hint: {
+        fontSize: 14,
+        textAlign: 'center',
+        marginBottom: 8,
+    },
+    input: {
+        alignSelf: 'stretch',
+        borderRadius: 12,
+        borderWidth: 1,
+        padding: 14,
+        fontSize: 22,
+        letterSpacing: 8,
+        textAlign: 'center',
+    },
+    error: {
+        fontSize: 13,
+    },
+    button: {
+        alignSelf: 'stretch',
+        height: 48,
+        borderRadius: 12,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    buttonText: {
+        color: '#fff',
+        fontSize: 16,
+        fontWeight: 'bold',
+    },
+    biometricButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        padding: 8,
+    },
+    biometricText: {
+        fontSize: 15,
+        fontWeight: '600',
+    },
+});
@@ -180,7 +180,7 @@ export interface DraggableNoteGridProps<T> {
     onDelete?: (item: T) => void;
 }
 
-export function DraggableNoteGrid<T extends { id: string }>({
+export function DraggableNoteGrid<T extends { id: string | number }>({
     data,
     renderItem,
     onOrderChange,
@@ -214,7 +214,7 @@ export function DraggableNoteGrid<T extends { id: string }>({
 
     const handleDelete = (id: string) => {
         if (onDelete) {
-            const item = dataRef.current.find(d => d.id === id);
+            const item = dataRef.current.find(d => String(d.id) === id);
             if (item) onDelete(item);
         }
     };
@@ -250,12 +250,12 @@ export function DraggableNoteGrid<T extends { id: string }>({
                     data.map((item, index) => (
                         <SortableGridItem
                             key={item.id}
-                            id={item.id}
+                            id={String(item.id)}
                             index={index}
                             positions={positions}
                             onDragEnd={handleDragEnd}
                             itemCount={data.length}
-                            onDelete={() => handleDelete(item.id)}
+                            onDelete={() => handleDelete(String(item.id))}
                             isDeleteActive={isDeleteActive}
                             isAnyDragging={isAnyDragging}
                         >
@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from 'react';
+import { Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/context/ThemeContext';
+import { useLanguage } from '@/context/LanguageContext';
+import { useSecureClipboard } from '@/hooks/useSecureClipboard';
+import { CopyKind, clearCopiedSecret } from '@/services/secureClipboard';
+
+const MESSAGES: Record<CopyKind, string> = {
+    password: 'passwords.copy_password',
+    username: 'passwords.copy_username',
+    totp: 'passwords.totp.copied',
+};
+
+/**
+ * Confirms a copy from anywhere in the app and counts down to the clipboard being
+ * cleared. Tapping it clears the clipboard straight away.
+ */
+export default function CopyToast() {
+    const { colors } = useTheme();
+    const { t } = useLanguage();
+    const insets = useSafeAreaInsets();
+    const { copied } = useSecureClipboard();
+    const [now, setNow] = useState(Date.now);
+
+    useEffect(() => {
+        if (!copied?.clearAt) return;
+        setNow(Date.now());
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [copied]);
+
+    if (!copied) return null;
+
+    const message = t(MESSAGES[copied.kind]);
+    const seconds = copied.clearAt ? Math.max(0, Math.ceil((copied.clearAt - now) / 1000)) : null;
+
+    return (
+        <TouchableOpacity
+            style={[styles.toast, { bottom: insets.bottom + 24, backgroundColor: colors.card, borderColor: colors.border }]}
+            onPress={() => clearCopiedSecret()}
+            disabled={seconds === null}
+            testID="copy-toast"
+        >
+            <Ionicons name="checkmark-circle" size={20} color={colors.success} />
+            <Text style={[styles.text, { color: colors.text }]}>
+                {seconds === null ? message : `${message} · ${t('passwords.clipboard.clears_in').replace('{{count}}', String(seconds))}`}
+            </Text>
+            {seconds !== null && <Ionicons name="close" size={18} color={colors.textSecondary} />}
+        </TouchableOpacity>
+    );
+}
+
+const styles = StyleSheet.create({
+    toast: {
+        position: 'absolute',
+        alignSelf: 'center',
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        paddingHorizontal: 16,
+        paddingVertical: 10,
+        borderRadius: 20,
+        borderWidth: StyleSheet.hairlineWidth,
+        elevation: 6,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.2,
+        shadowRadius: 4,
+    },
+    text: {
+        fontSize: 14,
+        fontWeight: '500',
+    },
+});
@@ -0,0 +1,152 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/context/ThemeContext';
+import { useLanguage } from '@/context/LanguageContext';
+import {
+    GeneratorMode,
+    GeneratorOptions,
+    MAX_LENGTH,
+    MAX_WORDS,
+    MIN_LENGTH,
+    MIN_WORDS,
+    PASSWORD_POLICIES,
+    generatePassword,
+    policyForAccount
+} from '@/utils/passwordGenerator';
+
+type PasswordGeneratorProps = {
+    service: string;
+    group?: string;
+    onGenerate: (password: string) => void;
+};
+
+const MODES: GeneratorMode[] = ['random', 'passphrase', 'pronounceable'];
+
+// Which toggles mean something in each mode; passphrases are always lowercase words
+const CLASS_TOGGLES: { key: 'lower' | 'upper' | 'digits' | 'symbols'; label: string; modes: GeneratorMode[] }[] = [
+    { key: 'lower', label: 'a-z', modes: ['random'] },
+    { key: 'upper', label: 'A-Z', modes: ['random', 'passphrase', 'pronounceable'] },
+    { key: 'digits', label: '0-9', modes: ['random', 'passphrase', 'pronounceable'] },
+    { key: 'symbols', label: '!@#', modes: ['random', 'passphrase', 'pronounceable'] },
+];
+
+/**
+ * Fills the password field as soon as it opens and again on every change, starting
+ * from the policy that fits the account (banking limits, PIN-only locks...).
+ */
+export default function PasswordGenerator({ service, group, onGenerate }: PasswordGeneratorProps) {
+    const { colors } = useTheme();
+    const { t } = useLanguage();
+    const [options, setOptions] = useState<GeneratorOptions>(() => policyForAccount(service, group).options);
+
+    const regenerate = useCallback(() => onGenerate(generatePassword(options)), [options, onGenerate]);
+
+    useEffect(() => {
+        regenerate();
+    }, [regenerate]);
+
+    const update = (patch: Partial<GeneratorOptions>) => setOptions(current => ({ ...current, ...patch }));
+
+    const isWords = options.mode === 'passphrase';
+    const size = isWords ? options.words : options.length;
+    const setSize = (next: number) => isWords
+        ? update({ words: Math.min(MAX_WORDS, Math.max(MIN_WORDS, next)) })
+        : update({ length: Math.min(MAX_LENGTH, Math.max(MIN_LENGTH, next)) });
+
+    const chip = (selected: boolean) => [
+        styles.chip,
+        { backgroundColor: selected ? colors.primary : colors.inputBackground, borderColor: selected ? colors.primary : colors.border }
+    ];
+    const chipText = (selected: boolean) => [styles.chipText, { color: selected ? '#fff' : colors.text }];
+
+    return (
+        <View style={[styles.container, { borderColor: colors.border }]}>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+                {PASSWORD_POLICIES.map(policy => {
+                    const selected = JSON.stringify(policy.options) === JSON.stringify(options);
+                    return (
+                        <TouchableOpacity key={policy.id} style={chip(selected)} onPress={() => setOptions(policy.options)}>
+                            <Text style={chipText(selected)}>{t(policy.label)}</Text>
+                        </TouchableOpacity>
+                    );
+                })}
+            </ScrollView>
+
+            <View style={styles.row}>
+                {MODES.map(mode => (
+                    <TouchableOpacity key={mode} style={chip(options.mode === mode)} onPress={() => update({ mode })}>
+                        <Text style={chipText(options.mode === mode)}>{t(`passwords.generator.mode_${mode}`)}</Text>
+                    </TouchableOpacity>
+                ))}
+            </View>
+
+            <View style={styles.row}>
+                <Text style={[styles.label, { color: colors.textSecondary }]}>
+                    {t(isWords ? 'passwords.generator.words' : 'passwords.generator.length')}
+                </Text>
+                <TouchableOpacity onPress={() => setSize(size - 1)} testID="generator-decrease">
+                    <Ionicons name="remove-circle-outline" size={24} color={colors.primary} />
+                </TouchableOpacity>
+                <Text style={[styles.size, { color: colors.text }]}>{size}</Text>
+                <TouchableOpacity onPress={() => setSize(size + 1)} testID="generator-increase">
+                    <Ionicons name="add-circle-outline" size={24} color={colors.primary} />
+                </TouchableOpacity>
+                <View style={styles.spacer} />
+                <TouchableOpacity onPress={regenerate} accessibilityLabel={t('passwords.generator.regenerate')}>
+                    <Ionicons name="refresh" size={22} color={colors.primary} />
+                </TouchableOpacity>
+            </View>
+
+            <View style={styles.row}>
+                {CLASS_TOGGLES.filter(toggle => toggle.modes.includes(options.mode)).map(toggle => (
+                    <TouchableOpacity
+                        key={toggle.key}
+                        style={chip(options[toggle.key])}
+                        onPress={() => update({ [toggle.key]: !options[toggle.key] })}
+                    >
+                        <Text style={chipText(options[toggle.key])}>{toggle.label}</Text>
+                    </TouchableOpacity>
+                ))}
+            </View>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        borderWidth: 1,
+        borderRadius: 12,
+        padding: 10,
+        gap: 10,
+        marginTop: 8,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+    },
+    chip: {
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 16,
+        borderWidth: 1,
+    },
+    chipText: {
+        fontSize: 12,
+        fontWeight: '500',
+    },
+    label: {
+        fontSize: 13,
+        marginRight: 4,
+    },
+    size: {
+        fontSize: 15,
+        fontWeight: '600',
+        minWidth: 24,
+        textAlign: 'center',
+    },
+    spacer: {
+        flex: 1,
+    },
+});
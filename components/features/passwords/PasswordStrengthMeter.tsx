@@ -0,0 +1,61 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTheme } from '@/context/ThemeContext';
+import { useLanguage } from '@/context/LanguageContext';
+import { estimatePasswordStrength } from '@/utils/passwordStrength';
+
+type PasswordStrengthMeterProps = {
+    password: string;
+};
+
+const SEGMENTS = 4;
+const LABELS = ['very_weak', 'weak', 'fair', 'strong', 'very_strong'];
+
+export default function PasswordStrengthMeter({ password }: PasswordStrengthMeterProps) {
+    const { colors } = useTheme();
+    const { t } = useLanguage();
+    const { score } = useMemo(() => estimatePasswordStrength(password), [password]);
+
+    if (!password) return null;
+
+    const color = [colors.danger, colors.danger, colors.warning, colors.success, colors.success][score];
+
+    return (
+        <View style={styles.container} testID="password-strength">
+            <View style={styles.bar}>
+                {Array.from({ length: SEGMENTS }, (_, i) => (
+                    <View
+                        key={i}
+                        style={[styles.segment, { backgroundColor: i < Math.max(score, 1) ? color : colors.border }]}
+                    />
+                ))}
+            </View>
+            <Text style={[styles.label, { color }]}>{t(`passwords.strength.${LABELS[score]}`)}</Text>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        marginTop: 6,
+    },
+    bar: {
+        flex: 1,
+        flexDirection: 'row',
+        gap: 4,
+    },
+    segment: {
+        flex: 1,
+        height: 4,
+        borderRadius: 2,
+    },
+    label: {
+        fontSize: 12,
+        fontWeight: '600',
+        minWidth: 72,
+        textAlign: 'right',
+    },
+});
@@ -0,0 +1,134 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useTheme } from '@/context/ThemeContext';
+import { useLanguage } from '@/context/LanguageContext';
+import { copySecret } from '@/services/secureClipboard';
+import { generateTotp, parseTotpInput } from '@/utils/totp';
+
+type TotpCodeProps = {
+    uri: string;
+};
+
+type CountdownRingProps = {
+    progress: number; // Fraction of the period left, 1 when a new code appears
+    size: number;
+    color: string;
+    trackColor: string;
+    children?: React.ReactNode;
+};
+
+const RING_WIDTH = 3;
+const WARNING_SECONDS = 5;
+
+/**
+ * Draws an arc without SVG: each half of the ring is a clipped circle whose top and
+ * right borders (a 180° arc) are rotated into view as far as the progress reaches.
+ */
+function CountdownRing({ progress, size, color, trackColor, children }: CountdownRingProps) {
+    const degrees = Math.max(0, Math.min(1, progress)) * 360;
+
+    const half = (side: 'left' | 'right', rotation: number) => (
+        <View style={[styles.half, { width: size / 2, height: size, left: side === 'right' ? size / 2 : 0 }]}>
+            <View
+                style={[
+                    styles.arc,
+                    {
+                        width: size,
+                        height: size,
+                        borderRadius: size / 2,
+                        left: side === 'right' ? -size / 2 : 0,
+                        borderTopColor: color,
+                        borderRightColor: color,
+                        transform: [{ rotate: `${rotation}deg` }],
+                    },
+                ]}
+            />
+        </View>
+    );
+
+    return (
+        <View style={{ width: size, height: size }}>
+            <View style={[styles.track, { width: size, height: size, borderRadius: size / 2, borderColor: trackColor }]} />
+            {half('right', Math.min(degrees, 180) - 135)}
+            {half('left', Math.max(degrees - 180, 0) + 45)}
+            <View style={styles.ringCenter}>{children}</View>
+        </View>
+    );
+}
+
+// Live two-factor code for a saved account; tap to copy, cleared like a copied password
+export default function TotpCode({ uri }: TotpCodeProps) {
+    const { colors } = useTheme();
+    const { t } = useLanguage();
+    const config = useMemo(() => parseTotpInput(uri), [uri]);
+    const [now, setNow] = useState(Date.now);
+
+    useEffect(() => {
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, []);
+
+    if (!config) return null;
+
+    const { code, remaining } = generateTotp(config, now);
+    const color = remaining <= WARNING_SECONDS ? colors.danger : colors.primary;
+    // "123 456" / "1234 5678", as authenticator apps show it
+    const display = `${code.slice(0, code.length / 2)} ${code.slice(code.length / 2)}`;
+
+    return (
+        <TouchableOpacity
+            style={styles.container}
+            onPress={(e) => {
+                e.stopPropagation();
+                copySecret(code, 'totp');
+            }}
+            accessibilityLabel={t('passwords.totp.copy')}
+            testID="totp-code"
+        >
+            <CountdownRing progress={remaining / config.period} size={26} color={color} trackColor={colors.border}>
+                <Text style={[styles.seconds, { color }]}>{remaining}</Text>
+            </CountdownRing>
+            <Text style={[styles.code, { color }]}>{display}</Text>
+        </TouchableOpacity>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        marginTop: 6,
+    },
+    code: {
+        fontSize: 18,
+        fontWeight: '600',
+        fontFamily: 'monospace',
+        letterSpacing: 1,
+    },
+    seconds: {
+        fontSize: 10,
+        fontWeight: '600',
+    },
+    track: {
+        position: 'absolute',
+        borderWidth: RING_WIDTH,
+    },
+    half: {
+        position: 'absolute',
+        top: 0,
+        overflow: 'hidden',
+    },
+    arc: {
+        position: 'absolute',
+        top: 0,
+        borderWidth: RING_WIDTH,
+        borderBottomColor: 'transparent',
+        borderLeftColor: 'transparent',
+    },
+    ringCenter: {
+        ...StyleSheet.absoluteFillObject,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+});
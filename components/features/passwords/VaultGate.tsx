@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, ActivityIndicator, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/context/ThemeContext';
+import { useLanguage } from '@/context/LanguageContext';
+import { VaultState } from '@/hooks/usePasswords';
+import { MIN_PASSPHRASE_LENGTH, isVaultError } from '@/services/vault';
+
+type VaultGateProps = {
+    state: Exclude<VaultState, 'unlocked'>;
+    onSetup: (passphrase: string) => Promise<void>;
+    onUnlock: (passphrase: string) => Promise<void>;
+    // Inline version for chat widgets: unlock only, setup happens on the Passwords screen
+    compact?: boolean;
+    onOpenPasswords?: () => void;
+};
+
+/**
+ * Shown in place of password content until the vault is unlocked. Creates the vault
+ * on first use; the passphrase never leaves the device and cannot be recovered.
+ */
+export default function VaultGate({ state, onSetup, onUnlock, compact, onOpenPasswords }: VaultGateProps) {
+    const { colors } = useTheme();
+    const { t } = useLanguage();
+    const [passphrase, setPassphrase] = useState('');
+    const [confirmation, setConfirmation] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+
+    if (state === 'loading') {
+        return <ActivityIndicator color={colors.primary} style={styles.loading} />;
+    }
+
+    const isSetup = state === 'setup';
+
+    if (isSetup && compact) {
+        return (
+            <View style={styles.compact}>
+                <Text style={[styles.hint, { color: colors.textSecondary }]}>{t('passwords.vault_setup_in_app')}</Text>
+                <TouchableOpacity style={[styles.button, { backgroundColor: colors.primary }]} onPress={onOpenPasswords}>
+                    <Text style={styles.buttonText}>{t('passwords.open_passwords')}</Text>
+                </TouchableOpacity>
+            </View>
+        );
+    }
+
+    const handleSubmit = async () => {
+        if (isSetup) {
+            if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+                setError(t('passwords.passphrase_too_short').replace('{{count}}', String(MIN_PASSPHRASE_LENGTH)));
+                return;
+            }
+            if (passphrase !== confirmation) {
+                setError(t('passwords.passphrase_mismatch'));
+                return;
+            }
+        }
+
+        setBusy(true);
+        setError(null);
+        try {
+            await (isSetup ? onSetup(passphrase) : onUnlock(passphrase));
+        } catch (e) {
+            if (isVaultError(e) && e.code === 'wrong_passphrase') {
+                setError(t('passwords.wrong_passphrase'));
+            } else {
+                console.error('Failed to open password vault', e);
+                setError(t('passwords.vault_error'));
+            }
+            setBusy(false);
+        }
+    };
+
+    const inputStyle = [styles.input, { backgroundColor: colors.inputBackground, color: colors.text, borderColor: colors.border }];
+
+    return (
+        <View style={compact ? styles.compact : styles.container}>
+            {!compact && (
+                <>
+                    <Ionicons name={isSetup ? 'shield-checkmark-outline' : 'lock-closed'} size={48} color={colors.primary} />
+                    <Text style={[styles.title, { color: colors.text }]}>
+                        {t(isSetup ? 'passwords.vault_setup_title' : 'passwords.vault_locked')}
+                    </Text>
+                    <Text style={[styles.hint, { color: colors.textSecondary }]}>
+                        {t(isSetup ? 'passwords.vault_setup_hint' : 'passwords.vault_locked_hint')}
+                    </Text>
+                </>
+            )}
+
+            <TextInput
+                style={inputStyle}
+                value={passphrase}
+                onChangeText={setPassphrase}
+                placeholder={t('passwords.passphrase')}
+                placeholderTextColor={colors.textSecondary}
+                secureTextEntry
+                autoCapitalize="none"
+                autoCorrect={false}
+                editable={!busy}
+                onSubmitEditing={isSetup ? undefined : handleSubmit}
+            />
+            {isSetup && (
+                <TextInput
+                    style={inputStyle}
+                    value={confirmation}
+                    onChangeText={setConfirmation}
+                    placeholder={t('passwords.confirm_passphrase')}
+                    placeholderTextColor={colors.textSecondary}
+                    secureTextEntry
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    editable={!busy}
+                    onSubmitEditing={handleSubmit}
+                />
+            )}
+
+            {!!error && <Text style={[styles.error, { color: colors.error }]}>{error}</Text>}
+
+            <TouchableOpacity
+                style={[styles.button, { backgroundColor: colors.primary }]}
+                onPress={handleSubmit}
+                disabled={busy || !passphrase}
+            >
+                {busy ? (
+                    <ActivityIndicator color="#fff" size="small" />
+                ) : (
+                    <Text style={styles.buttonText}>
+                        {t(isSetup ? 'passwords.create_vault' : 'passwords.unlock')}
+                    </Text>
+                )}
+            </TouchableOpacity>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    loading: {
+        marginTop: 20,
+    },
+    container: {
+        flex: 1,
+        alignItems: 'center',
+        padding: 24,
+        paddingTop: 60,
+        gap: 12,
+    },
+    compact: {
+        gap: 8,
+    },
+    title: {
+        fontSize: 20,
+        fontWeight: 'bold',
+    },
+    hint: {
+        fontSize: 14,
+        textAlign: 'center',
+        marginBottom: 8,
+    },
+    input: {
+        alignSelf: 'stretch',
+        borderRadius: 12,
+        borderWidth: 1,
+        padding: 14,
+        fontSize: 16,
+    },
+    error: {
+        fontSize: 13,
+    },
+    button: {
+        alignSelf: 'stretch',
+        height: 48,
+        borderRadius: 12,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    buttonText: {
+        color: '#fff',
+        fontSize: 16,
+        fontWeight: 'bold',
+    },
+});
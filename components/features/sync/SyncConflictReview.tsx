@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, Modal, FlatList, StyleSheet } from 'react-native';
+import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useSession } from '@/context/AuthContext';
+import { useLanguage } from '@/context/LanguageContext';
+import { useTheme } from '@/context/ThemeContext';
+import { useSyncConflicts } from '@/hooks/useSyncConflicts';
+import { ConflictSide, SyncConflict } from '@/services/SyncEngine';
+
+// Engine name -> screen title
+const COLLECTION_TITLES: Record<string, string> = {
+    'calories': 'calories.title',
+    'meal templates': 'calories.templates.title',
+    'favorite foods': 'calories.favorites.title',
+    'workout activities': 'workout.title',
+    'passwords': 'passwords.title',
+    'password groups': 'passwords.custom_groups.title',
+    'bookmarks': 'bible.bookmarks',
+};
+
+const formatTime = (ms?: number) => ms ? new Date(ms).toLocaleString() : '';
+
+export default function SyncConflictReview() {
+    const { session } = useSession();
+    const { colors } = useTheme();
+    const { t } = useLanguage();
+    const insets = useSafeAreaInsets();
+    const { conflicts, resolve } = useSyncConflicts();
+    const [showModal, setShowModal] = useState(false);
+
+    if (!session || conflicts.length === 0) return null;
+
+    const collectionTitle = (conflict: SyncConflict) => {
+        const key = COLLECTION_TITLES[conflict.collection];
+        return key ? t(key) : conflict.collection;
+    };
+
+    const handleResolve = async (conflict: SyncConflict, keep: ConflictSide) => {
+        await resolve(conflict, keep);
+        if (conflicts.length <= 1) setShowModal(false);
+    };
+
+    const renderSide = (conflict: SyncConflict, side: ConflictSide) => {
+        const isKept = conflict.kept === side;
+        const record = side === 'local' ? conflict.local : conflict.remote;
+        const label = side === 'local' ? conflict.localLabel : conflict.remoteLabel;
+
+        return (
+            <TouchableOpacity
+                style={[
+                    styles.option,
+                    { borderColor: isKept ? colors.primary : colors.border, backgroundColor: colors.inputBackground }
+                ]}
+                onPress={() => handleResolve(conflict, side)}
+            >
+                <View style={styles.optionHeader}>
+                    <Text style={[styles.optionTitle, { color: colors.text }]}>
+                        {t(side === 'local' ? 'sync.this_device' : 'sync.other_device')}
+                    </Text>
+                    {isKept && (
+                        <Text style={[styles.keptBadge, { color: colors.primary }]}>{t('sync.kept')}</Text>
+                    )}
+                </View>
+                <Text style={[styles.optionLabel, { color: colors.text }]} numberOfLines={2}>{label}</Text>
+                <Text style={[styles.optionMeta, { color: colors.textSecondary }]}>
+                    {formatTime(record.updated_at)}
+                </Text>
+            </TouchableOpacity>
+        );
+    };
+
+    return (
+        <>
+            <TouchableOpacity
+                style={[
+                    styles.banner,
+                    { bottom: insets.bottom + 16, backgroundColor: colors.card, borderColor: colors.border }
+                ]}
+                onPress={() => setShowModal(true)}
+            >
+                <Ionicons name="git-compare-outline" size={18} color={colors.primary} />
+                <Text style={[styles.bannerText, { color: colors.text }]}>
+                    {t('sync.conflicts_banner')} ({conflicts.length})
+                </Text>
+                <Text style={[styles.bannerAction, { color: colors.primary }]}>{t('sync.review')}</Text>
+            </TouchableOpacity>
+
+            <Modal
+                animationType="slide"
+                presentationStyle="pageSheet"
+                visible={showModal}
+                onRequestClose={() => setShowModal(false)}
+            >
+                <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+                    <View style={styles.modalHeaderBar}>
+                        <Text style={[styles.modalTitleText, { color: colors.text }]}>{t('sync.review_title')}</Text>
+                        <TouchableOpacity onPress={() => setShowModal(false)}>
+                            <Text style={[styles.modalCancel, { color: colors.primary }]}>{t('common.close')}</Text>
+                        </TouchableOpacity>
+                    </View>
+                    <Text style={[styles.hint, { color: colors.textSecondary }]}>{t('sync.review_hint')}</Text>
+
+                    <FlatList
+                        data={conflicts}
+                        keyExtractor={item => `${item.collection}:${item.id}`}
+                        contentContainerStyle={{ padding: 20 }}
+                        renderItem={({ item }) => (
+                            <View style={[styles.conflictItem, { backgroundColor: colors.card, borderColor: colors.border }]}>
+                                <Text style={[styles.collectionTitle, { color: colors.textSecondary }]}>
+                                    {collectionTitle(item)}
+                                </Text>
+                                {renderSide(item, 'local')}
+                                {renderSide(item, 'remote')}
+                            </View>
+                        )}
+                    />
+                </SafeAreaView>
+            </Modal>
+        </>
+    );
+}
+
+const styles = StyleSheet.create({
+    banner: {
+        position: 'absolute',
+        alignSelf: 'center',
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        paddingHorizontal: 16,
+        paddingVertical: 10,
+        borderRadius: 20,
+        borderWidth: 1,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.15,
+        shadowRadius: 6,
+        elevation: 4,
+    },
+    bannerText: {
+        fontSize: 14,
+    },
+    bannerAction: {
+        fontSize: 14,
+        fontWeight: '600',
+    },
+    container: {
+        flex: 1,
+    },
+    modalHeaderBar: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingHorizontal: 20,
+        paddingVertical: 16,
+    },
+    modalTitleText: {
+        fontSize: 20,
+        fontWeight: 'bold',
+    },
+    modalCancel: {
+        fontSize: 16,
+    },
+    hint: {
+        fontSize: 14,
+        paddingHorizontal: 20,
+    },
+    conflictItem: {
+        padding: 16,
+        borderRadius: 12,
+        borderWidth: 1,
+        marginBottom: 12,
+        gap: 8,
+    },
+    collectionTitle: {
+        fontSize: 12,
+        fontWeight: '600',
+        textTransform: 'uppercase',
+    },
+    option: {
+        padding: 12,
+        borderRadius: 10,
+        borderWidth: 1,
+    },
+    optionHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        marginBottom: 4,
+    },
+    optionTitle: {
+        fontSize: 14,
+        fontWeight: '600',
+    },
+    keptBadge: {
+        fontSize: 12,
+        fontWeight: '600',
+    },
+    optionLabel: {
+        fontSize: 15,
+        marginBottom: 2,
+    },
+    optionMeta: {
+        fontSize: 12,
+    },
+});
@@ -0,0 +1,49 @@
+/**
+ * Thin banner shown while the live notification stream is down.
+ */
+import React from 'react';
+import { View, Text, StyleSheet, ViewStyle } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { SPACING, FONT_SIZE } from '../../constants/design';
+import { useNotifications } from '../../context/NotificationContext';
+import { useLanguage } from '../../context/LanguageContext';
+
+interface ConnectionBannerProps {
+    style?: ViewStyle;
+}
+
+export default function ConnectionBanner({ style }: ConnectionBannerProps) {
+    const { connectionState } = useNotifications();
+    const { t } = useLanguage();
+
+    if (connectionState === 'connected') {
+        return null;
+    }
+
+    const isOffline = connectionState === 'offline';
+
+    return (
+        <View style={[styles.banner, { backgroundColor: isOffline ? '#d93025' : '#f9ab00' }, style]}>
+            <Ionicons name={isOffline ? 'cloud-offline-outline' : 'sync-outline'} size={14} color="#fff" />
+            <Text style={styles.text}>
+                {t(isOffline ? 'connection.offline' : 'connection.reconnecting')}
+            </Text>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    banner: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: SPACING.xs,
+        paddingVertical: SPACING.xs,
+        paddingHorizontal: SPACING.md,
+    },
+    text: {
+        color: '#fff',
+        fontSize: FONT_SIZE.sm,
+        fontWeight: '600',
+    },
+});
@@ -8,6 +8,7 @@ export { default as Button } from './Button';
 export { default as Input } from './Input';
 export { default as Avatar } from './Avatar';
 export { default as Badge } from './Badge';
+export { default as ConnectionBanner } from './ConnectionBanner';
 
 // Note: More components can be added here as the library grows
 // e.g., Modal, Dropdown, Switch, Divider, etc.
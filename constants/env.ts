@@ -1,5 +1,5 @@
 // Environment configuration for the Socius Mobile app
-// This file allows switching between development, staging, and production environments
+// This file allows switching between development, staging, production and mock environments
 
 // Default to production, can be overridden by build-time or runtime config
 const ENV = process.env.EXPO_PUBLIC_ENV || 'production';
@@ -26,6 +26,12 @@ const environments: Record<string, EnvironmentConfig> = {
         ENV_NAME: 'Production',
         DEBUG: false,
     },
+    // Served in-process by services/mockBackend; no network needed
+    mock: {
+        API_URL: 'mock://socius',
+        ENV_NAME: 'Mock',
+        DEBUG: true,
+    },
 };
 
 // Export the current environment configuration
@@ -34,5 +40,6 @@ const config: EnvironmentConfig = environments[ENV] || environments.production;
 export const API_URL = config.API_URL;
 export const ENV_NAME = config.ENV_NAME;
 export const DEBUG = config.DEBUG;
+export const IS_MOCK = ENV === 'mock';
 
 export default config;
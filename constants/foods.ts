@@ -0,0 +1,128 @@
+// Generic foods bundled with the app so calories can be looked up offline. Values are
+// typical per 100 g as eaten (cooked, drained, with soup for soups and noodle dishes),
+// rounded from public food composition tables; brands and recipes will differ.
+
+export type FoodNutrition = {
+    calories: number; // kcal
+    protein: number; // g
+    carbs: number;
+    fat: number;
+    fiber: number;
+    sugar: number;
+    alcohol?: number; // g, 7 kcal each
+};
+
+export type FoodServing = {
+    grams: number;
+    en: string;
+    ko: string;
+};
+
+export type FoodItem = {
+    id: string;
+    en: string;
+    ko: string;
+    aliases?: string[]; // Other spellings, matched by search
+    per100g: FoodNutrition;
+    serving: FoodServing;
+};
+
+const n = (calories: number, protein: number, carbs: number, fat: number, fiber = 0, sugar = 0, alcohol?: number): FoodNutrition =>
+    alcohol === undefined
+        ? { calories, protein, carbs, fat, fiber, sugar }
+        : { calories, protein, carbs, fat, fiber, sugar, alcohol };
+
+const serving = (grams: number, en: string, ko: string): FoodServing => ({ grams, en, ko });
+
+export const FOODS: readonly FoodItem[] = [
+    // Rice, bread and noodles
+    { id: 'rice_white', en: 'White rice', ko: '흰쌀밥', aliases: ['rice', '쌀밥', '공기밥'], per100g: n(130, 2.7, 28.2, 0.3, 0.4, 0.1), serving: serving(210, '1 bowl', '1공기') },
+    { id: 'rice_brown', en: 'Brown rice', ko: '현미밥', per100g: n(123, 2.7, 25.6, 1.0, 1.6, 0.2), serving: serving(210, '1 bowl', '1공기') },
+    { id: 'rice_multigrain', en: 'Multigrain rice', ko: '잡곡밥', per100g: n(140, 3.2, 30, 0.8, 1.8, 0.2), serving: serving(210, '1 bowl', '1공기') },
+    { id: 'bread_white', en: 'White bread', ko: '식빵', aliases: ['toast', '토스트'], per100g: n(265, 9, 49, 3.2, 2.7, 5), serving: serving(30, '1 slice', '1쪽') },
+    { id: 'bread_whole_wheat', en: 'Whole wheat bread', ko: '통밀빵', per100g: n(247, 13, 41, 3.4, 7, 6), serving: serving(30, '1 slice', '1쪽') },
+    { id: 'bagel', en: 'Bagel', ko: '베이글', per100g: n(250, 10, 49, 1.5, 2, 6), serving: serving(100, '1 bagel', '1개') },
+    { id: 'croissant', en: 'Croissant', ko: '크루아상', aliases: ['크로와상'], per100g: n(406, 8.2, 45.8, 21, 2.6, 11), serving: serving(60, '1 croissant', '1개') },
+    { id: 'oatmeal', en: 'Oatmeal', ko: '오트밀', aliases: ['porridge', 'oats'], per100g: n(71, 2.5, 12, 1.5, 1.7, 0.3), serving: serving(240, '1 bowl', '1그릇') },
+    { id: 'granola', en: 'Granola', ko: '그래놀라', per100g: n(471, 10, 64, 20, 5, 24), serving: serving(45, '1/2 cup', '1/2컵') },
+    { id: 'cornflakes', en: 'Cornflakes', ko: '콘플레이크', aliases: ['cereal', '시리얼'], per100g: n(357, 7.5, 84, 0.4, 3.3, 9.5), serving: serving(30, '1 bowl (dry)', '1그릇(우유 제외)') },
+    { id: 'pasta', en: 'Pasta', ko: '파스타', aliases: ['spaghetti', '스파게티'], per100g: n(158, 5.8, 31, 0.9, 1.8, 0.6), serving: serving(200, '1 plate', '1접시') },
+    { id: 'ramyeon', en: 'Instant ramen', ko: '라면', aliases: ['ramyeon', 'ramen', 'ramyun'], per100g: n(91, 1.9, 12.5, 3.7, 0.5, 0.5), serving: serving(550, '1 pack', '1봉지') },
+    { id: 'naengmyeon', en: 'Cold noodles', ko: '물냉면', aliases: ['naengmyeon', '냉면'], per100g: n(85, 3, 16, 1, 0.6, 2.5), serving: serving(600, '1 bowl', '1그릇') },
+    { id: 'jjajangmyeon', en: 'Black bean noodles', ko: '짜장면', aliases: ['jajangmyeon', 'jjajangmyeon', '자장면'], per100g: n(121, 3.8, 19, 3.3, 1.2, 3), serving: serving(650, '1 bowl', '1그릇') },
+    { id: 'jjamppong', en: 'Spicy seafood noodle soup', ko: '짬뽕', aliases: ['jjamppong', 'champon'], per100g: n(74, 4, 10, 2, 0.8, 1.5), serving: serving(900, '1 bowl', '1그릇') },
+    { id: 'tteok', en: 'Rice cake', ko: '가래떡', aliases: ['tteok', '떡'], per100g: n(223, 4, 50.5, 0.5, 0.8, 0.5), serving: serving(100, '2 sticks', '2가닥') },
+
+    // Korean dishes
+    { id: 'gimbap', en: 'Gimbap', ko: '김밥', aliases: ['kimbap'], per100g: n(151, 5, 26, 3, 1, 1.5), serving: serving(230, '1 roll', '1줄') },
+    { id: 'bibimbap', en: 'Bibimbap', ko: '비빔밥', per100g: n(140, 5, 22, 3.5, 1.5, 2), serving: serving(450, '1 bowl', '1그릇') },
+    { id: 'kimchi_fried_rice', en: 'Kimchi fried rice', ko: '김치볶음밥', per100g: n(161, 4, 25, 5, 1.2, 1.5), serving: serving(350, '1 plate', '1접시') },
+    { id: 'curry_rice', en: 'Curry rice', ko: '카레라이스', per100g: n(130, 3, 21, 3.8, 1.5, 2.5), serving: serving(400, '1 plate', '1접시') },
+    { id: 'tteokbokki', en: 'Tteokbokki', ko: '떡볶이', aliases: ['ddeokbokki', 'topokki'], per100g: n(160, 3.5, 33, 1.5, 1, 8), serving: serving(300, '1 serving', '1인분') },
+    { id: 'japchae', en: 'Japchae', ko: '잡채', aliases: ['glass noodles'], per100g: n(151, 3.5, 23, 5, 1.2, 5), serving: serving(150, '1 serving', '1인분') },
+    { id: 'mandu', en: 'Dumplings', ko: '만두', aliases: ['mandu', 'gyoza'], per100g: n(195, 8, 25, 7, 1.5, 2), serving: serving(150, '5 pieces', '5개') },
+    { id: 'pajeon', en: 'Green onion pancake', ko: '파전', aliases: ['pajeon', 'jeon', '전'], per100g: n(198, 5, 22, 10, 1.5, 1.5), serving: serving(150, '1/2 pancake', '반 장') },
+    { id: 'bulgogi', en: 'Bulgogi', ko: '불고기', per100g: n(195, 16, 8, 11, 0.5, 6), serving: serving(150, '1 serving', '1인분') },
+    { id: 'samgyeopsal', en: 'Grilled pork belly', ko: '삼겹살', aliases: ['samgyeopsal', 'pork belly'], per100g: n(455, 17, 0, 43), serving: serving(150, '1 serving', '1인분') },
+    { id: 'fried_chicken', en: 'Fried chicken', ko: '프라이드치킨', aliases: ['치킨', 'chicken'], per100g: n(290, 20, 11, 18.5, 0.5, 0), serving: serving(120, '1 piece', '1조각') },
+    { id: 'tonkatsu', en: 'Pork cutlet', ko: '돈가스', aliases: ['tonkatsu', 'donkatsu', '돈까스'], per100g: n(276, 16, 17, 16, 1, 2), serving: serving(180, '1 cutlet', '1장') },
+    { id: 'samgyetang', en: 'Ginseng chicken soup', ko: '삼계탕', aliases: ['samgyetang'], per100g: n(88, 9, 4, 4, 0.2, 0.5), serving: serving(900, '1 bowl', '1그릇') },
+    { id: 'doenjang_jjigae', en: 'Soybean paste stew', ko: '된장찌개', aliases: ['doenjang jjigae'], per100g: n(46, 3.5, 3.5, 2, 1, 1), serving: serving(300, '1 bowl', '1그릇') },
+    { id: 'kimchi_jjigae', en: 'Kimchi stew', ko: '김치찌개', aliases: ['kimchi jjigae'], per100g: n(55, 4, 3, 3, 1, 1), serving: serving(300, '1 bowl', '1그릇') },
+    { id: 'miyeokguk', en: 'Seaweed soup', ko: '미역국', aliases: ['miyeokguk'], per100g: n(26, 2, 1.5, 1.3, 0.5, 0.3), serving: serving(300, '1 bowl', '1그릇') },
+    { id: 'kimchi', en: 'Kimchi', ko: '배추김치', aliases: ['김치'], per100g: n(18, 1.5, 3.2, 0.5, 1.6, 1.1), serving: serving(40, '1 side dish', '1접시') },
+    { id: 'sushi', en: 'Sushi', ko: '초밥', aliases: ['nigiri'], per100g: n(150, 6, 28, 1.5, 0.3, 3), serving: serving(40, '1 piece', '1개') },
+
+    // Meat, fish, eggs and tofu
+    { id: 'egg_boiled', en: 'Boiled egg', ko: '삶은 달걀', aliases: ['egg', '계란', '달걀'], per100g: n(155, 12.6, 1.1, 10.6, 0, 1.1), serving: serving(50, '1 egg', '1개') },
+    { id: 'egg_fried', en: 'Fried egg', ko: '달걀 프라이', aliases: ['계란 프라이', '계란후라이'], per100g: n(196, 13.6, 0.8, 15, 0, 0.4), serving: serving(46, '1 egg', '1개') },
+    { id: 'chicken_breast', en: 'Chicken breast', ko: '닭가슴살', per100g: n(165, 31, 0, 3.6), serving: serving(120, '1 breast', '1조각') },
+    { id: 'beef_steak', en: 'Beef steak', ko: '소고기 스테이크', aliases: ['steak', 'sirloin', '스테이크'], per100g: n(248, 26, 0, 16), serving: serving(200, '1 steak', '1인분') },
+    { id: 'salmon', en: 'Salmon', ko: '연어', per100g: n(206, 22, 0, 12.4), serving: serving(150, '1 fillet', '1토막') },
+    { id: 'mackerel', en: 'Grilled mackerel', ko: '고등어구이', aliases: ['mackerel', '고등어'], per100g: n(262, 24, 0, 17.8), serving: serving(100, '1/2 fish', '반 마리') },
+    { id: 'tuna_canned', en: 'Canned tuna', ko: '참치캔', aliases: ['tuna', '참치'], per100g: n(198, 29, 0, 8.2), serving: serving(100, '1 can', '1캔') },
+    { id: 'spam', en: 'Spam', ko: '스팸', aliases: ['luncheon meat', '햄'], per100g: n(315, 13, 3.4, 27, 0, 1), serving: serving(50, '2 slices', '2조각') },
+    { id: 'tofu', en: 'Tofu', ko: '두부', per100g: n(76, 8, 1.9, 4.8, 0.3, 0.6), serving: serving(100, '1/3 block', '1/3모') },
+
+    // Dairy
+    { id: 'milk', en: 'Milk', ko: '우유', per100g: n(61, 3.2, 4.8, 3.3, 0, 5), serving: serving(200, '1 carton (200 ml)', '1팩(200ml)') },
+    { id: 'soy_milk', en: 'Soy milk', ko: '두유', per100g: n(54, 3.3, 6, 1.8, 0.6, 4), serving: serving(190, '1 pack', '1팩') },
+    { id: 'yogurt', en: 'Plain yogurt', ko: '플레인 요거트', aliases: ['yoghurt', '요구르트'], per100g: n(61, 3.5, 4.7, 3.3, 0, 4.7), serving: serving(150, '1 cup', '1컵') },
+    { id: 'greek_yogurt', en: 'Greek yogurt', ko: '그릭요거트', per100g: n(97, 9, 4, 5, 0, 4), serving: serving(150, '1 cup', '1컵') },
+    { id: 'cheese', en: 'Cheddar cheese', ko: '체다치즈', aliases: ['cheese', '치즈'], per100g: n(403, 25, 1.3, 33, 0, 0.5), serving: serving(20, '1 slice', '1장') },
+
+    // Fruit and vegetables
+    { id: 'apple', en: 'Apple', ko: '사과', per100g: n(52, 0.3, 13.8, 0.2, 2.4, 10.4), serving: serving(180, '1 medium', '1개(중)') },
+    { id: 'banana', en: 'Banana', ko: '바나나', per100g: n(89, 1.1, 22.8, 0.3, 2.6, 12.2), serving: serving(120, '1 medium', '1개(중)') },
+    { id: 'orange', en: 'Orange', ko: '오렌지', per100g: n(47, 0.9, 11.8, 0.1, 2.4, 9.4), serving: serving(150, '1 medium', '1개(중)') },
+    { id: 'mandarin', en: 'Mandarin', ko: '귤', aliases: ['tangerine', 'clementine'], per100g: n(53, 0.8, 13.3, 0.3, 1.8, 10.6), serving: serving(80, '1 fruit', '1개') },
+    { id: 'strawberries', en: 'Strawberries', ko: '딸기', per100g: n(32, 0.7, 7.7, 0.3, 2, 4.9), serving: serving(150, '1 cup', '1컵') },
+    { id: 'grapes', en: 'Grapes', ko: '포도', per100g: n(69, 0.7, 18.1, 0.2, 0.9, 15.5), serving: serving(150, '1 cup', '1컵') },
+    { id: 'watermelon', en: 'Watermelon', ko: '수박', per100g: n(30, 0.6, 7.6, 0.2, 0.4, 6.2), serving: serving(300, '1 wedge', '1조각') },
+    { id: 'avocado', en: 'Avocado', ko: '아보카도', per100g: n(160, 2, 8.5, 14.7, 6.7, 0.7), serving: serving(70, '1/2 avocado', '반 개') },
+    { id: 'tomato', en: 'Tomato', ko: '토마토', per100g: n(18, 0.9, 3.9, 0.2, 1.2, 2.6), serving: serving(150, '1 medium', '1개(중)') },
+    { id: 'broccoli', en: 'Broccoli', ko: '브로콜리', per100g: n(35, 2.4, 7.2, 0.4, 3.3, 1.4), serving: serving(90, '1 cup', '1컵') },
+    { id: 'green_salad', en: 'Green salad (no dressing)', ko: '그린 샐러드(드레싱 제외)', aliases: ['salad', '샐러드'], per100g: n(17, 1.2, 3.3, 0.2, 2, 1.2), serving: serving(100, '1 bowl', '1그릇') },
+    { id: 'sweet_potato', en: 'Sweet potato', ko: '고구마', per100g: n(90, 2, 20.7, 0.2, 3.3, 6.5), serving: serving(150, '1 medium', '1개(중)') },
+    { id: 'potato', en: 'Boiled potato', ko: '삶은 감자', aliases: ['potato', '감자'], per100g: n(87, 1.9, 20.1, 0.1, 1.8, 0.9), serving: serving(150, '1 medium', '1개(중)') },
+    { id: 'corn', en: 'Corn on the cob', ko: '찐 옥수수', aliases: ['corn', '옥수수'], per100g: n(96, 3.4, 21, 1.5, 2.4, 4.5), serving: serving(150, '1 ear', '1개') },
+
+    // Fast food and snacks
+    { id: 'pizza', en: 'Cheese pizza', ko: '치즈 피자', aliases: ['pizza', '피자'], per100g: n(266, 11.4, 33, 10, 2.3, 3.6), serving: serving(110, '1 slice', '1조각') },
+    { id: 'hamburger', en: 'Hamburger', ko: '햄버거', aliases: ['burger', '버거'], per100g: n(254, 13, 28, 10, 1.5, 5), serving: serving(200, '1 burger', '1개') },
+    { id: 'french_fries', en: 'French fries', ko: '감자튀김', aliases: ['fries', 'chips'], per100g: n(312, 3.4, 41, 15, 3.8, 0.3), serving: serving(115, '1 medium', '1개(중)') },
+    { id: 'potato_chips', en: 'Potato chips', ko: '감자칩', aliases: ['crisps', '과자'], per100g: n(536, 7, 53, 35, 4.4, 0.3), serving: serving(30, '1 small bag', '1봉지(소)') },
+    { id: 'chocolate', en: 'Milk chocolate', ko: '밀크초콜릿', aliases: ['chocolate', '초콜릿'], per100g: n(535, 7.7, 59, 30, 3.4, 52), serving: serving(40, '1 bar', '1개') },
+    { id: 'ice_cream', en: 'Vanilla ice cream', ko: '바닐라 아이스크림', aliases: ['ice cream', '아이스크림'], per100g: n(207, 3.5, 24, 11, 0.7, 21), serving: serving(66, '1 scoop', '1스쿱') },
+    { id: 'donut', en: 'Glazed donut', ko: '도넛', aliases: ['doughnut', '도너츠'], per100g: n(421, 5, 50, 23, 1.5, 22), serving: serving(60, '1 donut', '1개') },
+    { id: 'almonds', en: 'Almonds', ko: '아몬드', aliases: ['nuts', '견과류'], per100g: n(579, 21, 22, 50, 12.5, 4.4), serving: serving(28, '1 handful', '한 줌') },
+    { id: 'peanut_butter', en: 'Peanut butter', ko: '땅콩버터', per100g: n(588, 25, 20, 50, 6, 9), serving: serving(16, '1 tbsp', '1큰술') },
+
+    // Drinks
+    { id: 'americano', en: 'Americano', ko: '아메리카노', aliases: ['coffee', '커피'], per100g: n(1, 0.1, 0, 0), serving: serving(350, '1 cup', '1잔') },
+    { id: 'cafe_latte', en: 'Caffe latte', ko: '카페라떼', aliases: ['latte', '라떼'], per100g: n(54, 2.9, 4.3, 2.8, 0, 4.3), serving: serving(350, '1 cup', '1잔') },
+    { id: 'orange_juice', en: 'Orange juice', ko: '오렌지주스', aliases: ['juice', '주스'], per100g: n(45, 0.7, 10.4, 0.2, 0.2, 8.4), serving: serving(200, '1 glass', '1잔') },
+    { id: 'cola', en: 'Cola', ko: '콜라', aliases: ['coke', 'soda'], per100g: n(42, 0, 10.6, 0, 0, 10.6), serving: serving(355, '1 can', '1캔') },
+    { id: 'beer', en: 'Beer', ko: '맥주', per100g: n(43, 0.5, 3.6, 0, 0, 0, 3.9), serving: serving(500, '1 pint', '500cc') },
+    { id: 'soju', en: 'Soju', ko: '소주', per100g: n(111, 0, 4, 0, 0, 4, 13.4), serving: serving(50, '1 shot', '1잔') },
+];
@@ -84,6 +84,10 @@ export const translations = {
             copy_success: 'Text copied to clipboard',
             error_not_sent: "Sorry, I didn't get that message!",
             load_earlier: 'Load Earlier Messages',
+            not_sent_title: 'Not Sent Yet',
+            not_sent_message: 'This message is waiting to be delivered. It will be retried automatically when you are back online.',
+            retry: 'Retry',
+            delete_message: 'Delete',
         },
         settings: {
             title: 'Settings',
@@ -175,6 +179,75 @@ export const translations = {
             small_portion: 'Small',
             medium_portion: 'Medium',
             large_portion: 'Large',
+            macros: {
+                title: 'Macros',
+                optional: 'Macros in grams (optional)',
+                today: "Today's macros",
+                split: 'Calories from protein, carbs and fat',
+                week: 'Last 7 days',
+                grams: '{{count}} g',
+                protein: 'Protein',
+                carbs: 'Carbs',
+                fat: 'Fat',
+                fiber: 'Fiber',
+                sugar: 'Sugar',
+                protein_short: 'P',
+                carbs_short: 'C',
+                fat_short: 'F',
+                fiber_short: 'Fib',
+                sugar_short: 'Sug',
+            },
+            budget: {
+                title: 'Daily Budget',
+                remaining: '{{count}} kcal left',
+                over: '{{count}} kcal over',
+                of_budget: '{{intake}} of {{budget}} kcal',
+                breakdown: 'TDEE {{tdee}} · Goal {{goal}} · Workouts +{{active}}',
+                setup: 'Add your height, weight and age in Workout to get a daily budget.',
+                setup_button: 'Set Up',
+                trend: 'Net balance, last 7 days',
+                deficit: 'Deficit',
+                surplus: 'Surplus',
+                week_net: '7-day net: {{count}} kcal',
+            },
+            meals: {
+                title: 'Meal',
+                breakfast: 'Breakfast',
+                lunch: 'Lunch',
+                dinner: 'Dinner',
+                snack: 'Snack',
+            },
+            templates: {
+                title: 'Saved Meals',
+                save: 'Save as meal',
+                save_title: 'Save Meal',
+                name: 'Meal name',
+                name_placeholder: 'e.g. Usual breakfast',
+                items: '{{count}} foods',
+                logged: 'Logged {{name}}',
+                delete: 'Delete Meal',
+                delete_confirm: 'Delete this saved meal? Entries already logged are kept.',
+                hint: 'Tap to log, hold to delete',
+            },
+            favorites: {
+                title: 'Favorite Foods',
+                suggestions: 'Favorites & recent',
+                add: 'Add to favorites',
+                remove: 'Remove from favorites',
+                times: 'logged {{count}}×',
+                from_favorites: 'From your favorites',
+            },
+            database: {
+                search: 'Search food database',
+                placeholder: 'e.g. rice, 김밥, banana',
+                no_results: 'No matching foods. Enter the calories yourself.',
+                per_100g: '{{count}} kcal / 100 g',
+                servings: 'Servings',
+                grams: 'Grams',
+                amount: 'Amount',
+                use: 'Use',
+                note: 'Typical values; brands and recipes vary.',
+            },
         },
 
 
@@ -262,6 +335,10 @@ export const translations = {
             activity_moderate: 'Moderate',
             activity_active: 'Active',
             activity_very_active: 'Very Active',
+            goal: 'Weight Goal',
+            goal_lose: 'Lose',
+            goal_maintain: 'Maintain',
+            goal_gain: 'Gain',
             save: 'Save Activity',
             cancel: 'Cancel',
             delete: 'Delete',
@@ -316,11 +393,160 @@ export const translations = {
             username: 'Username / Email',
             password: 'Password',
             category: 'Category',
-            group_social: 'Social',
-            group_work: 'Work',
-            group_personal: 'Personal',
-            group_finance: 'Finance',
-            group_other: 'Other',
+            // Vault
+            vault_setup_title: 'Create a master passphrase',
+            vault_setup_hint: 'Your passwords are encrypted on this device with this passphrase before they sync. It cannot be recovered if you forget it.',
+            vault_locked: 'Passwords locked',
+            vault_locked_hint: 'Enter your master passphrase to unlock.',
+            vault_setup_in_app: 'Set up your password vault before saving passwords.',
+            open_passwords: 'Open Passwords',
+            passphrase: 'Master passphrase',
+            confirm_passphrase: 'Confirm passphrase',
+            create_vault: 'Create vault',
+            unlock: 'Unlock',
+            lock: 'Lock',
+            wrong_passphrase: 'Wrong passphrase',
+            passphrase_mismatch: 'Passphrases do not match',
+            passphrase_too_short: 'Use at least {{count}} characters',
+            vault_error: 'Could not open the vault. Please try again.',
+            generator: {
+                generate: 'Generate',
+                regenerate: 'Generate another',
+                length: 'Length',
+                words: 'Words',
+                mode_random: 'Random',
+                mode_passphrase: 'Passphrase',
+                mode_pronounceable: 'Pronounceable',
+                policy_strong: 'Strong',
+                policy_banking: 'Banking',
+                policy_memorable: 'Memorable',
+                policy_pin: 'PIN',
+            },
+            strength: {
+                very_weak: 'Very weak',
+                weak: 'Weak',
+                fair: 'Fair',
+                strong: 'Strong',
+                very_strong: 'Very strong',
+            },
+            totp: {
+                label: 'Two-factor code (optional)',
+                placeholder: 'Secret key or otpauth:// link',
+                paste: 'Paste',
+                invalid: 'That is not a valid two-factor secret or otpauth:// link.',
+                copy: 'Copy two-factor code',
+                copied: 'Code copied',
+            },
+            clipboard: {
+                clears_in: 'clears in {{count}}s',
+                clear_after: 'Clear copied passwords',
+                never: 'Never',
+                after_seconds: 'After {{count}} seconds',
+                last_copied: 'Last copied {{date}}',
+                never_copied: 'Never copied',
+            },
+            details: {
+                url: 'Website',
+                open_url: 'Open website',
+                notes: 'Notes',
+                tags: 'Tags',
+                tags_placeholder: 'Separate tags with commas',
+                custom_fields: 'Custom fields',
+                add_field: 'Add field',
+                field_key: 'Label',
+                field_value: 'Value',
+                remove_field: 'Remove field',
+            },
+            history: {
+                title: 'Previous passwords ({{count}})',
+                replaced: 'Replaced {{date}}',
+                restore: 'Use this password',
+                restore_hint: 'Restoring puts an old password back in the field; save to keep it.',
+            },
+            custom_groups: {
+                title: 'Groups',
+                built_in: 'Built-in groups',
+                yours: 'Your groups',
+                add: 'New group',
+                edit: 'Edit group',
+                name: 'Name',
+                name_placeholder: 'e.g. Gaming',
+                icon: 'Icon',
+                color: 'Color',
+                count: '{{count}} passwords',
+                empty: 'Add groups of your own to sort passwords your way.',
+                delete: 'Delete group',
+                delete_confirm: 'Delete this group? Its passwords move to Other.',
+                manage: 'Manage groups',
+            },
+            transfer: {
+                title: 'Import & Export',
+                requires_lock: 'Turn on App Lock for Passwords to import or export your vault.',
+                enable_lock: 'Turn on App Lock',
+                import: 'Import',
+                import_hint: 'CSV from Chrome, Firefox, Safari, Bitwarden or 1Password, Bitwarden JSON, or a backup made here.',
+                choose_file: 'Choose file',
+                backup_passphrase: 'Backup passphrase',
+                backup_passphrase_hint: 'This backup is encrypted. Enter the passphrase it was exported with.',
+                plan_added: '{{count}} new accounts',
+                plan_duplicates: '{{count}} already saved, skipped',
+                plan_skipped: '{{count}} rows without a password, skipped',
+                plan_changed: 'Replace {{count}} saved passwords that differ',
+                confirm_import: 'Import',
+                imported: '{{count}} accounts imported',
+                export: 'Export',
+                export_hint: 'Exports all {{count}} accounts.',
+                format_backup: 'Encrypted backup',
+                format_backup_hint: 'Protected with a passphrase. Import it here on any device.',
+                format_csv: 'CSV',
+                format_csv_hint: 'For browsers and most password managers. Not encrypted.',
+                format_bitwarden: 'Bitwarden JSON',
+                format_bitwarden_hint: 'For Bitwarden and compatible managers. Not encrypted.',
+                plain_warning_title: 'Export without encryption?',
+                plain_warning: 'Anyone who gets this file can read every password in it. Delete it once you have imported it elsewhere.',
+                error_unrecognized: 'This file is not a supported password export.',
+                error_encrypted_export: 'Encrypted Bitwarden exports cannot be read. Export again without encryption.',
+                error_empty: 'This file is empty.',
+                error_save: 'Some accounts could not be saved. Please try again.',
+                error_export: 'Export failed. Please try again.',
+            },
+            audit: {
+                title: 'Password Health',
+                health_score: 'Vault health',
+                checked: '{{count}} passwords checked',
+                filter_weak: 'Weak',
+                filter_reused: 'Reused',
+                filter_similar: 'Similar',
+                filter_stale: 'Old',
+                issue_weak: 'Weak password',
+                issue_reused: 'Shared with {{count}} more',
+                issue_similar: 'Similar to {{count}} more',
+                issue_stale: 'Unchanged for {{count}} days',
+                stale_after: 'Flag passwords older than',
+                days: '{{count}} days',
+                no_issues: 'No problems found',
+            },
+        },
+        app_lock: {
+            title: 'App Lock',
+            locked: 'Locked',
+            enter_pin: 'Enter your PIN to continue.',
+            unlock: 'Unlock',
+            use_biometrics: 'Use biometrics',
+            biometric_prompt: 'Unlock Socius Friends',
+            wrong_pin: 'Wrong PIN',
+            too_many_attempts: 'Too many attempts. Try again in {{count}} min.',
+            auto_lock: 'Auto-lock',
+            immediately: 'Immediately',
+            after_minutes: 'After {{count}} min',
+            biometrics: 'Unlock with biometrics',
+            set_pin: 'Set PIN',
+            change_pin: 'Change PIN',
+            new_pin: 'New PIN',
+            confirm_pin: 'Confirm PIN',
+            pin_too_short: 'Use at least {{count}} digits',
+            pin_mismatch: 'PINs do not match',
+            pin_save_failed: 'Could not save the PIN. Please try again.',
         },
         avatars: {
             yuki: 'Yuki',
@@ -417,6 +643,28 @@ export const translations = {
             cancel: 'Cancel',
             autosave_enabled: 'Autosave enabled'
         },
+        connection: {
+            reconnecting: 'Reconnecting...',
+            offline: 'Offline. Messages will send when you reconnect.',
+        },
+        sync: {
+            conflicts_banner: 'Edited on two devices',
+            review: 'Review',
+            review_title: 'Sync Conflicts',
+            review_hint: 'These items changed on this phone and on another device. The newer edit was kept; tap the version you want.',
+            this_device: 'This phone',
+            other_device: 'Other device',
+            kept: 'Kept',
+        },
+        diagnostics: {
+            title: 'Diagnostics',
+            validation_failures: 'Rejected server responses',
+            hint: 'Responses that did not match the expected shape since launch. Rejected rows were skipped and never cached.',
+            none: 'No rejected responses.',
+            count: 'Rejected',
+            last_seen: 'Last seen',
+            clear: 'Clear',
+        },
         languages: {
             title: 'Languages',
             word_of_day: 'Word of the Day',
@@ -516,6 +764,10 @@ export const translations = {
             copy_success: '텍스트가 클립보드에 복사되었습니다',
             error_not_sent: '죄송해요, 메시지를 받지 못했습니다!',
             load_earlier: '이전 메시지 불러오기',
+            not_sent_title: '아직 전송되지 않음',
+            not_sent_message: '이 메시지는 전송 대기 중입니다. 다시 온라인이 되면 자동으로 재시도합니다.',
+            retry: '다시 시도',
+            delete_message: '삭제',
         },
         settings: {
             title: '설정',
@@ -607,6 +859,75 @@ export const translations = {
             small_portion: '소량',
             medium_portion: '중간',
             large_portion: '대량',
+            macros: {
+                title: '영양소',
+                optional: '영양소 (g, 선택)',
+                today: '오늘의 영양소',
+                split: '단백질·탄수화물·지방 칼로리 비율',
+                week: '최근 7일',
+                grams: '{{count}} g',
+                protein: '단백질',
+                carbs: '탄수화물',
+                fat: '지방',
+                fiber: '식이섬유',
+                sugar: '당류',
+                protein_short: '단',
+                carbs_short: '탄',
+                fat_short: '지',
+                fiber_short: '섬',
+                sugar_short: '당',
+            },
+            budget: {
+                title: '하루 권장 섭취량',
+                remaining: '{{count}} kcal 남음',
+                over: '{{count}} kcal 초과',
+                of_budget: '{{budget}} kcal 중 {{intake}} kcal',
+                breakdown: 'TDEE {{tdee}} · 목표 {{goal}} · 운동 +{{active}}',
+                setup: '운동 화면에서 키, 체중, 나이를 입력하면 하루 권장 섭취량을 계산해 드려요.',
+                setup_button: '설정하기',
+                trend: '최근 7일 순 칼로리',
+                deficit: '적자',
+                surplus: '초과',
+                week_net: '7일 합계: {{count}} kcal',
+            },
+            meals: {
+                title: '식사',
+                breakfast: '아침',
+                lunch: '점심',
+                dinner: '저녁',
+                snack: '간식',
+            },
+            templates: {
+                title: '저장한 식단',
+                save: '식단으로 저장',
+                save_title: '식단 저장',
+                name: '식단 이름',
+                name_placeholder: '예: 평소 아침',
+                items: '음식 {{count}}개',
+                logged: '{{name}} 기록됨',
+                delete: '식단 삭제',
+                delete_confirm: '저장한 식단을 삭제할까요? 이미 기록한 항목은 유지됩니다.',
+                hint: '눌러서 기록, 길게 눌러 삭제',
+            },
+            favorites: {
+                title: '즐겨찾는 음식',
+                suggestions: '즐겨찾기 및 최근 음식',
+                add: '즐겨찾기에 추가',
+                remove: '즐겨찾기에서 삭제',
+                times: '{{count}}회 기록',
+                from_favorites: '즐겨찾는 음식에서',
+            },
+            database: {
+                search: '음식 데이터베이스 검색',
+                placeholder: '예: 밥, 김밥, banana',
+                no_results: '일치하는 음식이 없습니다. 칼로리를 직접 입력하세요.',
+                per_100g: '100g당 {{count}} kcal',
+                servings: '제공량',
+                grams: '그램',
+                amount: '양',
+                use: '사용',
+                note: '일반적인 값이며 제품과 조리법에 따라 다릅니다.',
+            },
         },
         profile: {
             title: '프로필',
@@ -692,6 +1013,10 @@ export const translations = {
             activity_moderate: '보통',
             activity_active: '활발한',
             activity_very_active: '매우 활발한',
+            goal: '체중 목표',
+            goal_lose: '감량',
+            goal_maintain: '유지',
+            goal_gain: '증량',
             save: '활동 저장',
             cancel: '취소',
             delete: '삭제',
@@ -746,11 +1071,160 @@ export const translations = {
             username: '아이디 / 이메일',
             password: '비밀번호',
             category: '카테고리',
-            group_social: '소셜',
-            group_work: '업무',
-            group_personal: '개인',
-            group_finance: '금융',
-            group_other: '기타',
+            // Vault
+            vault_setup_title: '마스터 암호 만들기',
+            vault_setup_hint: '비밀번호는 동기화 전에 이 기기에서 이 암호로 암호화됩니다. 잊어버리면 복구할 수 없습니다.',
+            vault_locked: '비밀번호 잠김',
+            vault_locked_hint: '마스터 암호를 입력해 잠금을 해제하세요.',
+            vault_setup_in_app: '비밀번호를 저장하려면 먼저 비밀번호 보관함을 설정하세요.',
+            open_passwords: '비밀번호 열기',
+            passphrase: '마스터 암호',
+            confirm_passphrase: '암호 확인',
+            create_vault: '보관함 만들기',
+            unlock: '잠금 해제',
+            lock: '잠그기',
+            wrong_passphrase: '암호가 올바르지 않습니다',
+            passphrase_mismatch: '암호가 일치하지 않습니다',
+            passphrase_too_short: '{{count}}자 이상 입력하세요',
+            vault_error: '보관함을 열 수 없습니다. 다시 시도해 주세요.',
+            generator: {
+                generate: '생성',
+                regenerate: '다시 생성',
+                length: '길이',
+                words: '단어 수',
+                mode_random: '무작위',
+                mode_passphrase: '패스프레이즈',
+                mode_pronounceable: '발음 가능',
+                policy_strong: '강력',
+                policy_banking: '금융',
+                policy_memorable: '기억하기 쉬움',
+                policy_pin: 'PIN',
+            },
+            strength: {
+                very_weak: '매우 약함',
+                weak: '약함',
+                fair: '보통',
+                strong: '강함',
+                very_strong: '매우 강함',
+            },
+            totp: {
+                label: '2단계 인증 코드 (선택)',
+                placeholder: '비밀 키 또는 otpauth:// 링크',
+                paste: '붙여넣기',
+                invalid: '올바른 2단계 인증 비밀 키나 otpauth:// 링크가 아닙니다.',
+                copy: '2단계 인증 코드 복사',
+                copied: '코드가 복사되었습니다',
+            },
+            clipboard: {
+                clears_in: '{{count}}초 후 지워짐',
+                clear_after: '복사한 비밀번호 지우기',
+                never: '지우지 않음',
+                after_seconds: '{{count}}초 후',
+                last_copied: '마지막 복사 {{date}}',
+                never_copied: '복사한 적 없음',
+            },
+            details: {
+                url: '웹사이트',
+                open_url: '웹사이트 열기',
+                notes: '메모',
+                tags: '태그',
+                tags_placeholder: '쉼표로 태그를 구분하세요',
+                custom_fields: '사용자 정의 필드',
+                add_field: '필드 추가',
+                field_key: '이름',
+                field_value: '값',
+                remove_field: '필드 삭제',
+            },
+            history: {
+                title: '이전 비밀번호 ({{count}})',
+                replaced: '{{date}}에 변경됨',
+                restore: '이 비밀번호 사용',
+                restore_hint: '복원하면 이전 비밀번호가 입력란에 들어갑니다. 저장해야 적용됩니다.',
+            },
+            custom_groups: {
+                title: '그룹',
+                built_in: '기본 그룹',
+                yours: '내 그룹',
+                add: '새 그룹',
+                edit: '그룹 편집',
+                name: '이름',
+                name_placeholder: '예: 게임',
+                icon: '아이콘',
+                color: '색상',
+                count: '비밀번호 {{count}}개',
+                empty: '나만의 그룹을 추가해 비밀번호를 원하는 대로 정리하세요.',
+                delete: '그룹 삭제',
+                delete_confirm: '이 그룹을 삭제할까요? 그룹의 비밀번호는 기타로 이동합니다.',
+                manage: '그룹 관리',
+            },
+            transfer: {
+                title: '가져오기 및 내보내기',
+                requires_lock: '보관함을 가져오거나 내보내려면 비밀번호 앱 잠금을 켜세요.',
+                enable_lock: '앱 잠금 켜기',
+                import: '가져오기',
+                import_hint: 'Chrome, Firefox, Safari, Bitwarden, 1Password의 CSV, Bitwarden JSON 또는 여기서 만든 백업 파일.',
+                choose_file: '파일 선택',
+                backup_passphrase: '백업 암호',
+                backup_passphrase_hint: '암호화된 백업입니다. 내보낼 때 사용한 암호를 입력하세요.',
+                plan_added: '새 계정 {{count}}개',
+                plan_duplicates: '이미 저장된 {{count}}개 건너뜀',
+                plan_skipped: '비밀번호 없는 {{count}}개 행 건너뜀',
+                plan_changed: '다른 비밀번호로 저장된 {{count}}개 교체',
+                confirm_import: '가져오기',
+                imported: '계정 {{count}}개를 가져왔습니다',
+                export: '내보내기',
+                export_hint: '계정 {{count}}개를 모두 내보냅니다.',
+                format_backup: '암호화된 백업',
+                format_backup_hint: '암호로 보호됩니다. 어느 기기에서든 여기서 가져올 수 있습니다.',
+                format_csv: 'CSV',
+                format_csv_hint: '브라우저와 대부분의 비밀번호 관리자용. 암호화되지 않습니다.',
+                format_bitwarden: 'Bitwarden JSON',
+                format_bitwarden_hint: 'Bitwarden 및 호환 관리자용. 암호화되지 않습니다.',
+                plain_warning_title: '암호화 없이 내보낼까요?',
+                plain_warning: '이 파일을 가진 사람은 모든 비밀번호를 읽을 수 있습니다. 다른 곳에 가져온 후 삭제하세요.',
+                error_unrecognized: '지원하지 않는 비밀번호 내보내기 파일입니다.',
+                error_encrypted_export: '암호화된 Bitwarden 내보내기는 읽을 수 없습니다. 암호화 없이 다시 내보내세요.',
+                error_empty: '파일이 비어 있습니다.',
+                error_save: '일부 계정을 저장하지 못했습니다. 다시 시도하세요.',
+                error_export: '내보내기에 실패했습니다. 다시 시도하세요.',
+            },
+            audit: {
+                title: '비밀번호 점검',
+                health_score: '보관함 안전도',
+                checked: '비밀번호 {{count}}개 점검함',
+                filter_weak: '약함',
+                filter_reused: '재사용',
+                filter_similar: '비슷함',
+                filter_stale: '오래됨',
+                issue_weak: '약한 비밀번호',
+                issue_reused: '다른 {{count}}개와 동일',
+                issue_similar: '다른 {{count}}개와 비슷함',
+                issue_stale: '{{count}}일 동안 변경 안 함',
+                stale_after: '다음 기간보다 오래된 비밀번호 표시',
+                days: '{{count}}일',
+                no_issues: '문제가 없습니다',
+            },
+        },
+        app_lock: {
+            title: '앱 잠금',
+            locked: '잠김',
+            enter_pin: '계속하려면 PIN을 입력하세요.',
+            unlock: '잠금 해제',
+            use_biometrics: '생체 인증 사용',
+            biometric_prompt: 'Socius Friends 잠금 해제',
+            wrong_pin: 'PIN이 올바르지 않습니다',
+            too_many_attempts: '시도 횟수가 너무 많습니다. {{count}}분 후에 다시 시도하세요.',
+            auto_lock: '자동 잠금',
+            immediately: '즉시',
+            after_minutes: '{{count}}분 후',
+            biometrics: '생체 인증으로 잠금 해제',
+            set_pin: 'PIN 설정',
+            change_pin: 'PIN 변경',
+            new_pin: '새 PIN',
+            confirm_pin: 'PIN 확인',
+            pin_too_short: '{{count}}자리 이상 입력하세요',
+            pin_mismatch: 'PIN이 일치하지 않습니다',
+            pin_save_failed: 'PIN을 저장할 수 없습니다. 다시 시도해 주세요.',
         },
         avatars: {
             yuki: '유키',
@@ -847,6 +1321,28 @@ export const translations = {
             cancel: '취소',
             autosave_enabled: '자동 저장 켜짐'
         },
+        connection: {
+            reconnecting: '다시 연결 중...',
+            offline: '오프라인 상태입니다. 다시 연결되면 메시지가 전송됩니다.',
+        },
+        sync: {
+            conflicts_banner: '두 기기에서 수정됨',
+            review: '확인',
+            review_title: '동기화 충돌',
+            review_hint: '이 항목들은 이 폰과 다른 기기에서 모두 수정되었습니다. 더 최근 수정이 유지되었으며, 원하는 버전을 선택할 수 있습니다.',
+            this_device: '이 폰',
+            other_device: '다른 기기',
+            kept: '유지됨',
+        },
+        diagnostics: {
+            title: '진단',
+            validation_failures: '거부된 서버 응답',
+            hint: '앱 실행 후 예상한 형식과 맞지 않았던 응답입니다. 거부된 항목은 건너뛰었으며 저장되지 않았습니다.',
+            none: '거부된 응답이 없습니다.',
+            count: '거부됨',
+            last_seen: '마지막 발생',
+            clear: '지우기',
+        },
         languages: {
             title: '언어 학습',
             word_of_day: '오늘의 단어',
@@ -0,0 +1,130 @@
+// Short, common, easy to spell words for generated passphrases. Each word adds
+// log2(PASSPHRASE_WORDS.length) bits (about 10), so keep the list free of duplicates.
+export const PASSPHRASE_WORDS: readonly string[] = [
+    'able', 'acid', 'acorn', 'acre', 'actor', 'adapt', 'adobe', 'agenda', 'agent', 'agile', 'aging',
+    'aisle', 'alarm', 'album', 'alert', 'alley', 'alloy', 'almond', 'alpha', 'amber', 'amend',
+    'ample', 'anchor', 'angel', 'angle', 'ankle', 'antler', 'apple', 'apricot', 'april', 'apron',
+    'archer', 'arctic', 'arena', 'argue', 'armada', 'armor', 'aroma', 'arrow', 'artist', 'aspen',
+    'atlas', 'atom', 'attic', 'audio', 'aunt', 'autumn', 'avid', 'avocado', 'awake', 'award',
+    'axis', 'bacon', 'badge', 'badger', 'bagel', 'baker', 'ballad', 'balmy', 'bamboo', 'banana',
+    'banjo', 'banner', 'barley', 'barn', 'baron', 'basil', 'basin', 'basket', 'batch', 'beach',
+    'beacon', 'beagle', 'beard', 'beast', 'beaver', 'beetle', 'bellow', 'bench', 'berry', 'bike',
+    'binder', 'birch', 'biscuit', 'bison', 'blade', 'blank', 'blast', 'blaze', 'blend', 'bliss',
+    'blond', 'bloom', 'blossom', 'blue', 'blunt', 'blush', 'board', 'boast', 'bobcat', 'bonnet',
+    'bonus', 'boost', 'booth', 'boots', 'bottle', 'boulder', 'bound', 'bowl', 'boxer', 'brain',
+    'brake', 'bramble', 'brass', 'brave', 'bread', 'breeze', 'brick', 'bride', 'bridge', 'brief',
+    'brim', 'brisk', 'brisket', 'broad', 'bronze', 'brook', 'broom', 'brush', 'bubble', 'bucket',
+    'buckle', 'buddy', 'budget', 'buffalo', 'buggy', 'bugle', 'bulb', 'bunch', 'bundle', 'bunny',
+    'burrow', 'burst', 'bush', 'butter', 'button', 'cabbage', 'cabin', 'cable', 'cactus', 'caddie',
+    'cadet', 'cage', 'cake', 'camel', 'cameo', 'camera', 'camp', 'canal', 'candle', 'candy',
+    'canoe', 'canvas', 'canyon', 'cape', 'caramel', 'cardinal', 'cargo', 'carol', 'carpet',
+    'carrot', 'carve', 'case', 'cash', 'cashew', 'castle', 'cat', 'cavern', 'cedar', 'celery',
+    'cellar', 'cello', 'cereal', 'chalk', 'champ', 'chant', 'chapel', 'charm', 'chart', 'chase',
+    'cheek', 'cheer', 'cheetah', 'chef', 'cherry', 'chess', 'chew', 'chick', 'chief', 'chili',
+    'chime', 'chimney', 'chin', 'chip', 'chord', 'chowder', 'chunk', 'cider', 'cinder', 'cinema',
+    'circle', 'citrus', 'civic', 'claim', 'clam', 'clap', 'clay', 'clean', 'clerk', 'click',
+    'cliff', 'climb', 'cling', 'clock', 'cloth', 'cloud', 'clover', 'clown', 'club', 'clue',
+    'coach', 'coast', 'cobalt', 'cobra', 'cocoa', 'coconut', 'coffee', 'coin', 'collar', 'comet',
+    'comic', 'compass', 'cookie', 'copper', 'coral', 'cord', 'corn', 'cosmic', 'cosmos', 'cotton',
+    'couch', 'cougar', 'cough', 'count', 'cove', 'cowboy', 'coyote', 'crab', 'cradle', 'craft',
+    'crane', 'crate', 'crawl', 'crayon', 'cream', 'creek', 'crest', 'crew', 'cricket', 'crisp',
+    'crop', 'crow', 'crowd', 'crown', 'crumb', 'crust', 'crystal', 'cube', 'cuff', 'cupcake',
+    'cupid', 'curb', 'curl', 'curtain', 'curve', 'cushion', 'custard', 'cycle', 'daily', 'dairy',
+    'daisy', 'damsel', 'dance', 'dandy', 'dash', 'data', 'dawn', 'dazzle', 'deal', 'debut', 'decal',
+    'decoy', 'deep', 'delta', 'denim', 'depot', 'depth', 'derby', 'desert', 'desk', 'dial', 'diary',
+    'dice', 'diner', 'dingo', 'dinner', 'disco', 'ditch', 'dive', 'dizzy', 'dock', 'dodge',
+    'dolphin', 'dome', 'donut', 'doodle', 'door', 'dose', 'dove', 'draft', 'dragon', 'drain',
+    'drama', 'drape', 'dream', 'dress', 'drift', 'drill', 'drink', 'drip', 'drive', 'drizzle',
+    'drum', 'duck', 'dumpling', 'dune', 'durable', 'dusk', 'dust', 'eager', 'eagle', 'early',
+    'earth', 'easel', 'east', 'echo', 'eclair', 'eclipse', 'edge', 'eel', 'elbow', 'elder',
+    'elegant', 'elk', 'elm', 'email', 'ember', 'emblem', 'emerald', 'empty', 'engine', 'enjoy',
+    'entry', 'envoy', 'equal', 'essay', 'ether', 'event', 'exact', 'exam', 'exit', 'fable',
+    'fabric', 'face', 'fact', 'fade', 'fairy', 'faith', 'falcon', 'fancy', 'farm', 'fawn', 'feast',
+    'feather', 'fence', 'fennel', 'fern', 'ferret', 'ferry', 'fetch', 'fever', 'fiber', 'fiddle',
+    'fidget', 'field', 'fiesta', 'figure', 'film', 'filter', 'finch', 'fire', 'fish', 'flag',
+    'flake', 'flame', 'flannel', 'flash', 'flask', 'fleet', 'flicker', 'flint', 'float', 'flock',
+    'flood', 'floor', 'flora', 'flour', 'flower', 'flute', 'foam', 'focus', 'foggy', 'folk',
+    'fondue', 'font', 'forage', 'forest', 'forge', 'fork', 'fort', 'forum', 'fossil', 'fountain',
+    'fox', 'frame', 'freckle', 'fresh', 'friend', 'frog', 'frost', 'frozen', 'fruit', 'fudge',
+    'fuel', 'funnel', 'funny', 'furnace', 'gadget', 'gala', 'galaxy', 'gallery', 'game', 'garden',
+    'garlic', 'garnet', 'gauge', 'gazebo', 'gecko', 'gem', 'genie', 'geyser', 'giant', 'gift',
+    'giggle', 'ginger', 'giraffe', 'glacier', 'glad', 'glass', 'glide', 'globe', 'glove', 'glow',
+    'glue', 'goat', 'goblin', 'gold', 'golf', 'goose', 'gopher', 'gorge', 'gospel', 'gown', 'grace',
+    'grain', 'granite', 'grape', 'graph', 'grass', 'gravel', 'gravy', 'great', 'green', 'grid',
+    'griddle', 'grill', 'grin', 'grove', 'growl', 'guard', 'guava', 'guest', 'guide', 'guitar',
+    'gull', 'guppy', 'gust', 'gutter', 'habit', 'hair', 'halo', 'hamlet', 'hammer', 'hammock',
+    'hand', 'happy', 'harbor', 'harmony', 'harp', 'harvest', 'hatch', 'haven', 'hawk', 'hazel',
+    'head', 'heart', 'hedge', 'helium', 'helmet', 'herb', 'hermit', 'hero', 'heron', 'hiccup',
+    'hiker', 'hill', 'hinge', 'hippo', 'hobby', 'hollow', 'holly', 'honey', 'hood', 'hook', 'hope',
+    'horn', 'hornet', 'horse', 'host', 'hostel', 'hotel', 'hound', 'house', 'hover', 'hug',
+    'humble', 'humor', 'hunch', 'hunter', 'husky', 'hut', 'hybrid', 'iceberg', 'icicle', 'icon',
+    'idea', 'igloo', 'image', 'inch', 'index', 'ink', 'inkwell', 'inlet', 'input', 'insect', 'iris',
+    'iron', 'island', 'ivory', 'ivy', 'jacket', 'jade', 'jaguar', 'jam', 'jar', 'jasmine',
+    'javelin', 'jazz', 'jeans', 'jelly', 'jersey', 'jewel', 'jiffy', 'jigsaw', 'jockey', 'jog',
+    'joke', 'jolly', 'journal', 'judge', 'juice', 'jumbo', 'jump', 'jungle', 'junior', 'juniper',
+    'kayak', 'keen', 'kernel', 'kettle', 'key', 'kick', 'kid', 'kind', 'kindle', 'king', 'kingdom',
+    'kitchen', 'kite', 'kitten', 'kiwi', 'knee', 'knife', 'knock', 'koala', 'label', 'lace',
+    'ladder', 'ladle', 'lady', 'lagoon', 'lake', 'lamb', 'lamp', 'lane', 'lantern', 'laser',
+    'latch', 'lattice', 'lava', 'lawn', 'layer', 'leaf', 'ledge', 'legend', 'lemon', 'lens',
+    'lentil', 'lettuce', 'level', 'lever', 'lichen', 'lilac', 'lily', 'lime', 'linen', 'lion',
+    'lizard', 'llama', 'lobby', 'local', 'locket', 'lodge', 'logic', 'lotus', 'lucky', 'lumber',
+    'lunar', 'lunch', 'lyric', 'macaw', 'magic', 'magnet', 'magpie', 'mammoth', 'mango', 'mantle',
+    'maple', 'marble', 'march', 'mare', 'marina', 'market', 'marmot', 'marsh', 'mask', 'mason',
+    'meadow', 'medal', 'mellow', 'melon', 'memo', 'menu', 'merit', 'mermaid', 'mesa', 'metal',
+    'meteor', 'meter', 'mild', 'milk', 'mill', 'mimic', 'mingle', 'mint', 'minute', 'mirror',
+    'mist', 'mitten', 'mixer', 'mocha', 'model', 'mole', 'monarch', 'monk', 'monsoon', 'moose',
+    'moral', 'mosaic', 'moss', 'motel', 'motor', 'mound', 'mouse', 'mouth', 'movie', 'mud',
+    'muffin', 'mug', 'mural', 'muscle', 'music', 'mustard', 'nacho', 'nail', 'name', 'nap',
+    'napkin', 'navy', 'neat', 'nebula', 'nectar', 'needle', 'nest', 'net', 'nickel', 'night',
+    'nimbus', 'ninja', 'noble', 'noodle', 'north', 'notch', 'note', 'novel', 'nudge', 'nugget',
+    'nurse', 'nutmeg', 'nutshell', 'oak', 'oasis', 'oat', 'oatmeal', 'ocean', 'octave', 'office',
+    'olive', 'omega', 'onion', 'opal', 'opera', 'orange', 'orbit', 'orchard', 'orchid', 'organ',
+    'osprey', 'otter', 'ounce', 'outer', 'outpost', 'oval', 'oven', 'owl', 'oyster', 'pace',
+    'paddle', 'paddock', 'page', 'paint', 'palm', 'panda', 'panel', 'pantry', 'papaya', 'parade',
+    'parcel', 'park', 'parrot', 'parsley', 'party', 'pasta', 'patch', 'path', 'patio', 'pause',
+    'peach', 'peak', 'peanut', 'pearl', 'pebble', 'pecan', 'pedal', 'pelican', 'pencil', 'penny',
+    'pepper', 'perch', 'piano', 'pickle', 'pie', 'pigeon', 'pigment', 'pillow', 'pilot', 'pine',
+    'pink', 'pinwheel', 'pixel', 'pizza', 'plaid', 'plane', 'plank', 'plant', 'plasma', 'plate',
+    'platter', 'plaza', 'pledge', 'plum', 'plume', 'pocket', 'poem', 'poet', 'polar', 'pollen',
+    'pomelo', 'pond', 'pony', 'popcorn', 'poppy', 'porch', 'portal', 'portrait', 'possum', 'potato',
+    'pottery', 'pouch', 'power', 'prairie', 'pretzel', 'prism', 'prize', 'proud', 'pudding',
+    'puddle', 'puffin', 'pulse', 'pump', 'pumpkin', 'punch', 'pupil', 'puppy', 'purple', 'puzzle',
+    'quail', 'quartz', 'queen', 'quest', 'quick', 'quiet', 'quilt', 'quiver', 'quiz', 'rabbit',
+    'raccoon', 'radar', 'radio', 'radish', 'raft', 'rain', 'raisin', 'rake', 'ramp', 'ranch',
+    'range', 'rapid', 'rattle', 'raven', 'razor', 'ready', 'realm', 'recess', 'recipe', 'reef',
+    'relay', 'remix', 'reptile', 'rhino', 'rhyme', 'ribbon', 'rice', 'riddle', 'ridge', 'ring',
+    'ripple', 'river', 'road', 'robin', 'robot', 'rocket', 'rodeo', 'roof', 'rookie', 'room',
+    'roost', 'rooster', 'root', 'rope', 'rose', 'rotor', 'round', 'route', 'rover', 'royal',
+    'rubble', 'ruby', 'rug', 'ruler', 'rumble', 'runway', 'rustic', 'saddle', 'safari', 'saffron',
+    'saga', 'sage', 'sail', 'sailor', 'salad', 'salmon', 'salsa', 'salt', 'sandal', 'sapling',
+    'sardine', 'satin', 'sauce', 'sauna', 'scale', 'scallop', 'scarf', 'scene', 'scooter', 'scout',
+    'scrap', 'screen', 'scroll', 'seal', 'season', 'seed', 'sequel', 'sesame', 'shade', 'shadow',
+    'shallot', 'shark', 'shelf', 'shell', 'sherbet', 'shield', 'shine', 'ship', 'shirt', 'shore',
+    'shovel', 'shrub', 'shuttle', 'silver', 'siren', 'sizzle', 'skate', 'sketch', 'ski', 'skill',
+    'skillet', 'sky', 'slate', 'sled', 'sleep', 'slice', 'slipper', 'slope', 'smile', 'smoke',
+    'snack', 'snail', 'snake', 'sneeze', 'snow', 'soap', 'soccer', 'sock', 'sofa', 'solar', 'sonic',
+    'sonnet', 'soup', 'south', 'space', 'spark', 'sparrow', 'spice', 'spider', 'spike', 'spinach',
+    'spine', 'sponge', 'spoon', 'sport', 'spray', 'spring', 'sprout', 'spruce', 'squad', 'squash',
+    'squirrel', 'stable', 'stage', 'stair', 'stallion', 'stamp', 'star', 'starfish', 'steam',
+    'steel', 'stem', 'stencil', 'stereo', 'stew', 'stick', 'sticker', 'stone', 'stool', 'storm',
+    'story', 'stove', 'straw', 'stream', 'street', 'stripe', 'studio', 'sugar', 'suit', 'summer',
+    'summit', 'sun', 'sundae', 'sunset', 'super', 'surf', 'swamp', 'swan', 'sweet', 'swift',
+    'swing', 'switch', 'syrup', 'table', 'taco', 'tadpole', 'talent', 'tangle', 'tango', 'tape',
+    'target', 'tassel', 'taxi', 'teacup', 'teapot', 'teddy', 'temple', 'tennis', 'tent', 'thaw',
+    'theory', 'thimble', 'thistle', 'thorn', 'thread', 'throne', 'thumb', 'thunder', 'ticket',
+    'tide', 'tiger', 'timber', 'tinsel', 'tint', 'toast', 'toffee', 'token', 'tomato', 'tonic',
+    'tooth', 'topaz', 'topiary', 'torch', 'tornado', 'total', 'totem', 'towel', 'tower', 'track',
+    'tractor', 'trail', 'train', 'tray', 'treat', 'tree', 'trellis', 'trend', 'tribe', 'trick',
+    'trinket', 'trio', 'trolley', 'trophy', 'truck', 'truffle', 'trumpet', 'trunk', 'tulip', 'tuna',
+    'tundra', 'tunnel', 'turkey', 'turnip', 'turtle', 'tutor', 'tuxedo', 'tweed', 'twig', 'twin',
+    'twister', 'ultra', 'umbrella', 'uncle', 'unicorn', 'union', 'unit', 'upbeat', 'upper', 'urban',
+    'usher', 'utmost', 'valiant', 'valley', 'value', 'valve', 'vanilla', 'vapor', 'vase', 'vault',
+    'velcro', 'velvet', 'vendor', 'venture', 'venus', 'verse', 'vessel', 'vest', 'video', 'view',
+    'villa', 'village', 'vine', 'vinegar', 'vintage', 'violet', 'violin', 'visor', 'vivid', 'vocal',
+    'voice', 'volcano', 'voyage', 'wafer', 'waffle', 'wagon', 'waist', 'walker', 'wallet', 'walnut',
+    'walrus', 'wand', 'warbler', 'water', 'wave', 'wax', 'weasel', 'weave', 'wedge', 'whale',
+    'wheat', 'wheel', 'whisk', 'whisker', 'whistle', 'widget', 'wigwam', 'wildcat', 'willow',
+    'windmill', 'window', 'winter', 'wizard', 'wolf', 'wombat', 'wonder', 'wool', 'world', 'worm',
+    'wreath', 'wren', 'yacht', 'yard', 'yarn', 'yeast', 'yellow', 'yeti', 'yodel', 'yoga', 'yogurt',
+    'yolk', 'young', 'zebra', 'zephyr', 'zero', 'zest', 'zigzag', 'zinc', 'zipper', 'zone', 'zoom',
+];
@@ -1,6 +1,6 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { getToken, removeToken, saveToken } from '../services/auth';
+import { wipeUserData } from '../services/storageRegistry';
 import { GoogleSignin, User } from '@react-native-google-signin/google-signin';
 
 interface AuthContextType {
@@ -86,19 +86,9 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
         setUser(null);
         await removeToken();
 
-        // Only clear user-specific data, preserve app settings (theme, language)
-        const keysToRemove = [
-            'user_display_name',
-            'user_username',
-            'user_display_avatar',
-            'onboarding_complete',
-            'user_passwords', // Clear sensitive password widget data
-            'calorie_entries',
-            'workout_activities'
-            // Add other user-specific keys here as needed
-        ];
+        // Clears every user-scoped key in the storage registry; settings (theme, language) stay
         try {
-            await AsyncStorage.multiRemove(keysToRemove);
+            await wipeUserData();
             await GoogleSignin.signOut();
         } catch (error) {
             console.error(error);
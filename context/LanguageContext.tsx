@@ -1,7 +1,8 @@
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { translations, Language } from '../constants/translations';
-import api from '../services/api';
+import { updateMe } from '../services/apiClient';
+import { STORAGE_KEYS } from '../services/storageRegistry';
 
 // Recursive type helper to get nested keys (simplified for 2 levels for now, or use lodash get style)
 // For simplicity in this project, we'll define a simple t function type or just use any return for complex nested access if needed.
@@ -21,7 +22,7 @@ export function LanguageProvider({ children }: { children: React.ReactNode }) {
     useEffect(() => {
         const loadLanguage = async () => {
             try {
-                const savedLanguage = await AsyncStorage.getItem('app_language');
+                const savedLanguage = await AsyncStorage.getItem(STORAGE_KEYS.language);
                 if (savedLanguage === 'en' || savedLanguage === 'ko') {
                     setLanguageState(savedLanguage);
                 }
@@ -36,8 +37,8 @@ export function LanguageProvider({ children }: { children: React.ReactNode }) {
     const setLanguage = async (lang: Language) => {
         setLanguageState(lang);
         try {
-            await AsyncStorage.setItem('app_language', lang);
-            api.put('/users/me', { language: lang })
+            await AsyncStorage.setItem(STORAGE_KEYS.language, lang);
+            updateMe({ language: lang })
                 .catch(err => console.log('Failed to sync language', err));
         } catch {
 
@@ -1,12 +1,24 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback, useRef } from 'react';
 import { AppState, AppStateStatus, Platform } from 'react-native';
 import * as Device from 'expo-device';
-import api from '../services/api';
+import { getUnreadCounts, normalizeApiError, registerPushToken } from '../services/apiClient';
 import { useSession } from './AuthContext';
 import * as Notifications from 'expo-notifications';
-import { createNotificationStream, closeNotificationStream } from '../services/eventSource';
+import {
+    createNotificationStream,
+    closeNotificationStream,
+    getReconnectDelay,
+    hasStreamCursor,
+    resetStreamCursor,
+    ConnectionState
+} from '../services/eventSource';
+import { flushAllSyncEngines } from '../services/SyncEngine';
+import { flushOutbox } from '../services/ChatOutbox';
 import { router } from 'expo-router';
 
+// Consecutive failed reconnects before the stream is reported as offline
+const OFFLINE_AFTER_ATTEMPTS = 3;
+
 interface NotificationContextType {
     unreadCount: number;
     sociusUnreadCount: number;
@@ -19,6 +31,8 @@ interface NotificationContextType {
     setRouteSegments: (segments: string[]) => void;
     typingThreads: Set<string>;
     setTyping: (id: string, isTyping: boolean) => void;
+    streamingReplies: Record<string, string>; // message_group_id -> Socius reply text so far
+    connectionState: ConnectionState;
 }
 
 export const NotificationContext = createContext<NotificationContextType>({
@@ -33,6 +47,8 @@ export const NotificationContext = createContext<NotificationContextType>({
     setRouteSegments: () => { },
     typingThreads: new Set(),
     setTyping: () => { },
+    streamingReplies: {},
+    connectionState: 'connected',
 });
 
 export const useNotifications = () => useContext(NotificationContext);
@@ -48,7 +64,12 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
     const [lastDM, setLastDM] = useState<{ id: number; senderId: number; content: string; timestamp: number } | null>(null);
     const [typingThreads, setTypingThreads] = useState<Set<string>>(new Set());
     const typingTimeoutsRef = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
+    const [streamingReplies, setStreamingReplies] = useState<Record<string, string>>({});
+    const streamingRef = useRef<Record<string, string>>({});
     const sseCleanupRef = useRef<(() => void) | null>(null);
+    const [connectionState, setConnectionState] = useState<ConnectionState>('connected');
+    const reconnectAttemptRef = useRef(0);
+    const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
     const segmentsRef = useRef<string[]>([]);
 
     const setRouteSegments = useCallback((segments: string[]) => {
@@ -95,14 +116,26 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
         }
     }, []);
 
+    // Ref mirrors state so consecutive deltas in one tick all land
+    const setStreamingReply = useCallback((groupId: string, text: string | null) => {
+        const next = { ...streamingRef.current };
+        if (text === null) {
+            delete next[groupId];
+        } else {
+            next[groupId] = text;
+        }
+        streamingRef.current = next;
+        setStreamingReplies(next);
+    }, []);
+
     const refreshNotifications = useCallback(async () => {
         if (!session) return;
         try {
-            const res = await api.get('/notifications/unread');
-            const total = res.data.total;
-            const socius = res.data.socius_unread || 0;
-            const messages = res.data.unread_messages || 0;
-            const friends = res.data.friend_requests || 0;
+            const counts = await getUnreadCounts();
+            const total = counts.total;
+            const socius = counts.socius_unread || 0;
+            const messages = counts.unread_messages || 0;
+            const friends = counts.friend_requests || 0;
 
             setUnreadCount(total);
             setSociusUnreadCount(socius);
@@ -114,9 +147,9 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
             const badgeCount = socius + messages + friends;
             // Use Math.max to ensure we don't set negative, and prefer our calculated sum
             await Notifications.setBadgeCountAsync(Math.max(total, badgeCount));
-        } catch (error: any) {
+        } catch (error) {
 
-            if (error.response?.status === 401) {
+            if (normalizeApiError(error).status === 401) {
 
                 signOut();
             }
@@ -155,7 +188,7 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
 
             // Send to backend
             if (pushTokenString) {
-                await api.post('/notifications/token', { token: pushTokenString, app_id: 'socius-friends' });
+                await registerPushToken(pushTokenString, 'socius-friends');
 
             }
         } catch (e: any) {
@@ -193,20 +226,50 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
         }
     }, []);
 
+    useEffect(() => {
+        if (!session) {
+            // Signed out: the next account must not resume this one's stream
+            resetStreamCursor();
+        }
+    }, [session]);
+
     useEffect(() => {
         if (session) {
             refreshNotifications();
 
+            const clearReconnect = () => {
+                if (reconnectTimerRef.current) {
+                    clearTimeout(reconnectTimerRef.current);
+                    reconnectTimerRef.current = null;
+                }
+            };
+
+            const markConnected = () => {
+                clearReconnect();
+                reconnectAttemptRef.current = 0;
+                setConnectionState('connected');
+            };
+
             // Set up SSE stream for real-time updates
             const setupSSE = async () => {
                 const cleanup = await createNotificationStream(
                     (event) => {
-                        if (event.type === 'message') {
-                            // New Socius message arrived
+                        if (event.type === 'delta') {
+                            // Partial Socius reply: grow the streaming text for this thread
+                            const groupId = event.data?.message_group_id;
+                            if (groupId) {
+                                const text = event.data?.content ??
+                                    (streamingRef.current[groupId] || '') + (event.data?.delta || '');
+                                setStreamingReply(groupId, text);
+                            }
+                        } else if (event.type === 'message' || event.type === 'done') {
+                            // New Socius message arrived, or a streamed one finished
                             const groupId = event.data?.message_group_id;
+                            const streamed = groupId ? streamingRef.current[groupId] : undefined;
                             if (groupId) {
                                 // Clear typing status for this thread
                                 setTyping(groupId, false);
+                                setStreamingReply(groupId, null);
 
                                 // Also handle full ID if it starts with socius-
                                 if (event.data?.sender_id) {
@@ -218,7 +281,7 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
                             setLastMessage({
                                 id: event.data?.id || Date.now(),
                                 message_group_id: groupId || 'default',
-                                content: event.data?.content || '',
+                                content: event.data?.content || streamed || '',
                                 timestamp: Date.now()
                             });
                             refreshNotifications();
@@ -237,7 +300,10 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
                             });
                             refreshNotifications();
                         } else if (event.type === 'connected') {
-
+                            // Back online: replay queued writes, deletes and chat sends
+                            markConnected();
+                            flushAllSyncEngines();
+                            flushOutbox();
                         }
                     },
                     (error: any) => {
@@ -260,9 +326,18 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
                         } else {
                             console.error('SSE error, will attempt reconnect:', error);
                         }
-                        // Attempt to reconnect after 5 seconds
-                        setTimeout(setupSSE, 5000);
-                    }
+
+                        // One error can be reported several times; keep a single pending reconnect
+                        if (reconnectTimerRef.current) return;
+                        const attempt = reconnectAttemptRef.current;
+                        reconnectAttemptRef.current = attempt + 1;
+                        setConnectionState(attempt + 1 >= OFFLINE_AFTER_ATTEMPTS ? 'offline' : 'reconnecting');
+                        reconnectTimerRef.current = setTimeout(() => {
+                            reconnectTimerRef.current = null;
+                            setupSSE();
+                        }, getReconnectDelay(attempt));
+                    },
+                    markConnected
                 );
                 sseCleanupRef.current = cleanup;
             };
@@ -279,17 +354,27 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
                     setTypingThreads(new Set());
                     typingTimeoutsRef.current.forEach(timeout => clearTimeout(timeout));
                     typingTimeoutsRef.current.clear();
+                    // A reply cut off mid-stream comes back whole with the history fetch
+                    streamingRef.current = {};
+                    setStreamingReplies({});
 
-                    // Reconnect SSE when app becomes active
+                    // Reconnect SSE when app becomes active, starting the backoff over
                     if (sseCleanupRef.current) {
                         sseCleanupRef.current();
                     }
+                    clearReconnect();
+                    reconnectAttemptRef.current = 0;
                     setupSSE();
                     refreshNotifications();
-                    // Force a global refresh of components
-                    setLastNotificationTime(new Date());
+                    flushAllSyncEngines();
+                    flushOutbox();
+                    // Without a resume position the server can't replay, so force a global refresh
+                    if (!hasStreamCursor()) {
+                        setLastNotificationTime(new Date());
+                    }
                 } else if (nextAppState === 'background') {
                     // Close SSE when app goes to background to save resources
+                    clearReconnect();
                     if (sseCleanupRef.current) {
                         sseCleanupRef.current();
                         sseCleanupRef.current = null;
@@ -323,6 +408,7 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
                 appStateSubscription.remove();
                 subscription.remove();
                 backgroundSubscription.remove();
+                clearReconnect();
                 if (sseCleanupRef.current) {
                     sseCleanupRef.current();
                     sseCleanupRef.current = null;
@@ -330,7 +416,7 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
                 closeNotificationStream();
             };
         }
-    }, [session, refreshNotifications, handleNotificationResponse, registerForPushNotifications]);
+    }, [session, refreshNotifications, handleNotificationResponse, registerForPushNotifications, setStreamingReply]);
 
     return (
         <NotificationContext.Provider value={{
@@ -344,7 +430,9 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
             refreshNotifications,
             setRouteSegments,
             typingThreads,
-            setTyping
+            setTyping,
+            streamingReplies,
+            connectionState
         }}>
             {children}
         </NotificationContext.Provider>
@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { useColorScheme } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { STORAGE_KEYS } from '../services/storageRegistry';
 
 type Theme = 'light' | 'dark';
 
@@ -90,7 +91,7 @@ export function ThemeProvider({ children }: { children: React.ReactNode }) {
         const loadSettings = async () => {
             try {
                 // Batch read instead of 3 separate calls - reduces iOS thread blocking
-                const keys = ['app_theme', 'socius_avatar_preference', 'app_accent_color'];
+                const keys = [STORAGE_KEYS.theme, STORAGE_KEYS.avatarPreference, STORAGE_KEYS.accentColor];
                 const results = await AsyncStorage.multiGet(keys);
 
                 const savedTheme = results[0][1];
@@ -117,7 +118,7 @@ export function ThemeProvider({ children }: { children: React.ReactNode }) {
         const newTheme = theme === 'light' ? 'dark' : 'light';
         setTheme(newTheme);
         try {
-            await AsyncStorage.setItem('app_theme', newTheme);
+            await AsyncStorage.setItem(STORAGE_KEYS.theme, newTheme);
         } catch {
 
         }
@@ -126,7 +127,7 @@ export function ThemeProvider({ children }: { children: React.ReactNode }) {
     const setAvatar = async (id: string) => {
         setAvatarId(id);
         try {
-            await AsyncStorage.setItem('socius_avatar_preference', id);
+            await AsyncStorage.setItem(STORAGE_KEYS.avatarPreference, id);
         } catch {
 
         }
@@ -135,7 +136,7 @@ export function ThemeProvider({ children }: { children: React.ReactNode }) {
     const setAccentColor = async (color: string) => {
         setAccentColorState(color);
         try {
-            await AsyncStorage.setItem('app_accent_color', color);
+            await AsyncStorage.setItem(STORAGE_KEYS.accentColor, color);
         } catch {
 
         }
@@ -1,7 +1,8 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { GoogleSignin } from '@react-native-google-signin/google-signin';
-import api from '../services/api';
+import { getMe, updateMe } from '../services/apiClient';
+import { STORAGE_KEYS } from '../services/storageRegistry';
 import { useSession } from './AuthContext';
 
 type UserProfileContextType = {
@@ -48,7 +49,7 @@ export const UserProfileProvider = ({ children }: { children: React.ReactNode })
     const loadProfile = async () => {
         try {
             // 1. Load from cache immediately using batch read - reduces iOS thread blocking
-            const keys = ['user_display_name', 'user_username', 'user_display_avatar'];
+            const keys = [STORAGE_KEYS.displayName, STORAGE_KEYS.username, STORAGE_KEYS.displayAvatar];
             const results = await AsyncStorage.multiGet(keys);
 
             const name = results[0][1];
@@ -67,8 +68,7 @@ export const UserProfileProvider = ({ children }: { children: React.ReactNode })
             }
 
             try {
-                const res = await api.get('/users/me');
-                const data = res.data;
+                const data = await getMe();
 
                 // Determine display name with Google first name fallback
                 let resolvedName = data.display_name;
@@ -102,15 +102,15 @@ export const UserProfileProvider = ({ children }: { children: React.ReactNode })
 
 
                 // Sync new data to storage
-                await AsyncStorage.setItem('user_display_name', resolvedName || '');
+                await AsyncStorage.setItem(STORAGE_KEYS.displayName, resolvedName || '');
 
                 if (data.username) {
-                    await AsyncStorage.setItem('user_username', data.username);
+                    await AsyncStorage.setItem(STORAGE_KEYS.username, data.username);
                 } else {
-                    await AsyncStorage.removeItem('user_username');
+                    await AsyncStorage.removeItem(STORAGE_KEYS.username);
                 }
 
-                await AsyncStorage.setItem('user_display_avatar', data.custom_avatar_url || 'google');
+                await AsyncStorage.setItem(STORAGE_KEYS.displayAvatar, data.custom_avatar_url || 'google');
 
             } catch {
 
@@ -126,7 +126,7 @@ export const UserProfileProvider = ({ children }: { children: React.ReactNode })
         try {
             // Update Backend if username exists (initialized)
             if (username) {
-                await api.put('/users/me', {
+                await updateMe({
                     username: newUsername || username,
                     display_name: name,
                     custom_avatar_url: avatarId
@@ -136,10 +136,10 @@ export const UserProfileProvider = ({ children }: { children: React.ReactNode })
             }
 
             // Always update local state
-            await AsyncStorage.setItem('user_display_name', name);
-            await AsyncStorage.setItem('user_display_avatar', avatarId);
+            await AsyncStorage.setItem(STORAGE_KEYS.displayName, name);
+            await AsyncStorage.setItem(STORAGE_KEYS.displayAvatar, avatarId);
             if (newUsername) {
-                await AsyncStorage.setItem('user_username', newUsername);
+                await AsyncStorage.setItem(STORAGE_KEYS.username, newUsername);
                 setUsername(newUsername);
             }
             setDisplayName(name);
@@ -2,6 +2,7 @@ import React from 'react';
 import { renderHook, act } from '@testing-library/react-native';
 import { NotificationProvider, useNotifications } from '../NotificationContext';
 import { AuthContext } from '../AuthContext';
+import { createNotificationStream } from '../../services/eventSource';
 
 // Mocks
 jest.mock('../../services/api');
@@ -13,6 +14,11 @@ jest.mock('expo-notifications', () => ({
     getPermissionsAsync: jest.fn().mockResolvedValue({ status: 'granted' }),
     getDevicePushTokenAsync: jest.fn().mockResolvedValue({ data: 'token' }),
 }));
+jest.mock('../../services/eventSource', () => ({
+    ...jest.requireActual('../../services/eventSource'),
+    createNotificationStream: jest.fn(),
+    closeNotificationStream: jest.fn(),
+}));
 
 describe('NotificationContext', () => {
     const wrapper = ({ children }: { children: React.ReactNode }) => (
@@ -86,4 +92,75 @@ describe('NotificationContext', () => {
         });
         expect(result.current.typingThreads.has('thread-1')).toBe(false);
     });
+
+    it('grows a streamed reply from delta events and finalizes it on done', async () => {
+        let emit: (event: any) => void = () => { };
+        (createNotificationStream as jest.Mock).mockImplementation(async (onMessage) => {
+            emit = onMessage;
+            return jest.fn();
+        });
+
+        const { result } = renderHook(() => useNotifications(), { wrapper });
+        await act(async () => { });
+
+        act(() => {
+            emit({ type: 'delta', data: { message_group_id: 'group-1', delta: 'Hel' } });
+            emit({ type: 'delta', data: { message_group_id: 'group-1', delta: 'lo' } });
+        });
+        expect(result.current.streamingReplies).toEqual({ 'group-1': 'Hello' });
+
+        act(() => {
+            emit({ type: 'done', data: { id: 7, message_group_id: 'group-1' } });
+        });
+        expect(result.current.streamingReplies).toEqual({});
+        expect(result.current.lastMessage).toEqual(expect.objectContaining({
+            id: 7,
+            message_group_id: 'group-1',
+            content: 'Hello',
+        }));
+    });
+
+    it('backs off between reconnects and reports the connection state', async () => {
+        let onError: (error: any) => void = () => { };
+        let onOpen: () => void = () => { };
+        (createNotificationStream as jest.Mock).mockImplementation(async (_onMessage, errorHandler, openHandler) => {
+            onError = errorHandler;
+            onOpen = openHandler;
+            return jest.fn();
+        });
+        // No jitter: waits are exactly half the nominal delay
+        jest.spyOn(Math, 'random').mockReturnValue(0);
+
+        const { result } = renderHook(() => useNotifications(), { wrapper });
+        await act(async () => { });
+        expect(createNotificationStream).toHaveBeenCalledTimes(1);
+
+        // Duplicate error reports for one failure schedule a single reconnect
+        act(() => {
+            onError({ message: 'Network request failed' });
+            onError({ message: 'Network request failed' });
+        });
+        expect(result.current.connectionState).toBe('reconnecting');
+
+        await act(async () => { jest.advanceTimersByTime(499); });
+        expect(createNotificationStream).toHaveBeenCalledTimes(1);
+        await act(async () => { jest.advanceTimersByTime(1); });
+        expect(createNotificationStream).toHaveBeenCalledTimes(2);
+
+        // Second failure waits twice as long
+        act(() => { onError({ message: 'Network request failed' }); });
+        await act(async () => { jest.advanceTimersByTime(999); });
+        expect(createNotificationStream).toHaveBeenCalledTimes(2);
+        await act(async () => { jest.advanceTimersByTime(1); });
+        expect(createNotificationStream).toHaveBeenCalledTimes(3);
+
+        act(() => { onError({ message: 'Network request failed' }); });
+        expect(result.current.connectionState).toBe('offline');
+
+        await act(async () => { jest.advanceTimersByTime(2000); });
+        act(() => { onOpen(); });
+        expect(result.current.connectionState).toBe('connected');
+
+        (Math.random as jest.Mock).mockRestore();
+    });
 });
@@ -48,9 +48,13 @@ describe('UserProfileContext', () => {
         // Setup: API returns user with NO username
         (api.get as jest.Mock).mockResolvedValue({
             data: {
+                id: 1,
                 username: null,
                 display_name: 'Test Name',
-                custom_avatar_url: 'avatar-1'
+                email: 'test@example.com',
+                custom_avatar_url: 'avatar-1',
+                socius_role: null,
+                language: 'en'
             }
         });
 
@@ -72,9 +76,13 @@ describe('UserProfileContext', () => {
         // Setup: API returns valid username
         (api.get as jest.Mock).mockResolvedValue({
             data: {
+                id: 1,
                 username: 'valid_user',
                 display_name: 'Test Name',
-                custom_avatar_url: 'avatar-1'
+                email: 'test@example.com',
+                custom_avatar_url: 'avatar-1',
+                socius_role: null,
+                language: 'en'
             }
         });
 
@@ -97,7 +97,7 @@ describe('useBible hook', () => {
         const setStringAsync = require('expo-clipboard').setStringAsync;
         // Mock api.get for christian friend
         (require('@/services/api').get as jest.Mock).mockResolvedValue({
-            data: [{ id: '123', name: 'Jesus', avatar: 'jesus.png', role: 'christian' }]
+            data: [{ id: 123, name: 'Jesus', avatar: 'jesus.png', role: 'christian' }]
         });
 
         const { result } = renderHook(() => useBible());
@@ -10,23 +10,16 @@ jest.mock('@/services/api', () => ({
     delete: jest.fn(),
 }));
 
-jest.mock('@react-native-async-storage/async-storage', () => ({
-    getItem: jest.fn(),
-    setItem: jest.fn(),
-}));
-
 describe('useCalories hook', () => {
-    beforeEach(() => {
+    beforeEach(async () => {
         jest.clearAllMocks();
+        await AsyncStorage.clear();
     });
 
     it('initializes and loads data from local storage and remote', async () => {
         const mockEntries = [{ id: '1', food: 'Apple', calories: 95, date: '2026-01-01', timestamp: 12345, synced: true }];
 
-        (AsyncStorage.getItem as jest.Mock).mockImplementation((key) => {
-            if (key === 'calories_entries') return Promise.resolve(JSON.stringify(mockEntries));
-            return Promise.resolve(null);
-        });
+        await AsyncStorage.setItem('calories_entries', JSON.stringify(mockEntries));
 
         (api.get as jest.Mock).mockImplementation((url) => {
             if (url === '/calories') return Promise.resolve({ data: [{ client_id: '1', food: 'Apple', calories: 95, date: '2026-01-01', timestamp: 12345 }] });
@@ -44,7 +37,6 @@ describe('useCalories hook', () => {
     });
 
     it('adds a calorie entry and syncs to backend', async () => {
-        (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
         (api.get as jest.Mock).mockResolvedValue({ data: [] });
 
         const { result } = renderHook(() => useCalories());
@@ -66,13 +58,57 @@ describe('useCalories hook', () => {
         }));
     });
 
+    it('sends macros with the entry and clears them on edit', async () => {
+        (api.get as jest.Mock).mockResolvedValue({ data: [] });
+        (api.post as jest.Mock).mockResolvedValue({ success: true });
+
+        const { result } = renderHook(() => useCalories());
+
+        await waitFor(() => expect(result.current.loading).toBe(false));
+
+        await act(async () => {
+            await result.current.addEntry('Omelette', 320, '2026-01-01', { protein: 21, fat: 24 });
+        });
+        expect(result.current.entries[0].macros).toEqual({ protein: 21, fat: 24 });
+        expect(api.post).toHaveBeenCalledWith('/calories', expect.objectContaining({
+            food: 'Omelette',
+            protein: 21,
+            carbs: null,
+            fat: 24
+        }));
+
+        const id = result.current.entries[0].id;
+        await act(async () => {
+            await result.current.updateEntry(id, 'Omelette', 320, '2026-01-01', {});
+        });
+        expect(result.current.entries[0].macros).toBeUndefined();
+    });
+
+    it('stars and unstars a food', async () => {
+        (api.get as jest.Mock).mockResolvedValue({ data: [] });
+        (api.post as jest.Mock).mockResolvedValue({ success: true });
+        (api.delete as jest.Mock).mockResolvedValue({ success: true });
+
+        const { result } = renderHook(() => useCalories());
+        await waitFor(() => expect(result.current.loading).toBe(false));
+
+        await act(async () => {
+            await result.current.toggleFavorite(' Oatmeal ', 150, { protein: 5 });
+        });
+        expect(result.current.favorites).toEqual([expect.objectContaining({ food: 'Oatmeal', calories: 150, macros: { protein: 5 } })]);
+        expect(result.current.isFavorite('oatmeal')).toBe(true);
+        expect(api.post).toHaveBeenCalledWith('/food-favorites', expect.objectContaining({ food: 'Oatmeal', protein: 5 }));
+
+        await act(async () => {
+            await result.current.toggleFavorite('OATMEAL', 150);
+        });
+        expect(result.current.favorites).toEqual([]);
+    });
+
     it('deletes a calorie entry', async () => {
         const mockEntries = [{ id: 'delete-me', food: 'Pizza', calories: 500, date: '2026-01-01', timestamp: 12345, synced: true }];
 
-        (AsyncStorage.getItem as jest.Mock).mockImplementation((key) => {
-            if (key === 'calories_entries') return Promise.resolve(JSON.stringify(mockEntries));
-            return Promise.resolve(null);
-        });
+        await AsyncStorage.setItem('calories_entries', JSON.stringify(mockEntries));
         (api.get as jest.Mock).mockResolvedValue({ data: [] });
 
         const { result } = renderHook(() => useCalories());
@@ -84,4 +120,34 @@ describe('useCalories hook', () => {
         expect(result.current.entries).toEqual([]);
         expect(api.delete).toHaveBeenCalledWith('/calories/delete-me');
     });
+
+    it('does not bring back an entry deleted while offline', async () => {
+        jest.useFakeTimers();
+        const mockEntries = [{ id: 'offline-delete', food: 'Ramen', calories: 450, date: '2026-01-01', timestamp: 12345, synced: true }];
+
+        await AsyncStorage.setItem('calories_entries', JSON.stringify(mockEntries));
+        (api.get as jest.Mock).mockResolvedValue({ data: [{ client_id: 'offline-delete', food: 'Ramen', calories: 450, date: '2026-01-01', timestamp: 12345 }] });
+        (api.delete as jest.Mock).mockRejectedValue(new Error('Network Error'));
+
+        const first = renderHook(() => useCalories());
+        await waitFor(() => expect(first.result.current.entries).toHaveLength(1));
+
+        await act(async () => {
+            await first.result.current.deleteEntry('offline-delete');
+        });
+        expect(first.result.current.entries).toEqual([]);
+        first.unmount();
+
+        // A fresh mount reloads from storage; the server still returns the row
+        (api.delete as jest.Mock).mockClear();
+        const second = renderHook(() => useCalories());
+        await waitFor(() => expect(second.result.current.loading).toBe(false));
+
+        expect(second.result.current.entries).toEqual([]);
+        expect(api.delete).toHaveBeenCalledWith('/calories/offline-delete');
+        expect(JSON.parse((await AsyncStorage.getItem('calories_entries'))!)).toEqual([
+            expect.objectContaining({ id: 'offline-delete', deleted: true, synced: false })
+        ]);
+        jest.useRealTimers();
+    });
 });
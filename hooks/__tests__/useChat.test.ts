@@ -1,4 +1,4 @@
-import { renderHook, act } from '@testing-library/react-native';
+import { renderHook, act, waitFor } from '@testing-library/react-native';
 import { useChat } from '../useChat';
 import api from '@/services/api';
 import * as ChatCache from '@/services/ChatCache';
@@ -12,6 +12,8 @@ jest.mock('@/context/AuthContext', () => ({
     useAuth: () => ({ user: { name: 'Test User', photo: 'http://google.com/photo.jpg' } }),
 }));
 
+let mockStreamingReplies: Record<string, string> = {};
+
 jest.mock('@/context/NotificationContext', () => ({
     useNotifications: () => ({
         refreshNotifications: jest.fn(),
@@ -20,6 +22,7 @@ jest.mock('@/context/NotificationContext', () => ({
         lastNotificationTime: 0,
         setTyping: jest.fn(),
         typingThreads: new Set(),
+        streamingReplies: mockStreamingReplies,
     }),
 }));
 
@@ -44,6 +47,7 @@ jest.mock('@/services/ChatCache', () => ({
 describe('useChat hook', () => {
     beforeEach(() => {
         jest.clearAllMocks();
+        mockStreamingReplies = {};
     });
 
     it('initializes with default values', () => {
@@ -142,4 +146,43 @@ describe('useChat hook', () => {
             content: 'Hello friend'
         }));
     });
+
+    it('keeps a failed send as a queued bubble instead of dropping it', async () => {
+        const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
+        (api.post as jest.Mock).mockRejectedValueOnce(new Error('Network Error'));
+        const { result } = renderHook(() => useChat({ friendId: 456 }));
+
+        await act(async () => {
+            result.current.onSend([{ _id: 1, text: 'Offline hello', createdAt: new Date(), user: { _id: 1 } } as any]);
+        });
+
+        await waitFor(() => expect(result.current.messages[0]).toEqual(expect.objectContaining({
+            text: 'Offline hello',
+            failed: true,
+            pending: false
+        })));
+
+        (api.post as jest.Mock).mockResolvedValueOnce({ data: {} });
+        await act(async () => {
+            await result.current.retryMessage(String(result.current.messages[0]._id));
+        });
+
+        expect(api.post).toHaveBeenLastCalledWith('/messages', expect.objectContaining({ receiver_id: 456, content: 'Offline hello' }));
+        expect(result.current.messages[0]).toEqual(expect.objectContaining({ pending: false, failed: false, sent: true }));
+        errorSpy.mockRestore();
+    });
+
+    it('shows a streaming Socius reply as one growing bubble', () => {
+        mockStreamingReplies = { default: 'Partial answer' };
+        const { result, rerender } = renderHook(() => useChat({ message_group_id: 'default' }));
+
+        expect(result.current.messages).toEqual([expect.objectContaining({ text: 'Partial answer', user: expect.objectContaining({ _id: 2 }) })]);
+        expect(result.current.isTyping).toBe(false);
+
+        mockStreamingReplies = { default: 'Partial answer, now longer' };
+        rerender({});
+
+        expect(result.current.messages).toHaveLength(1);
+        expect(result.current.messages[0].text).toBe('Partial answer, now longer');
+    });
 });
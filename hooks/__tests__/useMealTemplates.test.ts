@@ -0,0 +1,56 @@
+import { renderHook, act, waitFor } from '@testing-library/react-native';
+import { useMealTemplates } from '../useMealTemplates';
+import { useCalories } from '../useCalories';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import api from '@/services/api';
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+    getItem: jest.fn(),
+    setItem: jest.fn(),
+}));
+
+jest.mock('@/services/api', () => ({
+    get: jest.fn(),
+    post: jest.fn(),
+    delete: jest.fn(),
+}));
+
+describe('useMealTemplates hook', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+        (api.get as jest.Mock).mockResolvedValue({ data: [] });
+        (api.post as jest.Mock).mockResolvedValue({ success: true });
+    });
+
+    it('saves a meal and logs each of its foods under that meal', async () => {
+        const { result } = renderHook(() => ({ templates: useMealTemplates(), calories: useCalories() }));
+        await waitFor(() => expect(result.current.templates.loading).toBe(false));
+
+        await act(async () => {
+            await result.current.templates.saveTemplate(' Usual breakfast ', 'breakfast', [
+                { food: 'Oatmeal', calories: 150, macros: { protein: 5 } },
+                { food: 'Coffee', calories: 5 },
+            ]);
+        });
+
+        const [template] = result.current.templates.templates;
+        expect(template).toMatchObject({ name: 'Usual breakfast', meal: 'breakfast' });
+        expect(api.post).toHaveBeenCalledWith('/meal-templates', expect.objectContaining({
+            name: 'Usual breakfast',
+            items: [
+                expect.objectContaining({ food: 'Oatmeal', calories: 150, protein: 5 }),
+                expect.objectContaining({ food: 'Coffee', calories: 5, protein: null }),
+            ]
+        }));
+
+        await act(async () => {
+            await result.current.templates.logTemplate(template, '2026-03-10');
+        });
+
+        expect(result.current.calories.entries).toEqual(expect.arrayContaining([
+            expect.objectContaining({ food: 'Oatmeal', calories: 150, meal: 'breakfast', macros: { protein: 5 }, date: '2026-03-10' }),
+            expect.objectContaining({ food: 'Coffee', calories: 5, meal: 'breakfast', date: '2026-03-10' }),
+        ]));
+    });
+});
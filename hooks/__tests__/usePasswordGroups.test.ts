@@ -0,0 +1,59 @@
+import { renderHook, act, waitFor } from '@testing-library/react-native';
+import { usePasswordGroups, resolveGroup, BUILT_IN_GROUPS } from '../usePasswordGroups';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import api from '@/services/api';
+import { createVault, isSealed, unlockVault } from '@/services/vault';
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+    getItem: jest.fn(),
+    setItem: jest.fn(),
+    removeItem: jest.fn(),
+}));
+
+jest.mock('@/services/api', () => ({
+    get: jest.fn(),
+    post: jest.fn(),
+    delete: jest.fn(),
+}));
+
+const PASSPHRASE = 'correct horse battery';
+
+describe('usePasswordGroups hook', () => {
+    beforeAll(async () => {
+        await createVault(PASSPHRASE);
+    });
+
+    beforeEach(async () => {
+        jest.clearAllMocks();
+        (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+        (api.get as jest.Mock).mockResolvedValue({ data: [] });
+        (api.post as jest.Mock).mockResolvedValue({ success: true });
+        await unlockVault(PASSPHRASE);
+    });
+
+    it('lists custom groups after the built-in ones and seals their names', async () => {
+        const { result } = renderHook(() => usePasswordGroups());
+        await waitFor(() => expect(result.current.loading).toBe(false));
+
+        await act(async () => {
+            await result.current.saveGroup({ name: 'Gaming', icon: 'game-controller-outline', color: '#EB5757' });
+            await result.current.saveGroup({ name: 'Crypto', icon: 'key-outline', color: '#F2C94C' });
+        });
+
+        expect(result.current.groups.map(g => g.name || g.id)).toEqual([
+            ...BUILT_IN_GROUPS.map(g => g.id),
+            'Crypto',
+            'Gaming',
+        ]);
+
+        await waitFor(() => expect(api.post).toHaveBeenCalledWith('/password-groups', expect.anything()));
+        const row = (api.post as jest.Mock).mock.calls[0][1];
+        expect(isSealed(row.name)).toBe(true);
+        expect(row).toMatchObject({ icon: 'game-controller-outline', color: '#EB5757' });
+    });
+
+    it('shows entries of unknown groups under Other', () => {
+        expect(resolveGroup(BUILT_IN_GROUPS, 'group-deleted').id).toBe('other');
+        expect(resolveGroup(BUILT_IN_GROUPS, 'work').id).toBe('work');
+    });
+});
@@ -1,7 +1,9 @@
 import { renderHook, act, waitFor } from '@testing-library/react-native';
-import { usePasswords } from '../usePasswords';
+import { usePasswords, PasswordAccount, PASSWORD_HISTORY_LIMIT, recordPasswordChange } from '../usePasswords';
+import { auditPasswords } from '@/utils/passwordAudit';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import api from '@/services/api';
+import { createVault, isSealed, lockVault, sealField, unlockVault } from '@/services/vault';
 
 // Mock dependencies
 jest.mock('@react-native-async-storage/async-storage', () => ({
@@ -16,15 +18,30 @@ jest.mock('@/services/api', () => ({
     delete: jest.fn(),
 }));
 
+const PASSPHRASE = 'correct horse battery';
+
+const sealed = (account: PasswordAccount): PasswordAccount => ({
+    ...account,
+    service: sealField(account.service),
+    username: sealField(account.username),
+    password: sealField(account.password, true),
+    group: sealField(account.group),
+});
+
 describe('usePasswords hook', () => {
     const mockAccounts = [
         { id: '1', service: 'Test', username: 'user', password: 'pass', group: 'work', updated_at: Date.now(), synced: true }
     ];
 
-    beforeEach(() => {
+    beforeAll(async () => {
+        await createVault(PASSPHRASE);
+    });
+
+    beforeEach(async () => {
         jest.clearAllMocks();
         (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
         (api.get as jest.Mock).mockResolvedValue({ data: [] });
+        await unlockVault(PASSPHRASE);
     });
 
     it('initializes with empty accounts and loading true', async () => {
@@ -36,9 +53,10 @@ describe('usePasswords hook', () => {
     });
 
     it('loads accounts from AsyncStorage on mount', async () => {
-        (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify(mockAccounts));
+        const stored = mockAccounts.map(sealed);
+        (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify(stored));
         (api.get as jest.Mock).mockResolvedValue({
-            data: mockAccounts.map(a => ({
+            data: stored.map(a => ({
                 client_id: a.id,
                 ...a
             }))
@@ -52,7 +70,7 @@ describe('usePasswords hook', () => {
     });
 
     it('syncs pending accounts on load', async () => {
-        const unsyncedAccounts = [{ ...mockAccounts[0], synced: false }];
+        const unsyncedAccounts = [sealed({ ...mockAccounts[0], synced: false })];
         (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify(unsyncedAccounts));
         (api.post as jest.Mock).mockResolvedValue({ success: true });
 
@@ -62,10 +80,68 @@ describe('usePasswords hook', () => {
 
         expect(api.post).toHaveBeenCalledWith('/passwords', expect.objectContaining({
             client_id: '1',
-            service: 'Test'
+            service: unsyncedAccounts[0].service
         }));
     });
 
+    it('encrypts accounts saved before the vault existed and uploads only ciphertext', async () => {
+        (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify(mockAccounts));
+        (api.get as jest.Mock).mockResolvedValue({ data: mockAccounts.map(a => ({ client_id: a.id, ...a })) });
+        (api.post as jest.Mock).mockResolvedValue({ success: true });
+
+        const { result } = renderHook(() => usePasswords());
+
+        await waitFor(() => expect(api.post).toHaveBeenCalled(), { timeout: 2000 });
+
+        const row = (api.post as jest.Mock).mock.calls[0][1];
+        expect(row.client_id).toBe('1');
+        [row.service, row.username, row.password, row.group].forEach(value => expect(isSealed(value)).toBe(true));
+        expect(JSON.stringify(row)).not.toContain('pass"');
+        expect(result.current.accounts).toEqual([expect.objectContaining({ service: 'Test', password: 'pass' })]);
+    });
+
+    it('keeps the age of a legacy password through sealing and other edits', async () => {
+        const longAgo = Date.now() - 400 * 24 * 60 * 60 * 1000;
+        const legacy = [{ ...mockAccounts[0], updated_at: longAgo }];
+        (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify(legacy));
+        (api.get as jest.Mock).mockResolvedValue({ data: legacy.map(a => ({ client_id: a.id, ...a })) });
+        (api.post as jest.Mock).mockResolvedValue({ success: true });
+
+        const { result } = renderHook(() => usePasswords());
+        await waitFor(() => expect(api.post).toHaveBeenCalled(), { timeout: 2000 });
+
+        const row = (api.post as jest.Mock).mock.calls[0][1];
+        expect(row).toMatchObject({ updated_at: longAgo, password_changed_at: longAgo });
+        expect(auditPasswords(result.current.accounts).entries[0].issues).toContain('stale');
+
+        // Renaming the service is not a password change
+        await act(async () => {
+            await result.current.saveAccount({ service: 'Renamed', username: 'user', password: 'pass', group: 'work' }, '1');
+        });
+        expect(result.current.accounts[0]).toMatchObject({ service: 'Renamed', passwordChangedAt: longAgo });
+        expect(auditPasswords(result.current.accounts).entries[0].issues).toContain('stale');
+    });
+
+    it('hides accounts while the vault is locked', async () => {
+        const stored = mockAccounts.map(sealed);
+        (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify(stored));
+        (api.get as jest.Mock).mockResolvedValue({ data: stored.map(a => ({ client_id: a.id, ...a })) });
+
+        const { result } = renderHook(() => usePasswords());
+        await waitFor(() => expect(result.current.accounts.length).toBe(1));
+
+        act(() => result.current.lock());
+
+        expect(result.current.vaultState).toBe('locked');
+        expect(result.current.accounts).toEqual([]);
+        await expect(result.current.unlock('wrong passphrase')).rejects.toMatchObject({ code: 'wrong_passphrase' });
+
+        await act(async () => {
+            await result.current.unlock(PASSPHRASE);
+        });
+        expect(result.current.accounts[0].password).toBe('pass');
+    });
+
     it('saves a new account locally and syncs to API', async () => {
         (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify([]));
 
@@ -86,12 +162,92 @@ describe('usePasswords hook', () => {
         await waitFor(() => expect(result.current.accounts.length).toBe(1));
         expect(result.current.accounts[0].service).toBe('Google');
         expect(api.post).toHaveBeenCalledWith('/passwords', expect.objectContaining({
-            service: 'Google'
+            service: expect.stringMatching(/^enc:v1:/)
         }));
+        expect(JSON.stringify((api.post as jest.Mock).mock.calls)).not.toContain('secretpassword');
+    });
+
+    it('syncs the two-factor secret sealed like the password', async () => {
+        (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify([]));
+
+        const { result } = renderHook(() => usePasswords());
+        await waitFor(() => expect(result.current.loading).toBe(false));
+
+        const totp = 'otpauth://totp/GitHub:user?secret=JBSWY3DPEHPK3PXPJBSWY3DP&algorithm=SHA1&digits=6&period=30';
+        await act(async () => {
+            await result.current.saveAccount({ service: 'GitHub', username: 'user', password: 'pw', group: 'work', totp });
+        });
+
+        await waitFor(() => expect(api.post).toHaveBeenCalled());
+        const row = (api.post as jest.Mock).mock.calls[0][1];
+        expect(isSealed(row.totp)).toBe(true);
+        expect(JSON.stringify(row)).not.toContain('JBSWY3DP');
+        expect(result.current.accounts[0].totp).toBe(totp);
+    });
+
+    it('seals the website, notes, tags and custom fields', async () => {
+        const { result } = renderHook(() => usePasswords());
+        await waitFor(() => expect(result.current.loading).toBe(false));
+
+        const details = {
+            url: 'https://bank.example.com',
+            notes: 'Branch 042',
+            tags: ['banking', 'shared'],
+            customFields: [{ key: 'Security answer', value: 'Rover' }],
+        };
+        await act(async () => {
+            await result.current.saveAccount({ service: 'Bank', username: 'user', password: 'pw', group: 'finance', ...details });
+        });
+
+        await waitFor(() => expect(api.post).toHaveBeenCalled());
+        const row = (api.post as jest.Mock).mock.calls[0][1];
+        expect([row.url, row.notes, ...row.tags, row.custom_fields[0].key, row.custom_fields[0].value].every(isSealed)).toBe(true);
+        expect(JSON.stringify(row)).not.toMatch(/bank\.example|Branch|banking|Rover/);
+        expect(result.current.accounts[0]).toMatchObject(details);
+    });
+
+    it('keeps the replaced password in the history, sealed', async () => {
+        const stored = mockAccounts.map(sealed);
+        (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify(stored));
+        (api.get as jest.Mock).mockResolvedValue({ data: stored.map(a => ({ client_id: a.id, ...a })) });
+        (api.post as jest.Mock).mockResolvedValue({ success: true });
+        const { result } = renderHook(() => usePasswords());
+        await waitFor(() => expect(result.current.loading).toBe(false));
+
+        const form = { service: 'Test', username: 'user', group: 'work' };
+        await act(async () => {
+            await result.current.saveAccount({ ...form, password: 'second' }, '1');
+        });
+        await act(async () => {
+            await result.current.saveAccount({ ...form, password: 'third' }, '1');
+        });
+
+        expect(result.current.accounts[0].password).toBe('third');
+        expect(result.current.accounts[0].history?.map(entry => entry.password)).toEqual(['second', 'pass']);
+
+        // Restoring an old password takes it out of the history
+        await act(async () => {
+            await result.current.saveAccount({ ...form, password: 'pass' }, '1');
+        });
+        expect(result.current.accounts[0].history?.map(entry => entry.password)).toEqual(['third', 'second']);
+
+        await waitFor(() => expect(api.post).toHaveBeenCalled());
+        const calls = (api.post as jest.Mock).mock.calls;
+        const row = calls[calls.length - 1][1];
+        expect(row.password_history.every((entry: { password: string }) => isSealed(entry.password))).toBe(true);
+    });
+
+    it('caps the password history', () => {
+        const history = Array.from({ length: PASSWORD_HISTORY_LIMIT }, (_, i) => ({ password: `old${i}`, changedAt: i }));
+        const next = recordPasswordChange(history, 'current', 'new', 100);
+
+        expect(next).toHaveLength(PASSWORD_HISTORY_LIMIT);
+        expect(next[0]).toEqual({ password: 'current', changedAt: 100 });
+        expect(recordPasswordChange(history, 'same', 'same')).toEqual(history);
     });
 
     it('deletes an account locally and from API', async () => {
-        (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify(mockAccounts));
+        (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify(mockAccounts.map(sealed)));
 
         const { result } = renderHook(() => usePasswords());
         await waitFor(() => expect(result.current.loading).toBe(false));
@@ -0,0 +1,32 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+    AppLockState,
+    LockableApp,
+    getAppLockState,
+    isAppLocked,
+    loadAppLock,
+    subscribeAppLock
+} from '../services/appLock';
+
+/**
+ * Shared app lock state. With an `app`, `locked` says whether that app's content
+ * must stay behind the lock gate; it is true until the settings have loaded.
+ */
+export function useAppLock(app?: LockableApp) {
+    const [lockState, setLockState] = useState<AppLockState>(getAppLockState);
+
+    useEffect(() => {
+        const unsubscribe = subscribeAppLock(setLockState);
+        setLockState(getAppLockState());
+        loadAppLock();
+        return unsubscribe;
+    }, []);
+
+    const isLocked = useCallback((other: LockableApp) => isAppLocked(other, lockState), [lockState]);
+
+    return {
+        ...lockState,
+        locked: app ? isLocked(app) : false,
+        isLocked,
+    };
+}
@@ -3,8 +3,13 @@ import { Alert, Keyboard } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Clipboard from 'expo-clipboard';
 import { useLanguage } from '@/context/LanguageContext';
-import api from '@/services/api';
+import { fromBookmarkRow, getSociusCompanions, toBookmarkRow } from '@/services/apiClient';
+import { bibleBookmarkRowSchema } from '@/services/schemas';
+import { SociusCompanion } from '@/types/api';
 import { useRouter } from 'expo-router';
+import { createSyncEngine } from '@/services/SyncEngine';
+import { STORAGE_KEYS, STORAGE_PREFIXES } from '@/services/storageRegistry';
+import { useSyncedCollection } from './useSyncedCollection';
 
 // Import Bible Data
 import MODERN from '@/constants/bible/modern_korean.json';
@@ -36,9 +41,22 @@ export type Bookmark = {
     chapterIndex: number; // 0-based
     createdAt: string;
     label?: string;
+    updated_at?: number; // Last change, for conflict resolution
     synced?: boolean;
 };
 
+const bookmarkSync = createSyncEngine<Bookmark>({
+    name: 'bookmarks',
+    storageKey: STORAGE_KEYS.bibleBookmarks,
+    endpoint: '/bible/bookmarks',
+    updateMethod: 'post',
+    sort: (items) => [...items].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()),
+    toRemote: toBookmarkRow,
+    fromRemote: fromBookmarkRow,
+    schema: bibleBookmarkRowSchema,
+    describe: (bm) => `${bm.label || `${bm.bookIndex + 1}:${bm.chapterIndex + 1}`} · ${bm.version}`
+});
+
 export type Suggestion = {
     type: 'book' | 'chapter';
     bookIndex: number;
@@ -62,7 +80,7 @@ export function useBible() {
     const [selectedVerse, setSelectedVerse] = useState<number | null>(null);
 
     // Bookmarks & Highlights
-    const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
+    const { items: bookmarks } = useSyncedCollection(bookmarkSync);
     const [highlights, setHighlights] = useState<any[]>([]);
 
     // UI Visibility State
@@ -74,7 +92,7 @@ export function useBible() {
     const [isBookmarksVisible, setIsBookmarksVisible] = useState(false);
 
     // Context
-    const [christianFriend, setChristianFriend] = useState<any>(null);
+    const [christianFriend, setChristianFriend] = useState<SociusCompanion | undefined>(undefined);
 
     const currentBible = useMemo(() =>
         BIBLE_VERSIONS.find(v => v.id === selectedVersion)?.data || BIBLE_VERSIONS[0].data,
@@ -90,7 +108,6 @@ export function useBible() {
 
     useEffect(() => {
         loadProgress();
-        loadBookmarks();
         loadChristianFriend();
     }, []);
 
@@ -115,7 +132,13 @@ export function useBible() {
         try {
             setIsLoading(true);
             // Batch read instead of 5 separate calls - reduces iOS thread blocking
-            const keys = ['bible_version', 'bible_book', 'bible_chapter', 'bible_font_size', 'bible_auto_hide'];
+            const keys = [
+                STORAGE_KEYS.bibleVersion,
+                STORAGE_KEYS.bibleBook,
+                STORAGE_KEYS.bibleChapter,
+                STORAGE_KEYS.bibleFontSize,
+                STORAGE_KEYS.bibleAutoHide
+            ];
             const results = await AsyncStorage.multiGet(keys);
 
             const savedVersion = results[0][1];
@@ -140,9 +163,9 @@ export function useBible() {
         try {
             // Batch write instead of 3 separate calls
             await AsyncStorage.multiSet([
-                ['bible_version', selectedVersion],
-                ['bible_book', selectedBookIndex.toString()],
-                ['bible_chapter', selectedChapterIndex.toString()]
+                [STORAGE_KEYS.bibleVersion, selectedVersion],
+                [STORAGE_KEYS.bibleBook, selectedBookIndex.toString()],
+                [STORAGE_KEYS.bibleChapter, selectedChapterIndex.toString()]
             ]);
         } catch (error) {
             console.error('Failed to save bible progress', error);
@@ -151,7 +174,7 @@ export function useBible() {
 
     const saveFontSize = async (size: number) => {
         try {
-            await AsyncStorage.setItem('bible_font_size', size.toString());
+            await AsyncStorage.setItem(STORAGE_KEYS.bibleFontSize, size.toString());
         } catch (error) {
             console.error('Failed to save font size', error);
         }
@@ -160,7 +183,7 @@ export function useBible() {
     const setAutoHideHeaderAndSave = async (value: boolean) => {
         setAutoHideHeader(value);
         try {
-            await AsyncStorage.setItem('bible_auto_hide', value.toString());
+            await AsyncStorage.setItem(STORAGE_KEYS.bibleAutoHide, value.toString());
         } catch (error) {
             console.error('Failed to save auto hide setting', error);
         }
@@ -176,7 +199,7 @@ export function useBible() {
 
     const loadHighlights = async () => {
         try {
-            const key = `highlights_${selectedVersion}_${selectedBookIndex}_${selectedChapterIndex}`;
+            const key = `${STORAGE_PREFIXES.bibleHighlights}${selectedVersion}_${selectedBookIndex}_${selectedChapterIndex}`;
             const saved = await AsyncStorage.getItem(key);
             setHighlights(saved ? JSON.parse(saved) : []);
         } catch (error) {
@@ -192,7 +215,7 @@ export function useBible() {
 
         setHighlights(newHighlights);
         try {
-            const key = `highlights_${selectedVersion}_${selectedBookIndex}_${selectedChapterIndex}`;
+            const key = `${STORAGE_PREFIXES.bibleHighlights}${selectedVersion}_${selectedBookIndex}_${selectedChapterIndex}`;
             await AsyncStorage.setItem(key, JSON.stringify(newHighlights));
         } catch (error) {
             console.error('Failed to save highlights', error);
@@ -203,122 +226,32 @@ export function useBible() {
 
     // --- Bookmarks (Synced) ---
 
-    // Sync Logic
-    const syncBookmarks = useCallback(async (localBookmarks: Bookmark[]) => {
-        // 1. Sync Pending
-        const pending = localBookmarks.filter(b => !b.synced);
-        let updated = [...localBookmarks];
-
-        if (pending.length > 0) {
-            for (const bm of pending) {
-                try {
-                    await api.post('/bible/bookmarks', {
-                        client_id: bm.id,
-                        version: bm.version,
-                        book_index: bm.bookIndex,
-                        chapter_index: bm.chapterIndex,
-                        label: bm.label,
-                        created_at: bm.createdAt
-                    });
-                    updated = updated.map(u => u.id === bm.id ? { ...u, synced: true } : u);
-                } catch (error) {
-                    console.error('Failed to sync bookmark', error);
-                }
-            }
-            setBookmarks(updated);
-            await AsyncStorage.setItem('bible_bookmarks', JSON.stringify(updated));
-        }
-
-        // 2. Fetch Remote
-        try {
-            const res = await api.get('/bible/bookmarks');
-            if (Array.isArray(res.data)) {
-                const remoteIds = new Set(res.data.map((r: any) => r.client_id));
-                const remoteBookmarks = res.data.map((r: any) => ({
-                    id: r.client_id,
-                    version: r.version,
-                    bookIndex: r.book_index,
-                    chapterIndex: r.chapter_index,
-                    label: r.label,
-                    createdAt: r.created_at_str || r.created_at,
-                    synced: true
-                }));
-
-                const currentUnsynced = updated.filter(u => !u.synced && !remoteIds.has(u.id));
-                const finalBookmarks = [...remoteBookmarks, ...currentUnsynced];
-                finalBookmarks.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-
-                setBookmarks(finalBookmarks);
-                await AsyncStorage.setItem('bible_bookmarks', JSON.stringify(finalBookmarks));
-            }
-        } catch (error) {
-            // console.error('Failed to fetch remote bookmarks', error); // Silently fail offline
-        }
-    }, []);
-
-    const loadBookmarks = async () => {
-        try {
-            const saved = await AsyncStorage.getItem('bible_bookmarks');
-            let localBookmarks: Bookmark[] = [];
-            if (saved) {
-                localBookmarks = JSON.parse(saved);
-                setBookmarks(localBookmarks);
-            }
-            syncBookmarks(localBookmarks);
-        } catch (error) {
-            console.error('Failed to load bookmarks', error);
-        }
-    };
-
     const togglePageBookmark = async () => {
-        const existingIndex = bookmarks.findIndex(b =>
+        const existing = bookmarks.find(b =>
             b.bookIndex === selectedBookIndex &&
             b.chapterIndex === selectedChapterIndex &&
             b.version === selectedVersion
         );
 
-        let newBookmarks;
-        if (existingIndex >= 0) {
-            const toRemove = bookmarks[existingIndex];
-            newBookmarks = bookmarks.filter((_, i) => i !== existingIndex);
-            setBookmarks(newBookmarks);
-            await AsyncStorage.setItem('bible_bookmarks', JSON.stringify(newBookmarks));
-            try { await api.delete(`/bible/bookmarks/${toRemove.id}`); } catch (e) { }
+        if (existing) {
+            await bookmarkSync.remove(existing.id);
         } else {
-            const newBookmark: Bookmark = {
-                id: Date.now().toString(),
+            const now = Date.now();
+            await bookmarkSync.add({
+                id: now.toString(),
                 version: selectedVersion,
                 bookIndex: selectedBookIndex,
                 chapterIndex: selectedChapterIndex,
                 createdAt: new Date().toISOString(),
                 label: `${currentBook?.name} ${selectedChapterIndex + 1}`,
+                updated_at: now,
                 synced: false
-            };
-            newBookmarks = [newBookmark, ...bookmarks];
-            setBookmarks(newBookmarks);
-            await AsyncStorage.setItem('bible_bookmarks', JSON.stringify(newBookmarks));
-
-            try {
-                await api.post('/bible/bookmarks', {
-                    client_id: newBookmark.id,
-                    version: newBookmark.version,
-                    book_index: newBookmark.bookIndex,
-                    chapter_index: newBookmark.chapterIndex,
-                    label: newBookmark.label,
-                    created_at: newBookmark.createdAt
-                });
-                const final = newBookmarks.map(b => b.id === newBookmark.id ? { ...b, synced: true } : b);
-                setBookmarks(final);
-                await AsyncStorage.setItem('bible_bookmarks', JSON.stringify(final));
-            } catch (e) { }
+            });
         }
     };
 
     const deleteBookmark = async (id: string) => {
-        const newBookmarks = bookmarks.filter(b => b.id !== id);
-        setBookmarks(newBookmarks);
-        await AsyncStorage.setItem('bible_bookmarks', JSON.stringify(newBookmarks));
-        try { await api.delete(`/bible/bookmarks/${id}`); } catch (e) { }
+        await bookmarkSync.remove(id);
     };
 
     const goToBookmark = (bookmark: Bookmark) => {
@@ -514,9 +447,8 @@ export function useBible() {
 
     const loadChristianFriend = async () => {
         try {
-            const response = await api.get(`/friends/socius?_t=${Date.now()}`);
-            const companions = response.data || [];
-            setChristianFriend(companions.find((c: any) => c.role === 'christian'));
+            const companions = await getSociusCompanions({ fresh: true });
+            setChristianFriend(companions.find(c => c.role === 'christian'));
         } catch (e) { }
     };
 
@@ -1,6 +1,12 @@
-import { useState, useCallback, useEffect } from 'react';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import api from '../services/api';
+import { useCallback, useMemo } from 'react';
+import { createSyncEngine } from '../services/SyncEngine';
+import { fromCalorieRow, fromFavoriteFoodRow, toCalorieRow, toFavoriteFoodRow } from '../services/apiClient';
+import { calorieRowSchema, favoriteFoodRowSchema } from '../services/schemas';
+import { STORAGE_KEYS } from '../services/storageRegistry';
+import { Macros, parseMacros } from '../utils/macros';
+import { MealType, mealForTime } from '../utils/meals';
+import { foodKey, rankRecentFoods } from '../utils/recentFoods';
+import { useSyncedCollection } from './useSyncedCollection';
 
 export type CalorieEntry = {
     id: string; // client_id
@@ -8,10 +14,23 @@ export type CalorieEntry = {
     calories: number;
     date: string; // YYYY-MM-DD
     timestamp: number;
+    macros?: Macros; // Grams, only for the values that were logged
+    meal?: MealType; // Unset on entries logged before meals existed
+    updated_at?: number; // Last edit, for conflict resolution
     synced?: boolean; // New flag for offline sync
 };
 
-const STORAGE_KEY = 'calories_entries';
+// A starred food, offered first when logging
+export type FavoriteFood = {
+    id: string; // client_id
+    food: string;
+    calories: number;
+    macros?: Macros;
+    updated_at: number;
+    synced?: boolean;
+};
+
+const STORAGE_KEY = STORAGE_KEYS.calories;
 
 // Helper: sort entries by date desc, then timestamp desc
 const sortEntries = (entries: CalorieEntry[]): CalorieEntry[] =>
@@ -20,121 +39,36 @@ const sortEntries = (entries: CalorieEntry[]): CalorieEntry[] =>
         return b.timestamp - a.timestamp;
     });
 
-export function useCalories() {
-    const [entries, setEntries] = useState<CalorieEntry[]>([]);
-    const [loading, setLoading] = useState(true);
-
-    // Helper to save to storage
-    const saveToStorage = async (data: CalorieEntry[]) => {
-        try {
-            await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(data));
-        } catch (e) {
-            console.error('Failed to save to storage', e);
-        }
-    };
-
-    const syncPending = useCallback(async (currentEntries: CalorieEntry[]) => {
-        const pending = currentEntries.filter(e => !e.synced);
-        if (pending.length === 0) return currentEntries;
-
-        let updatedEntries = [...currentEntries];
-        let changed = false;
-
-        for (const entry of pending) {
-            try {
-                // Check if it already exists on server (idempotency handled by backend check on client_id)
-                await api.post('/calories', {
-                    client_id: entry.id,
-                    food: entry.food,
-                    calories: entry.calories,
-                    date: entry.date,
-                    timestamp: entry.timestamp
-                });
-
-                // Mark as synced
-                updatedEntries = updatedEntries.map(e =>
-                    e.id === entry.id ? { ...e, synced: true } : e
-                );
-                changed = true;
-            } catch (error) {
+const calorieSync = createSyncEngine<CalorieEntry>({
+    name: 'calories',
+    storageKey: STORAGE_KEY,
+    endpoint: '/calories',
+    sort: sortEntries,
+    toRemote: toCalorieRow,
+    fromRemote: fromCalorieRow,
+    schema: calorieRowSchema,
+    describe: (entry) => `${entry.food} · ${entry.calories} kcal · ${entry.date}`
+});
+
+const favoriteSync = createSyncEngine<FavoriteFood>({
+    name: 'favorite foods',
+    storageKey: STORAGE_KEYS.favoriteFoods,
+    endpoint: '/food-favorites',
+    updateMethod: 'post',
+    toRemote: toFavoriteFoodRow,
+    fromRemote: fromFavoriteFoodRow,
+    schema: favoriteFoodRowSchema,
+    describe: (fav) => `${fav.food} · ${fav.calories} kcal`
+});
 
-                // Keep synced=false/undefined
-            }
-        }
-
-        if (changed) {
-            const sorted = sortEntries(updatedEntries);
-            await saveToStorage(sorted);
-            setEntries(sorted);
-        }
-        return updatedEntries;
-    }, []);
-
-    const fetchRemote = useCallback(async (currentLocal: CalorieEntry[]) => {
-        try {
-            const res = await api.get('/calories');
-            if (Array.isArray(res.data)) {
-                const remoteMap = new Map();
-                res.data.forEach((item: any) => {
-                    remoteMap.set(item.client_id, {
-                        id: item.client_id,
-                        food: item.food,
-                        calories: item.calories,
-                        date: item.date,
-                        timestamp: item.timestamp,
-                        synced: true
-                    });
-                });
-
-                // Merge strategy:
-                // 1. Keep local unsynced items (they are newer or not uploaded yet)
-                // 2. Use remote items for everything else (source of truth)
-
-                const unsyncedLocal = currentLocal.filter(e => !e.synced);
-
-                // Convert map values to array
-                const remoteEntries = Array.from(remoteMap.values());
-
-                // Sort by date/timestamp desc
-                const finalEntries = sortEntries([...remoteEntries, ...unsyncedLocal.filter(e => !remoteMap.has(e.id))]);
-
-
-                setEntries(finalEntries);
-                await saveToStorage(finalEntries);
-            }
-        } catch (error) {
-            console.error('Failed to fetch remote calories', error);
-        }
-    }, []);
-
-    const loadEntries = useCallback(async () => {
-        try {
-            const saved = await AsyncStorage.getItem(STORAGE_KEY);
-            let localData: CalorieEntry[] = [];
-            if (saved) {
-                localData = JSON.parse(saved);
-                setEntries(localData);
-            }
-
-            // 1. Try to sync pending items first
-            const syncedData = await syncPending(localData);
-
-            // 2. Then fetch latest from server
-            await fetchRemote(syncedData);
-
-        } catch (error) {
-            console.error('Failed to load calories', error);
-        } finally {
-            setLoading(false);
-        }
-    }, [syncPending, fetchRemote]);
+export function useCalories() {
+    const { items: entries, loading, refresh: refreshEntries } = useSyncedCollection(calorieSync);
+    const { items: favorites, refresh: refreshFavorites } = useSyncedCollection(favoriteSync);
 
-    // Load on mount
-    useEffect(() => {
-        loadEntries();
-    }, [loadEntries]);
+    const recentFoods = useMemo(() => rankRecentFoods(entries), [entries]);
 
-    const addEntry = useCallback(async (food: string | string[], calories: number, date?: string) => {
+    // Without a meal the entry is filed by the time of day it is logged
+    const addEntry = useCallback(async (food: string | string[], calories: number, date?: string, macros?: Macros, meal?: MealType) => {
         // Guard against undefined/null food, and handle arrays
         let safeFoodName: string;
         if (Array.isArray(food)) {
@@ -157,100 +91,71 @@ export function useCalories() {
             calories,
             date: dateStr,
             timestamp: timestamp,
+            macros: parseMacros(macros),
+            meal: meal ?? mealForTime(timestamp),
+            updated_at: timestamp,
             synced: false
         };
 
-        // Optimistic Save Local
-        setEntries(prev => {
-            const updated = sortEntries([newEntry, ...prev]);
-            saveToStorage(updated);
-            return updated;
-        });
-
-        // Background Sync attempt
-        try {
-            await api.post('/calories', {
-                client_id: clientId,
-                food: safeFoodName,
-                calories,
-                date: dateStr,
-                timestamp
-            });
-
-            // If success, mark synced
-            setEntries(prev => {
-                const updated = prev.map(e => e.id === clientId ? { ...e, synced: true } : e);
-                saveToStorage(updated);
-                return updated;
-            });
-        } catch (error) {
-
-            // Remains synced: false
-        }
+        // Saved locally right away, pushed in the background
+        await calorieSync.add(newEntry);
 
         return newEntry;
     }, []);
 
     const deleteEntry = useCallback(async (id: string) => {
-        // Optimistic delete
-        setEntries(prev => {
-            const updated = prev.filter(e => e.id !== id);
-            saveToStorage(updated);
-            return updated;
-        });
-
-        try {
-            await api.delete(`/calories/${id}`);
-        } catch (error) {
-            console.error('Failed to delete calorie entry online', error);
-        }
+        await calorieSync.remove(id);
     }, []);
 
-    const updateEntry = useCallback(async (id: string, food: string, calories: number, date?: string) => {
-        // Find existing to get metadata
-        let existingEntry: CalorieEntry | undefined;
-
-        setEntries(prev => {
-            existingEntry = prev.find(e => e.id === id);
-            if (!existingEntry) return prev;
-
-            const updatedEntry: CalorieEntry = {
-                ...existingEntry,
-                food,
-                calories,
-                date: date || existingEntry.date,
-                synced: false
-            };
-            const updatedList = sortEntries(prev.map(e => e.id === id ? updatedEntry : e));
-            saveToStorage(updatedList);
-            return updatedList;
+    // Passing `macros` replaces the saved ones; an empty object clears them
+    const updateEntry = useCallback(async (id: string, food: string, calories: number, date?: string, macros?: Macros, meal?: MealType) => {
+        await calorieSync.update(id, {
+            food,
+            calories,
+            ...(date ? { date } : {}),
+            ...(macros ? { macros: parseMacros(macros) } : {}),
+            ...(meal ? { meal } : {}),
+            updated_at: Date.now()
         });
+    }, []);
 
-        try {
-            // Call API to update the entry
-            await api.put(`/calories/${id}`, {
-                food,
-                calories,
-                date: date || existingEntry?.date
-            });
-
-            // Mark as synced on success
-            setEntries(prev => {
-                const updated = prev.map(e => e.id === id ? { ...e, synced: true } : e);
-                saveToStorage(updated);
-                return updated;
-            });
-        } catch (error) {
-            console.error('Failed to update calorie entry online', error);
+    const isFavorite = useCallback(
+        (food: string) => favorites.some(fav => foodKey(fav.food) === foodKey(food)),
+        [favorites]
+    );
+
+    // Stars a food with the given values, or unstars it when it already is one
+    const toggleFavorite = useCallback(async (food: string, calories: number, macros?: Macros) => {
+        const existing = favoriteSync.getItems().find(fav => foodKey(fav.food) === foodKey(food));
+        if (existing) {
+            await favoriteSync.remove(existing.id);
+            return;
         }
+        const now = Date.now();
+        await favoriteSync.add({
+            id: `${now}-${Math.floor(Math.random() * 10000)}`,
+            food: food.trim(),
+            calories,
+            macros: parseMacros(macros),
+            updated_at: now,
+            synced: false
+        });
     }, []);
 
+    const refresh = useCallback(async () => {
+        await Promise.all([refreshEntries(), refreshFavorites()]);
+    }, [refreshEntries, refreshFavorites]);
+
     return {
         entries,
         loading,
+        recentFoods,
+        favorites,
+        isFavorite,
         addEntry,
         updateEntry,
         deleteEntry,
-        refresh: loadEntries
+        toggleFavorite,
+        refresh
     };
 }
@@ -5,11 +5,24 @@ import { useAuth } from '@/context/AuthContext';
 import { useNotifications } from '@/context/NotificationContext';
 import { useUserProfile } from '@/context/UserProfileContext';
 import { useLanguage } from '@/context/LanguageContext';
-import api from '@/services/api';
+import { getDirectMessages, getSociusHistory } from '@/services/apiClient';
 import { fixTimestamp } from '@/utils/date';
 import { getCachedMessages, cacheMessages, CachedMessage } from '@/services/ChatCache';
+import {
+    enqueueMessage,
+    retryMessage as retryQueuedMessage,
+    discardMessage,
+    flushOutbox,
+    getOutbox,
+    subscribeOutbox,
+    OutboxItem
+} from '@/services/ChatOutbox';
 import { PROFILE_AVATAR_MAP } from '@/constants/avatars';
 
+// Queued bubbles carry the outbox state: `pending` while waiting, `failed` after a failed attempt
+export type ChatMessage = IMessage & { failed?: boolean };
+
+const TYPING_TIMEOUT = 5 * 60 * 1000;
 
 export function useChat({
     message_group_id = 'default',
@@ -29,9 +42,9 @@ export function useChat({
     const { user } = useAuth();
     const { displayName, displayAvatar, googlePhotoUrl } = useUserProfile();
     const { t } = useLanguage();
-    const { refreshNotifications, lastMessage, lastDM, lastNotificationTime, setTyping, typingThreads } = useNotifications();
+    const { refreshNotifications, lastMessage, lastDM, lastNotificationTime, setTyping, typingThreads, streamingReplies } = useNotifications();
 
-    const [messages, setMessages] = useState<IMessage[]>([]);
+    const [messages, setMessages] = useState<ChatMessage[]>([]);
     const [text, setText] = useState(initialMessage || '');
     const [isTyping, setIsTyping] = useState(false);
     const [isWaitingForResponse, setIsWaitingForResponse] = useState(false);
@@ -82,8 +95,66 @@ export function useChat({
         };
     }, [displayName, user, displayAvatar]);
 
+    const toBubble = useCallback((item: OutboxItem): ChatMessage => ({
+        _id: item.id,
+        text: item.text,
+        createdAt: new Date(item.createdAt),
+        user: currentUser,
+        pending: item.status === 'pending',
+        failed: item.status === 'failed',
+    }), [currentUser]);
+
+    // Add queued messages that aren't on screen yet (outbox is oldest first, bubbles newest first)
+    const mergeQueued = useCallback((prev: ChatMessage[], queued: OutboxItem[]) => {
+        const ids = new Set(prev.map(m => m._id));
+        const missing = queued.filter(q => !ids.has(q.id)).map(toBubble).reverse();
+        return missing.length > 0 ? GiftedChat.append(prev, missing) : prev;
+    }, [toBubble]);
+
+    const waitForReply = useCallback(() => {
+        setIsTyping(true);
+        setTyping(threadId, true);
+
+        if (responseTimeoutRef.current) clearTimeout(responseTimeoutRef.current);
+        responseTimeoutRef.current = setTimeout(() => {
+            setIsTyping(false);
+            setIsWaitingForResponse(false);
+            setTyping(threadId, false);
+            setMessages(prev => GiftedChat.append(prev, [{
+                _id: String(Math.random()),
+                text: t('chat.error_not_sent'),
+                createdAt: new Date(),
+                user: botUser
+            }]));
+        }, TYPING_TIMEOUT);
+    }, [threadId, setTyping, botUser, t]);
+
     // --- Effects ---
 
+    // Outbox Listener: keep queued bubbles in step with delivery
+    useEffect(() => {
+        return subscribeOutbox(async (event) => {
+            if (event.threadId !== threadId) return;
+
+            if (event.type === 'sent') {
+                setMessages(prev => prev.map(m => m._id === event.item.id
+                    ? { ...m, pending: false, failed: false, sent: true }
+                    : m));
+                if (event.item.endpoint === '/ask') waitForReply();
+                return;
+            }
+
+            const queued = await getOutbox(threadId);
+            const byId = new Map(queued.map(q => [q.id, q]));
+            setMessages(prev => prev.map(m => {
+                const item = byId.get(String(m._id));
+                return item
+                    ? { ...m, pending: item.status === 'pending', failed: item.status === 'failed' }
+                    : m;
+            }));
+        });
+    }, [threadId, waitForReply]);
+
     // Sync waiting state with global typing state
     const isGlobalTyping = typingThreads.has(threadId) || typingThreads.has(message_group_id);
     useEffect(() => {
@@ -122,6 +193,28 @@ export function useChat({
         }
     }, [lastMessage, message_group_id, threadId, botUser, setTyping]);
 
+    // Streaming Listener: a Socius reply is arriving in chunks
+    const streamingText = friendId ? undefined : (streamingReplies[threadId] ?? streamingReplies[message_group_id]);
+    const isStreaming = streamingText !== undefined;
+    useEffect(() => {
+        if (isStreaming && responseTimeoutRef.current) {
+            // The reply has started, so the no-response timeout no longer applies
+            clearTimeout(responseTimeoutRef.current);
+            responseTimeoutRef.current = null;
+        }
+    }, [isStreaming]);
+
+    // One bubble grows in place until the final `message`/`done` event replaces it
+    const visibleMessages = useMemo(() => {
+        if (!isStreaming) return messages;
+        return GiftedChat.append(messages, [{
+            _id: `streaming-${threadId}`,
+            text: streamingText,
+            createdAt: new Date(),
+            user: botUser,
+        }]);
+    }, [messages, isStreaming, streamingText, threadId, botUser]);
+
     // DM Listener
     useEffect(() => {
         if (friendId && lastDM && lastDM.senderId === friendId) {
@@ -146,48 +239,48 @@ export function useChat({
             const fetchHistory = async () => {
                 const cacheKey = friendId ? `user-${friendId}` : (companionId ? `socius-${companionId}` : message_group_id);
                 const cached = await getCachedMessages(cacheKey);
+                const queued = await getOutbox(threadId);
 
                 if (cached.length > 0 && isActive) {
                     const restored = cached.map((m) => {
                         if (m._id) processedMessageIds.current.add(Number(m._id)); // Add to processed set as number for future checks if API returns numbers
                         return { ...m, _id: String(m._id), createdAt: new Date(m.createdAt) } as IMessage;
                     });
-                    setMessages(restored);
+                    setMessages(mergeQueued(restored, queued));
+                } else if (queued.length > 0 && isActive) {
+                    setMessages(prev => mergeQueued(prev, queued));
                 }
 
+                // Opening the thread is a good moment to retry anything still queued
+                if (queued.length > 0) flushOutbox(threadId);
+
                 try {
-                    let history: any[] = [];
-                    if (friendId) {
-                        const res = await api.get(`/messages/${friendId}`);
-                        history = res.data || [];
-                    } else {
-                        const res = await api.get('/history', { params: { message_group_id } });
-                        history = res.data || [];
-                    }
+                    const history = friendId
+                        ? await getDirectMessages(friendId)
+                        : await getSociusHistory(message_group_id);
 
                     if (!isActive) return;
 
-                    const formatted: IMessage[] = history.map((msg: any) => {
+                    const formatted: IMessage[] = history.map((msg) => {
                         if (msg.id) processedMessageIds.current.add(msg.id);
-                        const isFromMe = friendId ? msg.is_me : (msg.message_author === 'user' || msg.role === 'user');
                         return {
                             _id: msg.id ? String(msg.id) : String(Math.random()),
-                            text: String(msg.content || ''),
+                            text: msg.content,
                             createdAt: fixTimestamp(msg.created_at),
-                            user: isFromMe ? currentUser : botUser,
+                            user: msg.fromMe ? currentUser : botUser,
                         };
                     });
 
                     if (formatted.length === 0 && !friendId) {
                         // Welcome message only for Socius
-                        setMessages([{ _id: 'welcome', text: t('chat.welcome') || 'Hello!', createdAt: new Date(), user: botUser }]);
+                        setMessages(mergeQueued([{ _id: 'welcome', text: t('chat.welcome') || 'Hello!', createdAt: new Date(), user: botUser }], queued));
                     } else {
                         const reversed = formatted.reverse();
                         // Deduplicate against what might have arrived via SSE while fetching
                         setMessages(prev => {
                             const prevIds = new Set(prev.map(m => m._id));
                             const uniqueNew = reversed.filter(m => !prevIds.has(m._id));
-                            return GiftedChat.append(prev, uniqueNew);
+                            return mergeQueued(GiftedChat.append(prev, uniqueNew), queued);
                         });
                         // ... same logic for typing and caching ...
 
@@ -224,7 +317,7 @@ export function useChat({
 
             fetchHistory();
             return () => { isActive = false; };
-        }, [message_group_id, friendId, lastNotificationTime, currentUser, botUser, companionId, setTyping, refreshNotifications, t])
+        }, [message_group_id, friendId, lastNotificationTime, currentUser, botUser, companionId, threadId, mergeQueued, setTyping, refreshNotifications, t])
     );
     // Load Earlier Messages (Pagination)
     const loadEarlierMessages = useCallback(async () => {
@@ -239,28 +332,22 @@ export function useChat({
                 return;
             }
 
-            let history: any[] = [];
-            if (friendId) {
-                const res = await api.get(`/messages/${friendId}`, { params: { before_id: oldestId } });
-                history = res.data || [];
-            } else {
-                const res = await api.get('/history', { params: { message_group_id, before_id: oldestId } });
-                history = res.data || [];
-            }
+            const history = friendId
+                ? await getDirectMessages(friendId, oldestId)
+                : await getSociusHistory(message_group_id, oldestId);
 
             if (history.length === 0) {
                 setCanLoadMore(false);
                 return;
             }
 
-            const formatted: IMessage[] = history.map((msg: any) => {
+            const formatted: IMessage[] = history.map((msg) => {
                 if (msg.id) processedMessageIds.current.add(msg.id);
-                const isFromMe = friendId ? msg.is_me : (msg.message_author === 'user' || msg.role === 'user');
                 return {
                     _id: String(msg.id), // String ID
-                    text: String(msg.content || ''),
+                    text: msg.content,
                     createdAt: fixTimestamp(msg.created_at),
-                    user: isFromMe ? currentUser : botUser,
+                    user: msg.fromMe ? currentUser : botUser,
                 };
             });
 
@@ -282,67 +369,43 @@ export function useChat({
         }
     }, [isLoadingEarlier, canLoadMore, messages, friendId, message_group_id, currentUser, botUser]);
 
-    // Sending Logic
-    const sendMessage = useCallback(async (msgText: string) => {
-        const TYPING_TIMEOUT = 5 * 60 * 1000;
-
-        if (friendId) {
-            try {
-                await api.post('/messages', { receiver_id: friendId, content: msgText });
-            } catch (e) {
-                console.error('DM Send Error', e);
-                setTyping(threadId, false);
-            }
-        } else {
-            setIsTyping(true);
-            setTyping(threadId, true);
-
-            if (responseTimeoutRef.current) clearTimeout(responseTimeoutRef.current);
-            responseTimeoutRef.current = setTimeout(() => {
-                setIsTyping(false);
-                setIsWaitingForResponse(false);
-                setTyping(threadId, false);
-                setMessages(prev => GiftedChat.append(prev, [{
-                    _id: String(Math.random()),
-                    text: t('chat.error_not_sent'),
-                    createdAt: new Date(),
-                    user: botUser
-                }]));
-            }, TYPING_TIMEOUT);
-
-            try {
-                const response = await api.post('/ask', {
-                    q_text: msgText,
-                    message_group_id
-                });
-            } catch (e) {
-                console.error('Ask Error', e);
-                setIsTyping(false);
-                setTyping(threadId, false);
-                setMessages(prev => GiftedChat.append(prev, [{
-                    _id: String(Math.random()),
-                    text: 'Error sending message.',
-                    createdAt: new Date(),
-                    user: botUser
-                }]));
-            }
-        }
-    }, [friendId, threadId, message_group_id, companionId, botUser, t]);
-
+    // Sending Logic: every send goes through the persisted outbox
     const onSend = useCallback((newMessages: IMessage[] = []) => {
-        setMessages(prev => GiftedChat.append(prev, newMessages));
         const msgText = newMessages[0].text;
+        const createdAt = new Date();
+        const id = `local-${createdAt.getTime()}-${Math.floor(Math.random() * 10000)}`;
+
+        setMessages(prev => GiftedChat.append(prev, [{ ...newMessages[0], _id: id, createdAt, pending: true }]));
         lastUserMessageTime.current = Date.now();
-        sendMessage(msgText);
         setText('');
-    }, [sendMessage]);
+
+        enqueueMessage({
+            id,
+            threadId,
+            endpoint: friendId ? '/messages' : '/ask',
+            payload: friendId
+                ? { receiver_id: friendId, content: msgText }
+                : { q_text: msgText, message_group_id },
+            text: msgText,
+            createdAt: createdAt.toISOString(),
+        });
+    }, [friendId, threadId, message_group_id]);
+
+    const retryMessage = useCallback((id: string) => retryQueuedMessage(id), []);
+
+    const deleteMessage = useCallback(async (id: string) => {
+        await discardMessage(id);
+        setMessages(prev => prev.filter(m => m._id !== id));
+    }, []);
 
     return {
-        messages,
+        messages: visibleMessages,
         text,
         setText,
         onSend,
-        isTyping,
+        retryMessage,
+        deleteMessage,
+        isTyping: isTyping && !isStreaming,
         isWaitingForResponse,
         isLoadingEarlier,
         canLoadMore,
@@ -0,0 +1,29 @@
+import { useMemo } from 'react';
+import { calculateTdee, energyBalance } from '../utils/energy';
+import { useCalories } from './useCalories';
+import { useWorkouts } from './useWorkouts';
+
+export const TREND_DAYS = 7;
+
+/**
+ * Calorie entries together with the physical stats and workouts they are measured
+ * against: today's budget and what is left of it, and the net balance of recent days.
+ */
+export function useEnergyBalance() {
+    const calories = useCalories();
+    const { stats, activities, loading: workoutsLoading } = useWorkouts();
+
+    const trend = useMemo(
+        () => energyBalance(stats, calories.entries, activities, TREND_DAYS),
+        [stats, calories.entries, activities]
+    );
+
+    return {
+        ...calories,
+        loading: calories.loading || workoutsLoading,
+        stats,
+        tdee: calculateTdee(stats),
+        today: trend[trend.length - 1],
+        trend,
+    };
+}
@@ -0,0 +1,80 @@
+import { useCallback, useMemo } from 'react';
+import { createSyncEngine } from '../services/SyncEngine';
+import { fromMealTemplateRow, toMealTemplateRow } from '../services/apiClient';
+import { mealTemplateRowSchema } from '../services/schemas';
+import { STORAGE_KEYS } from '../services/storageRegistry';
+import { Macros, parseMacros } from '../utils/macros';
+import { MealType } from '../utils/meals';
+import { useCalories } from './useCalories';
+import { useSyncedCollection } from './useSyncedCollection';
+
+export type MealItem = {
+    food: string;
+    calories: number;
+    macros?: Macros;
+};
+
+export type MealTemplate = {
+    id: string; // client_id
+    name: string;
+    meal: MealType; // Logged items are filed under this meal
+    items: MealItem[];
+    updated_at: number;
+    synced?: boolean;
+};
+
+export const templateCalories = (template: Pick<MealTemplate, 'items'>): number =>
+    template.items.reduce((sum, item) => sum + item.calories, 0);
+
+const templateSync = createSyncEngine<MealTemplate>({
+    name: 'meal templates',
+    storageKey: STORAGE_KEYS.mealTemplates,
+    endpoint: '/meal-templates',
+    updateMethod: 'post',
+    toRemote: toMealTemplateRow,
+    fromRemote: fromMealTemplateRow,
+    schema: mealTemplateRowSchema,
+    describe: (template) => `${template.name} · ${template.items.length} · ${templateCalories(template)} kcal`
+});
+
+/**
+ * Saved sets of foods that can be logged together in one tap, synced like the
+ * calorie entries they create.
+ */
+export function useMealTemplates() {
+    const { items, loading, refresh } = useSyncedCollection(templateSync);
+    const { addEntry } = useCalories();
+
+    const templates = useMemo(
+        () => [...items].sort((a, b) => a.name.localeCompare(b.name)),
+        [items]
+    );
+
+    const saveTemplate = useCallback(async (name: string, meal: MealType, mealItems: MealItem[], id?: string) => {
+        const now = Date.now();
+        const data = {
+            name: name.trim(),
+            meal,
+            items: mealItems.map(item => ({ food: item.food, calories: item.calories, macros: parseMacros(item.macros) })),
+            updated_at: now
+        };
+
+        if (id) {
+            return templateSync.update(id, data);
+        }
+        return templateSync.add({ id: `${now}-${Math.floor(Math.random() * 10000)}`, ...data, synced: false });
+    }, []);
+
+    const deleteTemplate = useCallback(async (id: string) => {
+        await templateSync.remove(id);
+    }, []);
+
+    // Adds one calorie entry per item, on `date` or today
+    const logTemplate = useCallback(async (template: MealTemplate, date?: string) => {
+        for (const item of template.items) {
+            await addEntry(item.food, item.calories, date, item.macros, template.meal);
+        }
+    }, [addEntry]);
+
+    return { templates, loading, saveTemplate, deleteTemplate, logTemplate, refresh };
+}
@@ -0,0 +1,41 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { STORAGE_KEYS } from '../services/storageRegistry';
+import { DEFAULT_STALE_AGE_DAYS, auditPasswords } from '../utils/passwordAudit';
+import { usePasswords } from './usePasswords';
+import { useSecureClipboard } from './useSecureClipboard';
+
+/**
+ * The health report for the unlocked vault, the age after which a password counts
+ * as stale and when each password was last copied on this device.
+ */
+export function usePasswordAudit() {
+    const passwords = usePasswords();
+    const { lastCopied } = useSecureClipboard();
+    const [staleAgeDays, setStaleAgeDays] = useState(DEFAULT_STALE_AGE_DAYS);
+
+    useEffect(() => {
+        AsyncStorage.getItem(STORAGE_KEYS.passwordAuditStaleDays)
+            .then(saved => {
+                const days = saved ? parseInt(saved, 10) : NaN;
+                if (days > 0) setStaleAgeDays(days);
+            })
+            .catch(e => console.error('Failed to load password audit settings', e));
+    }, []);
+
+    const updateStaleAgeDays = useCallback(async (days: number) => {
+        setStaleAgeDays(days);
+        try {
+            await AsyncStorage.setItem(STORAGE_KEYS.passwordAuditStaleDays, days.toString());
+        } catch (e) {
+            console.error('Failed to save password audit settings', e);
+        }
+    }, []);
+
+    const audit = useMemo(
+        () => auditPasswords(passwords.accounts, staleAgeDays),
+        [passwords.accounts, staleAgeDays]
+    );
+
+    return { ...passwords, audit, lastCopied, staleAgeDays, setStaleAgeDays: updateStaleAgeDays };
+}
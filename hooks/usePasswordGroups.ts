@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { createSyncEngine } from '../services/SyncEngine';
+import { fromPasswordGroupRow, toPasswordGroupRow } from '../services/apiClient';
+import { passwordGroupRowSchema } from '../services/schemas';
+import { STORAGE_KEYS } from '../services/storageRegistry';
+import { isVaultUnlocked, openField, sealField, subscribeVault } from '../services/vault';
+import { useSyncedCollection } from './useSyncedCollection';
+
+export type PasswordGroup = {
+    id: string;
+    name: string; // Unused for built-in groups, which are named by translation
+    icon: string; // Ionicons name
+    color: string;
+    builtIn?: boolean;
+    updated_at: number;
+    synced?: boolean;
+};
+
+type GroupFields = Pick<PasswordGroup, 'name' | 'icon' | 'color'>;
+
+// Entries whose group is unknown, e.g. deleted on another device, are shown here
+export const DEFAULT_GROUP = 'other';
+
+export const BUILT_IN_GROUPS: PasswordGroup[] = [
+    { id: 'social', name: '', icon: 'people-outline', color: '#5B8DEF', builtIn: true, updated_at: 0 },
+    { id: 'work', name: '', icon: 'briefcase-outline', color: '#F2994A', builtIn: true, updated_at: 0 },
+    { id: 'personal', name: '', icon: 'person-outline', color: '#9B51E0', builtIn: true, updated_at: 0 },
+    { id: 'finance', name: '', icon: 'card-outline', color: '#27AE60', builtIn: true, updated_at: 0 },
+    { id: DEFAULT_GROUP, name: '', icon: 'folder-outline', color: '#8E8E93', builtIn: true, updated_at: 0 },
+];
+
+export const GROUP_ICONS = [
+    'folder-outline', 'home-outline', 'school-outline', 'cart-outline', 'game-controller-outline',
+    'film-outline', 'musical-notes-outline', 'airplane-outline', 'medkit-outline', 'code-slash-outline',
+    'mail-outline', 'cloud-outline', 'heart-outline', 'star-outline', 'wifi-outline', 'key-outline',
+];
+
+export const GROUP_COLORS = [
+    '#5B8DEF', '#2D9CDB', '#27AE60', '#6FCF97', '#F2C94C',
+    '#F2994A', '#EB5757', '#E056A0', '#9B51E0', '#8E8E93',
+];
+
+export const groupLabel = (group: PasswordGroup, t: (key: string) => string) =>
+    group.builtIn ? t(`passwords.groups.${group.id}`) : group.name;
+
+export const resolveGroup = (groups: PasswordGroup[], id: string): PasswordGroup =>
+    groups.find(g => g.id === id)
+    || groups.find(g => g.id === DEFAULT_GROUP)
+    || BUILT_IN_GROUPS[BUILT_IN_GROUPS.length - 1];
+
+// Null for groups sealed under another vault key
+const openGroup = (group: PasswordGroup): PasswordGroup | null => {
+    try {
+        return { ...group, name: openField(group.name) };
+    } catch {
+        return null;
+    }
+};
+
+// Group names are sealed like the entries in them; icons and colors are not secret
+const groupSync = createSyncEngine<PasswordGroup>({
+    name: 'password groups',
+    storageKey: STORAGE_KEYS.passwordGroups,
+    endpoint: '/password-groups',
+    updateMethod: 'post',
+    toRemote: toPasswordGroupRow,
+    fromRemote: fromPasswordGroupRow,
+    schema: passwordGroupRowSchema,
+    describe: (group) => {
+        const open = isVaultUnlocked() ? openGroup(group) : null;
+        return open ? open.name : '🔒';
+    }
+});
+
+/**
+ * The built-in groups followed by the user's own, sorted by name. Custom groups can
+ * only be read and changed while the vault is unlocked.
+ */
+export function usePasswordGroups() {
+    const { items: sealed, loading } = useSyncedCollection(groupSync);
+    const [unlocked, setUnlocked] = useState(isVaultUnlocked);
+
+    useEffect(() => subscribeVault(() => setUnlocked(isVaultUnlocked())), []);
+
+    const customGroups = useMemo(() => {
+        if (!unlocked) return [];
+        return sealed
+            .map(openGroup)
+            .filter((g): g is PasswordGroup => g !== null)
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }, [sealed, unlocked]);
+
+    const groups = useMemo(() => [...BUILT_IN_GROUPS, ...customGroups], [customGroups]);
+
+    const saveGroup = useCallback(async (fields: GroupFields, id?: string) => {
+        const now = Date.now();
+        const data = { ...fields, name: sealField(fields.name.trim()) };
+
+        if (id) {
+            return groupSync.update(id, { ...data, updated_at: now });
+        }
+
+        return groupSync.add({
+            id: `group-${now}-${Math.floor(Math.random() * 10000)}`,
+            ...data,
+            updated_at: now,
+            synced: false
+        });
+    }, []);
+
+    const deleteGroup = useCallback(async (id: string) => {
+        await groupSync.remove(id);
+    }, []);
+
+    return { groups, customGroups, loading, saveGroup, deleteGroup };
+}
@@ -0,0 +1,128 @@
+import { useCallback } from 'react';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
+import { File, Paths } from 'expo-file-system';
+import { isVaultBackup, openBackup, sealBackup } from '../services/vault';
+import {
+    ImportPlan,
+    TransferAccount,
+    TransferGroup,
+    exportBitwarden,
+    exportCsv,
+    mergeImported,
+    parseImport,
+    planImport,
+    toGroup
+} from '../utils/passwordTransfer';
+import { PasswordGroup, resolveGroup, usePasswordGroups } from './usePasswordGroups';
+import { PasswordAccount, usePasswords } from './usePasswords';
+
+export type ExportFormat = 'csv' | 'bitwarden' | 'backup';
+
+const EXPORT_FILES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+    csv: { extension: 'csv', mimeType: 'text/csv' },
+    bitwarden: { extension: 'json', mimeType: 'application/json' },
+    backup: { extension: 'socius-backup', mimeType: 'application/octet-stream' },
+};
+
+// Files name groups: built-in ones by id, which reads the same in every language
+const folderName = (group: PasswordGroup) => group.builtIn ? group.id : group.name;
+
+const toTransfer = (
+    { service, username, password, group, totp, url, notes, tags, customFields }: PasswordAccount,
+    groups: PasswordGroup[]
+): TransferAccount =>
+    ({ service, username, password, group: folderName(resolveGroup(groups, group)), totp, url, notes, tags, customFields });
+
+const optionalString = (value: unknown) => typeof value === 'string' && value ? value : undefined;
+
+// Backups hold the account list as JSON; entries that are not accounts are ignored
+const readBackupAccounts = (json: string, groups: TransferGroup[]): TransferAccount[] => {
+    const data = JSON.parse(json);
+    const accounts: unknown[] = Array.isArray(data?.accounts) ? data.accounts : [];
+    return accounts
+        .filter((a): a is TransferAccount => {
+            const account = a as TransferAccount;
+            return typeof account?.service === 'string' && typeof account.password === 'string';
+        })
+        .map(a => ({
+            service: a.service,
+            username: typeof a.username === 'string' ? a.username : '',
+            password: a.password,
+            group: toGroup(a.group, groups),
+            totp: optionalString(a.totp),
+            url: optionalString(a.url),
+            notes: optionalString(a.notes),
+            tags: Array.isArray(a.tags) ? a.tags.filter(tag => typeof tag === 'string') : undefined,
+            customFields: Array.isArray(a.customFields)
+                ? a.customFields.filter(field => typeof field?.key === 'string' && typeof field.value === 'string')
+                : undefined,
+        }));
+};
+
+/**
+ * Moves the unlocked vault in and out of files: CSV and Bitwarden JSON for other
+ * password managers, and passphrase-sealed backups for this app. Plain exports are
+ * written to the cache only for as long as the share sheet needs them.
+ */
+export function usePasswordTransfer() {
+    const passwords = usePasswords();
+    const { accounts, saveAccount } = passwords;
+    const { groups } = usePasswordGroups();
+
+    // The picked file's text, or null when the picker was cancelled
+    const pickImportFile = useCallback(async (): Promise<string | null> => {
+        const result = await DocumentPicker.getDocumentAsync({ copyToCacheDirectory: true });
+        if (result.canceled || !result.assets?.length) return null;
+        const file = new File(result.assets[0].uri);
+        try {
+            return await file.text();
+        } finally {
+            if (file.exists) file.delete();
+        }
+    }, []);
+
+    // Backups need their passphrase; other files are read as they are
+    const prepareImport = useCallback(async (text: string, passphrase?: string): Promise<ImportPlan<PasswordAccount>> => {
+        if (isVaultBackup(text)) {
+            const incoming = readBackupAccounts(await openBackup(text, passphrase || ''), groups);
+            return planImport(incoming, accounts);
+        }
+        const { accounts: incoming, skipped } = parseImport(text, groups);
+        return planImport(incoming, accounts, skipped);
+    }, [accounts, groups]);
+
+    // Saves the new accounts, and the changed ones too when `replaceChanged` is set
+    const applyImport = useCallback(async (plan: ImportPlan<PasswordAccount>, replaceChanged: boolean) => {
+        for (const account of plan.added) {
+            await saveAccount(account);
+        }
+        if (replaceChanged) {
+            for (const { incoming, existing } of plan.changed) {
+                await saveAccount(mergeImported(incoming, existing), existing.id);
+            }
+        }
+        return plan.added.length + (replaceChanged ? plan.changed.length : 0);
+    }, [saveAccount]);
+
+    const exportVault = useCallback(async (format: ExportFormat, passphrase?: string) => {
+        const list = accounts.map(account => toTransfer(account, groups));
+        const content = format === 'csv'
+            ? exportCsv(list)
+            : format === 'bitwarden'
+                ? exportBitwarden(list)
+                : await sealBackup(JSON.stringify({ accounts: list }), passphrase || '');
+
+        const { extension, mimeType } = EXPORT_FILES[format];
+        const date = new Date().toISOString().slice(0, 10);
+        const file = new File(Paths.cache, `passwords-${date}.${extension}`);
+        try {
+            file.write(content);
+            await Sharing.shareAsync(file.uri, { mimeType, dialogTitle: file.name });
+        } finally {
+            if (file.exists) file.delete();
+        }
+    }, [accounts, groups]);
+
+    return { ...passwords, pickImportFile, prepareImport, applyImport, exportVault };
+}
@@ -1,6 +1,22 @@
-import { useState, useCallback, useEffect } from 'react';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import api from '../services/api';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { createSyncEngine } from '../services/SyncEngine';
+import { fromPasswordRow, toPasswordRow } from '../services/apiClient';
+import { passwordRowSchema } from '../services/schemas';
+import { STORAGE_KEYS } from '../services/storageRegistry';
+import {
+    createVault,
+    isSealed,
+    isVaultUnlocked,
+    loadVaultHeader,
+    lockVault,
+    openField,
+    readSharedHeader,
+    sealField,
+    subscribeVault,
+    unlockVault
+} from '../services/vault';
+import { passwordSetAt } from '../utils/passwordAudit';
+import { useSyncedCollection } from './useSyncedCollection';
 
 export type PasswordAccount = {
     id: string;
@@ -8,241 +24,224 @@ export type PasswordAccount = {
     username: string;
     password: string;
     group: string;
+    totp?: string; // otpauth:// link for two-factor codes
+    url?: string;
+    notes?: string;
+    tags?: string[];
+    customFields?: CustomField[];
+    history?: PasswordHistoryEntry[]; // Previous passwords, newest first
+    passwordChangedAt?: number; // When the current password was set (ms); updated_at moves with any edit
     updated_at: number;
     synced?: boolean;
 };
 
-const STORAGE_KEY = 'user_passwords';
-
-export function usePasswords() {
-    const [accounts, setAccounts] = useState<PasswordAccount[]>([]);
-    const [loading, setLoading] = useState(true);
-
-    const syncPending = useCallback(async (localAccounts: PasswordAccount[]) => {
-        const pending = localAccounts.filter(a => !a.synced);
-        if (pending.length === 0) return localAccounts;
-
-        let updated = [...localAccounts];
-        let changed = false;
-
-        for (const acc of pending) {
-            try {
-                await api.post('/passwords', {
-                    client_id: acc.id,
-                    service: acc.service,
-                    username: acc.username,
-                    password: acc.password,
-                    group: acc.group,
-                    updated_at: acc.updated_at
-                });
-                updated = updated.map(a => a.id === acc.id ? { ...a, synced: true } : a);
-                changed = true;
-            } catch (e) {
+// A labelled extra value, such as a PIN or a security answer
+export type CustomField = {
+    key: string;
+    value: string;
+};
 
-            }
-        }
+export type PasswordHistoryEntry = {
+    password: string;
+    changedAt: number; // When it was replaced (ms)
+};
 
-        if (changed) {
-            await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
-            setAccounts(updated);
-        }
-        return updated;
-    }, []);
+// Previous passwords kept per entry
+export const PASSWORD_HISTORY_LIMIT = 10;
+
+// 'setup' until a master passphrase exists, for this device or any synced entry
+export type VaultState = 'loading' | 'setup' | 'locked' | 'unlocked';
+
+type AccountFields = Omit<PasswordAccount, 'id' | 'synced' | 'updated_at' | 'passwordChangedAt'>;
+
+const STORAGE_KEY = STORAGE_KEYS.passwords;
+const SEALED_FIELDS = ['service', 'username', 'password', 'group'] as const;
+
+// The engine, local storage and the server only ever see sealed fields
+const sealAccount = (fields: AccountFields): AccountFields => ({
+    service: sealField(fields.service),
+    username: sealField(fields.username),
+    password: sealField(fields.password, true),
+    group: sealField(fields.group),
+    totp: fields.totp ? sealField(fields.totp) : undefined,
+    url: fields.url ? sealField(fields.url) : undefined,
+    notes: fields.notes ? sealField(fields.notes) : undefined,
+    tags: fields.tags?.length ? fields.tags.map(tag => sealField(tag)) : undefined,
+    customFields: fields.customFields?.length
+        ? fields.customFields.map(field => ({ key: sealField(field.key), value: sealField(field.value) }))
+        : undefined,
+    history: fields.history?.length
+        ? fields.history.map(entry => ({ ...entry, password: sealField(entry.password) }))
+        : undefined,
+});
+
+// Every stored string of an entry, to tell whether it still needs sealing
+const storedValues = (account: PasswordAccount): string[] => [
+    ...SEALED_FIELDS.map(field => account[field]),
+    ...[account.totp, account.url, account.notes].filter((value): value is string => !!value),
+    ...(account.tags || []),
+    ...(account.customFields || []).flatMap(field => [field.key, field.value]),
+    ...(account.history || []).map(entry => entry.password),
+];
+
+/**
+ * The history after `previous` is replaced by `next`. A password that comes back
+ * (e.g. restored from the history) is not listed as both current and previous.
+ */
+export const recordPasswordChange = (
+    history: PasswordHistoryEntry[],
+    previous: string,
+    next: string,
+    now = Date.now()
+): PasswordHistoryEntry[] => {
+    const entries = previous && previous !== next ? [{ password: previous, changedAt: now }, ...history] : history;
+    return entries.filter(entry => entry.password !== next).slice(0, PASSWORD_HISTORY_LIMIT);
+};
 
-    const fetchRemote = useCallback(async (currentLocal: PasswordAccount[]) => {
-        try {
-            const res = await api.get('/passwords');
-            if (Array.isArray(res.data)) {
-                const remoteMap = new Map();
-                res.data.forEach((a: any) => {
-                    remoteMap.set(a.client_id, {
-                        id: a.client_id,
-                        service: a.service,
-                        username: a.username,
-                        password: a.password,
-                        group: a.group,
-                        updated_at: a.updated_at,
-                        synced: true
-                    });
-                });
-
-                const unsyncedLocal = currentLocal.filter(a => !a.synced);
-                const remoteAccounts = Array.from(remoteMap.values());
-                const finalAccounts = [...remoteAccounts, ...unsyncedLocal.filter(a => !remoteMap.has(a.id))];
-
-                setAccounts(finalAccounts);
-                await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(finalAccounts));
-            }
-        } catch (error) {
-            console.error('Failed to load passwords remote', error);
-        }
-    }, []);
+// Null for entries sealed under another vault key, which this passphrase cannot open
+const openAccount = (account: PasswordAccount): PasswordAccount | null => {
+    try {
+        return {
+            ...account,
+            service: openField(account.service),
+            username: openField(account.username),
+            password: openField(account.password),
+            group: openField(account.group),
+            totp: account.totp ? openField(account.totp) : undefined,
+            url: account.url ? openField(account.url) : undefined,
+            notes: account.notes ? openField(account.notes) : undefined,
+            tags: account.tags?.map(openField),
+            customFields: account.customFields?.map(field => ({ key: openField(field.key), value: openField(field.value) })),
+            history: account.history?.map(entry => ({ ...entry, password: openField(entry.password) })),
+        };
+    } catch {
+        return null;
+    }
+};
 
-    const loadAccounts = useCallback(async () => {
-        try {
-            const saved = await AsyncStorage.getItem(STORAGE_KEY);
-            let localData: PasswordAccount[] = [];
-            if (saved) {
-                localData = JSON.parse(saved);
-                setAccounts(localData);
+const passwordSync = createSyncEngine<PasswordAccount>({
+    name: 'passwords',
+    storageKey: STORAGE_KEY,
+    endpoint: '/passwords',
+    // The backend upserts by client_id
+    updateMethod: 'post',
+    toRemote: toPasswordRow,
+    fromRemote: fromPasswordRow,
+    schema: passwordRowSchema,
+    describe: (acc) => {
+        const open = isVaultUnlocked() ? openAccount(acc) : null;
+        return open ? `${open.service} · ${open.username}` : '🔒';
+    }
+});
+
+let sealingLegacy: Promise<void> | null = null;
+
+// Entries saved before the vault existed are sealed (and re-uploaded) once it is unlocked.
+// Sealing is not an edit: the entry keeps its updated_at and the age of its password.
+const sealLegacyAccounts = () => {
+    if (!sealingLegacy) {
+        sealingLegacy = (async () => {
+            for (const account of passwordSync.getItems()) {
+                if (storedValues(account).every(isSealed)) continue;
+                const open = openAccount(account);
+                if (!open || !isVaultUnlocked()) continue;
+                await passwordSync.update(account.id, { ...sealAccount(open), passwordChangedAt: passwordSetAt(open) });
             }
+        })().catch(e => {
+            console.error('Failed to encrypt saved passwords', e);
+        }).finally(() => {
+            sealingLegacy = null;
+        });
+    }
+    return sealingLegacy;
+};
 
-            // Sync Pending
-            const syncedData = await syncPending(localData);
-
-            // Fetch Remote
-            await fetchRemote(syncedData);
+export function usePasswords() {
+    const { items: sealed, loading, refresh } = useSyncedCollection(passwordSync);
+    const [unlocked, setUnlocked] = useState(isVaultUnlocked);
+    const [hasVault, setHasVault] = useState<boolean | null>(null);
 
-        } catch (error) {
-            console.error('Failed to load passwords', error);
-        } finally {
-            setLoading(false);
-        }
-    }, [syncPending, fetchRemote]);
+    useEffect(() => subscribeVault(() => setUnlocked(isVaultUnlocked())), []);
 
     useEffect(() => {
-        loadAccounts();
-    }, [loadAccounts]);
-
-    const saveAccount = useCallback(async (accountData: Omit<PasswordAccount, 'id' | 'synced' | 'updated_at'>, id?: string) => {
-        const now = Date.now();
-
-        let newOrUpdatedAccount: PasswordAccount;
-
-        setAccounts(prev => {
-            let updatedAccounts = [...prev];
-
-            if (id) {
-                // Update
-                updatedAccounts = updatedAccounts.map(acc =>
-                    acc.id === id
-                        ? { ...acc, ...accountData, updated_at: now, synced: false }
-                        : acc
-                );
-                newOrUpdatedAccount = updatedAccounts.find(a => a.id === id)!;
-            } else {
-                // Create
-                const clientId = `${now}-${Math.floor(Math.random() * 10000)}`;
-                const newAccount: PasswordAccount = {
-                    id: clientId,
-                    ...accountData,
-                    updated_at: now,
-                    synced: false
-                };
-                updatedAccounts.push(newAccount);
-                newOrUpdatedAccount = newAccount;
-            }
-
-            AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(updatedAccounts));
-            return updatedAccounts;
-        });
-
-        // Background Sync
-        try {
-            // Wait a tick or just use the obj we constructed
-            // Since we don't have newOrUpdatedAccount in scope if we relied on setAccounts callback for creation
-            // We reconstructed logic above to capture it.
+        let active = true;
+        loadVaultHeader()
+            .then(header => { if (active) setHasVault(!!header); })
+            .catch(e => {
+                console.error('Failed to read password vault', e);
+                if (active) setHasVault(false);
+            });
+        return () => { active = false; };
+    }, [unlocked]);
+
+    // A vault set up on another device arrives with its first synced password
+    const sharedHeader = useMemo(() => {
+        for (const account of sealed) {
+            const header = readSharedHeader(account.password);
+            if (header) return header;
+        }
+        return null;
+    }, [sealed]);
 
-            // Re-find from closure isn't quite right because of setAccounts async nature? 
-            // Actually standard React batching. But we can just use the object we created.
+    const vaultState: VaultState = unlocked
+        ? 'unlocked'
+        : hasVault === null ? 'loading' : hasVault || sharedHeader ? 'locked' : 'setup';
 
-            // Let's rely on constructing it outside setAccounts to be safe or capturing it.
-            // I did capture it in newOrUpdatedAccount variable above (simplified logic).
+    const accounts = useMemo(() => {
+        if (!unlocked) return [];
+        return sealed.map(openAccount).filter((a): a is PasswordAccount => a !== null);
+    }, [sealed, unlocked]);
 
-            // Wait, I can't assign to outer variable from inside setState updater synchronously and expect it to be available outside immediately if I wrap it all.
-            // But here I'm setting state AND finding/creating.
-            // Let's do it cleaner.
-            return; // Placeholder for logic below
-        } catch (e) { }
-    }, []);
+    useEffect(() => {
+        if (unlocked && !loading) sealLegacyAccounts();
+    }, [sealed, unlocked, loading]);
 
-    // Proper implementation of saveAccount to handle async state safely
-    const saveAccountItem = useCallback(async (accountData: Omit<PasswordAccount, 'id' | 'synced' | 'updated_at'>, id?: string) => {
+    const saveAccount = useCallback(async (accountData: AccountFields, id?: string) => {
         const now = Date.now();
-        let targetAccount: PasswordAccount;
 
-        // 1. Determine the new state object
         if (id) {
-            // We need current state. 
-            // Ideally we pass function to setAccounts, but we need the object for API call too.
-            // So we'll use a functional update and "tap" into it, OR read ref? 
-            // Or just do best effort.
-            // Better: construct it based on what we know (we have the ID).
-            // But we need the old data if we are doing partial updates? 
-            // The signature accepts full data.
-
-            targetAccount = {
-                id,
-                ...accountData,
-                updated_at: now,
-                synced: false
-            } as PasswordAccount;
-            // Note: If accountData is partial, this casts invalidly. But our usage passes full data.
-        } else {
-            const clientId = `${now}-${Math.floor(Math.random() * 10000)}`;
-            targetAccount = {
-                id: clientId,
-                ...accountData,
-                updated_at: now,
-                synced: false
-            };
+            // Callers pass the form's fields; the history is carried over from the saved entry
+            const stored = passwordSync.getItems().find(a => a.id === id);
+            const saved = stored ? openAccount(stored) : null;
+            const history = recordPasswordChange(
+                accountData.history ?? saved?.history ?? [],
+                saved?.password ?? '',
+                accountData.password,
+                now
+            );
+            const passwordChangedAt = saved && saved.password === accountData.password ? passwordSetAt(saved) : now;
+            return passwordSync.update(id, { ...sealAccount({ ...accountData, history }), passwordChangedAt, updated_at: now });
         }
 
-        // 2. Update Local
-        setAccounts(prev => {
-            let updated;
-            if (id) {
-                updated = prev.map(a => a.id === id ? targetAccount : a);
-            } else {
-                updated = [...prev, targetAccount];
-            }
-            AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
-            return updated;
-        });
+        const sealedData = sealAccount(accountData);
 
-        // 3. Sync Online
-        try {
-            await api.post('/passwords', {
-                client_id: targetAccount.id,
-                service: targetAccount.service,
-                username: targetAccount.username,
-                password: targetAccount.password,
-                group: targetAccount.group,
-                updated_at: targetAccount.updated_at
-            });
-
-            // Mark Synced
-            setAccounts(prev => {
-                const verified = prev.map(a => a.id === targetAccount.id ? { ...a, synced: true } : a);
-                AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(verified));
-                return verified;
-            });
-            return true;
-        } catch (e) {
-            console.error('Failed to save password online', e);
-            return false;
-        }
+        const clientId = `${now}-${Math.floor(Math.random() * 10000)}`;
+        return passwordSync.add({
+            id: clientId,
+            ...sealedData,
+            passwordChangedAt: now,
+            updated_at: now,
+            synced: false
+        });
     }, []);
 
     const deleteAccount = useCallback(async (id: string) => {
-        setAccounts(prev => {
-            const updated = prev.filter(a => a.id !== id);
-            AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
-            return updated;
-        });
-
-        try {
-            await api.delete(`/passwords/${id}`);
-        } catch (e) {
-            console.error('Failed to delete password online', e);
-        }
+        await passwordSync.remove(id);
     }, []);
 
+    const setupVault = useCallback((passphrase: string) => createVault(passphrase), []);
+
+    const unlock = useCallback((passphrase: string) => unlockVault(passphrase, sharedHeader), [sharedHeader]);
+
     return {
         accounts,
         loading,
-        saveAccount: saveAccountItem,
+        vaultState,
+        setupVault,
+        unlock,
+        lock: lockVault,
+        saveAccount,
         deleteAccount,
-        refresh: loadAccounts
+        refresh
     };
 }
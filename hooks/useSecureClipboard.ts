@@ -0,0 +1,21 @@
+import { useState, useEffect } from 'react';
+import {
+    SecureClipboardState,
+    getSecureClipboardState,
+    loadSecureClipboard,
+    subscribeSecureClipboard
+} from '../services/secureClipboard';
+
+// Shared state of copied secrets: the clear delay, the latest copy and the copy history
+export function useSecureClipboard() {
+    const [clipboardState, setClipboardState] = useState<SecureClipboardState>(getSecureClipboardState);
+
+    useEffect(() => {
+        const unsubscribe = subscribeSecureClipboard(setClipboardState);
+        setClipboardState(getSecureClipboardState());
+        loadSecureClipboard();
+        return unsubscribe;
+    }, []);
+
+    return clipboardState;
+}
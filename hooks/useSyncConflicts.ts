@@ -0,0 +1,26 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+    ConflictSide,
+    SyncConflict,
+    getSyncConflicts,
+    resolveSyncConflict,
+    subscribeSyncConflicts
+} from '../services/SyncEngine';
+
+/**
+ * Conflicts recorded by every sync engine, for the review banner.
+ * Each one has already been settled last-writer-wins; resolving just confirms or flips it.
+ */
+export function useSyncConflicts() {
+    const [conflicts, setConflicts] = useState<SyncConflict[]>(getSyncConflicts);
+
+    useEffect(() => {
+        setConflicts(getSyncConflicts());
+        return subscribeSyncConflicts(() => setConflicts(getSyncConflicts()));
+    }, []);
+
+    const resolve = useCallback((conflict: SyncConflict, keep: ConflictSide) =>
+        resolveSyncConflict(conflict, keep), []);
+
+    return { conflicts, resolve };
+}
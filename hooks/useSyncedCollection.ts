@@ -0,0 +1,28 @@
+import { useState, useEffect, useCallback } from 'react';
+import { SyncEngine, SyncRecord } from '../services/SyncEngine';
+
+/**
+ * Subscribes a component to a shared sync engine and refreshes it on mount; views
+ * mounted together share one refresh.
+ * Every hook instance sees the same records, so widgets and screens stay in step.
+ */
+export function useSyncedCollection<T extends SyncRecord>(engine: SyncEngine<T>) {
+    const [items, setItems] = useState<T[]>(() => engine.getItems());
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => engine.subscribe(setItems), [engine]);
+
+    const refresh = useCallback(async () => {
+        try {
+            await engine.refresh();
+        } finally {
+            setLoading(false);
+        }
+    }, [engine]);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    return { items, loading, refresh };
+}
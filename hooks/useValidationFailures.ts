@@ -0,0 +1,21 @@
+import { useState, useEffect } from 'react';
+import {
+    ValidationFailure,
+    clearValidationFailures,
+    getValidationFailures,
+    subscribeValidationFailures
+} from '../services/validation';
+
+/**
+ * Server responses rejected by schema validation, grouped by endpoint, for the diagnostics screen.
+ */
+export function useValidationFailures() {
+    const [failures, setFailures] = useState<ValidationFailure[]>(getValidationFailures);
+
+    useEffect(() => {
+        setFailures(getValidationFailures());
+        return subscribeValidationFailures(() => setFailures(getValidationFailures()));
+    }, []);
+
+    return { failures, clear: clearValidationFailures };
+}
@@ -1,15 +1,22 @@
 import { useState, useCallback, useEffect } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import api from '../services/api';
+import { createSyncEngine } from '../services/SyncEngine';
+import { fromWorkoutActivityRow, getWorkoutStats, saveWorkoutStats, toWorkoutActivityRow } from '../services/apiClient';
+import { workoutActivityRowSchema } from '../services/schemas';
+import { STORAGE_KEYS } from '../services/storageRegistry';
+import { useSyncedCollection } from './useSyncedCollection';
 
 export type ActivityLevel = 'sedentary' | 'light' | 'moderate' | 'active' | 'very_active';
 
+export type WeightGoal = 'lose' | 'maintain' | 'gain';
+
 export interface PhysicalStats {
     weight: number; // kg
     height: number; // cm
     age: number;
     gender: 'male' | 'female';
     activityLevel: ActivityLevel;
+    goal?: WeightGoal; // Sets the daily calorie budget; maintain when unset
 }
 
 export interface Activity {
@@ -19,11 +26,12 @@ export interface Activity {
     calories: number;
     date: string; // ISO date string YYYY-MM-DD
     timestamp: number; // for sorting
+    updated_at?: number; // Last edit, for conflict resolution
     synced?: boolean;
 }
 
-const STATS_KEY = 'user_physical_stats';
-const ACTIVITIES_KEY = 'workout_activities';
+const STATS_KEY = STORAGE_KEYS.physicalStats;
+const ACTIVITIES_KEY = STORAGE_KEYS.workoutActivities;
 
 // Helper: sort activities by date desc, then timestamp desc
 const sortActivities = (acts: Activity[]): Activity[] =>
@@ -32,137 +40,57 @@ const sortActivities = (acts: Activity[]): Activity[] =>
         return b.timestamp - a.timestamp;
     });
 
+const activitySync = createSyncEngine<Activity>({
+    name: 'workout activities',
+    storageKey: ACTIVITIES_KEY,
+    endpoint: '/workouts/activities',
+    sort: sortActivities,
+    toRemote: toWorkoutActivityRow,
+    fromRemote: fromWorkoutActivityRow,
+    schema: workoutActivityRowSchema,
+    describe: (act) => `${act.name} · ${act.duration} min · ${act.calories} kcal · ${act.date}`
+});
+
 export function useWorkouts() {
     const [stats, setStats] = useState<PhysicalStats | null>(null);
-    const [activities, setActivities] = useState<Activity[]>([]);
-    const [loading, setLoading] = useState(true);
-
-    const syncPending = useCallback(async (localActivities: Activity[]) => {
-        const pending = localActivities.filter(a => !a.synced);
-        if (pending.length === 0) return localActivities;
-
-        let updated = [...localActivities];
-        let changed = false;
-
-        for (const act of pending) {
-            try {
-                await api.post('/workouts/activities', {
-                    client_id: act.id,
-                    name: act.name,
-                    duration: act.duration,
-                    calories: act.calories,
-                    date: act.date,
-                    timestamp: act.timestamp
-                });
-                updated = updated.map(a => a.id === act.id ? { ...a, synced: true } : a);
-                changed = true;
-            } catch (e) {
-
-            }
-        }
-
-        if (changed) {
-            const sorted = sortActivities(updated);
-            await AsyncStorage.setItem(ACTIVITIES_KEY, JSON.stringify(sorted));
-            setActivities(sorted);
-        }
-        return updated;
-    }, []);
-
-    const fetchRemote = useCallback(async (currentLocalActs: Activity[]) => {
-        // Stats
-        try {
-            const statsRes = await api.get('/workouts/stats');
-            const mappedStats: PhysicalStats = {
-                weight: statsRes.data.weight,
-                height: statsRes.data.height,
-                age: statsRes.data.age,
-                gender: statsRes.data.gender,
-                activityLevel: statsRes.data.activity_level
-            };
-            setStats(mappedStats);
-            await AsyncStorage.setItem(STATS_KEY, JSON.stringify(mappedStats));
-        } catch (e) { /* ignore */ }
+    const [statsLoading, setStatsLoading] = useState(true);
+    const { items: activities, loading: activitiesLoading, refresh: refreshActivities } = useSyncedCollection(activitySync);
 
-        // Activities
+    const loadStats = useCallback(async () => {
         try {
-            const actRes = await api.get('/workouts/activities');
-            if (Array.isArray(actRes.data)) {
-                const remoteMap = new Map();
-                actRes.data.forEach((a: any) => {
-                    remoteMap.set(a.client_id, {
-                        id: a.client_id,
-                        name: a.name,
-                        duration: a.duration,
-                        calories: a.calories,
-                        date: a.date,
-                        timestamp: a.timestamp,
-                        synced: true
-                    });
-                });
-
-                const remoteActs = Array.from(remoteMap.values());
-
-                setActivities(prev => {
-                    // Keep local unsynced acts that aren't in remote yet
-                    const unsyncedLocal = prev.filter(a => !a.synced);
-                    const finalActs = sortActivities([...remoteActs, ...unsyncedLocal.filter(a => !remoteMap.has(a.id))]);
-                    AsyncStorage.setItem(ACTIVITIES_KEY, JSON.stringify(finalActs));
-                    return finalActs;
-                });
-            }
-        } catch (e) { /* ignore */ }
-    }, []);
-
-    const loadData = useCallback(async () => {
-        try {
-            // Batch read instead of 2 separate calls - reduces iOS thread blocking
-            const keys = [STATS_KEY, ACTIVITIES_KEY];
-            const results = await AsyncStorage.multiGet(keys);
-
-            const savedStats = results[0][1];
-            const savedActivities = results[1][1];
-
-            // 1. Load Local
+            const savedStats = await AsyncStorage.getItem(STATS_KEY);
             if (savedStats) {
                 setStats(JSON.parse(savedStats));
             }
 
-            let localActs: Activity[] = [];
-            if (savedActivities) {
-                localActs = JSON.parse(savedActivities);
-                setActivities(localActs);
-            }
-
-            // 2. Sync Pending
-            const syncedActs = await syncPending(localActs);
-
-            // 3. Fetch Remote
-            await fetchRemote(syncedActs);
-
+            try {
+                const mappedStats = await getWorkoutStats();
+                if (mappedStats) {
+                    setStats(mappedStats);
+                    await AsyncStorage.setItem(STATS_KEY, JSON.stringify(mappedStats));
+                }
+            } catch (e) { /* ignore */ }
         } catch (error) {
             console.error('Failed to load workout data', error);
         } finally {
-            setLoading(false);
+            setStatsLoading(false);
         }
-    }, [syncPending, fetchRemote]);
+    }, []);
 
     useEffect(() => {
-        loadData();
-    }, [loadData]);
+        loadStats();
+    }, [loadStats]);
+
+    const loadData = useCallback(async () => {
+        await Promise.all([loadStats(), refreshActivities()]);
+    }, [loadStats, refreshActivities]);
 
     const saveStats = useCallback(async (newStats: PhysicalStats) => {
         setStats(newStats);
         await AsyncStorage.setItem(STATS_KEY, JSON.stringify(newStats));
 
         try {
-            await api.post('/workouts/stats', {
-                weight: newStats.weight,
-                height: newStats.height,
-                age: newStats.age,
-                gender: newStats.gender,
-                activity_level: newStats.activityLevel
-            });
+            await saveWorkoutStats(newStats);
         } catch (e) {
             console.error('Failed to sync physical stats', e);
         }
@@ -170,7 +98,6 @@ export function useWorkouts() {
 
 
 
-    // Redefining addActivity to match typical use case better
     const addActivityItem = useCallback(async (name: string, duration: number, calories: number, date?: string) => {
         const timestamp = Date.now();
         const clientId = `${timestamp}-${Math.floor(Math.random() * 10000)}`;
@@ -185,96 +112,33 @@ export function useWorkouts() {
             calories,
             date: dateStr,
             timestamp,
+            updated_at: timestamp,
             synced: false
         };
 
-        setActivities(prev => {
-            const updated = sortActivities([newActivity, ...prev]);
-            AsyncStorage.setItem(ACTIVITIES_KEY, JSON.stringify(updated));
-            return updated;
-        });
-
-        try {
-            await api.post('/workouts/activities', {
-                client_id: clientId,
-                name,
-                duration,
-                calories,
-                date: dateStr,
-                timestamp
-            });
-
-            // Mark synced
-            setActivities(prev => {
-                const updated = prev.map(a => a.id === clientId ? { ...a, synced: true } : a);
-                AsyncStorage.setItem(ACTIVITIES_KEY, JSON.stringify(updated));
-                return updated;
-            });
-
-        } catch (e) {
-
-        }
+        await activitySync.add(newActivity);
 
         return newActivity;
     }, []);
 
     const updateActivity = useCallback(async (id: string, name: string, duration: number, calories: number, date?: string) => {
-        let existingActivity: Activity | undefined;
-
-        setActivities(prev => {
-            existingActivity = prev.find(a => a.id === id);
-            if (!existingActivity) return prev;
-
-            const updatedActivity: Activity = {
-                ...existingActivity,
-                name,
-                duration,
-                calories,
-                date: date || existingActivity.date,
-                synced: false
-            };
-            const updatedList = sortActivities(prev.map(a => a.id === id ? updatedActivity : a));
-            AsyncStorage.setItem(ACTIVITIES_KEY, JSON.stringify(updatedList));
-            return updatedList;
+        await activitySync.update(id, {
+            name,
+            duration,
+            calories,
+            ...(date ? { date } : {}),
+            updated_at: Date.now()
         });
-
-        try {
-            await api.put(`/workouts/activities/${id}`, {
-                name,
-                duration,
-                calories,
-                date: date || existingActivity?.date
-            });
-
-            // Mark as synced on success
-            setActivities(prev => {
-                const updated = prev.map(a => a.id === id ? { ...a, synced: true } : a);
-                AsyncStorage.setItem(ACTIVITIES_KEY, JSON.stringify(updated));
-                return updated;
-            });
-        } catch (e) {
-            console.error('Failed to update activity online', e);
-        }
     }, []);
 
     const deleteActivity = useCallback(async (id: string) => {
-        setActivities(prev => {
-            const updated = prev.filter(a => a.id !== id);
-            AsyncStorage.setItem(ACTIVITIES_KEY, JSON.stringify(updated));
-            return updated;
-        });
-
-        try {
-            await api.delete(`/workouts/activities/${id}`);
-        } catch (e) {
-            console.error('Failed to delete activity online', e);
-        }
+        await activitySync.remove(id);
     }, []);
 
     return {
         stats,
         activities,
-        loading,
+        loading: statsLoading || activitiesLoading,
         saveStats,
         addActivity: addActivityItem,
         updateActivity,
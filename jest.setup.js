@@ -8,6 +8,21 @@ jest.mock('@react-native-async-storage/async-storage', () =>
     require('@react-native-async-storage/async-storage/jest/async-storage-mock')
 );
 
+// Mock expo-crypto with Node's CSPRNG
+jest.mock('expo-crypto', () => ({
+    getRandomBytes: (count) => new Uint8Array(jest.requireActual('crypto').randomBytes(count)),
+}));
+
+// Mock SecureStore with an in-memory store
+jest.mock('expo-secure-store', () => {
+    const store = new Map();
+    return {
+        getItemAsync: jest.fn(async (key) => store.get(key) ?? null),
+        setItemAsync: jest.fn(async (key, value) => { store.set(key, value); }),
+        deleteItemAsync: jest.fn(async (key) => { store.delete(key); }),
+    };
+});
+
 // Mock Reanimated
 jest.mock('react-native-reanimated', () => {
     const Reanimated = require('react-native-reanimated/mock');
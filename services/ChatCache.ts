@@ -1,7 +1,8 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { STORAGE_KEYS, STORAGE_PREFIXES } from './storageRegistry';
 
-const THREADS_KEY = 'chat_threads_v1';
-const MESSAGES_KEY_PREFIX = 'chat_messages_';
+const THREADS_KEY = STORAGE_KEYS.chatThreads;
+const MESSAGES_KEY_PREFIX = STORAGE_PREFIXES.chatMessages;
 
 export interface CachedThread {
     id: string;
@@ -0,0 +1,144 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { STORAGE_KEYS, subscribeUserDataWipe } from './storageRegistry';
+import api from './api';
+
+/**
+ * Persistent outbox for chat sends (DMs to /messages, Socius questions to /ask).
+ *
+ * Messages are stored before the first attempt, so nothing typed is lost to a bad
+ * connection or an app kill. Each thread is delivered strictly in order: a failed
+ * message holds back the ones queued after it until it is retried or discarded.
+ * Every send carries the item id as `client_id`, so the server can drop a resend
+ * whose first attempt went through but lost its response.
+ */
+
+const OUTBOX_KEY = STORAGE_KEYS.chatOutbox;
+
+export type OutboxStatus = 'pending' | 'failed';
+
+export interface OutboxItem {
+    id: string; // Also the local bubble _id
+    threadId: string;
+    endpoint: '/messages' | '/ask';
+    payload: Record<string, unknown>;
+    text: string;
+    createdAt: string; // ISO string for serialization
+    status: OutboxStatus;
+}
+
+export type OutboxEvent =
+    | { type: 'changed'; threadId: string }
+    | { type: 'sent'; threadId: string; item: OutboxItem; response: any };
+
+let items: OutboxItem[] | null = null;
+let loading: Promise<OutboxItem[]> | null = null;
+let flushChain: Promise<void> = Promise.resolve();
+const listeners = new Set<(event: OutboxEvent) => void>();
+
+const emit = (event: OutboxEvent) => listeners.forEach(listener => listener(event));
+
+// Unsent messages belong to the account that typed them
+subscribeUserDataWipe(() => {
+    items = [];
+    loading = null;
+});
+
+const load = (): Promise<OutboxItem[]> => {
+    if (items) return Promise.resolve(items);
+    if (!loading) {
+        loading = AsyncStorage.getItem(OUTBOX_KEY)
+            .then(data => data ? JSON.parse(data) : [])
+            .catch(error => {
+                console.error('Failed to load chat outbox:', error);
+                return [];
+            })
+            .then(loaded => {
+                items = loaded;
+                loading = null;
+                return loaded;
+            });
+    }
+    return loading;
+};
+
+const persist = async () => {
+    try {
+        await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(items || []));
+    } catch (error) {
+        console.error('Failed to persist chat outbox:', error);
+    }
+};
+
+const setStatus = async (id: string, status: OutboxStatus) => {
+    const item = items?.find(i => i.id === id);
+    if (!item || item.status === status) return;
+    items = items!.map(i => i.id === id ? { ...i, status } : i);
+    emit({ type: 'changed', threadId: item.threadId });
+    await persist();
+};
+
+export const subscribeOutbox = (listener: (event: OutboxEvent) => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const getOutbox = async (threadId: string): Promise<OutboxItem[]> =>
+    (await load()).filter(i => i.threadId === threadId);
+
+const flushPass = async (threadId?: string) => {
+    const queued = (await load()).filter(i => !threadId || i.threadId === threadId);
+    const blocked = new Set<string>();
+
+    for (const queuedItem of queued) {
+        if (blocked.has(queuedItem.threadId)) continue;
+        // Skip anything discarded while earlier sends were in flight
+        const item = items!.find(i => i.id === queuedItem.id);
+        if (!item) continue;
+
+        try {
+            await setStatus(item.id, 'pending');
+            const response = await api.post(item.endpoint, { ...item.payload, client_id: item.id });
+            items = items!.filter(i => i.id !== item.id);
+            await persist();
+            emit({ type: 'sent', threadId: item.threadId, item, response: response?.data });
+            emit({ type: 'changed', threadId: item.threadId });
+        } catch (error) {
+            console.error('Chat send failed, keeping it queued', error);
+            blocked.add(item.threadId);
+            await setStatus(item.id, 'failed');
+        }
+    }
+};
+
+/**
+ * Sends queued messages, oldest first. Called after every enqueue and again
+ * whenever connectivity or the app comes back.
+ */
+export const flushOutbox = (threadId?: string): Promise<void> => {
+    const pass = () => flushPass(threadId);
+    flushChain = flushChain.then(pass, pass);
+    return flushChain;
+};
+
+export const enqueueMessage = async (item: Omit<OutboxItem, 'status'>): Promise<void> => {
+    await load();
+    items = [...items!, { ...item, status: 'pending' }];
+    emit({ type: 'changed', threadId: item.threadId });
+    await persist();
+    await flushOutbox(item.threadId);
+};
+
+export const retryMessage = async (id: string): Promise<void> => {
+    const item = (await load()).find(i => i.id === id);
+    if (!item) return;
+    await setStatus(id, 'pending');
+    await flushOutbox(item.threadId);
+};
+
+export const discardMessage = async (id: string): Promise<void> => {
+    const item = (await load()).find(i => i.id === id);
+    if (!item) return;
+    items = items!.filter(i => i.id !== id);
+    emit({ type: 'changed', threadId: item.threadId });
+    await persist();
+};
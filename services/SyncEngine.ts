@@ -0,0 +1,459 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import api from './api';
+import { conflictsKeyFor, subscribeUserDataWipe } from './storageRegistry';
+import { Schema, validateList } from './validation';
+
+/**
+ * Offline-first sync engine shared by the locally cached collections
+ * (calories, workouts, passwords, bible bookmarks).
+ *
+ * Records live in AsyncStorage as a single JSON array. Local changes are applied
+ * immediately and flagged `synced: false`; the engine pushes them in the background,
+ * retries failures with exponential backoff and merges the server list on refresh.
+ * Deletes are kept as tombstones (`deleted: true`) until the server confirms them.
+ *
+ * Conflicts are settled last-writer-wins on `updated_at`. An edit remembers the server
+ * version it was based on (`baseUpdatedAt`); if the server copy moved past that while the
+ * edit was pending, both sides changed, so the newer one is kept and the pair is recorded
+ * for the user to review.
+ */
+
+export type SyncRecord = {
+    id: string; // client_id
+    synced?: boolean;
+    deleted?: boolean; // Pending delete (tombstone)
+    onServer?: boolean; // Unsynced edit of a record the server already has
+    updated_at?: number; // Last modification (ms), compared across devices
+    baseUpdatedAt?: number; // Server version a pending edit started from
+};
+
+export type ConflictSide = 'local' | 'remote';
+
+export type SyncConflict<T extends SyncRecord = SyncRecord> = {
+    collection: string; // Engine name
+    id: string;
+    local: T;
+    remote: T;
+    kept: ConflictSide;
+    localLabel: string;
+    remoteLabel: string;
+    detectedAt: number;
+};
+
+export interface SyncConfig<T extends SyncRecord> {
+    name: string;
+    storageKey: string;
+    endpoint: string;
+    toRemote: (item: T) => object;
+    fromRemote: (row: any) => T;
+    sort?: (items: T[]) => T[];
+    // Backends that upsert on POST by client_id (passwords, bookmarks) never use PUT
+    updateMethod?: 'put' | 'post';
+    // One-line summary shown when a conflict is up for review
+    describe?: (item: T) => string;
+    // Rows that fail it are dropped; the local copy of a dropped record is left untouched
+    schema?: Schema<unknown>;
+}
+
+export interface SyncEngine<T extends SyncRecord> {
+    name: string;
+    getItems: () => T[];
+    subscribe: (listener: (items: T[]) => void) => () => void;
+    refresh: () => Promise<void>;
+    flush: () => Promise<void>;
+    add: (item: T) => Promise<boolean>;
+    update: (id: string, changes: Partial<T>) => Promise<boolean>;
+    remove: (id: string) => Promise<void>;
+    getConflicts: () => SyncConflict<T>[];
+    resolveConflict: (id: string, keep: ConflictSide) => Promise<void>;
+}
+
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+
+// Every engine registers itself so pending work can be replayed when connectivity returns
+const engines = new Set<SyncEngine<any>>();
+
+export const flushAllSyncEngines = async (): Promise<void> => {
+    await Promise.all(Array.from(engines).map(engine => engine.flush()));
+};
+
+const conflictListeners = new Set<() => void>();
+
+const notifyConflicts = () => conflictListeners.forEach(listener => listener());
+
+export const getSyncConflicts = (): SyncConflict[] =>
+    Array.from(engines).flatMap(engine => engine.getConflicts());
+
+export const subscribeSyncConflicts = (listener: () => void) => {
+    conflictListeners.add(listener);
+    return () => { conflictListeners.delete(listener); };
+};
+
+export const resolveSyncConflict = async (conflict: SyncConflict, keep: ConflictSide): Promise<void> => {
+    const engine = Array.from(engines).find(e => e.getConflicts().includes(conflict));
+    if (engine) await engine.resolveConflict(conflict.id, keep);
+};
+
+export const getRetryDelay = (attempt: number): number =>
+    Math.min(RETRY_BASE_MS * 2 ** attempt, RETRY_MAX_MS);
+
+// Strip sync bookkeeping once the server has confirmed a record
+const markSynced = <T extends SyncRecord>(record: T): T => {
+    const confirmed = { ...record, synced: true };
+    delete confirmed.onServer;
+    delete confirmed.baseUpdatedAt;
+    return confirmed;
+};
+
+// The record's own fields, as they would be sent to the server
+const stripBookkeeping = <T extends SyncRecord>(record: T): T => {
+    const fields = { ...record };
+    delete fields.synced;
+    delete fields.deleted;
+    delete fields.onServer;
+    delete fields.baseUpdatedAt;
+    return fields;
+};
+
+export function createSyncEngine<T extends SyncRecord>(config: SyncConfig<T>): SyncEngine<T> {
+    const sort = config.sort || ((items: T[]) => items);
+    const describe = config.describe || ((item: T) => item.id);
+    const conflictsKey = conflictsKeyFor(config.storageKey);
+
+    let records: T[] = [];
+    let conflicts: SyncConflict<T>[] = [];
+    const listeners = new Set<(items: T[]) => void>();
+
+    // Local mutations run one at a time so async steps never interleave
+    let queue: Promise<unknown> = Promise.resolve();
+    const run = <R>(step: () => R | Promise<R>): Promise<R> => {
+        const result = queue.then(step);
+        queue = result.catch(() => { });
+        return result;
+    };
+
+    // Network pushes are serialized separately so a slow request never blocks local edits
+    let flushChain: Promise<void> = Promise.resolve();
+    let retryAttempt = 0;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+    // Ids confirmed while a GET was in flight; the stale list must not drop them
+    const confirmedDuringPull = new Set<string>();
+    let pullsInFlight = 0;
+
+    // Every mounted view refreshes the same engine; callers that arrive mid-refresh share it
+    let refreshing: Promise<void> | null = null;
+
+    const getItems = () => sort(records.filter(r => !r.deleted));
+
+    const emit = () => {
+        const visible = getItems();
+        listeners.forEach(listener => listener(visible));
+    };
+
+    const commit = async (next: T[]) => {
+        records = sort(next);
+        emit();
+        try {
+            await AsyncStorage.setItem(config.storageKey, JSON.stringify(records));
+        } catch (e) {
+            console.error(`Failed to persist ${config.name}`, e);
+        }
+    };
+
+    const saveConflicts = async (next: SyncConflict<T>[]) => {
+        conflicts = next;
+        notifyConflicts();
+        try {
+            await AsyncStorage.setItem(conflictsKey, JSON.stringify(conflicts));
+        } catch (e) {
+            console.error(`Failed to persist ${config.name} conflicts`, e);
+        }
+    };
+
+    const hydrate = () => run(async () => {
+        const saved = await AsyncStorage.getItem(config.storageKey);
+        records = sort(saved ? JSON.parse(saved) : []);
+        emit();
+
+        const savedConflicts = await AsyncStorage.getItem(conflictsKey);
+        const parsed = savedConflicts ? JSON.parse(savedConflicts) : [];
+        conflicts = Array.isArray(parsed) ? parsed.filter(c => c?.collection === config.name) : [];
+        notifyConflicts();
+    });
+
+    const push = async (record: T) => {
+        const url = `${config.endpoint}/${record.id}`;
+        if (record.deleted) {
+            try {
+                await api.delete(url);
+            } catch (e: any) {
+                // Already gone on the server counts as a confirmed delete
+                const status = e?.response?.status;
+                if (status !== 404 && status !== 410) throw e;
+            }
+        } else if (record.onServer && config.updateMethod !== 'post') {
+            await api.put(url, config.toRemote(record));
+        } else {
+            await api.post(config.endpoint, config.toRemote(record));
+        }
+    };
+
+    const confirm = (record: T) => run(async () => {
+        const current = records.find(r => r.id === record.id);
+        if (!current) return;
+
+        if (pullsInFlight > 0) confirmedDuringPull.add(record.id);
+
+        if (current === record) {
+            await commit(record.deleted
+                ? records.filter(r => r.id !== record.id)
+                : records.map(r => r.id === record.id ? markSynced(record) : r));
+        } else if (!current.deleted && !current.onServer) {
+            // Edited again while the push was in flight: the next push must update, not create,
+            // and is now based on the version just confirmed
+            await commit(records.map(r => r.id === record.id
+                ? { ...current, onServer: true, baseUpdatedAt: record.updated_at }
+                : r));
+        }
+    });
+
+    const scheduleRetry = () => {
+        if (retryTimer) return;
+        const delay = getRetryDelay(retryAttempt);
+        retryAttempt += 1;
+        retryTimer = setTimeout(() => {
+            retryTimer = null;
+            flush();
+        }, delay);
+    };
+
+    const flushPass = async () => {
+        let pending = records.filter(r => !r.synced);
+        if (pending.length === 0) return;
+
+        // Check edits against the server copy first so a newer remote change is not overwritten
+        if (pending.some(r => r.onServer && !r.deleted)) {
+            try {
+                await fetchRemote();
+            } catch {
+                scheduleRetry();
+                return;
+            }
+            pending = records.filter(r => !r.synced);
+        }
+
+        let failed = false;
+        for (const record of pending) {
+            try {
+                await push(record);
+                await confirm(record);
+            } catch {
+                failed = true;
+            }
+        }
+
+        if (failed) {
+            scheduleRetry();
+        } else {
+            retryAttempt = 0;
+        }
+    };
+
+    const flush = () => {
+        if (retryTimer) {
+            clearTimeout(retryTimer);
+            retryTimer = null;
+        }
+        flushChain = flushChain.then(flushPass, flushPass);
+        return flushChain;
+    };
+
+    const merge = (remote: T[], unreadable: Set<string> = new Set()) => run(async () => {
+        const remoteIds = new Set(remote.map(r => r.id));
+        const local = new Map(records.map(r => [r.id, r]));
+
+        // Pending local changes (edits and tombstones) win over the server copy unless the
+        // server copy changed too, in which case the newer write wins.
+        // A delete confirmed while the GET was in flight must not come back from the stale list.
+        const merged: T[] = [];
+        const detected: SyncConflict<T>[] = [];
+        remote.forEach(r => {
+            const existing = local.get(r.id);
+            if (!existing && confirmedDuringPull.has(r.id)) return;
+            if (!existing || existing.synced) {
+                merged.push(markSynced(r));
+                return;
+            }
+
+            const changedRemotely = !existing.deleted
+                && existing.baseUpdatedAt != null
+                && r.updated_at != null
+                && r.updated_at > existing.baseUpdatedAt;
+            if (!changedRemotely) {
+                merged.push(existing);
+                return;
+            }
+
+            const kept: ConflictSide = (existing.updated_at ?? 0) >= r.updated_at! ? 'local' : 'remote';
+            merged.push(kept === 'local' ? { ...existing, baseUpdatedAt: r.updated_at } : markSynced(r));
+            detected.push({
+                collection: config.name,
+                id: r.id,
+                local: stripBookkeeping(existing),
+                remote: r,
+                kept,
+                localLabel: describe(existing),
+                remoteLabel: describe(r),
+                detectedAt: Date.now(),
+            });
+        });
+
+        // Keep local records the server hasn't seen yet; synced ones missing remotely were deleted elsewhere.
+        // A record whose server row failed validation is still on the server, so it stays as it is.
+        records.forEach(r => {
+            if (!remoteIds.has(r.id) && (!r.synced || confirmedDuringPull.has(r.id) || unreadable.has(r.id))) {
+                merged.push(r);
+            }
+        });
+
+        await commit(merged);
+
+        if (detected.length > 0) {
+            const ids = new Set(detected.map(c => c.id));
+            await saveConflicts([...conflicts.filter(c => !ids.has(c.id)), ...detected]);
+        }
+    });
+
+    const fetchRemote = async () => {
+        pullsInFlight += 1;
+        try {
+            const res = await api.get(config.endpoint);
+            const route = `GET ${config.endpoint}`;
+            if (!Array.isArray(res.data)) {
+                // Nothing to merge; a body that isn't a list is still worth recording
+                if (config.schema && res.data != null) validateList(route, res.data, config.schema);
+                return;
+            }
+            if (!config.schema) {
+                await merge(res.data.map(config.fromRemote));
+                return;
+            }
+            const { valid, dropped } = validateList(route, res.data, config.schema);
+            // Collection rows are keyed by client_id
+            const unreadable = new Set(dropped
+                .map(row => (row as { client_id?: unknown } | null)?.client_id)
+                .filter((id): id is string => typeof id === 'string'));
+            await merge(valid.map(config.fromRemote), unreadable);
+        } finally {
+            pullsInFlight -= 1;
+            if (pullsInFlight === 0) confirmedDuringPull.clear();
+        }
+    };
+
+    const pull = async () => {
+        try {
+            await fetchRemote();
+        } catch (e) {
+            console.error(`Failed to fetch remote ${config.name}`, e);
+        }
+    };
+
+    const isSynced = (id: string) => !!records.find(r => r.id === id)?.synced;
+
+    const engine: SyncEngine<T> = {
+        name: config.name,
+        getItems,
+
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        },
+
+        refresh: () => {
+            if (refreshing) return refreshing;
+            refreshing = (async () => {
+                try {
+                    await hydrate();
+                } catch (e) {
+                    console.error(`Failed to load ${config.name}`, e);
+                }
+                await flush();
+                await pull();
+            })().finally(() => {
+                refreshing = null;
+            });
+            return refreshing;
+        },
+
+        flush,
+
+        add: async (item) => {
+            await run(() => commit([{ ...item, synced: false }, ...records.filter(r => r.id !== item.id)]));
+            await flush();
+            return isSynced(item.id);
+        },
+
+        update: async (id, changes) => {
+            const found = await run(async () => {
+                const existing = records.find(r => r.id === id && !r.deleted);
+                if (!existing) return false;
+                const updated: T = {
+                    ...existing,
+                    ...changes,
+                    id,
+                    synced: false,
+                    onServer: existing.synced || existing.onServer || undefined,
+                    baseUpdatedAt: existing.synced ? existing.updated_at : existing.baseUpdatedAt,
+                };
+                await commit(records.map(r => r.id === id ? updated : r));
+                return true;
+            });
+            if (!found) return false;
+            await flush();
+            return isSynced(id);
+        },
+
+        remove: async (id) => {
+            await run(() => {
+                // Tombstone even never-synced records: a create whose response was lost may exist remotely
+                const existing = records.find(r => r.id === id);
+                const tombstone = { ...(existing || { id }), deleted: true, synced: false } as T;
+                return commit([...records.filter(r => r.id !== id), tombstone]);
+            });
+            await flush();
+        },
+
+        getConflicts: () => conflicts,
+
+        resolveConflict: async (id, keep) => {
+            const conflict = await run(async () => {
+                const found = conflicts.find(c => c.id === id);
+                if (found) await saveConflicts(conflicts.filter(c => c.id !== id));
+                return found;
+            });
+            if (!conflict || conflict.kept === keep) return;
+
+            // Re-apply the version the user picked as the newest write
+            const chosen = keep === 'local' ? conflict.local : conflict.remote;
+            await engine.update(id, { ...stripBookkeeping(chosen), updated_at: Date.now() });
+        },
+    };
+
+    // Signing out drops the in-memory copy too; queued steps finish first so none writes it back
+    subscribeUserDataWipe(() => run(() => {
+        if (retryTimer) {
+            clearTimeout(retryTimer);
+            retryTimer = null;
+        }
+        retryAttempt = 0;
+        records = [];
+        conflicts = [];
+        emit();
+        notifyConflicts();
+    }));
+
+    engines.add(engine);
+    return engine;
+}
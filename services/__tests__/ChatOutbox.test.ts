@@ -0,0 +1,121 @@
+// Kept outside the module registry so stored data survives a simulated restart
+const mockStorage = new Map<string, string>();
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+    getItem: jest.fn(async (key: string) => mockStorage.get(key) ?? null),
+    setItem: jest.fn(async (key: string, value: string) => { mockStorage.set(key, value); }),
+}));
+
+jest.mock('@/services/api', () => ({
+    post: jest.fn(),
+}));
+
+type Outbox = typeof import('../ChatOutbox');
+
+const OUTBOX_KEY = 'chat_outbox_v1';
+
+const message = (id: string, threadId = 'user-1') => ({
+    id,
+    threadId,
+    endpoint: '/messages' as const,
+    payload: { receiver_id: 1, content: id },
+    text: id,
+    createdAt: new Date().toISOString(),
+});
+
+describe('ChatOutbox', () => {
+    let outbox: Outbox;
+    let api: { post: jest.Mock };
+
+    beforeEach(async () => {
+        // The outbox keeps its queue in module state; start every test from storage
+        jest.resetModules();
+        mockStorage.clear();
+        jest.spyOn(console, 'error').mockImplementation(() => { });
+        outbox = require('../ChatOutbox');
+        api = require('@/services/api');
+        api.post.mockResolvedValue({ data: {} });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('sends and removes a queued message', async () => {
+        const listener = jest.fn();
+        outbox.subscribeOutbox(listener);
+
+        await outbox.enqueueMessage(message('a'));
+
+        expect(api.post).toHaveBeenCalledWith('/messages', { receiver_id: 1, content: 'a', client_id: 'a' });
+        expect(listener).toHaveBeenCalledWith(expect.objectContaining({ type: 'sent', threadId: 'user-1' }));
+        expect(await outbox.getOutbox('user-1')).toEqual([]);
+    });
+
+    it('keeps a failed message and holds back the rest of its thread', async () => {
+        api.post.mockRejectedValue(new Error('Network Error'));
+        await outbox.enqueueMessage(message('a'));
+
+        api.post.mockClear();
+        api.post.mockImplementation(async (_url, body) => {
+            if (body.content === 'a') throw new Error('Network Error');
+            return { data: {} };
+        });
+        await outbox.enqueueMessage(message('b'));
+        await outbox.enqueueMessage(message('other', 'user-2'));
+
+        // 'b' never jumps ahead of 'a'; other threads are unaffected
+        expect(api.post.mock.calls.map(([, body]) => body.content)).toEqual(['a', 'other']);
+        expect((await outbox.getOutbox('user-1')).map(i => [i.id, i.status])).toEqual([['a', 'failed'], ['b', 'pending']]);
+        expect(await outbox.getOutbox('user-2')).toEqual([]);
+    });
+
+    it('delivers in order once the failed message is retried', async () => {
+        api.post.mockRejectedValueOnce(new Error('Network Error'));
+        await outbox.enqueueMessage(message('a'));
+        api.post.mockRejectedValueOnce(new Error('Network Error'));
+        await outbox.enqueueMessage(message('b'));
+
+        api.post.mockClear();
+        await outbox.retryMessage('a');
+
+        expect(api.post.mock.calls.map(([, body]) => body.content)).toEqual(['a', 'b']);
+        expect(await outbox.getOutbox('user-1')).toEqual([]);
+    });
+
+    it('survives a restart and flushes when connectivity returns', async () => {
+        api.post.mockRejectedValue(new Error('Network Error'));
+        await outbox.enqueueMessage(message('a'));
+        expect(JSON.parse(mockStorage.get(OUTBOX_KEY)!)).toHaveLength(1);
+
+        jest.resetModules();
+        outbox = require('../ChatOutbox');
+        api = require('@/services/api');
+        api.post.mockResolvedValue({ data: {} });
+
+        await outbox.flushOutbox();
+
+        expect(api.post).toHaveBeenCalledWith('/messages', { receiver_id: 1, content: 'a', client_id: 'a' });
+        expect(JSON.parse(mockStorage.get(OUTBOX_KEY)!)).toEqual([]);
+    });
+
+    it('resends with the same client id after a lost response', async () => {
+        // The server stored the message, but the reply never arrived
+        api.post.mockRejectedValueOnce(new Error('timeout of 10000ms exceeded'));
+        await outbox.enqueueMessage(message('a'));
+
+        await outbox.retryMessage('a');
+
+        expect(api.post.mock.calls.map(([, body]) => body.client_id)).toEqual(['a', 'a']);
+        expect(await outbox.getOutbox('user-1')).toEqual([]);
+    });
+
+    it('discards a message so the thread can move on', async () => {
+        api.post.mockRejectedValue(new Error('Network Error'));
+        await outbox.enqueueMessage(message('a'));
+
+        await outbox.discardMessage('a');
+
+        expect(await outbox.getOutbox('user-1')).toEqual([]);
+    });
+});
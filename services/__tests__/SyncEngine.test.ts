@@ -0,0 +1,293 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import api from '@/services/api';
+import { createSyncEngine, flushAllSyncEngines, getRetryDelay, getSyncConflicts, resolveSyncConflict, SyncRecord } from '../SyncEngine';
+import * as v from '../validation';
+import { wipeUserData } from '../storageRegistry';
+
+jest.mock('@/services/api', () => ({
+    get: jest.fn(),
+    post: jest.fn(),
+    put: jest.fn(),
+    delete: jest.fn(),
+}));
+
+type Item = SyncRecord & { name: string };
+
+// Engines register globally, so each test gets its own storage key
+let STORAGE_KEY = 'test_items';
+let engineCount = 0;
+
+const createEngine = () => createSyncEngine<Item>({
+    name: 'items',
+    storageKey: STORAGE_KEY,
+    endpoint: '/items',
+    toRemote: (item) => ({ client_id: item.id, name: item.name, updated_at: item.updated_at }),
+    fromRemote: (row: any) => ({ id: row.client_id, name: row.name, updated_at: row.updated_at }),
+    describe: (item) => item.name,
+});
+
+const stored = async (): Promise<Item[]> => JSON.parse((await AsyncStorage.getItem(STORAGE_KEY)) || '[]');
+
+describe('SyncEngine', () => {
+    beforeEach(async () => {
+        // Failed pushes schedule retries; keep those timers out of real time
+        jest.useFakeTimers();
+        jest.clearAllMocks();
+        await AsyncStorage.clear();
+        STORAGE_KEY = `test_items_${++engineCount}`;
+        (api.get as jest.Mock).mockResolvedValue({ data: [] });
+        (api.post as jest.Mock).mockResolvedValue({});
+        (api.put as jest.Mock).mockResolvedValue({});
+        (api.delete as jest.Mock).mockResolvedValue({});
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('pushes pending records on refresh and marks them synced', async () => {
+        await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify([{ id: 'a', name: 'Apple', synced: false }]));
+        (api.get as jest.Mock).mockResolvedValue({ data: [{ client_id: 'a', name: 'Apple' }] });
+
+        const engine = createEngine();
+        await engine.refresh();
+
+        expect(api.post).toHaveBeenCalledWith('/items', { client_id: 'a', name: 'Apple', updated_at: undefined });
+        expect(engine.getItems()).toEqual([{ id: 'a', name: 'Apple', synced: true }]);
+        expect(await stored()).toEqual([{ id: 'a', name: 'Apple', synced: true }]);
+    });
+
+    it('keeps unsynced local records and drops synced ones missing remotely', async () => {
+        await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify([
+            { id: 'gone', name: 'Deleted elsewhere', synced: true },
+            { id: 'local', name: 'Offline', synced: false },
+        ]));
+        (api.post as jest.Mock).mockRejectedValue(new Error('Network Error'));
+        (api.get as jest.Mock).mockResolvedValue({ data: [{ client_id: 'remote', name: 'From server' }] });
+
+        const engine = createEngine();
+        await engine.refresh();
+
+        expect(engine.getItems()).toEqual(expect.arrayContaining([
+            { id: 'remote', name: 'From server', synced: true },
+            { id: 'local', name: 'Offline', synced: false },
+        ]));
+        expect(engine.getItems().find(i => i.id === 'gone')).toBeUndefined();
+    });
+
+    it('drops rows that fail the schema without touching the cached copy', async () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => { });
+        await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify([
+            { id: 'broken', name: 'Cached', synced: true },
+        ]));
+        (api.get as jest.Mock).mockResolvedValue({
+            data: [
+                { client_id: 'broken', name: 42 },
+                { client_id: 'fine', name: 'Fine' },
+            ]
+        });
+
+        const engine = createSyncEngine<Item>({
+            name: 'items',
+            storageKey: STORAGE_KEY,
+            endpoint: '/items',
+            toRemote: (item) => ({ client_id: item.id, name: item.name }),
+            fromRemote: (row: any) => ({ id: row.client_id, name: row.name }),
+            schema: v.object<{ client_id: string; name: string }>({ client_id: v.string, name: v.string }),
+        });
+        await engine.refresh();
+
+        expect(engine.getItems()).toEqual(expect.arrayContaining([
+            { id: 'broken', name: 'Cached', synced: true },
+            { id: 'fine', name: 'Fine', synced: true },
+        ]));
+        expect(v.getValidationFailures()).toEqual([
+            expect.objectContaining({ endpoint: 'GET /items', count: 1, problem: 'name: expected string, got number' })
+        ]);
+        v.clearValidationFailures();
+        warn.mockRestore();
+    });
+
+    it('updates records the server already has with PUT', async () => {
+        const engine = createEngine();
+        await engine.add({ id: 'a', name: 'Apple' });
+        await engine.update('a', { name: 'Green apple' });
+
+        expect(api.put).toHaveBeenCalledWith('/items/a', { client_id: 'a', name: 'Green apple', updated_at: undefined });
+        expect(engine.getItems()).toEqual([{ id: 'a', name: 'Green apple', synced: true }]);
+    });
+
+    it('notifies subscribers on every change', async () => {
+        const engine = createEngine();
+        const listener = jest.fn();
+        engine.subscribe(listener);
+
+        await engine.add({ id: 'a', name: 'Apple' });
+
+        expect(listener).toHaveBeenCalledWith([{ id: 'a', name: 'Apple', synced: false }]);
+        expect(listener).toHaveBeenLastCalledWith([{ id: 'a', name: 'Apple', synced: true }]);
+    });
+
+    it('retries failed pushes with exponential backoff', async () => {
+        (api.post as jest.Mock)
+            .mockRejectedValueOnce(new Error('Network Error'))
+            .mockRejectedValueOnce(new Error('Network Error'))
+            .mockResolvedValue({});
+
+        const engine = createEngine();
+        expect(await engine.add({ id: 'a', name: 'Apple' })).toBe(false);
+        expect(api.post).toHaveBeenCalledTimes(1);
+
+        await jest.advanceTimersByTimeAsync(getRetryDelay(0));
+        expect(api.post).toHaveBeenCalledTimes(2);
+
+        // Second failure doubles the wait
+        await jest.advanceTimersByTimeAsync(getRetryDelay(0));
+        expect(api.post).toHaveBeenCalledTimes(2);
+        await jest.advanceTimersByTimeAsync(getRetryDelay(1) - getRetryDelay(0));
+        expect(api.post).toHaveBeenCalledTimes(3);
+
+        expect(engine.getItems()).toEqual([{ id: 'a', name: 'Apple', synced: true }]);
+    });
+
+    it('keeps offline deletes as tombstones until the server confirms them', async () => {
+        (api.get as jest.Mock).mockResolvedValue({ data: [{ client_id: 'a', name: 'Apple' }] });
+        const engine = createEngine();
+        await engine.refresh();
+
+        (api.delete as jest.Mock).mockRejectedValue(new Error('Network Error'));
+        await engine.remove('a');
+
+        expect(engine.getItems()).toEqual([]);
+        expect(await stored()).toEqual([{ id: 'a', name: 'Apple', synced: false, deleted: true }]);
+
+        // The server still has it, but the pending delete wins the merge
+        await engine.refresh();
+        expect(engine.getItems()).toEqual([]);
+
+        // Reconnect replays the delete
+        (api.delete as jest.Mock).mockResolvedValue({});
+        await flushAllSyncEngines();
+
+        expect(api.delete).toHaveBeenLastCalledWith('/items/a');
+        expect(await stored()).toEqual([]);
+    });
+
+    it('treats 404 on delete as already deleted', async () => {
+        const engine = createEngine();
+        (api.delete as jest.Mock).mockRejectedValue({ response: { status: 404 } });
+
+        await engine.remove('missing');
+
+        expect(await stored()).toEqual([]);
+    });
+
+    it('does not resurrect a delete confirmed while a fetch was in flight', async () => {
+        const engine = createEngine();
+        await engine.add({ id: 'a', name: 'Apple' });
+
+        (api.get as jest.Mock).mockImplementation(async () => {
+            // Delete lands after the server built its response
+            await engine.remove('a');
+            return { data: [{ client_id: 'a', name: 'Apple' }] };
+        });
+        await engine.refresh();
+
+        expect(api.delete).toHaveBeenCalledWith('/items/a');
+        expect(engine.getItems()).toEqual([]);
+    });
+
+    it('shares one refresh between callers that overlap', async () => {
+        const engine = createEngine();
+
+        await Promise.all([engine.refresh(), engine.refresh(), engine.refresh()]);
+        expect(api.get).toHaveBeenCalledTimes(1);
+
+        await engine.refresh();
+        expect(api.get).toHaveBeenCalledTimes(2);
+    });
+
+    describe('conflicts', () => {
+        // Synced at t=100, then edited offline at t=200
+        const setup = async (remote: { name: string; updated_at: number }) => {
+            (api.get as jest.Mock).mockResolvedValue({ data: [{ client_id: 'a', name: 'Apple', updated_at: 100 }] });
+            const engine = createEngine();
+            await engine.refresh();
+
+            (api.put as jest.Mock).mockRejectedValueOnce(new Error('Network Error'));
+            await engine.update('a', { name: 'Local edit', updated_at: 200 });
+
+            // The server now holds `remote` until something is written to it
+            let server: any = { client_id: 'a', ...remote };
+            (api.get as jest.Mock).mockImplementation(async () => ({ data: [server] }));
+            (api.put as jest.Mock).mockImplementation(async (_url, body) => { server = body; });
+            return engine;
+        };
+
+        it('pushes a pending edit when the server copy is unchanged', async () => {
+            const engine = await setup({ name: 'Apple', updated_at: 100 });
+            await engine.refresh();
+
+            expect(api.put).toHaveBeenLastCalledWith('/items/a', { client_id: 'a', name: 'Local edit', updated_at: 200 });
+            expect(engine.getItems()[0]).toMatchObject({ name: 'Local edit', synced: true });
+            expect(engine.getConflicts()).toEqual([]);
+        });
+
+        it('keeps the newer remote edit and records the conflict', async () => {
+            const engine = await setup({ name: 'Remote edit', updated_at: 300 });
+            (api.put as jest.Mock).mockClear();
+            await engine.refresh();
+
+            expect(api.put).not.toHaveBeenCalled();
+            expect(engine.getItems()).toEqual([{ id: 'a', name: 'Remote edit', updated_at: 300, synced: true }]);
+            expect(engine.getConflicts()).toEqual([expect.objectContaining({
+                id: 'a',
+                kept: 'remote',
+                localLabel: 'Local edit',
+                remoteLabel: 'Remote edit',
+            })]);
+            expect(getSyncConflicts()).toContainEqual(expect.objectContaining({ collection: 'items', id: 'a' }));
+        });
+
+        it('keeps the newer local edit over an older remote one', async () => {
+            const engine = await setup({ name: 'Remote edit', updated_at: 150 });
+            await engine.refresh();
+
+            expect(api.put).toHaveBeenLastCalledWith('/items/a', { client_id: 'a', name: 'Local edit', updated_at: 200 });
+            expect(engine.getItems()[0]).toMatchObject({ name: 'Local edit', synced: true });
+            expect(engine.getConflicts()).toEqual([expect.objectContaining({ kept: 'local' })]);
+        });
+
+        it('re-applies the version picked in review', async () => {
+            const engine = await setup({ name: 'Remote edit', updated_at: 300 });
+            await engine.refresh();
+
+            await resolveSyncConflict(engine.getConflicts()[0], 'local');
+
+            expect(engine.getConflicts()).toEqual([]);
+            expect(api.put).toHaveBeenLastCalledWith('/items/a', expect.objectContaining({ name: 'Local edit' }));
+            expect(engine.getItems()[0].updated_at).toBeGreaterThan(300);
+            expect(JSON.parse((await AsyncStorage.getItem(`${STORAGE_KEY}_conflicts`)) || '[]')).toEqual([]);
+        });
+    });
+
+    it('forgets the previous account in memory when user data is wiped', async () => {
+        (api.post as jest.Mock).mockRejectedValue(new Error('offline'));
+        const engine = createEngine();
+        await engine.add({ id: 'a', name: 'Apple' });
+
+        await wipeUserData([{ key: STORAGE_KEY, owner: 'test', scope: 'user', version: 1 }]);
+
+        expect(engine.getItems()).toEqual([]);
+        expect(await AsyncStorage.getItem(STORAGE_KEY)).toBeNull();
+        // The retry scheduled for the failed push is cancelled with it
+        (api.post as jest.Mock).mockClear();
+        await jest.advanceTimersByTimeAsync(10 * 60 * 1000);
+        expect(api.post).not.toHaveBeenCalled();
+    });
+
+    it('caps the retry delay', () => {
+        expect(getRetryDelay(1)).toBe(2 * getRetryDelay(0));
+        expect(getRetryDelay(50)).toBe(5 * 60 * 1000);
+    });
+});
@@ -0,0 +1,153 @@
+import { AxiosError, AxiosHeaders } from 'axios';
+import api from '@/services/api';
+import { clearValidationFailures, getValidationFailures } from '../validation';
+import {
+    getDirectMessages,
+    getMe,
+    getSociusCompanions,
+    getSociusHistory,
+    getWorkoutStats,
+    normalizeApiError,
+    sendFriendRequest,
+    toBookmarkRow,
+    toCalorieRow,
+    fromCalorieRow,
+    fromBookmarkRow
+} from '../apiClient';
+
+jest.mock('@/services/api', () => ({
+    get: jest.fn(),
+    post: jest.fn(),
+    put: jest.fn(),
+    patch: jest.fn(),
+    delete: jest.fn(),
+}));
+
+const axiosError = (status?: number, data?: unknown) => {
+    const config = { headers: new AxiosHeaders() };
+    return new AxiosError(
+        'Request failed',
+        status ? 'ERR_BAD_REQUEST' : 'ERR_NETWORK',
+        config,
+        undefined,
+        status ? { status, statusText: '', data, headers: {}, config } : undefined
+    );
+};
+
+describe('apiClient', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('resolves with the response body', async () => {
+        const companion = { id: 1, name: 'Grace', avatar: 'socius-avatar-1', role: 'christian' };
+        (api.get as jest.Mock).mockResolvedValue({ data: [companion] });
+
+        await expect(getSociusCompanions()).resolves.toEqual([companion]);
+        expect(api.get).toHaveBeenCalledWith('/friends/socius');
+    });
+
+    it('treats an empty list response as an empty array', async () => {
+        (api.get as jest.Mock).mockResolvedValue({ data: null });
+
+        await expect(getSociusCompanions({ fresh: true })).resolves.toEqual([]);
+        expect(api.get).toHaveBeenCalledWith('/friends/socius', { params: { _t: expect.any(Number) } });
+    });
+
+    it('maps chat history from both backends to the same shape', async () => {
+        (api.get as jest.Mock)
+            .mockResolvedValueOnce({ data: [{ id: 5, sender_id: 1, receiver_id: 2, content: 'hi', created_at: '2026-01-01T00:00:00', is_me: true }] })
+            .mockResolvedValueOnce({ data: [{ id: 6, content: 'hello', message_group_id: 'socius-1', created_at: '2026-01-01T00:00:01', message_author: 'assistant' }] });
+
+        await expect(getDirectMessages(2)).resolves.toEqual([
+            { id: 5, content: 'hi', created_at: '2026-01-01T00:00:00', fromMe: true }
+        ]);
+        await expect(getSociusHistory('socius-1', 40)).resolves.toEqual([
+            { id: 6, content: 'hello', created_at: '2026-01-01T00:00:01', fromMe: false }
+        ]);
+        expect(api.get).toHaveBeenNthCalledWith(1, '/messages/2');
+        expect(api.get).toHaveBeenNthCalledWith(2, '/history', { params: { message_group_id: 'socius-1', before_id: 40 } });
+    });
+
+    it('maps physical stats and sync rows between snake_case and the app models', async () => {
+        (api.get as jest.Mock).mockResolvedValue({
+            data: { weight: 70, height: 175, age: 30, gender: 'male', activity_level: 'light' }
+        });
+
+        await expect(getWorkoutStats()).resolves.toEqual({
+            weight: 70, height: 175, age: 30, gender: 'male', activityLevel: 'light'
+        });
+
+        const entry = { id: 'c1', food: 'Rice', calories: 200, date: '2026-01-01', timestamp: 1, updated_at: 2 };
+        expect(toCalorieRow(entry)).toEqual({
+            client_id: 'c1', food: 'Rice', calories: 200, date: '2026-01-01', timestamp: 1, updated_at: 2,
+            protein: null, carbs: null, fat: null, fiber: null, sugar: null, meal: null
+        });
+        expect(fromCalorieRow(toCalorieRow(entry))).toEqual(entry);
+
+        const withMacros = { ...entry, macros: { protein: 4.5, carbs: 44 } };
+        expect(toCalorieRow(withMacros)).toMatchObject({ protein: 4.5, carbs: 44, fat: null });
+        expect(fromCalorieRow(toCalorieRow(withMacros))).toEqual(withMacros);
+
+        const lunch = { ...entry, meal: 'lunch' as const };
+        expect(toCalorieRow(lunch)).toMatchObject({ meal: 'lunch' });
+        expect(fromCalorieRow(toCalorieRow(lunch))).toEqual(lunch);
+
+        const bookmark = { id: 'b1', version: 'NIV', bookIndex: 0, chapterIndex: 2, createdAt: '2026-01-01T00:00:00.000Z', label: 'Genesis 3', updated_at: 5 };
+        expect(toBookmarkRow(bookmark)).toMatchObject({ client_id: 'b1', book_index: 0, chapter_index: 2, updated_at: 5 });
+        expect(fromBookmarkRow(toBookmarkRow(bookmark))).toEqual(bookmark);
+    });
+
+    it('drops list rows that do not match the schema', async () => {
+        jest.spyOn(console, 'warn').mockImplementation(() => { });
+        clearValidationFailures();
+        (api.get as jest.Mock).mockResolvedValue({
+            data: [
+                { id: 1, name: 'Grace', avatar: 'socius-avatar-1', role: 'christian' },
+                { id: 'two', name: 'Broken', avatar: 'socius-avatar-2', role: 'workout' },
+            ]
+        });
+
+        await expect(getSociusCompanions()).resolves.toEqual([
+            { id: 1, name: 'Grace', avatar: 'socius-avatar-1', role: 'christian' }
+        ]);
+        expect(getValidationFailures()).toEqual([
+            expect.objectContaining({ endpoint: 'GET /friends/socius', problem: 'id: expected number, got string' })
+        ]);
+        (console.warn as jest.Mock).mockRestore();
+    });
+
+    it('rejects a single object that does not match instead of returning it', async () => {
+        jest.spyOn(console, 'warn').mockImplementation(() => { });
+        (api.get as jest.Mock).mockResolvedValue({ data: { username: 42 } });
+
+        await expect(getMe()).rejects.toMatchObject({
+            message: 'Unexpected response from GET /users/me',
+            status: null,
+            isNetworkError: false
+        });
+        (console.warn as jest.Mock).mockRestore();
+    });
+
+    it('rejects with the backend detail as the message', async () => {
+        (api.post as jest.Mock).mockRejectedValue(axiosError(400, { detail: 'Already friends' }));
+
+        await expect(sendFriendRequest('sam')).rejects.toMatchObject({
+            message: 'Already friends',
+            detail: 'Already friends',
+            status: 400,
+            isNetworkError: false
+        });
+    });
+
+    it('normalizes network failures and unknown errors', () => {
+        expect(normalizeApiError(axiosError())).toMatchObject({ status: null, isNetworkError: true });
+        // Validation errors carry a list in `detail`; keep the generic message
+        expect(normalizeApiError(axiosError(422, { detail: [{ msg: 'bad' }] }))).toMatchObject({
+            message: 'Request failed',
+            detail: undefined,
+            status: 422
+        });
+        expect(normalizeApiError('boom')).toMatchObject({ message: 'boom', status: null, isNetworkError: false });
+    });
+});
@@ -0,0 +1,139 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as LocalAuthentication from 'expo-local-authentication';
+import { wipeUserData } from '../storageRegistry';
+import {
+    getAppLockState,
+    getLockoutDelay,
+    handleAppStateChange,
+    isAppLocked,
+    loadAppLock,
+    lockApps,
+    setAppLockPin,
+    unlockWithBiometrics,
+    unlockWithPin,
+    updateAppLockSettings
+} from '../appLock';
+
+// Kept outside the module registry so the PIN and lockout survive a simulated restart
+const mockSecureStore = new Map<string, string>();
+
+jest.mock('expo-secure-store', () => ({
+    getItemAsync: jest.fn(async (key: string) => mockSecureStore.get(key) ?? null),
+    setItemAsync: jest.fn(async (key: string, value: string) => { mockSecureStore.set(key, value); }),
+    deleteItemAsync: jest.fn(async (key: string) => { mockSecureStore.delete(key); }),
+}));
+
+jest.mock('expo-local-authentication', () => ({
+    hasHardwareAsync: jest.fn().mockResolvedValue(true),
+    isEnrolledAsync: jest.fn().mockResolvedValue(true),
+    authenticateAsync: jest.fn().mockResolvedValue({ success: true }),
+}));
+
+describe('appLock', () => {
+    beforeAll(async () => {
+        await loadAppLock();
+    });
+
+    beforeEach(async () => {
+        jest.clearAllMocks();
+        await updateAppLockSettings({ apps: { passwords: true, diary: false, notes: false }, timeoutMs: 60_000, biometrics: true });
+        await setAppLockPin('2580');
+        lockApps();
+    });
+
+    it('locks only the apps turned on in settings and opens them with the PIN', async () => {
+        expect(isAppLocked('passwords')).toBe(true);
+        expect(isAppLocked('diary')).toBe(false);
+        expect(JSON.parse((await AsyncStorage.getItem('app_lock_settings'))!).apps.passwords).toBe(true);
+
+        await expect(unlockWithPin('0000')).resolves.toBe(false);
+        expect(isAppLocked('passwords')).toBe(true);
+
+        await expect(unlockWithPin('2580')).resolves.toBe(true);
+        expect(isAppLocked('passwords')).toBe(false);
+    });
+
+    it('refuses every PIN for a while after too many wrong ones', async () => {
+        for (let i = 0; i < 5; i++) {
+            await unlockWithPin('1111');
+        }
+
+        expect(getAppLockState().retryAt).toBeGreaterThan(Date.now());
+        await expect(unlockWithPin('2580')).resolves.toBe(false);
+        expect(isAppLocked('passwords')).toBe(true);
+    });
+
+    it('keeps the lockout after a restart', async () => {
+        for (let i = 0; i < 5; i++) {
+            await unlockWithPin('1111');
+        }
+        const { retryAt } = getAppLockState();
+
+        let reloaded!: typeof import('../appLock');
+        jest.isolateModules(() => {
+            reloaded = require('../appLock');
+        });
+        await reloaded.loadAppLock();
+
+        expect(reloaded.getAppLockState().retryAt).toBe(retryAt);
+        await expect(reloaded.unlockWithPin('2580')).resolves.toBe(false);
+    });
+
+    it('waits longer after every lockout', async () => {
+        let clock = Date.UTC(2026, 0, 1);
+        const now = jest.spyOn(Date, 'now').mockImplementation(() => clock);
+
+        // Five wrong PINs, then wait the lockout out; returns how long it was
+        const lockOut = async () => {
+            for (let i = 0; i < 5; i++) {
+                await unlockWithPin('1111');
+            }
+            const wait = getAppLockState().retryAt! - clock;
+            clock += wait;
+            return wait;
+        };
+
+        expect(await lockOut()).toBe(getLockoutDelay(1));
+        expect(await lockOut()).toBe(2 * getLockoutDelay(1));
+
+        // A right PIN starts the count over
+        await expect(unlockWithPin('2580')).resolves.toBe(true);
+        expect(await lockOut()).toBe(getLockoutDelay(1));
+        now.mockRestore();
+    });
+
+    it('locks again only after the app stayed in the background past the timeout', async () => {
+        await unlockWithPin('2580');
+
+        handleAppStateChange('background', 0);
+        handleAppStateChange('active', 30_000);
+        expect(isAppLocked('passwords')).toBe(false);
+
+        handleAppStateChange('background', 100_000);
+        handleAppStateChange('active', 160_000);
+        expect(isAppLocked('passwords')).toBe(true);
+
+        await updateAppLockSettings({ timeoutMs: 0 });
+        await unlockWithPin('2580');
+        handleAppStateChange('background', 200_000);
+        expect(isAppLocked('passwords')).toBe(true);
+    });
+
+    it('unlocks with biometrics only when they are turned on', async () => {
+        await updateAppLockSettings({ biometrics: false });
+        await expect(unlockWithBiometrics('Unlock')).resolves.toBe(false);
+        expect(LocalAuthentication.authenticateAsync).not.toHaveBeenCalled();
+
+        await updateAppLockSettings({ biometrics: true });
+        await expect(unlockWithBiometrics('Unlock')).resolves.toBe(true);
+        expect(isAppLocked('passwords')).toBe(false);
+    });
+
+    it('forgets the PIN and lock settings when user data is wiped', async () => {
+        await wipeUserData();
+
+        expect(getAppLockState()).toMatchObject({ hasPin: false, unlocked: false });
+        expect(isAppLocked('passwords')).toBe(false);
+        await expect(unlockWithPin('2580')).resolves.toBe(false);
+    });
+});
@@ -0,0 +1,111 @@
+import EventSource from 'react-native-sse';
+import * as SecureStore from 'expo-secure-store';
+import { createNotificationStream, getReconnectDelay, hasStreamCursor, resetStreamCursor } from '../eventSource';
+
+jest.mock('react-native-sse', () => jest.fn().mockImplementation(() => {
+    const listeners: Record<string, (event: any) => void> = {};
+    return {
+        listeners,
+        OPEN: 1,
+        ERROR: 3,
+        status: 1,
+        addEventListener: jest.fn((type, listener) => { listeners[type] = listener; }),
+        close: jest.fn(),
+    };
+}));
+
+jest.mock('expo-secure-store', () => ({
+    getItemAsync: jest.fn(),
+}));
+
+const latestSource = () => {
+    const results = (EventSource as unknown as jest.Mock).mock.results;
+    return results[results.length - 1].value;
+};
+
+describe('eventSource', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        resetStreamCursor();
+        (SecureStore.getItemAsync as jest.Mock).mockResolvedValue('token');
+    });
+
+    it('resumes from the last received event id on reconnect', async () => {
+        const onMessage = jest.fn();
+        await createNotificationStream(onMessage);
+
+        const [firstUrl, firstOptions] = (EventSource as unknown as jest.Mock).mock.calls[0];
+        expect(firstUrl).not.toContain('last_event_id');
+        expect(firstOptions.headers['Last-Event-ID']).toBeUndefined();
+
+        latestSource().listeners.message({ data: JSON.stringify({ type: 'dm' }), lastEventId: '42' });
+        expect(onMessage).toHaveBeenCalledWith({ type: 'dm' });
+        expect(hasStreamCursor()).toBe(true);
+
+        await createNotificationStream(onMessage);
+
+        const [url, options] = (EventSource as unknown as jest.Mock).mock.calls[1];
+        expect(url).toContain('last_event_id=42');
+        expect(options.headers['Last-Event-ID']).toBe('42');
+    });
+
+    it('leaves reconnecting to the caller', async () => {
+        await createNotificationStream(jest.fn());
+
+        const [, options] = (EventSource as unknown as jest.Mock).mock.calls[0];
+        expect(options.pollingInterval).toBe(0);
+    });
+
+    it('reconnects with backoff after the server ends the stream normally', async () => {
+        jest.useFakeTimers();
+        const reconnect = jest.fn(() => {
+            setTimeout(() => createNotificationStream(jest.fn(), reconnect), getReconnectDelay(0));
+        });
+        await createNotificationStream(jest.fn(), reconnect);
+        latestSource().listeners.message({ data: JSON.stringify({ type: 'dm' }), lastEventId: '7' });
+
+        // The response finished with a 200: react-native-sse reaches _pollAgain and nothing else
+        latestSource()._pollAgain(0, false);
+        expect(reconnect).toHaveBeenCalledWith(expect.objectContaining({ type: 'close' }));
+
+        await jest.advanceTimersByTimeAsync(1000);
+        const [, options] = (EventSource as unknown as jest.Mock).mock.calls[1];
+        expect(options.headers['Last-Event-ID']).toBe('7');
+        jest.useRealTimers();
+    });
+
+    it('does not report an error response twice', async () => {
+        const onError = jest.fn();
+        await createNotificationStream(jest.fn(), onError);
+
+        const source = latestSource();
+        source.status = source.ERROR;
+        source._pollAgain(0, false);
+
+        expect(onError).not.toHaveBeenCalled();
+    });
+
+    it('reports the stream opening', async () => {
+        const onOpen = jest.fn();
+        await createNotificationStream(jest.fn(), jest.fn(), onOpen);
+
+        latestSource().listeners.open({ type: 'open' });
+
+        expect(onOpen).toHaveBeenCalled();
+    });
+
+    it('keeps reconnect delays jittered and capped', () => {
+        const random = jest.spyOn(Math, 'random');
+
+        random.mockReturnValue(0);
+        expect(getReconnectDelay(0)).toBe(500);
+        expect(getReconnectDelay(3)).toBe(4000);
+
+        random.mockReturnValue(0.999);
+        expect(getReconnectDelay(3)).toBeLessThanOrEqual(8000);
+        expect(getReconnectDelay(20)).toBeLessThanOrEqual(60 * 1000);
+        expect(getReconnectDelay(20)).toBeGreaterThanOrEqual(30 * 1000);
+
+        random.mockRestore();
+    });
+});
@@ -0,0 +1,99 @@
+import axios from 'axios';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { normalizeApiError } from '../apiClient';
+import { mockAdapter, resetMockBackend, subscribeMockStream } from '../mockBackend';
+import { arrayOf, validateOne } from '../validation';
+import { diaryEntrySchema, friendSchema, sociusCompanionSchema, unreadCountsSchema } from '../schemas';
+import type { NotificationEvent } from '../eventSource';
+
+jest.mock('@/services/api', () => ({}));
+
+const client = axios.create({ baseURL: 'mock://socius', adapter: mockAdapter });
+
+describe('mockBackend', () => {
+    beforeEach(async () => {
+        await AsyncStorage.clear();
+        await resetMockBackend();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('serves the demo account in the shapes the client validates', async () => {
+        const companions = (await client.get('/friends/socius')).data;
+        const friends = (await client.get('/friends')).data;
+        const unread = (await client.get('/notifications/unread')).data;
+
+        expect(validateOne('test', companions, arrayOf(sociusCompanionSchema))).toBeNull();
+        expect(validateOne('test', friends, arrayOf(friendSchema))).toBeNull();
+        expect(validateOne('test', unread, unreadCountsSchema)).toBeNull();
+        expect(unread).toMatchObject({ friend_requests: 1, unread_messages: 1 });
+    });
+
+    it('persists changes across launches', async () => {
+        const created = (await client.post('/diary', { content: 'Offline day', date: '2026-10-18' })).data;
+        expect(validateOne('test', created, diaryEntrySchema)).toBeNull();
+
+        const saved = await AsyncStorage.getItem('mock_backend_state');
+        expect(JSON.parse(saved!).diary).toContainEqual(created);
+
+        // A fresh module registry stands in for the next launch
+        let relaunched: typeof import('../mockBackend');
+        let storage: typeof AsyncStorage;
+        jest.isolateModules(() => {
+            storage = require('@react-native-async-storage/async-storage');
+            relaunched = require('../mockBackend');
+        });
+        await storage!.setItem('mock_backend_state', saved!);
+
+        const diary = (await axios.create({ adapter: relaunched!.mockAdapter }).get('/diary')).data;
+        expect(diary).toContainEqual(created);
+    });
+
+    it('upserts synced rows by client_id', async () => {
+        await client.post('/calories', { client_id: 'c1', food: 'Rice', calories: 200, date: '2026-10-18', timestamp: 1 });
+        await client.post('/calories', { client_id: 'c1', food: 'Rice', calories: 300, date: '2026-10-18', timestamp: 1 });
+        await expect(client.delete('/passwords/missing')).rejects.toMatchObject({ response: { status: 404 } });
+
+        const rows = (await client.get('/calories')).data;
+        expect(rows).toEqual([expect.objectContaining({ client_id: 'c1', calories: 300, updated_at: expect.any(Number) })]);
+    });
+
+    it('streams a Socius reply with a widget after /ask', async () => {
+        jest.useFakeTimers();
+        const events: NotificationEvent[] = [];
+        const unsubscribe = subscribeMockStream(event => events.push(event));
+
+        await client.post('/ask', { q_text: 'I ate bibimbap for lunch', message_group_id: 'socius-20' });
+        await jest.advanceTimersByTimeAsync(10000);
+        unsubscribe();
+
+        const deltas = events.filter(e => e.type === 'delta').map(e => e.data?.delta).join('');
+        const done = events.find(e => e.type === 'done');
+        expect(deltas).toBe('Sounds tasty! Pick the portion closest to what you had.');
+        expect(done?.data?.content).toContain('"type":"calorie_event"');
+
+        const history = (await client.get('/history', { params: { message_group_id: 'socius-20' } })).data;
+        expect(history.slice(-2)).toEqual([
+            expect.objectContaining({ message_author: 'user', content: 'I ate bibimbap for lunch' }),
+            expect.objectContaining({ id: done?.data?.id, message_author: 'assistant' }),
+        ]);
+    });
+
+    it('stores a resent chat message once', async () => {
+        const send = { receiver_id: 2, content: 'Sent twice?', client_id: 'local-1' };
+        const first = (await client.post('/messages', send)).data;
+        const again = (await client.post('/messages', send)).data;
+
+        expect(again).toEqual(first);
+        const thread = (await client.get('/messages/2')).data;
+        expect(thread.filter((m: { content: string }) => m.content === 'Sent twice?')).toHaveLength(1);
+    });
+
+    it('rejects like the real backend, with a detail message', async () => {
+        const error = await client.post('/friends/request', { username: 'nobody' }).catch(e => e);
+
+        expect(normalizeApiError(error)).toMatchObject({ status: 404, detail: 'User not found' });
+    });
+});
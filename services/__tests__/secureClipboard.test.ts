@@ -0,0 +1,84 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Clipboard from 'expo-clipboard';
+import { wipeUserData } from '../storageRegistry';
+import {
+    copySecret,
+    getSecureClipboardState,
+    handleClipboardAppStateChange,
+    loadSecureClipboard,
+    setClipboardClearDelay
+} from '../secureClipboard';
+
+jest.mock('expo-clipboard', () => {
+    let text = '';
+    return {
+        getStringAsync: jest.fn(async () => text),
+        setStringAsync: jest.fn(async (value: string) => { text = value; return true; }),
+    };
+});
+
+describe('secureClipboard', () => {
+    beforeAll(async () => {
+        await loadSecureClipboard();
+    });
+
+    beforeEach(async () => {
+        jest.useFakeTimers();
+        await setClipboardClearDelay(30_000);
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('clears a copied password after the delay and remembers when it was copied', async () => {
+        await copySecret('hunter2', 'password', 'acc-1');
+
+        expect(getSecureClipboardState().copied).toMatchObject({ kind: 'password', clearAt: expect.any(Number) });
+        expect(getSecureClipboardState().lastCopied['acc-1']).toBeGreaterThan(0);
+        expect(JSON.parse((await AsyncStorage.getItem('password_last_copied'))!)).toHaveProperty('acc-1');
+
+        await jest.advanceTimersByTimeAsync(29_000);
+        await expect(Clipboard.getStringAsync()).resolves.toBe('hunter2');
+
+        await jest.advanceTimersByTimeAsync(1_000);
+        await expect(Clipboard.getStringAsync()).resolves.toBe('');
+        expect(getSecureClipboardState().copied).toBeNull();
+    });
+
+    it('leaves the clipboard alone once something else has been copied', async () => {
+        await copySecret('hunter2', 'totp');
+        await Clipboard.setStringAsync('a shopping list');
+
+        await jest.advanceTimersByTimeAsync(30_000);
+
+        await expect(Clipboard.getStringAsync()).resolves.toBe('a shopping list');
+    });
+
+    it('clears on return to the foreground when the timer could not run', async () => {
+        await copySecret('hunter2', 'password');
+        const copiedAt = getSecureClipboardState().copied!.copiedAt;
+
+        handleClipboardAppStateChange('active', copiedAt + 10_000);
+        await expect(Clipboard.getStringAsync()).resolves.toBe('hunter2');
+
+        handleClipboardAppStateChange('active', copiedAt + 60_000);
+        await jest.advanceTimersByTimeAsync(0);
+        await expect(Clipboard.getStringAsync()).resolves.toBe('');
+    });
+
+    it('keeps usernames and never-cleared copies, and forgets history on wipe', async () => {
+        await copySecret('jane', 'username');
+        await jest.advanceTimersByTimeAsync(60_000);
+        await expect(Clipboard.getStringAsync()).resolves.toBe('jane');
+
+        await setClipboardClearDelay(0);
+        await copySecret('hunter2', 'password', 'acc-2');
+        await jest.advanceTimersByTimeAsync(300_000);
+        await expect(Clipboard.getStringAsync()).resolves.toBe('hunter2');
+
+        await wipeUserData();
+        expect(getSecureClipboardState().lastCopied).toEqual({});
+        expect(getSecureClipboardState().clearAfterMs).toBe(30_000);
+    });
+});
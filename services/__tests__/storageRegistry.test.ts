@@ -0,0 +1,124 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+    STORAGE_KEYS,
+    STORAGE_MIGRATIONS,
+    STORAGE_PREFIXES,
+    STORAGE_REGISTRY,
+    StorageEntry,
+    claimUserData,
+    runStorageMigrations,
+    subscribeUserDataWipe,
+    wipeUserData
+} from '../storageRegistry';
+
+const readVersions = async () => JSON.parse((await AsyncStorage.getItem(STORAGE_KEYS.storageVersions))!);
+
+describe('storageRegistry', () => {
+    beforeEach(async () => {
+        await AsyncStorage.clear();
+    });
+
+    it('registers every key and prefix exactly once', () => {
+        const registered = STORAGE_REGISTRY.map(e => e.key);
+        expect(new Set(registered).size).toBe(registered.length);
+        Object.values(STORAGE_KEYS).forEach(key => expect(registered).toContain(key));
+        Object.values(STORAGE_PREFIXES).forEach(prefix => expect(registered).toContain(prefix));
+
+        STORAGE_MIGRATIONS.forEach(m => {
+            const target = STORAGE_REGISTRY.find(e => e.key === m.key);
+            expect(target && m.toVersion <= target.version).toBe(true);
+        });
+    });
+
+    it('upgrades old data in version order, including prefixed keys', async () => {
+        const registry: StorageEntry[] = [
+            { key: 'entries', owner: 'test', scope: 'user', version: 3 },
+            { key: 'marks_', owner: 'test', scope: 'user', version: 2, prefix: true },
+        ];
+        await AsyncStorage.multiSet([
+            ['entries', JSON.stringify([{ kcal: 100 }])],
+            ['marks_a', 'old'],
+            ['marks_b', 'old'],
+        ]);
+
+        await runStorageMigrations(registry, [
+            // Listed out of order on purpose
+            { key: 'entries', toVersion: 3, migrate: v => JSON.stringify(JSON.parse(v).map((e: any) => ({ ...e, v3: true }))) },
+            { key: 'entries', toVersion: 2, migrate: v => JSON.stringify(JSON.parse(v).map((e: any) => ({ calories: e.kcal }))) },
+            { key: 'marks_', toVersion: 2, migrate: v => v === 'old' ? null : v },
+        ]);
+
+        expect(JSON.parse((await AsyncStorage.getItem('entries'))!)).toEqual([{ calories: 100, v3: true }]);
+        expect(await AsyncStorage.getItem('marks_a')).toBeNull();
+        expect(await readVersions()).toEqual({ entries: 3, marks_: 2 });
+    });
+
+    it('only runs migrations newer than the recorded version', async () => {
+        const migrate = jest.fn((v: string) => v + '!');
+        await AsyncStorage.multiSet([
+            ['entries', 'data'],
+            [STORAGE_KEYS.storageVersions, JSON.stringify({ entries: 2 })],
+        ]);
+
+        await runStorageMigrations([{ key: 'entries', owner: 'test', scope: 'user', version: 3 }], [
+            { key: 'entries', toVersion: 2, migrate },
+            { key: 'entries', toVersion: 3, migrate },
+        ]);
+        await runStorageMigrations([{ key: 'entries', owner: 'test', scope: 'user', version: 3 }], [
+            { key: 'entries', toVersion: 3, migrate },
+        ]);
+
+        expect(migrate).toHaveBeenCalledTimes(1);
+        expect(await AsyncStorage.getItem('entries')).toBe('data!');
+    });
+
+    it('keeps a failed key on its old version so it is retried', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => { });
+        await AsyncStorage.multiSet([['broken', 'x'], ['fine', 'y']]);
+
+        await runStorageMigrations([
+            { key: 'broken', owner: 'test', scope: 'user', version: 2 },
+            { key: 'fine', owner: 'test', scope: 'user', version: 2 },
+        ], [
+            { key: 'broken', toVersion: 2, migrate: () => { throw new Error('bad data'); } },
+            { key: 'fine', toVersion: 2, migrate: v => v.toUpperCase() },
+        ]);
+
+        expect(await readVersions()).toEqual({ fine: 2 });
+        expect(await AsyncStorage.getItem('broken')).toBe('x');
+        expect(await AsyncStorage.getItem('fine')).toBe('Y');
+        (console.error as jest.Mock).mockRestore();
+    });
+
+    it('wipes every user-scoped key and keeps device settings', async () => {
+        // One sample value per registered key; prefixes stand for a family of keys
+        const sample = (e: StorageEntry) => e.prefix ? `${e.key}sample` : e.key;
+        await AsyncStorage.multiSet(STORAGE_REGISTRY.map(e => [sample(e), 'value']));
+        const order: string[] = [];
+        const unsubscribe = subscribeUserDataWipe(async () => {
+            order.push(`listener saw ${(await AsyncStorage.getAllKeys()).length} keys`);
+        });
+
+        await wipeUserData();
+        unsubscribe();
+
+        const survivors = await AsyncStorage.getAllKeys();
+        expect([...survivors].sort()).toEqual(STORAGE_REGISTRY.filter(e => e.scope === 'device').map(sample).sort());
+        // In-memory copies are dropped while storage still holds everything
+        expect(order).toEqual([`listener saw ${STORAGE_REGISTRY.length} keys`]);
+    });
+
+    it('wipes data left by a different account when another one signs in', async () => {
+        await AsyncStorage.setItem(STORAGE_KEYS.calories, '[]');
+        await claimUserData(7);
+        expect(await AsyncStorage.getItem(STORAGE_KEYS.calories)).toBeNull();
+
+        await AsyncStorage.setItem(STORAGE_KEYS.calories, '[]');
+        await claimUserData(7);
+        expect(await AsyncStorage.getItem(STORAGE_KEYS.calories)).toBe('[]');
+
+        await claimUserData(8);
+        expect(await AsyncStorage.getItem(STORAGE_KEYS.calories)).toBeNull();
+        expect(await AsyncStorage.getItem(STORAGE_KEYS.dataOwner)).toBe('8');
+    });
+});
@@ -0,0 +1,57 @@
+import * as v from '../validation';
+
+type Row = { id: number; name: string; note?: string | null; kind: 'a' | 'b' };
+
+const rowSchema = v.object<Row>({
+    id: v.number,
+    name: v.string,
+    note: v.optional(v.string),
+    kind: v.oneOf('a', 'b'),
+});
+
+describe('validation', () => {
+    beforeEach(() => {
+        v.clearValidationFailures();
+        jest.spyOn(console, 'warn').mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('describes the first mismatch by field', () => {
+        expect(rowSchema.check({ id: 1, name: 'x', kind: 'a' })).toBeNull();
+        expect(rowSchema.check({ id: 1, name: 'x', note: null, kind: 'b', extra: true })).toBeNull();
+        expect(rowSchema.check({ id: '1', name: 'x', kind: 'a' })).toBe('id: expected number, got string');
+        expect(rowSchema.check({ id: 1, name: 'x', kind: 'c' })).toBe('kind: expected one of a, b, got "c"');
+        expect(rowSchema.check(null)).toBe('expected object, got null');
+        expect(v.arrayOf(v.number).check([1, 'two'])).toBe('[1] expected number, got string');
+    });
+
+    it('keeps matching rows and records the rest per endpoint', () => {
+        const listener = jest.fn();
+        const unsubscribe = v.subscribeValidationFailures(listener);
+
+        const { valid, dropped } = v.validateList('GET /rows', [
+            { id: 1, name: 'ok', kind: 'a' },
+            { id: 2, kind: 'a' },
+            { id: 3, name: 'also bad', kind: 'z' },
+        ], rowSchema);
+
+        expect(valid.map(r => r.id)).toEqual([1]);
+        expect(dropped).toHaveLength(2);
+        expect(v.getValidationFailures()).toEqual([
+            expect.objectContaining({ endpoint: 'GET /rows', count: 2, problem: 'kind: expected one of a, b, got "z"' })
+        ]);
+        expect(listener).toHaveBeenCalledTimes(2);
+        unsubscribe();
+    });
+
+    it('treats a null list as empty and any other non-list as a failure', () => {
+        expect(v.validateList('GET /rows', null, rowSchema).valid).toEqual([]);
+        expect(v.getValidationFailures()).toEqual([]);
+
+        expect(v.validateList('GET /rows', { detail: 'oops' }, rowSchema).valid).toEqual([]);
+        expect(v.getValidationFailures()[0]).toMatchObject({ endpoint: 'GET /rows', problem: 'expected array, got object' });
+    });
+});
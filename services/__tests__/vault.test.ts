@@ -0,0 +1,98 @@
+import * as SecureStore from 'expo-secure-store';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { wipeUserData } from '../storageRegistry';
+import {
+    createVault,
+    isSealed,
+    isVaultBackup,
+    isVaultUnlocked,
+    loadVaultHeader,
+    lockVault,
+    openBackup,
+    openField,
+    readSharedHeader,
+    sealBackup,
+    sealField,
+    unlockVault
+} from '../vault';
+
+const PASSPHRASE = 'correct horse battery';
+
+describe('vault', () => {
+    beforeAll(async () => {
+        await createVault(PASSPHRASE);
+    });
+
+    it('seals every value with a fresh nonce and opens it again', () => {
+        const first = sealField('hunter2');
+        const second = sealField('hunter2');
+
+        expect(isSealed(first)).toBe(true);
+        expect(first).not.toContain('hunter2');
+        expect(first).not.toBe(second);
+        expect(openField(first)).toBe('hunter2');
+        // Entries from before the vault pass through until they are sealed
+        expect(openField('plain')).toBe('plain');
+    });
+
+    it('keeps only the wrapped key in SecureStore', async () => {
+        const saved = JSON.parse((await SecureStore.getItemAsync('password_vault'))!);
+
+        expect(Object.keys(saved).sort()).toEqual(['iterations', 'key', 'nonce', 'salt']);
+        expect(saved.key).not.toContain(PASSPHRASE);
+    });
+
+    it('refuses to seal or open while locked and rejects a wrong passphrase', async () => {
+        const sealed = sealField('secret');
+        lockVault();
+
+        expect(isVaultUnlocked()).toBe(false);
+        expect(() => sealField('secret')).toThrow(expect.objectContaining({ code: 'locked' }));
+        expect(() => openField(sealed)).toThrow(expect.objectContaining({ code: 'locked' }));
+        await expect(unlockVault('wrong passphrase')).rejects.toMatchObject({ code: 'wrong_passphrase' });
+
+        await unlockVault(PASSPHRASE);
+        expect(openField(sealed)).toBe('secret');
+    });
+
+    it('unlocks on another device from the header carried by a synced password', async () => {
+        const synced = sealField('from phone', true);
+        const shared = readSharedHeader(synced);
+        expect(shared).toEqual(await loadVaultHeader());
+
+        // A fresh module registry and an empty SecureStore stand in for the other device
+        await SecureStore.deleteItemAsync('password_vault');
+        let otherDevice: typeof import('../vault');
+        jest.isolateModules(() => {
+            otherDevice = require('../vault');
+        });
+        await expect(otherDevice!.loadVaultHeader()).resolves.toBeNull();
+
+        await otherDevice!.unlockVault(PASSPHRASE, shared);
+        expect(otherDevice!.openField(synced)).toBe('from phone');
+    });
+
+    it('seals backups with their own passphrase, independent of the vault', async () => {
+        const backup = await sealBackup('{"accounts":[]}', 'backup passphrase');
+        lockVault();
+
+        expect(isVaultBackup(backup)).toBe(true);
+        expect(isVaultBackup('name,url,username,password')).toBe(false);
+        expect(backup).not.toContain('accounts');
+        await expect(openBackup(backup, 'backup passphrase')).resolves.toBe('{"accounts":[]}');
+        await expect(openBackup(backup, PASSPHRASE)).rejects.toMatchObject({ code: 'wrong_passphrase' });
+        await expect(sealBackup('x', 'short')).rejects.toMatchObject({ code: 'weak_passphrase' });
+
+        await unlockVault(PASSPHRASE);
+    });
+
+    it('locks and forgets the vault when user data is wiped', async () => {
+        await AsyncStorage.clear();
+        await wipeUserData();
+
+        expect(isVaultUnlocked()).toBe(false);
+        await expect(loadVaultHeader()).resolves.toBeNull();
+        expect(await SecureStore.getItemAsync('password_vault')).toBeNull();
+        await expect(unlockVault(PASSPHRASE)).rejects.toMatchObject({ code: 'not_set_up' });
+    });
+});
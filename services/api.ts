@@ -1,6 +1,7 @@
 import axios from 'axios';
 import * as SecureStore from 'expo-secure-store';
-import { API_URL } from '../constants/env';
+import { API_URL, IS_MOCK } from '../constants/env';
+import { mockAdapter } from './mockBackend';
 
 const api = axios.create({
     baseURL: API_URL,
@@ -8,6 +9,8 @@ const api = axios.create({
         'Content-Type': 'application/json',
     },
     timeout: 300000, // 5 minutes
+    // Mock mode answers every route in-process instead of over the network
+    ...(IS_MOCK && { adapter: mockAdapter }),
 });
 
 api.interceptors.request.use(
@@ -60,25 +63,4 @@ api.interceptors.response.use(
 );
 
 
-export const uploadAvatar = async (uri: string) => {
-    const formData = new FormData();
-    const filename = uri.split('/').pop();
-    const match = /\.(\w+)$/.exec(filename || '');
-    const type = match ? `image/${match[1]}` : 'image/jpeg';
-
-    formData.append('file', { uri, name: filename, type } as any);
-
-    const response = await api.post('/users/me/avatar', formData, {
-        headers: {
-            'Content-Type': 'multipart/form-data',
-        },
-    });
-    return response.data;
-};
-
-export const deleteAvatar = async () => {
-    const response = await api.delete('/users/me/avatar');
-    return response.data;
-};
-
 export default api;
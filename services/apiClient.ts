@@ -0,0 +1,477 @@
+import axios, { AxiosResponse } from 'axios';
+import api from './api';
+import type {
+    AvatarUploadResponse,
+    BibleBookmarkRow,
+    CalorieRow,
+    ChatMessage,
+    Conversation,
+    DiaryCreate,
+    DiaryEntry,
+    DiaryUpdate,
+    DirectMessage,
+    FavoriteFoodRow,
+    Friend,
+    FriendResponseAction,
+    GoogleAuthRequest,
+    HistoryParams,
+    MealTemplateRow,
+    NoteCreate,
+    NoteEntry,
+    NoteUpdate,
+    PasswordGroupRow,
+    PasswordRow,
+    SociusCompanion,
+    SociusCompanionCreate,
+    SociusOrderUpdate,
+    TokenResponse,
+    UnreadCounts,
+    UserProfile,
+    UserSearchResult,
+    UserUpdate,
+    WorkoutActivityRow,
+    WorkoutStatsRow
+} from '../types/api';
+import type { CalorieEntry, FavoriteFood } from '../hooks/useCalories';
+import type { MealTemplate } from '../hooks/useMealTemplates';
+import type { Activity, PhysicalStats } from '../hooks/useWorkouts';
+import type { PasswordAccount } from '../hooks/usePasswords';
+import type { PasswordGroup } from '../hooks/usePasswordGroups';
+import type { Bookmark } from '../hooks/useBible';
+import { parseMacros } from '../utils/macros';
+import { Schema, validateList, validateOne } from './validation';
+import {
+    avatarUploadResponseSchema,
+    chatMessageSchema,
+    conversationSchema,
+    diaryEntrySchema,
+    directMessageSchema,
+    friendSchema,
+    noteEntrySchema,
+    sociusCompanionSchema,
+    tokenResponseSchema,
+    unreadCountsSchema,
+    userProfileSchema,
+    userSearchResultSchema,
+    workoutStatsRowSchema
+} from './schemas';
+
+/**
+ * Typed client for the Socius backend: one function per route the app calls.
+ *
+ * Every function resolves with the response body and rejects with an ApiRequestError,
+ * so screens can show `error.message` without digging through axios internals.
+ * Bodies are checked against services/schemas: lists drop the rows that don't match,
+ * single objects that don't match reject like a failed request, so callers keep
+ * whatever they had cached.
+ * Payloads that back an app model (sync rows, physical stats, chat history) are mapped
+ * here, keeping snake_case out of hooks and screens.
+ *
+ * The offline sync engine talks to its collection endpoints generically through `api`;
+ * it only borrows the row mappers below and validates rows with the same schemas.
+ */
+
+// ============== ERRORS ==============
+
+export interface ApiRequestError extends Error {
+    status: number | null; // null when the request never got a response
+    detail?: string; // Backend `detail` message, when it sent one
+    isNetworkError: boolean;
+}
+
+export const isApiRequestError = (error: unknown): error is ApiRequestError =>
+    error instanceof Error && 'isNetworkError' in error;
+
+export const normalizeApiError = (error: unknown): ApiRequestError => {
+    if (isApiRequestError(error)) return error;
+
+    if (axios.isAxiosError(error)) {
+        const status = error.response?.status ?? null;
+        const rawDetail = (error.response?.data as { detail?: unknown } | undefined)?.detail;
+        // FastAPI validation errors send a list here; only plain messages are user-facing
+        const detail = typeof rawDetail === 'string' ? rawDetail : undefined;
+        const normalized = new Error(detail || error.message) as ApiRequestError;
+        normalized.name = 'ApiRequestError';
+        normalized.status = status;
+        normalized.detail = detail;
+        normalized.isNetworkError = !error.response;
+        normalized.cause = error;
+        return normalized;
+    }
+
+    const normalized = (error instanceof Error ? error : new Error(String(error))) as ApiRequestError;
+    normalized.status = null;
+    normalized.isNetworkError = false;
+    return normalized;
+};
+
+const invalidResponseError = (route: string): ApiRequestError => {
+    const error = new Error(`Unexpected response from ${route}`) as ApiRequestError;
+    error.name = 'ApiRequestError';
+    error.status = null;
+    error.isNetworkError = false;
+    return error;
+};
+
+const request = async <T>(call: Promise<AxiosResponse<T>>): Promise<T> => {
+    try {
+        const response = await call;
+        return response.data;
+    } catch (error) {
+        throw normalizeApiError(error);
+    }
+};
+
+const requestOne = async <T>(route: string, call: Promise<AxiosResponse<unknown>>, schema: Schema<T>): Promise<T> => {
+    const data = await request(call);
+    if (validateOne(route, data, schema)) throw invalidResponseError(route);
+    return data as T;
+};
+
+const requestList = async <T>(route: string, call: Promise<AxiosResponse<unknown>>, schema: Schema<T>): Promise<T[]> =>
+    validateList(route, await request(call), schema).valid;
+
+// ============== AUTH ==============
+
+export const signInWithGoogle = (body: GoogleAuthRequest) =>
+    requestOne<TokenResponse>('POST /auth/google', api.post('/auth/google', body), tokenResponseSchema);
+
+// ============== USER ==============
+
+export const getMe = () =>
+    requestOne<UserProfile>('GET /users/me', api.get('/users/me'), userProfileSchema);
+
+export const updateMe = (changes: UserUpdate) =>
+    requestOne<UserProfile>('PUT /users/me', api.put('/users/me', changes), userProfileSchema);
+
+export const searchUsers = (query: string) =>
+    requestList<UserSearchResult>('GET /users/search', api.get('/users/search', { params: { q: query } }), userSearchResultSchema);
+
+export const uploadAvatar = async (uri: string) => {
+    const formData = new FormData();
+    const filename = uri.split('/').pop();
+    const match = /\.(\w+)$/.exec(filename || '');
+    const type = match ? `image/${match[1]}` : 'image/jpeg';
+
+    formData.append('file', { uri, name: filename, type } as any);
+
+    return requestOne<AvatarUploadResponse>('POST /users/me/avatar', api.post('/users/me/avatar', formData, {
+        headers: {
+            'Content-Type': 'multipart/form-data',
+        },
+    }), avatarUploadResponseSchema);
+};
+
+export const deleteAvatar = () =>
+    request<void>(api.delete('/users/me/avatar'));
+
+// ============== FRIENDS ==============
+
+export const getFriends = () =>
+    requestList<Friend>('GET /friends', api.get('/friends'), friendSchema);
+
+export const getFriendRequests = () =>
+    requestList<Friend>('GET /friends/requests', api.get('/friends/requests'), friendSchema);
+
+export const sendFriendRequest = (username: string) =>
+    request<void>(api.post('/friends/request', { username }));
+
+export const respondToFriendRequest = (id: number, action: FriendResponseAction) =>
+    request<void>(api.post(`/friends/respond/${id}`, { action }));
+
+export const removeFriend = (friendId: number) =>
+    request<void>(api.delete(`/friends/${friendId}`));
+
+// ============== SOCIUS COMPANIONS ==============
+
+// `fresh` adds a cache-busting param for screens that must see a reply that just landed
+export const getSociusCompanions = (options: { fresh?: boolean } = {}) => {
+    const call = options.fresh
+        ? api.get('/friends/socius', { params: { _t: Date.now() } })
+        : api.get('/friends/socius');
+    return requestList<SociusCompanion>('GET /friends/socius', call, sociusCompanionSchema);
+};
+
+export const createSociusCompanion = (body: SociusCompanionCreate) =>
+    requestOne<SociusCompanion>('POST /friends/socius', api.post('/friends/socius', body), sociusCompanionSchema);
+
+export const deleteSociusCompanion = (id: number) =>
+    request<void>(api.delete(`/friends/socius/${id}`));
+
+export const reorderSociusCompanions = (orders: SociusOrderUpdate['orders']) =>
+    request<void>(api.patch('/friends/socius/order', { orders }));
+
+// ============== MESSAGES ==============
+
+export interface HistoryMessage {
+    id?: number;
+    content: string;
+    created_at: string;
+    fromMe: boolean;
+}
+
+const fromDirectMessage = (msg: DirectMessage): HistoryMessage => ({
+    id: msg.id,
+    content: String(msg.content || ''),
+    created_at: msg.created_at,
+    fromMe: msg.is_me
+});
+
+const fromChatMessage = (msg: ChatMessage): HistoryMessage => ({
+    id: msg.id,
+    content: String(msg.content || ''),
+    created_at: msg.created_at,
+    fromMe: msg.message_author === 'user' || msg.role === 'user'
+});
+
+export const getDirectMessages = async (friendId: number, beforeId?: number) => {
+    const call = beforeId
+        ? api.get(`/messages/${friendId}`, { params: { before_id: beforeId } })
+        : api.get(`/messages/${friendId}`);
+    return (await requestList<DirectMessage>('GET /messages/:friendId', call, directMessageSchema)).map(fromDirectMessage);
+};
+
+export const getSociusHistory = async (messageGroupId: string, beforeId?: number) => {
+    const params: HistoryParams = { message_group_id: messageGroupId };
+    if (beforeId) params.before_id = beforeId;
+    return (await requestList<ChatMessage>('GET /history', api.get('/history', { params }), chatMessageSchema)).map(fromChatMessage);
+};
+
+export const getRecentConversations = () =>
+    requestList<Conversation>('GET /messages/recent', api.get('/messages/recent'), conversationSchema);
+
+export const deleteConversation = (friendId: number) =>
+    request<void>(api.delete(`/messages/user/${friendId}`));
+
+// ============== DIARY ==============
+
+export const getDiaryEntries = () =>
+    requestList<DiaryEntry>('GET /diary', api.get('/diary'), diaryEntrySchema);
+
+export const createDiaryEntry = (body: DiaryCreate) =>
+    requestOne<DiaryEntry>('POST /diary', api.post('/diary', body), diaryEntrySchema);
+
+export const updateDiaryEntry = (id: number, body: DiaryUpdate) =>
+    requestOne<DiaryEntry>('PUT /diary/:id', api.put(`/diary/${id}`, body), diaryEntrySchema);
+
+export const deleteDiaryEntry = (id: number) =>
+    request<void>(api.delete(`/diary/${id}`));
+
+// ============== NOTES ==============
+
+export const getNotes = () =>
+    requestList<NoteEntry>('GET /notes', api.get('/notes'), noteEntrySchema);
+
+export const createNote = (body: NoteCreate) =>
+    requestOne<NoteEntry>('POST /notes', api.post('/notes', body), noteEntrySchema);
+
+export const updateNote = (id: number, body: NoteUpdate) =>
+    requestOne<NoteEntry>('PUT /notes/:id', api.put(`/notes/${id}`, body), noteEntrySchema);
+
+export const reorderNotes = (noteIds: number[]) =>
+    request<void>(api.put('/notes/reorder', { note_ids: noteIds }));
+
+export const deleteNote = (id: number) =>
+    request<void>(api.delete(`/notes/${id}`));
+
+// ============== NOTIFICATIONS ==============
+
+export const getUnreadCounts = () =>
+    requestOne<UnreadCounts>('GET /notifications/unread', api.get('/notifications/unread'), unreadCountsSchema);
+
+export const registerPushToken = (token: string, appId: string) =>
+    request<void>(api.post('/notifications/token', { token, app_id: appId }));
+
+// ============== WORKOUTS ==============
+
+// Null until the user has saved stats once
+export const getWorkoutStats = async (): Promise<PhysicalStats | null> => {
+    const data = await request<unknown>(api.get('/workouts/stats'));
+    if (data === null || data === undefined) return null;
+    if (validateOne('GET /workouts/stats', data, workoutStatsRowSchema)) throw invalidResponseError('GET /workouts/stats');
+    const row = data as WorkoutStatsRow;
+    return {
+        weight: row.weight,
+        height: row.height,
+        age: row.age,
+        gender: row.gender,
+        activityLevel: row.activity_level,
+        goal: row.weight_goal ?? undefined
+    };
+};
+
+export const saveWorkoutStats = (stats: PhysicalStats) => {
+    const row: WorkoutStatsRow = {
+        weight: stats.weight,
+        height: stats.height,
+        age: stats.age,
+        gender: stats.gender,
+        activity_level: stats.activityLevel,
+        weight_goal: stats.goal ?? 'maintain'
+    };
+    return request<void>(api.post('/workouts/stats', row));
+};
+
+// ============== SYNC ROW MAPPERS ==============
+
+export const toCalorieRow = (entry: CalorieEntry): CalorieRow => ({
+    client_id: entry.id,
+    food: entry.food,
+    calories: entry.calories,
+    date: entry.date,
+    timestamp: entry.timestamp,
+    protein: entry.macros?.protein ?? null,
+    carbs: entry.macros?.carbs ?? null,
+    fat: entry.macros?.fat ?? null,
+    fiber: entry.macros?.fiber ?? null,
+    sugar: entry.macros?.sugar ?? null,
+    meal: entry.meal ?? null,
+    updated_at: entry.updated_at
+});
+
+export const fromCalorieRow = (row: CalorieRow): CalorieEntry => ({
+    id: row.client_id,
+    food: row.food,
+    calories: row.calories,
+    date: row.date,
+    timestamp: row.timestamp,
+    macros: parseMacros(row),
+    meal: row.meal ?? undefined,
+    updated_at: row.updated_at ?? undefined
+});
+
+export const toFavoriteFoodRow = (fav: FavoriteFood): FavoriteFoodRow => ({
+    client_id: fav.id,
+    food: fav.food,
+    calories: fav.calories,
+    protein: fav.macros?.protein ?? null,
+    carbs: fav.macros?.carbs ?? null,
+    fat: fav.macros?.fat ?? null,
+    fiber: fav.macros?.fiber ?? null,
+    sugar: fav.macros?.sugar ?? null,
+    updated_at: fav.updated_at
+});
+
+export const fromFavoriteFoodRow = (row: FavoriteFoodRow): FavoriteFood => ({
+    id: row.client_id,
+    food: row.food,
+    calories: row.calories,
+    macros: parseMacros(row),
+    updated_at: row.updated_at
+});
+
+export const toMealTemplateRow = (template: MealTemplate): MealTemplateRow => ({
+    client_id: template.id,
+    name: template.name,
+    meal: template.meal,
+    items: template.items.map(item => ({
+        food: item.food,
+        calories: item.calories,
+        protein: item.macros?.protein ?? null,
+        carbs: item.macros?.carbs ?? null,
+        fat: item.macros?.fat ?? null,
+        fiber: item.macros?.fiber ?? null,
+        sugar: item.macros?.sugar ?? null
+    })),
+    updated_at: template.updated_at
+});
+
+export const fromMealTemplateRow = (row: MealTemplateRow): MealTemplate => ({
+    id: row.client_id,
+    name: row.name,
+    meal: row.meal,
+    items: row.items.map(item => ({
+        food: item.food,
+        calories: item.calories,
+        macros: parseMacros(item)
+    })),
+    updated_at: row.updated_at
+});
+
+export const toWorkoutActivityRow = (act: Activity): WorkoutActivityRow => ({
+    client_id: act.id,
+    name: act.name,
+    duration: act.duration,
+    calories: act.calories,
+    date: act.date,
+    timestamp: act.timestamp,
+    updated_at: act.updated_at
+});
+
+export const fromWorkoutActivityRow = (row: WorkoutActivityRow): Activity => ({
+    id: row.client_id,
+    name: row.name,
+    duration: row.duration,
+    calories: row.calories,
+    date: row.date,
+    timestamp: row.timestamp,
+    updated_at: row.updated_at ?? undefined
+});
+
+export const toPasswordRow = (acc: PasswordAccount): PasswordRow => ({
+    client_id: acc.id,
+    service: acc.service,
+    username: acc.username,
+    password: acc.password,
+    group: acc.group,
+    totp: acc.totp ?? null,
+    url: acc.url ?? null,
+    notes: acc.notes ?? null,
+    tags: acc.tags ?? null,
+    custom_fields: acc.customFields ?? null,
+    password_history: acc.history?.map(entry => ({ password: entry.password, changed_at: entry.changedAt })) ?? null,
+    password_changed_at: acc.passwordChangedAt ?? null,
+    updated_at: acc.updated_at
+});
+
+export const fromPasswordRow = (row: PasswordRow): PasswordAccount => ({
+    id: row.client_id,
+    service: row.service,
+    username: row.username,
+    password: row.password,
+    group: row.group,
+    totp: row.totp ?? undefined,
+    url: row.url ?? undefined,
+    notes: row.notes ?? undefined,
+    tags: row.tags ?? undefined,
+    customFields: row.custom_fields ?? undefined,
+    history: row.password_history?.map(entry => ({ password: entry.password, changedAt: entry.changed_at })) ?? undefined,
+    passwordChangedAt: row.password_changed_at ?? undefined,
+    updated_at: row.updated_at
+});
+
+export const toPasswordGroupRow = (group: PasswordGroup): PasswordGroupRow => ({
+    client_id: group.id,
+    name: group.name,
+    icon: group.icon,
+    color: group.color,
+    updated_at: group.updated_at
+});
+
+export const fromPasswordGroupRow = (row: PasswordGroupRow): PasswordGroup => ({
+    id: row.client_id,
+    name: row.name,
+    icon: row.icon,
+    color: row.color,
+    updated_at: row.updated_at
+});
+
+export const toBookmarkRow = (bm: Bookmark): BibleBookmarkRow => ({
+    client_id: bm.id,
+    version: bm.version,
+    book_index: bm.bookIndex,
+    chapter_index: bm.chapterIndex,
+    label: bm.label,
+    created_at: bm.createdAt,
+    updated_at: bm.updated_at
+});
+
+export const fromBookmarkRow = (row: BibleBookmarkRow): Bookmark => ({
+    id: row.client_id,
+    version: row.version,
+    bookIndex: row.book_index,
+    chapterIndex: row.chapter_index,
+    label: row.label ?? undefined,
+    createdAt: row.created_at_str || row.created_at,
+    updated_at: row.updated_at ?? undefined
+});
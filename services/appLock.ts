@@ -0,0 +1,220 @@
+import { AppState, AppStateStatus } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import * as LocalAuthentication from 'expo-local-authentication';
+import { getRandomBytes } from 'expo-crypto';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { STORAGE_KEYS, subscribeUserDataWipe } from './storageRegistry';
+
+/**
+ * App lock for screens holding private data. Unlocking with the PIN or device
+ * biometrics opens every locked app until the app has been in the background for
+ * longer than the auto-lock timeout. Settings live in AsyncStorage; the PIN is kept
+ * only as a salted hash in SecureStore, next to the count of wrong PINs so that
+ * restarting the app does not lift a lockout.
+ */
+
+export type LockableApp = 'passwords' | 'diary' | 'notes';
+
+export const LOCKABLE_APPS: LockableApp[] = ['passwords', 'diary', 'notes'];
+
+// 0 locks as soon as the app leaves the foreground
+export const AUTO_LOCK_TIMEOUTS = [0, 60_000, 5 * 60_000, 15 * 60_000];
+
+export const MIN_PIN_LENGTH = 4;
+const MAX_FAILED_ATTEMPTS = 5;
+const RETRY_DELAY_MS = 30_000; // First lockout; doubles with each one after it
+const MAX_RETRY_DELAY_MS = 60 * 60_000;
+const PIN_KEY = 'app_lock_pin';
+const ATTEMPTS_KEY = 'app_lock_attempts';
+const PIN_ITERATIONS = 10_000;
+
+export interface AppLockSettings {
+    apps: Record<LockableApp, boolean>;
+    timeoutMs: number;
+    biometrics: boolean;
+}
+
+export interface AppLockState {
+    loaded: boolean;
+    settings: AppLockSettings;
+    hasPin: boolean;
+    unlocked: boolean;
+    retryAt: number | null; // Set after too many wrong PINs
+}
+
+const DEFAULT_SETTINGS: AppLockSettings = {
+    apps: { passwords: false, diary: false, notes: false },
+    timeoutMs: 60_000,
+    biometrics: true,
+};
+
+let state: AppLockState = {
+    loaded: false,
+    settings: DEFAULT_SETTINGS,
+    hasPin: false,
+    unlocked: false,
+    retryAt: null,
+};
+// Wrong PINs since the last lockout, and lockouts since the last successful unlock
+type FailedAttempts = { failed: number; lockouts: number; retryAt: number | null };
+
+const NO_FAILED_ATTEMPTS: FailedAttempts = { failed: 0, lockouts: 0, retryAt: null };
+
+let loading: Promise<void> | null = null;
+let attempts: FailedAttempts = NO_FAILED_ATTEMPTS;
+let backgroundedAt: number | null = null;
+const listeners = new Set<(next: AppLockState) => void>();
+
+const setState = (patch: Partial<AppLockState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach(listener => listener(state));
+};
+
+export const getAppLockState = () => state;
+
+export const subscribeAppLock = (listener: (next: AppLockState) => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const loadAppLock = (): Promise<void> => {
+    if (!loading) {
+        loading = (async () => {
+            let settings = DEFAULT_SETTINGS;
+            try {
+                const saved = await AsyncStorage.getItem(STORAGE_KEYS.appLock);
+                if (saved) {
+                    const parsed = JSON.parse(saved);
+                    settings = { ...DEFAULT_SETTINGS, ...parsed, apps: { ...DEFAULT_SETTINGS.apps, ...parsed.apps } };
+                }
+            } catch (e) {
+                console.error('Failed to load app lock settings', e);
+            }
+            const hasPin = !!(await SecureStore.getItemAsync(PIN_KEY).catch(() => null));
+            try {
+                const saved = await SecureStore.getItemAsync(ATTEMPTS_KEY);
+                if (saved) attempts = { ...NO_FAILED_ATTEMPTS, ...JSON.parse(saved) };
+            } catch (e) {
+                console.error('Failed to load app lock attempts', e);
+            }
+            setState({ loaded: true, settings, hasPin, retryAt: attempts.retryAt });
+        })();
+    }
+    return loading;
+};
+
+export const isAppLocked = (app: LockableApp, current: AppLockState = state) =>
+    !current.loaded || (current.settings.apps[app] && current.hasPin && !current.unlocked);
+
+export const updateAppLockSettings = async (patch: Partial<AppLockSettings>): Promise<void> => {
+    const settings = { ...state.settings, ...patch };
+    setState({ settings });
+    await AsyncStorage.setItem(STORAGE_KEYS.appLock, JSON.stringify(settings));
+};
+
+const saveAttempts = async (next: FailedAttempts) => {
+    attempts = next;
+    setState({ retryAt: next.retryAt });
+    if (next === NO_FAILED_ATTEMPTS) {
+        await SecureStore.deleteItemAsync(ATTEMPTS_KEY);
+    } else {
+        await SecureStore.setItemAsync(ATTEMPTS_KEY, JSON.stringify(next));
+    }
+};
+
+export const getLockoutDelay = (lockouts: number): number =>
+    Math.min(RETRY_DELAY_MS * 2 ** Math.max(0, lockouts - 1), MAX_RETRY_DELAY_MS);
+
+const hashPin = async (pin: string, salt: Uint8Array) =>
+    bytesToHex(await pbkdf2Async(sha256, utf8ToBytes(pin), salt, { c: PIN_ITERATIONS, dkLen: 32 }));
+
+// Setting a PIN counts as unlocking: the user just proved they own the device
+export const setAppLockPin = async (pin: string): Promise<void> => {
+    if (!/^\d+$/.test(pin) || pin.length < MIN_PIN_LENGTH) {
+        throw new Error(`PIN must be at least ${MIN_PIN_LENGTH} digits`);
+    }
+    const salt = getRandomBytes(16);
+    const hash = await hashPin(pin, salt);
+    await SecureStore.setItemAsync(PIN_KEY, JSON.stringify({ salt: bytesToHex(salt), hash }));
+    await saveAttempts(NO_FAILED_ATTEMPTS);
+    setState({ hasPin: true, unlocked: true });
+};
+
+/**
+ * Returns false for a wrong PIN. After MAX_FAILED_ATTEMPTS wrong PINs, further
+ * attempts are refused until `retryAt`, for longer after every lockout.
+ */
+export const unlockWithPin = async (pin: string): Promise<boolean> => {
+    await loadAppLock();
+    if (attempts.retryAt && Date.now() < attempts.retryAt) return false;
+
+    const saved = await SecureStore.getItemAsync(PIN_KEY);
+    if (!saved) return false;
+    const { salt, hash } = JSON.parse(saved);
+
+    if (await hashPin(pin, hexToBytes(salt)) === hash) {
+        await saveAttempts(NO_FAILED_ATTEMPTS);
+        setState({ unlocked: true });
+        return true;
+    }
+
+    const failed = attempts.failed + 1;
+    if (failed >= MAX_FAILED_ATTEMPTS) {
+        const lockouts = attempts.lockouts + 1;
+        await saveAttempts({ failed: 0, lockouts, retryAt: Date.now() + getLockoutDelay(lockouts) });
+    } else {
+        await saveAttempts({ ...attempts, failed });
+    }
+    return false;
+};
+
+export const canUseBiometrics = async (): Promise<boolean> => {
+    try {
+        return await LocalAuthentication.hasHardwareAsync() && await LocalAuthentication.isEnrolledAsync();
+    } catch {
+        return false;
+    }
+};
+
+export const unlockWithBiometrics = async (promptMessage: string): Promise<boolean> => {
+    if (!state.settings.biometrics || !(await canUseBiometrics())) return false;
+
+    // The PIN is the fallback, so the system passcode prompt is not offered
+    const result = await LocalAuthentication.authenticateAsync({ promptMessage, disableDeviceFallback: true });
+    if (result.success) {
+        await saveAttempts(NO_FAILED_ATTEMPTS);
+        setState({ unlocked: true });
+    }
+    return result.success;
+};
+
+export const lockApps = () => {
+    if (state.unlocked) setState({ unlocked: false });
+};
+
+export const handleAppStateChange = (next: AppStateStatus, now = Date.now()) => {
+    if (next === 'background') {
+        backgroundedAt = now;
+        if (state.settings.timeoutMs === 0) lockApps();
+    } else if (next === 'active' && backgroundedAt !== null) {
+        if (now - backgroundedAt >= state.settings.timeoutMs) lockApps();
+        backgroundedAt = null;
+    }
+};
+
+// Started once from the root layout
+export const startAppLockWatcher = () => {
+    const subscription = AppState.addEventListener('change', status => handleAppStateChange(status));
+    return () => subscription.remove();
+};
+
+subscribeUserDataWipe(async () => {
+    attempts = NO_FAILED_ATTEMPTS;
+    backgroundedAt = null;
+    setState({ settings: DEFAULT_SETTINGS, hasPin: false, unlocked: false, retryAt: null });
+    await SecureStore.deleteItemAsync(PIN_KEY);
+    await SecureStore.deleteItemAsync(ATTEMPTS_KEY);
+});
@@ -1,5 +1,5 @@
 import * as SecureStore from 'expo-secure-store';
-import api from './api';
+import { signInWithGoogle } from './apiClient';
 
 const TOKEN_KEY = 'session_token';
 const REFRESH_TOKEN_KEY = 'refresh_token';
@@ -27,8 +27,7 @@ export const getRefreshToken = async () => {
 
 export const loginWithGoogle = async (idToken: string) => {
     try {
-        const response = await api.post('/auth/google', { id_token: idToken });
-        const { access_token, refresh_token } = response.data;
+        const { access_token, refresh_token } = await signInWithGoogle({ id_token: idToken });
         await saveToken(access_token);
         if (refresh_token) {
             await saveRefreshToken(refresh_token);
@@ -1,12 +1,19 @@
 import EventSource from 'react-native-sse';
 import * as SecureStore from 'expo-secure-store';
-import { API_URL } from '../constants/env';
+import { API_URL, IS_MOCK } from '../constants/env';
+import { subscribeMockStream } from './mockBackend';
 
-type NotificationEvent = {
-    type: 'connected' | 'message' | 'dm' | 'error';
+/**
+ * Socius replies can stream: `delta` events carry the next chunk of text for a
+ * thread (or, when `content` is set, the full text so far) and `done` closes the
+ * reply with its final message id and content.
+ */
+export type NotificationEvent = {
+    type: 'connected' | 'message' | 'dm' | 'delta' | 'done' | 'error';
     data?: {
         id?: number;
         content?: string;
+        delta?: string;
         message_group_id?: string;
         sender_id?: number;
         created_at?: string;
@@ -17,7 +24,35 @@ type NotificationEvent = {
 
 type NotificationCallback = (event: NotificationEvent) => void;
 
+export type ConnectionState = 'connected' | 'reconnecting' | 'offline';
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 60 * 1000;
+
 let eventSource: EventSource | null = null;
+let mockStream: (() => void) | null = null;
+// Id of the last event received, sent on reconnect so the server can replay what was missed
+let lastEventId: string | null = null;
+
+/**
+ * Capped exponential backoff with jitter, so clients dropped together don't all
+ * reconnect at the same instant. Always waits at least half the nominal delay.
+ */
+export function getReconnectDelay(attempt: number): number {
+    const delay = Math.min(RECONNECT_BASE_MS * 2 ** attempt, RECONNECT_MAX_MS);
+    return Math.round(delay / 2 + Math.random() * delay / 2);
+}
+
+export function hasStreamCursor(): boolean {
+    return lastEventId !== null;
+}
+
+/**
+ * Forgets the replay position, e.g. on sign-out so the next account starts fresh.
+ */
+export function resetStreamCursor(): void {
+    lastEventId = null;
+}
 
 /**
  * Creates a connection to the notification stream.
@@ -25,12 +60,18 @@ let eventSource: EventSource | null = null;
  */
 export async function createNotificationStream(
     onMessage: NotificationCallback,
-    onError?: (error: any) => void
+    onError?: (error: any) => void,
+    onOpen?: () => void
 ): Promise<() => void> {
     // Close existing connection if any
-    if (eventSource) {
-        eventSource.close();
-        eventSource = null;
+    closeNotificationStream();
+
+    if (IS_MOCK) {
+        // The mock backend pushes its events directly; there is nothing to resume
+        mockStream = subscribeMockStream(onMessage);
+        onOpen?.();
+        onMessage({ type: 'connected', timestamp: new Date().toISOString() });
+        return closeNotificationStream;
     }
 
     const token = await SecureStore.getItemAsync('session_token');
@@ -39,16 +80,36 @@ export async function createNotificationStream(
         return () => { };
     }
 
-    // Pass token in query param as fallback for SSE/EventSource which can have issues with headers
-    const streamUrl = `${API_URL}/notifications/stream?token=${encodeURIComponent(token)}`;
+    // Pass token (and resume position) in query params as fallback for SSE/EventSource which can have issues with headers
+    let streamUrl = `${API_URL}/notifications/stream?token=${encodeURIComponent(token)}`;
+    const headers: Record<string, string> = {
+        Authorization: `Bearer ${token}`,
+    };
+    if (lastEventId !== null) {
+        streamUrl += `&last_event_id=${encodeURIComponent(lastEventId)}`;
+        headers['Last-Event-ID'] = lastEventId;
+    }
 
     eventSource = new EventSource(streamUrl, {
-        headers: {
-            Authorization: `Bearer ${token}`,
-        },
+        headers,
+        // No built-in re-polling: the caller reconnects with backoff (getReconnectDelay)
+        pollingInterval: 0,
     });
 
+    // react-native-sse ends every response in _pollAgain; with polling off that is a no-op and a
+    // response that finished with a 2xx fires no event. Report it so the caller's backoff reconnects.
+    const source = eventSource as EventSource & { _pollAgain?: (time: number, allowZero: boolean) => void; status?: number; ERROR?: number };
+    source._pollAgain = () => {
+        // Error responses were already reported through the 'error' listener
+        if (source.status !== source.ERROR) {
+            onError?.({ type: 'close', message: 'Stream closed by the server' });
+        }
+    };
+
     eventSource.addEventListener('message', (event: any) => {
+        if (event.lastEventId) {
+            lastEventId = String(event.lastEventId);
+        }
         try {
             const data = JSON.parse(event.data) as NotificationEvent;
             onMessage(data);
@@ -74,7 +135,9 @@ export async function createNotificationStream(
     });
 
     eventSource.addEventListener('open', () => {
-
+        if (onOpen) {
+            onOpen();
+        }
     });
 
     // Return cleanup function
@@ -94,4 +157,8 @@ export function closeNotificationStream(): void {
         eventSource.close();
         eventSource = null;
     }
+    if (mockStream) {
+        mockStream();
+        mockStream = null;
+    }
 }
@@ -0,0 +1,694 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import type { NotificationEvent } from './eventSource';
+import { STORAGE_KEYS } from './storageRegistry';
+import type {
+    ChatMessage,
+    Conversation,
+    DiaryEntry,
+    DirectMessage,
+    Friend,
+    NoteEntry,
+    SociusCompanion,
+    TokenResponse,
+    UnreadCounts,
+    UserProfile,
+    WorkoutStatsRow
+} from '../types/api';
+
+/**
+ * In-process fake of the Socius backend, used when EXPO_PUBLIC_ENV=mock.
+ *
+ * `mockAdapter` stands in for axios' network adapter on the shared `api` instance, so
+ * requests still go through the typed client, the interceptors and response validation.
+ * State starts as a small demo account and is persisted in AsyncStorage between launches.
+ * Socius replies and friends' answers arrive a moment after the send, through
+ * `subscribeMockStream`, which takes the place of the SSE notification stream.
+ */
+
+const STORAGE_KEY = STORAGE_KEYS.mockBackend;
+const REPLY_DELAY_MS = 1200;
+const STREAM_CHUNK_MS = 60;
+const HISTORY_PAGE_SIZE = 50;
+const ME_ID = 1;
+
+type MockUser = {
+    id: number;
+    username: string;
+    display_name: string;
+    email: string;
+};
+
+type StoredDirectMessage = Omit<DirectMessage, 'is_me'>;
+
+type MockState = {
+    nextId: number;
+    me: UserProfile;
+    users: MockUser[];
+    friends: Friend[];
+    companions: SociusCompanion[];
+    history: ChatMessage[];
+    directMessages: StoredDirectMessage[];
+    unread: Record<string, number>; // Unread direct messages by sender id
+    diary: DiaryEntry[];
+    notes: NoteEntry[];
+    workoutStats: WorkoutStatsRow | null;
+    collections: Record<string, { client_id: string; updated_at?: number | null }[]>; // Sync rows by endpoint
+    chatSends?: Record<string, unknown>; // First reply to each chat send, by client_id
+};
+
+type MockReply = { status: number; data?: unknown };
+
+type RouteContext = {
+    state: MockState;
+    params: Record<string, string>;
+    query: Record<string, any>;
+    body: any;
+};
+
+type Route = {
+    method: string;
+    pattern: RegExp;
+    keys: string[];
+    handler: (ctx: RouteContext) => MockReply;
+};
+
+const SYNC_ENDPOINTS = ['/calories', '/meal-templates', '/food-favorites', '/workouts/activities', '/passwords', '/password-groups', '/bible/bookmarks'];
+
+const seedState = (): MockState => {
+    const now = Date.now();
+    const iso = (minutesAgo: number) => new Date(now - minutesAgo * 60 * 1000).toISOString();
+    const today = iso(0).slice(0, 10);
+
+    return {
+        nextId: 100,
+        me: {
+            id: ME_ID,
+            username: 'demo',
+            display_name: 'Demo',
+            email: 'demo@socius.local',
+            custom_avatar_url: null,
+            socius_role: null,
+            language: null,
+        },
+        users: [
+            { id: 2, username: 'sam', display_name: 'Sam', email: 'sam@socius.local' },
+            { id: 3, username: 'mina', display_name: 'Mina', email: 'mina@socius.local' },
+            { id: 4, username: 'jun', display_name: 'Jun', email: 'jun@socius.local' },
+        ],
+        friends: [
+            { id: 10, friend_id: 2, friend_username: 'sam', friend_avatar: null, status: 'accepted', created_at: iso(60 * 24 * 7) },
+            { id: 11, friend_id: 3, friend_username: 'mina', friend_avatar: null, status: 'incoming', created_at: iso(60) },
+        ],
+        companions: [
+            { id: 20, name: 'Grace', avatar: 'socius-avatar-1', role: 'christian', intimacy: 3, tone: 'casual', multilingual_selection: null, sort_order: 0, created_at: iso(60 * 24 * 30) },
+            { id: 21, name: 'Cal', avatar: 'socius-avatar-2', role: 'cal_tracker', intimacy: 2, tone: 'casual', multilingual_selection: null, sort_order: 1, created_at: iso(60 * 24 * 30) },
+            { id: 22, name: 'Max', avatar: 'socius-avatar-3', role: 'workout', intimacy: 2, tone: 'casual', multilingual_selection: null, sort_order: 2, created_at: iso(60 * 24 * 30) },
+            { id: 23, name: 'Vault', avatar: 'socius-avatar-4', role: 'secrets', intimacy: 1, tone: 'formal', multilingual_selection: null, sort_order: 3, created_at: iso(60 * 24 * 30) },
+        ],
+        history: [
+            { id: 30, message_author: 'assistant', content: 'Good morning! How did you sleep?', message_group_id: 'socius-20', created_at: iso(90) },
+        ],
+        directMessages: [
+            { id: 40, sender_id: 2, receiver_id: ME_ID, content: 'Are we still on for lunch?', created_at: iso(30) },
+        ],
+        unread: { 2: 1 },
+        diary: [
+            { id: 50, title: 'First entry', content: 'Trying out the diary in mock mode.', date: today, created_at: iso(120) },
+        ],
+        notes: [
+            { id: 60, title: 'Groceries', content: 'Rice, eggs, spinach', position: 0, date: today, created_at: iso(120), updated_at: iso(120) },
+        ],
+        workoutStats: null,
+        collections: Object.fromEntries(SYNC_ENDPOINTS.map(endpoint => [endpoint, []])),
+    };
+};
+
+// --- Persistence ---
+
+let state: MockState | null = null;
+let loading: Promise<MockState> | null = null;
+
+const loadState = (): Promise<MockState> => {
+    if (state) return Promise.resolve(state);
+    if (!loading) {
+        loading = (async () => {
+            try {
+                const saved = await AsyncStorage.getItem(STORAGE_KEY);
+                state = saved ? JSON.parse(saved) : seedState();
+            } catch (e) {
+                console.warn('Mock backend state unreadable, starting over', e);
+                state = seedState();
+            }
+            loading = null;
+            return state!;
+        })();
+    }
+    return loading;
+};
+
+const saveState = async () => {
+    if (state) await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+};
+
+/**
+ * Throws away everything the mock backend has stored and starts from the demo account again.
+ */
+export const resetMockBackend = async (): Promise<void> => {
+    state = seedState();
+    loading = null;
+    await AsyncStorage.removeItem(STORAGE_KEY);
+};
+
+// --- Notification stream ---
+
+const streamListeners = new Set<(event: NotificationEvent) => void>();
+
+export const subscribeMockStream = (listener: (event: NotificationEvent) => void) => {
+    streamListeners.add(listener);
+    return () => { streamListeners.delete(listener); };
+};
+
+const emit = (event: NotificationEvent) => {
+    const stamped = { ...event, timestamp: new Date().toISOString() };
+    streamListeners.forEach(listener => listener(stamped));
+};
+
+// --- Canned replies ---
+
+const widget = (data: object) => '```json\n' + JSON.stringify(data) + '\n```';
+
+const matches = (text: string, words: string[]) => words.some(word => text.includes(word));
+
+const randomPassword = () => {
+    const chars = 'abcdefghjkmnpqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789!@#$%';
+    return Array.from({ length: 14 }, () => chars[Math.floor(Math.random() * chars.length)]).join('');
+};
+
+const SMALL_TALK = [
+    "That's interesting, tell me more!",
+    'I hear you. How are you feeling about it?',
+    'Thanks for sharing that with me.',
+];
+
+/**
+ * Picks a reply for a Socius question. Food, exercise and password questions (or a
+ * companion whose role is about them) get the matching widget, so every chat card can
+ * be exercised offline. The prose comes first so it can be streamed on its own.
+ */
+export const buildSociusReply = (question: string, role?: string): { text: string; widget?: string } => {
+    const lower = question.toLowerCase();
+    const subject = question.trim().slice(0, 40) || 'Meal';
+
+    if (matches(lower, ['password', 'login', 'account', '비밀번호']) || role === 'secrets') {
+        const service = /(?:for|to|on)\s+([\w.-]+)/i.exec(question)?.[1] || 'example.com';
+        return {
+            text: `Here is a new password for ${service}. Save it if it looks good.`,
+            widget: widget({ type: 'password_event', service, username: 'demo', password: randomPassword() }),
+        };
+    }
+    if (matches(lower, ['run', 'walk', 'gym', 'workout', 'swim', 'yoga', 'bike', '운동']) || role === 'workout') {
+        return {
+            text: 'Nice work! How hard did you push?',
+            widget: widget({
+                type: 'workout_event',
+                exercise: subject,
+                duration: 30,
+                options: [
+                    { label: 'Light', calories: 150 },
+                    { label: 'Moderate', calories: 250 },
+                    { label: 'Intense', calories: 400 },
+                ],
+            }),
+        };
+    }
+    if (matches(lower, ['ate', 'eat', 'food', 'lunch', 'dinner', 'breakfast', 'snack', 'calorie', '먹']) || role === 'cal_tracker') {
+        return {
+            text: 'Sounds tasty! Pick the portion closest to what you had.',
+            widget: widget({
+                type: 'calorie_event',
+                food: subject,
+                options: [
+                    { label: 'Small portion', calories: 250, protein: 12, carbs: 30, fat: 9 },
+                    { label: 'Regular portion', calories: 450, protein: 22, carbs: 55, fat: 16 },
+                    { label: 'Large portion', calories: 700, protein: 34, carbs: 85, fat: 25 },
+                ],
+            }),
+        };
+    }
+    if (role === 'christian') {
+        return { text: '"Cast all your anxiety on Him because He cares for you." (1 Peter 5:7) I\'m praying with you.' };
+    }
+    return { text: SMALL_TALK[question.length % SMALL_TALK.length] };
+};
+
+// Streams the prose as deltas, then closes with the full message (widget included)
+const deliverSociusReply = (groupId: string, question: string) => {
+    setTimeout(async () => {
+        const s = await loadState();
+        const companion = s.companions.find(c => `socius-${c.id}` === groupId);
+        const reply = buildSociusReply(question, companion?.role);
+        const words = reply.text.split(' ');
+
+        words.forEach((word, index) => {
+            setTimeout(() => emit({
+                type: 'delta',
+                data: { message_group_id: groupId, delta: index === 0 ? word : ` ${word}` },
+            }), index * STREAM_CHUNK_MS);
+        });
+
+        setTimeout(async () => {
+            const content = reply.widget ? `${reply.text}\n\n${reply.widget}` : reply.text;
+            const message: ChatMessage = {
+                id: s.nextId++,
+                message_author: 'assistant',
+                content,
+                message_group_id: groupId,
+                created_at: new Date().toISOString(),
+            };
+            s.history.push(message);
+            await saveState();
+            emit({
+                type: 'done',
+                data: { id: message.id, content, message_group_id: groupId, sender_id: companion?.id, created_at: message.created_at },
+            });
+        }, words.length * STREAM_CHUNK_MS);
+    }, REPLY_DELAY_MS);
+};
+
+const FRIEND_REPLIES = ['Sounds good!', 'Haha, nice 😄', 'Let me check and get back to you.', 'Sure thing 👍'];
+
+const deliverFriendReply = (friendId: number) => {
+    setTimeout(async () => {
+        const s = await loadState();
+        if (!s.friends.some(f => f.friend_id === friendId && f.status === 'accepted')) return;
+        const message: StoredDirectMessage = {
+            id: s.nextId++,
+            sender_id: friendId,
+            receiver_id: ME_ID,
+            content: FRIEND_REPLIES[Math.floor(Math.random() * FRIEND_REPLIES.length)],
+            created_at: new Date().toISOString(),
+        };
+        s.directMessages.push(message);
+        s.unread[friendId] = (s.unread[friendId] || 0) + 1;
+        await saveState();
+        emit({
+            type: 'dm',
+            data: { id: message.id, content: message.content, sender_id: friendId, created_at: message.created_at },
+        });
+    }, REPLY_DELAY_MS);
+};
+
+// --- Routes ---
+
+const ok = (data?: unknown): MockReply => ({ status: 200, data: data ?? null });
+const fail = (status: number, detail: string): MockReply => ({ status, data: { detail } });
+
+// Chat sends carry their outbox id as client_id; a resend after a lost response
+// gets the first reply back instead of posting the message again
+const chatSends = (s: MockState) => (s.chatSends = s.chatSends || {});
+
+const lastPage = <T extends { id: number }>(items: T[], beforeId?: string): T[] => {
+    const before = beforeId ? Number(beforeId) : Infinity;
+    return items.filter(item => item.id < before).slice(-HISTORY_PAGE_SIZE);
+};
+
+const findUser = (s: MockState, id: number) => s.users.find(u => u.id === id);
+
+const withLastMessage = (s: MockState, companion: SociusCompanion): SociusCompanion => {
+    const last = [...s.history].reverse().find(m => m.message_group_id === `socius-${companion.id}`);
+    return {
+        ...companion,
+        last_message: last?.content ?? null,
+        last_message_time: last?.created_at ?? null,
+        last_message_is_from_user: last ? last.message_author === 'user' : null,
+        unread_count: 0,
+    };
+};
+
+const routes: Route[] = [];
+
+const route = (method: string, path: string, handler: Route['handler']) => {
+    const keys: string[] = [];
+    const pattern = new RegExp('^' + path.replace(/:(\w+)/g, (_, key) => {
+        keys.push(key);
+        return '([^/]+)';
+    }) + '$');
+    routes.push({ method, pattern, keys, handler });
+};
+
+// Auth & user
+route('POST', '/auth/google', ({ state: s }) => ok({
+    access_token: 'mock-access-token',
+    refresh_token: 'mock-refresh-token',
+    token_type: 'bearer',
+    username: s.me.username || '',
+    user_id: s.me.id,
+} as TokenResponse));
+
+route('GET', '/users/me', ({ state: s }) => ok(s.me));
+
+route('PUT', '/users/me', ({ state: s, body }) => {
+    const { username, display_name, custom_avatar_url, socius_role, language } = body || {};
+    if (username && s.users.some(u => u.username === username)) return fail(400, 'Username already taken');
+    s.me = {
+        ...s.me,
+        ...(username !== undefined && { username }),
+        ...(display_name !== undefined && { display_name }),
+        ...(custom_avatar_url !== undefined && { custom_avatar_url }),
+        ...(socius_role !== undefined && { socius_role }),
+        ...(language !== undefined && { language }),
+    };
+    return ok(s.me);
+});
+
+route('GET', '/users/search', ({ state: s, query }) => {
+    const q = String(query.q || '').toLowerCase();
+    return ok(s.users
+        .filter(u => q && u.username.includes(q))
+        .map(u => ({ id: u.id, username: u.username, email: u.email, custom_avatar_url: null })));
+});
+
+route('POST', '/users/me/avatar', ({ state: s, body }) => {
+    // React Native's FormData keeps the picked file's local uri, which renders fine offline
+    const uri = body?.getParts?.()?.[0]?.uri;
+    if (!uri) return fail(400, 'No file uploaded');
+    s.me.custom_avatar_url = uri;
+    return ok({ custom_avatar_url: uri });
+});
+
+route('DELETE', '/users/me/avatar', ({ state: s }) => {
+    s.me.custom_avatar_url = null;
+    return ok();
+});
+
+// Friends
+route('GET', '/friends/socius', ({ state: s }) => ok(
+    [...s.companions]
+        .sort((a, b) => (a.sort_order ?? 0) - (b.sort_order ?? 0))
+        .map(c => withLastMessage(s, c))
+));
+
+route('POST', '/friends/socius', ({ state: s, body }) => {
+    const companion: SociusCompanion = {
+        id: s.nextId++,
+        name: body.name,
+        avatar: body.avatar,
+        role: body.role,
+        intimacy: body.intimacy ?? null,
+        tone: body.tone ?? null,
+        multilingual_selection: body.multilingual_selection ?? null,
+        sort_order: s.companions.length,
+        created_at: new Date().toISOString(),
+    };
+    s.companions.push(companion);
+    return ok(companion);
+});
+
+route('PATCH', '/friends/socius/order', ({ state: s, body }) => {
+    (body?.orders || []).forEach(({ id, sort_order }: { id: number; sort_order: number }) => {
+        const companion = s.companions.find(c => c.id === id);
+        if (companion) companion.sort_order = sort_order;
+    });
+    return ok();
+});
+
+route('DELETE', '/friends/socius/:id', ({ state: s, params }) => {
+    const id = Number(params.id);
+    if (!s.companions.some(c => c.id === id)) return fail(404, 'Socius friend not found');
+    s.companions = s.companions.filter(c => c.id !== id);
+    s.history = s.history.filter(m => m.message_group_id !== `socius-${id}`);
+    return ok();
+});
+
+route('GET', '/friends', ({ state: s }) => ok(s.friends.filter(f => f.status === 'accepted')));
+
+route('GET', '/friends/requests', ({ state: s }) => ok(s.friends.filter(f => f.status === 'incoming')));
+
+route('POST', '/friends/request', ({ state: s, body }) => {
+    const user = s.users.find(u => u.username === body?.username);
+    if (!user) return fail(404, 'User not found');
+    if (s.friends.some(f => f.friend_id === user.id)) return fail(400, 'Already friends or request pending');
+    s.friends.push({
+        id: s.nextId++,
+        friend_id: user.id,
+        friend_username: user.username,
+        friend_avatar: null,
+        status: 'pending',
+        created_at: new Date().toISOString(),
+    });
+    return ok();
+});
+
+route('POST', '/friends/respond/:id', ({ state: s, params, body }) => {
+    const request = s.friends.find(f => f.id === Number(params.id) && f.status === 'incoming');
+    if (!request) return fail(404, 'Friend request not found');
+    if (body?.action === 'accept') {
+        request.status = 'accepted';
+    } else {
+        s.friends = s.friends.filter(f => f !== request);
+    }
+    return ok();
+});
+
+route('DELETE', '/friends/:friendId', ({ state: s, params }) => {
+    const friendId = Number(params.friendId);
+    if (!s.friends.some(f => f.friend_id === friendId)) return fail(404, 'Friend not found');
+    s.friends = s.friends.filter(f => f.friend_id !== friendId);
+    return ok();
+});
+
+// Messages
+route('GET', '/messages/recent', ({ state: s }) => {
+    const conversations: Conversation[] = [];
+    s.friends.filter(f => f.status === 'accepted').forEach(friend => {
+        const thread = s.directMessages.filter(m => m.sender_id === friend.friend_id || m.receiver_id === friend.friend_id);
+        const last = thread[thread.length - 1];
+        if (!last) return;
+        conversations.push({
+            friend_id: friend.friend_id,
+            friend_username: friend.friend_username,
+            friend_display_name: findUser(s, friend.friend_id)?.display_name ?? null,
+            friend_avatar: friend.friend_avatar ?? null,
+            last_message: last.content,
+            last_message_time: last.created_at,
+            unread_count: s.unread[friend.friend_id] || 0,
+        });
+    });
+    return ok(conversations.sort((a, b) => (b.last_message_time || '').localeCompare(a.last_message_time || '')));
+});
+
+route('GET', '/messages/:friendId', ({ state: s, params, query }) => {
+    const friendId = Number(params.friendId);
+    s.unread[friendId] = 0;
+    const thread = s.directMessages.filter(m => m.sender_id === friendId || m.receiver_id === friendId);
+    return ok(lastPage(thread, query.before_id).map(m => ({ ...m, is_me: m.sender_id === ME_ID })));
+});
+
+route('POST', '/messages', ({ state: s, body }) => {
+    if (body?.client_id && body.client_id in chatSends(s)) return ok(chatSends(s)[body.client_id]);
+    const receiverId = Number(body?.receiver_id);
+    if (!s.friends.some(f => f.friend_id === receiverId && f.status === 'accepted')) return fail(403, 'You can only message friends');
+    const message: StoredDirectMessage = {
+        id: s.nextId++,
+        sender_id: ME_ID,
+        receiver_id: receiverId,
+        content: String(body.content || ''),
+        created_at: new Date().toISOString(),
+    };
+    s.directMessages.push(message);
+    deliverFriendReply(receiverId);
+    const reply = { ...message, is_me: true };
+    if (body.client_id) chatSends(s)[body.client_id] = reply;
+    return ok(reply);
+});
+
+route('DELETE', '/messages/user/:friendId', ({ state: s, params }) => {
+    const friendId = Number(params.friendId);
+    s.directMessages = s.directMessages.filter(m => m.sender_id !== friendId && m.receiver_id !== friendId);
+    s.unread[friendId] = 0;
+    return ok();
+});
+
+// Socius chat
+route('GET', '/history', ({ state: s, query }) => ok(
+    lastPage(s.history.filter(m => m.message_group_id === query.message_group_id), query.before_id)
+));
+
+route('POST', '/ask', ({ state: s, body }) => {
+    if (body?.client_id && body.client_id in chatSends(s)) return ok(chatSends(s)[body.client_id]);
+    const groupId = String(body?.message_group_id || 'default');
+    const question: ChatMessage = {
+        id: s.nextId++,
+        message_author: 'user',
+        content: String(body?.q_text || ''),
+        message_group_id: groupId,
+        created_at: new Date().toISOString(),
+    };
+    s.history.push(question);
+    deliverSociusReply(groupId, question.content);
+    const reply = { question_id: String(question.id), status: 'queued' };
+    if (body.client_id) chatSends(s)[body.client_id] = reply;
+    return ok(reply);
+});
+
+// Diary
+route('GET', '/diary', ({ state: s }) => ok([...s.diary].sort((a, b) => b.date.localeCompare(a.date))));
+
+route('POST', '/diary', ({ state: s, body }) => {
+    const entry: DiaryEntry = {
+        id: s.nextId++,
+        title: body.title ?? null,
+        content: body.content,
+        date: body.date,
+        created_at: new Date().toISOString(),
+    };
+    s.diary.push(entry);
+    return ok(entry);
+});
+
+route('PUT', '/diary/:id', ({ state: s, params, body }) => {
+    const entry = s.diary.find(e => e.id === Number(params.id));
+    if (!entry) return fail(404, 'Diary entry not found');
+    entry.title = body.title ?? entry.title;
+    entry.content = body.content;
+    return ok(entry);
+});
+
+route('DELETE', '/diary/:id', ({ state: s, params }) => {
+    s.diary = s.diary.filter(e => e.id !== Number(params.id));
+    return ok();
+});
+
+// Notes
+route('GET', '/notes', ({ state: s }) => ok([...s.notes].sort((a, b) => a.position - b.position)));
+
+route('POST', '/notes', ({ state: s, body }) => {
+    const now = new Date().toISOString();
+    const note: NoteEntry = {
+        id: s.nextId++,
+        title: body.title,
+        content: body.content,
+        position: s.notes.length,
+        date: body.date ?? null,
+        created_at: now,
+        updated_at: now,
+    };
+    s.notes.push(note);
+    return ok(note);
+});
+
+route('PUT', '/notes/reorder', ({ state: s, body }) => {
+    (body?.note_ids || []).forEach((id: number, position: number) => {
+        const note = s.notes.find(n => n.id === id);
+        if (note) note.position = position;
+    });
+    return ok();
+});
+
+route('PUT', '/notes/:id', ({ state: s, params, body }) => {
+    const note = s.notes.find(n => n.id === Number(params.id));
+    if (!note) return fail(404, 'Note not found');
+    note.title = body.title;
+    note.content = body.content;
+    note.updated_at = new Date().toISOString();
+    return ok(note);
+});
+
+route('DELETE', '/notes/:id', ({ state: s, params }) => {
+    s.notes = s.notes.filter(n => n.id !== Number(params.id));
+    return ok();
+});
+
+// Notifications
+route('GET', '/notifications/unread', ({ state: s }) => {
+    const friendRequests = s.friends.filter(f => f.status === 'incoming').length;
+    const unreadMessages = Object.values(s.unread).reduce((sum, n) => sum + n, 0);
+    return ok({
+        friend_requests: friendRequests,
+        unread_messages: unreadMessages,
+        socius_unread: 0,
+        total: friendRequests + unreadMessages,
+    } as UnreadCounts);
+});
+
+route('POST', '/notifications/token', () => ok());
+
+// Workouts
+route('GET', '/workouts/stats', ({ state: s }) => ok(s.workoutStats));
+
+route('POST', '/workouts/stats', ({ state: s, body }) => {
+    s.workoutStats = body;
+    return ok(body);
+});
+
+// Synced collections upsert on POST by client_id, like the real backend
+SYNC_ENDPOINTS.forEach(endpoint => {
+    const rows = (s: MockState) => (s.collections[endpoint] = s.collections[endpoint] || []);
+
+    route('GET', endpoint, ({ state: s }) => ok(rows(s)));
+
+    route('POST', endpoint, ({ state: s, body }) => {
+        const row = { ...body, updated_at: body.updated_at ?? Date.now() };
+        s.collections[endpoint] = [...rows(s).filter(r => r.client_id !== row.client_id), row];
+        return ok(row);
+    });
+
+    route('PUT', `${endpoint}/:clientId`, ({ state: s, params, body }) => {
+        if (!rows(s).some(r => r.client_id === params.clientId)) return fail(404, 'Not found');
+        const row = { ...body, client_id: params.clientId, updated_at: body.updated_at ?? Date.now() };
+        s.collections[endpoint] = rows(s).map(r => r.client_id === params.clientId ? row : r);
+        return ok(row);
+    });
+
+    route('DELETE', `${endpoint}/:clientId`, ({ state: s, params }) => {
+        if (!rows(s).some(r => r.client_id === params.clientId)) return fail(404, 'Not found');
+        s.collections[endpoint] = rows(s).filter(r => r.client_id !== params.clientId);
+        return ok();
+    });
+});
+
+const dispatch = (ctx: Omit<RouteContext, 'params'>, method: string, path: string): MockReply => {
+    for (const candidate of routes) {
+        if (candidate.method !== method) continue;
+        const match = candidate.pattern.exec(path);
+        if (!match) continue;
+        const params = Object.fromEntries(candidate.keys.map((key, i) => [key, decodeURIComponent(match[i + 1])]));
+        return candidate.handler({ ...ctx, params });
+    }
+    console.warn(`Mock backend has no route for ${method} ${path}`);
+    return fail(404, 'Not found');
+};
+
+const parseBody = (data: unknown) => {
+    if (typeof data !== 'string') return data;
+    try {
+        return JSON.parse(data);
+    } catch {
+        return data;
+    }
+};
+
+/**
+ * Axios adapter that answers from the mock state. Error statuses reject with an
+ * AxiosError carrying `{ detail }`, the same shape the real backend sends.
+ */
+export const mockAdapter = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const s = await loadState();
+    const method = (config.method || 'get').toUpperCase();
+    const path = (config.url || '').split('?')[0];
+    const { status, data } = dispatch({ state: s, query: config.params || {}, body: parseBody(config.data) }, method, path);
+    await saveState();
+
+    const response: AxiosResponse = { data, status, statusText: String(status), headers: {}, config, request: {} };
+    if (status >= 400) {
+        throw new AxiosError(
+            `Request failed with status code ${status}`,
+            status < 500 ? AxiosError.ERR_BAD_REQUEST : AxiosError.ERR_BAD_RESPONSE,
+            config,
+            {},
+            response
+        );
+    }
+    return response;
+};
@@ -0,0 +1,242 @@
+import * as v from './validation';
+import type {
+    AvatarUploadResponse,
+    BibleBookmarkRow,
+    CalorieRow,
+    ChatMessage,
+    Conversation,
+    DiaryEntry,
+    DirectMessage,
+    FavoriteFoodRow,
+    Friend,
+    MealTemplateItemRow,
+    MealTemplateRow,
+    NoteEntry,
+    PasswordFieldRow,
+    PasswordGroupRow,
+    PasswordHistoryRow,
+    PasswordRow,
+    SociusCompanion,
+    TokenResponse,
+    UnreadCounts,
+    UserProfile,
+    UserSearchResult,
+    WorkoutActivityRow,
+    WorkoutStatsRow
+} from '../types/api';
+
+/**
+ * Runtime schemas for the response types in types/api.ts, one per interface.
+ * `v.object` requires a schema for every field, so a field added to an interface
+ * fails type-checking here until it is described.
+ */
+
+export const tokenResponseSchema = v.object<TokenResponse>({
+    access_token: v.string,
+    refresh_token: v.optional(v.string),
+    token_type: v.string,
+    username: v.string,
+    user_id: v.number,
+});
+
+export const chatMessageSchema = v.object<ChatMessage>({
+    id: v.number,
+    message_author: v.optional(v.oneOf('user', 'assistant')),
+    content: v.string,
+    message_group_id: v.string,
+    created_at: v.string,
+    role: v.optional(v.oneOf('user', 'assistant')),
+});
+
+export const diaryEntrySchema = v.object<DiaryEntry>({
+    id: v.number,
+    title: v.optional(v.string),
+    content: v.string,
+    date: v.string,
+    created_at: v.string,
+});
+
+export const noteEntrySchema = v.object<NoteEntry>({
+    id: v.number,
+    title: v.string,
+    content: v.string,
+    position: v.number,
+    date: v.optional(v.string),
+    created_at: v.string,
+    updated_at: v.string,
+});
+
+export const userProfileSchema = v.object<UserProfile>({
+    id: v.number,
+    username: v.nullable(v.string),
+    display_name: v.nullable(v.string),
+    email: v.string,
+    custom_avatar_url: v.nullable(v.string),
+    socius_role: v.nullable(v.string),
+    language: v.nullable(v.string),
+});
+
+export const userSearchResultSchema = v.object<UserSearchResult>({
+    id: v.number,
+    username: v.string,
+    email: v.string,
+    custom_avatar_url: v.optional(v.string),
+});
+
+export const avatarUploadResponseSchema = v.object<AvatarUploadResponse>({
+    custom_avatar_url: v.string,
+});
+
+export const friendSchema = v.object<Friend>({
+    id: v.number,
+    friend_id: v.number,
+    friend_username: v.string,
+    friend_avatar: v.optional(v.string),
+    status: v.oneOf('pending', 'accepted', 'incoming'),
+    created_at: v.optional(v.string),
+});
+
+export const sociusCompanionSchema = v.object<SociusCompanion>({
+    id: v.number,
+    name: v.string,
+    avatar: v.string,
+    role: v.string,
+    intimacy: v.optional(v.number),
+    tone: v.optional(v.string),
+    multilingual_selection: v.optional(v.string),
+    sort_order: v.optional(v.number),
+    created_at: v.optional(v.string),
+    last_message: v.optional(v.string),
+    last_message_time: v.optional(v.string),
+    last_message_is_from_user: v.optional(v.boolean),
+    unread_count: v.optional(v.number),
+});
+
+export const directMessageSchema = v.object<DirectMessage>({
+    id: v.number,
+    sender_id: v.number,
+    receiver_id: v.number,
+    content: v.string,
+    created_at: v.string,
+    is_me: v.boolean,
+});
+
+export const conversationSchema = v.object<Conversation>({
+    friend_id: v.number,
+    friend_username: v.string,
+    friend_display_name: v.optional(v.string),
+    friend_avatar: v.optional(v.string),
+    last_message: v.optional(v.string),
+    last_message_time: v.optional(v.string),
+    unread_count: v.optional(v.number),
+});
+
+export const unreadCountsSchema = v.object<UnreadCounts>({
+    friend_requests: v.number,
+    unread_messages: v.number,
+    socius_unread: v.number,
+    total: v.number,
+});
+
+export const calorieRowSchema = v.object<CalorieRow>({
+    client_id: v.string,
+    food: v.string,
+    calories: v.number,
+    date: v.string,
+    timestamp: v.number,
+    protein: v.optional(v.number),
+    carbs: v.optional(v.number),
+    fat: v.optional(v.number),
+    fiber: v.optional(v.number),
+    sugar: v.optional(v.number),
+    meal: v.optional(v.oneOf('breakfast', 'lunch', 'dinner', 'snack')),
+    updated_at: v.optional(v.number),
+});
+
+export const favoriteFoodRowSchema = v.object<FavoriteFoodRow>({
+    client_id: v.string,
+    food: v.string,
+    calories: v.number,
+    protein: v.optional(v.number),
+    carbs: v.optional(v.number),
+    fat: v.optional(v.number),
+    fiber: v.optional(v.number),
+    sugar: v.optional(v.number),
+    updated_at: v.number,
+});
+
+export const mealTemplateRowSchema = v.object<MealTemplateRow>({
+    client_id: v.string,
+    name: v.string,
+    meal: v.oneOf('breakfast', 'lunch', 'dinner', 'snack'),
+    items: v.arrayOf(v.object<MealTemplateItemRow>({
+        food: v.string,
+        calories: v.number,
+        protein: v.optional(v.number),
+        carbs: v.optional(v.number),
+        fat: v.optional(v.number),
+        fiber: v.optional(v.number),
+        sugar: v.optional(v.number),
+    })),
+    updated_at: v.number,
+});
+
+export const workoutActivityRowSchema = v.object<WorkoutActivityRow>({
+    client_id: v.string,
+    name: v.string,
+    duration: v.number,
+    calories: v.number,
+    date: v.string,
+    timestamp: v.number,
+    updated_at: v.optional(v.number),
+});
+
+export const workoutStatsRowSchema = v.object<WorkoutStatsRow>({
+    weight: v.number,
+    height: v.number,
+    age: v.number,
+    gender: v.oneOf('male', 'female'),
+    activity_level: v.oneOf('sedentary', 'light', 'moderate', 'active', 'very_active'),
+    weight_goal: v.optional(v.oneOf('lose', 'maintain', 'gain')),
+});
+
+export const passwordRowSchema = v.object<PasswordRow>({
+    client_id: v.string,
+    service: v.string,
+    username: v.string,
+    password: v.string,
+    group: v.string,
+    totp: v.optional(v.string),
+    url: v.optional(v.string),
+    notes: v.optional(v.string),
+    tags: v.optional(v.arrayOf(v.string)),
+    custom_fields: v.optional(v.arrayOf(v.object<PasswordFieldRow>({
+        key: v.string,
+        value: v.string,
+    }))),
+    password_history: v.optional(v.arrayOf(v.object<PasswordHistoryRow>({
+        password: v.string,
+        changed_at: v.number,
+    }))),
+    password_changed_at: v.optional(v.number),
+    updated_at: v.number,
+});
+
+export const passwordGroupRowSchema = v.object<PasswordGroupRow>({
+    client_id: v.string,
+    name: v.string,
+    icon: v.string,
+    color: v.string,
+    updated_at: v.number,
+});
+
+export const bibleBookmarkRowSchema = v.object<BibleBookmarkRow>({
+    client_id: v.string,
+    version: v.string,
+    book_index: v.number,
+    chapter_index: v.number,
+    label: v.optional(v.string),
+    created_at: v.string,
+    created_at_str: v.optional(v.string),
+    updated_at: v.optional(v.number),
+});
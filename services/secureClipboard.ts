@@ -0,0 +1,141 @@
+import { AppState, AppStateStatus } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Clipboard from 'expo-clipboard';
+import { STORAGE_KEYS, subscribeUserDataWipe } from './storageRegistry';
+
+/**
+ * Copying for secrets. A copied password or two-factor code is wiped from the
+ * system clipboard after the configured delay, unless something else has been
+ * copied over it since. Timers do not run while the app is suspended, so the check
+ * is repeated when the app comes back to the foreground. Also remembers when each
+ * account's password was last copied, for the password audit.
+ */
+
+export type CopyKind = 'password' | 'username' | 'totp';
+
+// 0 never clears
+export const CLIPBOARD_CLEAR_DELAYS = [15_000, 30_000, 60_000, 120_000, 0];
+
+export interface CopiedItem {
+    kind: CopyKind;
+    copiedAt: number;
+    clearAt: number | null; // Null when it is left in the clipboard
+}
+
+export interface SecureClipboardState {
+    loaded: boolean;
+    clearAfterMs: number;
+    lastCopied: Record<string, number>; // Account id -> when its password was last copied
+    copied: CopiedItem | null; // The latest copy, while it is worth showing
+}
+
+const DEFAULT_CLEAR_AFTER_MS = 30_000;
+// How long the confirmation stays up for copies that are not cleared
+const NOTICE_MS = 2_000;
+
+let state: SecureClipboardState = {
+    loaded: false,
+    clearAfterMs: DEFAULT_CLEAR_AFTER_MS,
+    lastCopied: {},
+    copied: null,
+};
+let loading: Promise<void> | null = null;
+let pending: { text: string; clearAt: number } | null = null;
+let timer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<(next: SecureClipboardState) => void>();
+
+const setState = (patch: Partial<SecureClipboardState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach(listener => listener(state));
+};
+
+export const getSecureClipboardState = () => state;
+
+export const subscribeSecureClipboard = (listener: (next: SecureClipboardState) => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const loadSecureClipboard = (): Promise<void> => {
+    if (!loading) {
+        loading = (async () => {
+            let clearAfterMs = DEFAULT_CLEAR_AFTER_MS;
+            let lastCopied: Record<string, number> = {};
+            try {
+                const [[, savedDelay], [, savedCopied]] = await AsyncStorage.multiGet([
+                    STORAGE_KEYS.clipboardClearAfter,
+                    STORAGE_KEYS.passwordLastCopied,
+                ]);
+                if (savedDelay !== null && CLIPBOARD_CLEAR_DELAYS.includes(Number(savedDelay))) clearAfterMs = Number(savedDelay);
+                if (savedCopied) lastCopied = JSON.parse(savedCopied);
+            } catch (e) {
+                console.error('Failed to load clipboard settings', e);
+            }
+            setState({ loaded: true, clearAfterMs, lastCopied: { ...lastCopied, ...state.lastCopied } });
+        })();
+    }
+    return loading;
+};
+
+export const setClipboardClearDelay = async (clearAfterMs: number): Promise<void> => {
+    setState({ clearAfterMs });
+    await AsyncStorage.setItem(STORAGE_KEYS.clipboardClearAfter, String(clearAfterMs));
+};
+
+const cancelTimer = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+};
+
+// Leaves the clipboard alone if the user has copied something else since
+export const clearCopiedSecret = async (): Promise<void> => {
+    cancelTimer();
+    const secret = pending;
+    pending = null;
+    setState({ copied: null });
+    if (!secret) return;
+    try {
+        if ((await Clipboard.getStringAsync()) === secret.text) await Clipboard.setStringAsync('');
+    } catch (e) {
+        console.error('Failed to clear the clipboard', e);
+    }
+};
+
+/**
+ * Copies `text` and, for passwords and codes, schedules it to be cleared. Passing
+ * the account id records the copy for the password audit.
+ */
+export const copySecret = async (text: string, kind: CopyKind, accountId?: string): Promise<void> => {
+    await Clipboard.setStringAsync(text);
+    await loadSecureClipboard();
+
+    cancelTimer();
+    const now = Date.now();
+    const clears = kind !== 'username' && state.clearAfterMs > 0;
+    pending = clears ? { text, clearAt: now + state.clearAfterMs } : null;
+    timer = setTimeout(clearCopiedSecret, clears ? state.clearAfterMs : NOTICE_MS);
+
+    setState({ copied: { kind, copiedAt: now, clearAt: pending?.clearAt ?? null } });
+
+    if (kind === 'password' && accountId) {
+        const lastCopied = { ...state.lastCopied, [accountId]: now };
+        setState({ lastCopied });
+        AsyncStorage.setItem(STORAGE_KEYS.passwordLastCopied, JSON.stringify(lastCopied))
+            .catch(e => console.error('Failed to save copy history', e));
+    }
+};
+
+export const handleClipboardAppStateChange = (next: AppStateStatus, now = Date.now()) => {
+    if (next === 'active' && pending && now >= pending.clearAt) clearCopiedSecret();
+};
+
+// Started once from the root layout
+export const startSecureClipboardWatcher = () => {
+    const subscription = AppState.addEventListener('change', status => handleClipboardAppStateChange(status));
+    return () => subscription.remove();
+};
+
+subscribeUserDataWipe(async () => {
+    await clearCopiedSecret();
+    setState({ clearAfterMs: DEFAULT_CLEAR_AFTER_MS, lastCopied: {} });
+});
@@ -0,0 +1,256 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/**
+ * Every AsyncStorage key the app uses, the module that owns it, whether it holds the
+ * signed-in user's data and the version of the shape stored under it.
+ *
+ * Modules import their key names from here rather than spelling them out, so the
+ * list cannot drift from what is actually on disk. To change what a key stores, bump
+ * its `version` and add a migration to STORAGE_MIGRATIONS; `runStorageMigrations`
+ * upgrades existing installs at startup, before any context reads its data.
+ * `wipeUserData` removes every `user` key on sign-out, so the next account on the
+ * device starts empty; `device` keys (theme, language) are kept.
+ */
+
+export const STORAGE_KEYS = {
+    // Settings
+    theme: 'app_theme',
+    avatarPreference: 'socius_avatar_preference',
+    accentColor: 'app_accent_color',
+    language: 'app_language',
+    selectedLanguage: 'selected_language',
+    onboardingComplete: 'onboarding_complete',
+    appsTwoRow: 'user_apps_two_row',
+    appsOrder: 'user_apps_order_v1',
+    chatHeadPosition: 'chat_head_pos',
+    appShortcutPosition: 'global_app_shortcut_pos',
+    appLock: 'app_lock_settings',
+    passwordAuditStaleDays: 'password_audit_stale_days',
+    clipboardClearAfter: 'clipboard_clear_after',
+    passwordLastCopied: 'password_last_copied',
+    // Profile cache
+    displayName: 'user_display_name',
+    username: 'user_username',
+    displayAvatar: 'user_display_avatar',
+    // Synced collections
+    calories: 'calories_entries',
+    mealTemplates: 'calories_meal_templates',
+    favoriteFoods: 'calories_favorite_foods',
+    workoutActivities: 'workout_activities',
+    passwords: 'user_passwords',
+    passwordGroups: 'user_password_groups',
+    bibleBookmarks: 'bible_bookmarks',
+    physicalStats: 'user_physical_stats',
+    // Bible reader
+    bibleVersion: 'bible_version',
+    bibleBook: 'bible_book',
+    bibleChapter: 'bible_chapter',
+    bibleFontSize: 'bible_font_size',
+    bibleAutoHide: 'bible_auto_hide',
+    // Chat
+    chatThreads: 'chat_threads_v1',
+    chatOutbox: 'chat_outbox_v1',
+    // Internal
+    mockBackend: 'mock_backend_state',
+    storageVersions: 'storage_versions',
+    dataOwner: 'user_data_owner',
+} as const;
+
+// Families of keys built from a fixed prefix plus an id
+export const STORAGE_PREFIXES = {
+    appChatHeadPosition: 'chat_head_pos_', // + app context
+    chatMessages: 'chat_messages_', // + thread id + '_v1'
+    bibleHighlights: 'highlights_', // + version_book_chapter
+    calorieLogged: 'calorie_logged_', // + widget message id
+    workoutLogged: 'workout_logged_',
+    passwordSaved: 'password_saved_',
+} as const;
+
+// Where a sync engine keeps conflicts awaiting review for its collection
+export const conflictsKeyFor = (storageKey: string) => `${storageKey}_conflicts`;
+
+export type StorageScope = 'user' | 'device';
+
+export interface StorageEntry {
+    key: string;
+    prefix?: boolean; // `key` is shared by a family of keys rather than used as is
+    owner: string; // Module that reads and writes it
+    scope: StorageScope; // `user` data is wiped on sign-out and account switch
+    version: number; // Shape of the stored value; bump together with a migration
+}
+
+export interface StorageMigration {
+    key: string; // Registry entry it upgrades
+    toVersion: number;
+    // Returns the value in the new shape, or null to drop it
+    migrate: (value: string) => string | null;
+}
+
+const entry = (key: string, owner: string, scope: StorageScope, version = 1): StorageEntry =>
+    ({ key, owner, scope, version });
+const prefixEntry = (key: string, owner: string, scope: StorageScope, version = 1): StorageEntry =>
+    ({ key, owner, scope, version, prefix: true });
+
+export const STORAGE_REGISTRY: StorageEntry[] = [
+    entry(STORAGE_KEYS.theme, 'context/ThemeContext', 'device'),
+    entry(STORAGE_KEYS.avatarPreference, 'context/ThemeContext', 'device'),
+    entry(STORAGE_KEYS.accentColor, 'context/ThemeContext', 'device'),
+    entry(STORAGE_KEYS.language, 'context/LanguageContext', 'device'),
+    entry(STORAGE_KEYS.selectedLanguage, 'app/onboarding', 'device'),
+    entry(STORAGE_KEYS.onboardingComplete, 'app/index', 'user'),
+    entry(STORAGE_KEYS.appsTwoRow, 'app/settings', 'user'),
+    entry(STORAGE_KEYS.appsOrder, 'app/messages', 'user'),
+    entry(STORAGE_KEYS.chatHeadPosition, 'components/features/chat/ChatHead', 'user'),
+    prefixEntry(STORAGE_PREFIXES.appChatHeadPosition, 'components/features/chat/AppSpecificChatHead', 'user'),
+    entry(STORAGE_KEYS.appShortcutPosition, 'components/features/chat/GlobalAppShortcut', 'user'),
+    entry(STORAGE_KEYS.appLock, 'services/appLock', 'user'),
+    entry(STORAGE_KEYS.passwordAuditStaleDays, 'hooks/usePasswordAudit', 'user'),
+    entry(STORAGE_KEYS.clipboardClearAfter, 'services/secureClipboard', 'user'),
+    entry(STORAGE_KEYS.passwordLastCopied, 'services/secureClipboard', 'user'),
+
+    entry(STORAGE_KEYS.displayName, 'context/UserProfileContext', 'user'),
+    entry(STORAGE_KEYS.username, 'context/UserProfileContext', 'user'),
+    entry(STORAGE_KEYS.displayAvatar, 'context/UserProfileContext', 'user'),
+
+    entry(STORAGE_KEYS.calories, 'hooks/useCalories', 'user'),
+    entry(conflictsKeyFor(STORAGE_KEYS.calories), 'services/SyncEngine', 'user'),
+    entry(STORAGE_KEYS.mealTemplates, 'hooks/useMealTemplates', 'user'),
+    entry(conflictsKeyFor(STORAGE_KEYS.mealTemplates), 'services/SyncEngine', 'user'),
+    entry(STORAGE_KEYS.favoriteFoods, 'hooks/useCalories', 'user'),
+    entry(conflictsKeyFor(STORAGE_KEYS.favoriteFoods), 'services/SyncEngine', 'user'),
+    entry(STORAGE_KEYS.workoutActivities, 'hooks/useWorkouts', 'user'),
+    entry(conflictsKeyFor(STORAGE_KEYS.workoutActivities), 'services/SyncEngine', 'user'),
+    entry(STORAGE_KEYS.physicalStats, 'hooks/useWorkouts', 'user'),
+    entry(STORAGE_KEYS.passwords, 'hooks/usePasswords', 'user'),
+    entry(conflictsKeyFor(STORAGE_KEYS.passwords), 'services/SyncEngine', 'user'),
+    entry(STORAGE_KEYS.passwordGroups, 'hooks/usePasswordGroups', 'user'),
+    entry(conflictsKeyFor(STORAGE_KEYS.passwordGroups), 'services/SyncEngine', 'user'),
+    entry(STORAGE_KEYS.bibleBookmarks, 'hooks/useBible', 'user'),
+    entry(conflictsKeyFor(STORAGE_KEYS.bibleBookmarks), 'services/SyncEngine', 'user'),
+
+    entry(STORAGE_KEYS.bibleVersion, 'hooks/useBible', 'user'),
+    entry(STORAGE_KEYS.bibleBook, 'hooks/useBible', 'user'),
+    entry(STORAGE_KEYS.bibleChapter, 'hooks/useBible', 'user'),
+    entry(STORAGE_KEYS.bibleFontSize, 'hooks/useBible', 'device'),
+    entry(STORAGE_KEYS.bibleAutoHide, 'hooks/useBible', 'device'),
+    prefixEntry(STORAGE_PREFIXES.bibleHighlights, 'hooks/useBible', 'user'),
+
+    entry(STORAGE_KEYS.chatThreads, 'services/ChatCache', 'user'),
+    prefixEntry(STORAGE_PREFIXES.chatMessages, 'services/ChatCache', 'user'),
+    entry(STORAGE_KEYS.chatOutbox, 'services/ChatOutbox', 'user'),
+    prefixEntry(STORAGE_PREFIXES.calorieLogged, 'components/features/chat/widgets/CalorieWidget', 'user'),
+    prefixEntry(STORAGE_PREFIXES.workoutLogged, 'components/features/chat/widgets/WorkoutWidget', 'user'),
+    prefixEntry(STORAGE_PREFIXES.passwordSaved, 'components/features/chat/widgets/PasswordWidget', 'user'),
+
+    // The mock backend plays the server, which outlives any one sign-in
+    entry(STORAGE_KEYS.mockBackend, 'services/mockBackend', 'device'),
+    entry(STORAGE_KEYS.storageVersions, 'services/storageRegistry', 'device'),
+    entry(STORAGE_KEYS.dataOwner, 'services/storageRegistry', 'device'),
+];
+
+// Ordered by version per key; none yet, every key is still on its first shape
+export const STORAGE_MIGRATIONS: StorageMigration[] = [];
+
+const keysFor = (storageEntry: StorageEntry, allKeys: readonly string[]) =>
+    storageEntry.prefix ? allKeys.filter(k => k.startsWith(storageEntry.key)) : [storageEntry.key];
+
+/**
+ * Brings every registered key up to its current version. Installs from before
+ * versioning have no record and are treated as version 1. A migration that throws
+ * leaves its key at the old version so it is retried on the next launch.
+ */
+export const runStorageMigrations = async (
+    registry: StorageEntry[] = STORAGE_REGISTRY,
+    migrations: StorageMigration[] = STORAGE_MIGRATIONS
+): Promise<void> => {
+    let versions: Record<string, number> = {};
+    try {
+        const saved = await AsyncStorage.getItem(STORAGE_KEYS.storageVersions);
+        versions = saved ? JSON.parse(saved) : {};
+    } catch (e) {
+        console.error('Failed to read storage versions', e);
+    }
+
+    let allKeys: readonly string[] | null = null;
+
+    for (const storageEntry of registry) {
+        const from = versions[storageEntry.key] ?? 1;
+        if (from >= storageEntry.version) {
+            versions[storageEntry.key] = from;
+            continue;
+        }
+
+        const steps = migrations
+            .filter(m => m.key === storageEntry.key && m.toVersion > from && m.toVersion <= storageEntry.version)
+            .sort((a, b) => a.toVersion - b.toVersion);
+
+        try {
+            if (steps.length > 0) {
+                if (storageEntry.prefix && !allKeys) allKeys = await AsyncStorage.getAllKeys();
+                const stored = await AsyncStorage.multiGet(keysFor(storageEntry, allKeys || []));
+                for (const [key, value] of stored) {
+                    if (value === null) continue;
+                    let next: string | null = value;
+                    for (const step of steps) {
+                        if (next === null) break;
+                        next = step.migrate(next);
+                    }
+                    if (next === null) {
+                        await AsyncStorage.removeItem(key);
+                    } else if (next !== value) {
+                        await AsyncStorage.setItem(key, next);
+                    }
+                }
+            }
+            versions[storageEntry.key] = storageEntry.version;
+        } catch (e) {
+            console.error(`Storage migration failed for ${storageEntry.key}`, e);
+        }
+    }
+
+    try {
+        await AsyncStorage.setItem(STORAGE_KEYS.storageVersions, JSON.stringify(versions));
+    } catch (e) {
+        console.error('Failed to save storage versions', e);
+    }
+};
+
+// Modules holding user data in memory register here to drop it along with storage
+const wipeListeners = new Set<() => void | Promise<void>>();
+
+export const subscribeUserDataWipe = (listener: () => void | Promise<void>) => {
+    wipeListeners.add(listener);
+    return () => { wipeListeners.delete(listener); };
+};
+
+/**
+ * Removes every user-scoped key. In-memory copies are dropped first so nothing
+ * still queued can write the old account's data back afterwards.
+ */
+export const wipeUserData = async (registry: StorageEntry[] = STORAGE_REGISTRY): Promise<void> => {
+    await Promise.all(Array.from(wipeListeners).map(async listener => {
+        try {
+            await listener();
+        } catch (e) {
+            console.error('Failed to clear in-memory user data', e);
+        }
+    }));
+
+    const userEntries = registry.filter(e => e.scope === 'user');
+    const allKeys = await AsyncStorage.getAllKeys();
+    const keys = allKeys.filter(key => userEntries.some(e => e.prefix ? key.startsWith(e.key) : key === e.key));
+    await AsyncStorage.multiRemove(keys);
+};
+
+/**
+ * Called when an account signs in. Data left by anyone else is wiped before the new
+ * account can see it: another account whose sign-out never finished, or an install
+ * from before the owner was recorded.
+ */
+export const claimUserData = async (userId: number): Promise<void> => {
+    const owner = await AsyncStorage.getItem(STORAGE_KEYS.dataOwner);
+    if (owner !== String(userId)) {
+        await wipeUserData();
+    }
+    await AsyncStorage.setItem(STORAGE_KEYS.dataOwner, String(userId));
+};
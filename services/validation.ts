@@ -0,0 +1,154 @@
+/**
+ * Runtime checks for server payloads.
+ *
+ * The app caches much of what the backend sends (sync collections, profile, threads), so
+ * a changed or broken response must not reach AsyncStorage. Schemas here mirror the
+ * interfaces in types/api.ts; rows that fail are dropped and recorded per endpoint, and
+ * the dev-only diagnostics screen lists what was rejected.
+ */
+
+export interface Schema<T> {
+    // Describes the first mismatch, or returns null when the value fits
+    check: (value: unknown) => string | null;
+    readonly _type?: T; // Type carrier only; never set
+}
+
+const describeValue = (value: unknown) =>
+    value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const primitive = <T>(expected: 'string' | 'number' | 'boolean'): Schema<T> => ({
+    check: (value) => {
+        if (typeof value !== expected || (expected === 'number' && Number.isNaN(value))) {
+            return `expected ${expected}, got ${describeValue(value)}`;
+        }
+        return null;
+    }
+});
+
+export const string = primitive<string>('string');
+export const number = primitive<number>('number');
+export const boolean = primitive<boolean>('boolean');
+
+// Pydantic sends unset optional fields as null, so optional also accepts null
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => ({
+    check: (value) => value === undefined || value === null ? null : schema.check(value)
+});
+
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> => ({
+    check: (value) => value === null ? null : schema.check(value)
+});
+
+export const oneOf = <T extends string>(...values: T[]): Schema<T> => ({
+    check: (value) => values.includes(value as T)
+        ? null
+        : `expected one of ${values.join(', ')}, got ${JSON.stringify(value)}`
+});
+
+export const arrayOf = <T>(schema: Schema<T>): Schema<T[]> => ({
+    check: (value) => {
+        if (!Array.isArray(value)) return `expected array, got ${describeValue(value)}`;
+        for (let i = 0; i < value.length; i++) {
+            const problem = schema.check(value[i]);
+            if (problem) return `[${i}] ${problem}`;
+        }
+        return null;
+    }
+});
+
+// Every field of T needs a schema; unknown extra fields are allowed
+export const object = <T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> => ({
+    check: (value) => {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+            return `expected object, got ${describeValue(value)}`;
+        }
+        for (const key of Object.keys(shape) as (keyof T & string)[]) {
+            const problem = shape[key].check((value as Record<string, unknown>)[key]);
+            if (problem) return `${key}: ${problem}`;
+        }
+        return null;
+    }
+});
+
+// ============== FAILURE LOG ==============
+
+export interface ValidationFailure {
+    endpoint: string; // Route label, e.g. 'GET /diary'
+    count: number; // Rejected payloads or rows since launch
+    problem: string; // Most recent mismatch
+    sample: string; // Most recent rejected value, truncated
+    lastSeen: number;
+}
+
+const MAX_SAMPLE_LENGTH = 300;
+
+const failures = new Map<string, ValidationFailure>();
+const failureListeners = new Set<() => void>();
+
+const truncate = (value: unknown) => {
+    let text: string;
+    try {
+        text = JSON.stringify(value) ?? String(value);
+    } catch {
+        text = String(value);
+    }
+    return text.length > MAX_SAMPLE_LENGTH ? `${text.slice(0, MAX_SAMPLE_LENGTH)}…` : text;
+};
+
+export const recordValidationFailure = (endpoint: string, problem: string, value: unknown) => {
+    console.warn(`Rejected response from ${endpoint}: ${problem}`);
+    const previous = failures.get(endpoint);
+    failures.set(endpoint, {
+        endpoint,
+        count: (previous?.count ?? 0) + 1,
+        problem,
+        sample: truncate(value),
+        lastSeen: Date.now(),
+    });
+    failureListeners.forEach(listener => listener());
+};
+
+export const getValidationFailures = (): ValidationFailure[] =>
+    Array.from(failures.values()).sort((a, b) => b.lastSeen - a.lastSeen);
+
+export const subscribeValidationFailures = (listener: () => void) => {
+    failureListeners.add(listener);
+    return () => { failureListeners.delete(listener); };
+};
+
+export const clearValidationFailures = () => {
+    failures.clear();
+    failureListeners.forEach(listener => listener());
+};
+
+// ============== VALIDATION ==============
+
+/**
+ * Keeps the rows that match and records the rest. A body that isn't a list at all is
+ * recorded once and treated as empty; `null` is the backend's empty list and passes.
+ */
+export const validateList = <T>(endpoint: string, value: unknown, schema: Schema<T>) => {
+    const valid: T[] = [];
+    const dropped: unknown[] = [];
+    if (value === null || value === undefined) return { valid, dropped };
+    if (!Array.isArray(value)) {
+        recordValidationFailure(endpoint, `expected array, got ${describeValue(value)}`, value);
+        return { valid, dropped };
+    }
+    value.forEach(row => {
+        const problem = schema.check(row);
+        if (problem) {
+            recordValidationFailure(endpoint, problem, row);
+            dropped.push(row);
+        } else {
+            valid.push(row as T);
+        }
+    });
+    return { valid, dropped };
+};
+
+// Returns the problem (already recorded) or null when the value fits
+export const validateOne = <T>(endpoint: string, value: unknown, schema: Schema<T>): string | null => {
+    const problem = schema.check(value);
+    if (problem) recordValidationFailure(endpoint, problem, value);
+    return problem;
+};
@@ -0,0 +1,237 @@
+import * as SecureStore from 'expo-secure-store';
+import { getRandomBytes } from 'expo-crypto';
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { bytesToUtf8, utf8ToBytes } from '@noble/ciphers/utils';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha2';
+import { subscribeUserDataWipe } from './storageRegistry';
+
+/**
+ * Client-side encryption for the password vault.
+ *
+ * Every field is sealed with a random 256-bit vault key (XChaCha20-Poly1305, fresh
+ * nonce per value), so AsyncStorage and the server only ever hold ciphertext. The
+ * vault key is wrapped with a key derived from the user's master passphrase and only
+ * that wrapped form is kept, in SecureStore. Sealed passwords also carry the wrapped
+ * key, which lets another device unlock the same vault with the same passphrase.
+ * There is no recovery: a forgotten passphrase means the entries are gone.
+ */
+
+const HEADER_KEY = 'password_vault';
+const SEALED_PREFIX = 'enc:v1:';
+// PBKDF2 runs in JS on Hermes; the count is stored per vault so it can be raised later
+const KDF_ITERATIONS = 100_000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+// Base64 fields, as stored in SecureStore and on sealed passwords
+export interface VaultHeader {
+    salt: string;
+    iterations: number;
+    nonce: string;
+    key: string; // Vault key wrapped with the passphrase key
+}
+
+export type VaultErrorCode = 'wrong_passphrase' | 'weak_passphrase' | 'locked' | 'not_set_up' | 'invalid_backup';
+
+export interface VaultError extends Error {
+    code: VaultErrorCode;
+}
+
+export const isVaultError = (error: unknown): error is VaultError =>
+    error instanceof Error && error.name === 'VaultError';
+
+const vaultError = (code: VaultErrorCode, message: string): VaultError => {
+    const error = new Error(message) as VaultError;
+    error.name = 'VaultError';
+    error.code = code;
+    return error;
+};
+
+let vaultKey: Uint8Array | null = null;
+let header: VaultHeader | null = null;
+let headerLoaded = false;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+const toBase64 = (bytes: Uint8Array) => {
+    let binary = '';
+    bytes.forEach(b => { binary += String.fromCharCode(b); });
+    return btoa(binary);
+};
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const deriveKey = (passphrase: string, salt: Uint8Array, iterations: number) =>
+    pbkdf2Async(sha256, utf8ToBytes(passphrase.normalize('NFKC')), salt, { c: iterations, dkLen: 32 });
+
+const seal = (key: Uint8Array, plain: Uint8Array) => {
+    const nonce = getRandomBytes(24);
+    return { nonce, sealed: xchacha20poly1305(key, nonce).encrypt(plain) };
+};
+
+const saveHeader = async (next: VaultHeader) => {
+    await SecureStore.setItemAsync(HEADER_KEY, JSON.stringify(next));
+    header = next;
+    headerLoaded = true;
+};
+
+export const loadVaultHeader = async (): Promise<VaultHeader | null> => {
+    if (!headerLoaded) {
+        const saved = await SecureStore.getItemAsync(HEADER_KEY);
+        header = saved ? JSON.parse(saved) : null;
+        headerLoaded = true;
+    }
+    return header;
+};
+
+export const isVaultUnlocked = () => vaultKey !== null;
+
+export const subscribeVault = (listener: () => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const createVault = async (passphrase: string): Promise<void> => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        throw vaultError('weak_passphrase', `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+
+    const salt = getRandomBytes(16);
+    const key = getRandomBytes(32);
+    const wrapped = seal(await deriveKey(passphrase, salt, KDF_ITERATIONS), key);
+
+    await saveHeader({
+        salt: toBase64(salt),
+        iterations: KDF_ITERATIONS,
+        nonce: toBase64(wrapped.nonce),
+        key: toBase64(wrapped.sealed),
+    });
+    vaultKey = key;
+    notify();
+};
+
+/**
+ * Unwraps the vault key with the passphrase. `shared` is a header read from a synced
+ * entry, used when this device has none yet (first unlock after signing in here).
+ */
+export const unlockVault = async (passphrase: string, shared?: VaultHeader | null): Promise<void> => {
+    const target = (await loadVaultHeader()) || shared;
+    if (!target) throw vaultError('not_set_up', 'No vault to unlock');
+
+    const passphraseKey = await deriveKey(passphrase, fromBase64(target.salt), target.iterations);
+    let key: Uint8Array;
+    try {
+        key = xchacha20poly1305(passphraseKey, fromBase64(target.nonce)).decrypt(fromBase64(target.key));
+    } catch {
+        throw vaultError('wrong_passphrase', 'Wrong passphrase');
+    }
+
+    if (!header) await saveHeader(target);
+    vaultKey = key;
+    notify();
+};
+
+export const lockVault = () => {
+    if (!vaultKey) return;
+    vaultKey.fill(0);
+    vaultKey = null;
+    notify();
+};
+
+export const isSealed = (value: string) => value.startsWith(SEALED_PREFIX);
+
+// enc:v1:<nonce>:<ciphertext>[:<header>]
+export const sealField = (plain: string, withHeader = false): string => {
+    if (!vaultKey) throw vaultError('locked', 'Vault is locked');
+
+    const { nonce, sealed } = seal(vaultKey, utf8ToBytes(plain));
+    const parts = [toBase64(nonce), toBase64(sealed)];
+    if (withHeader && header) parts.push(toBase64(utf8ToBytes(JSON.stringify(header))));
+    return SEALED_PREFIX + parts.join(':');
+};
+
+// Plain values are returned as is: entries saved before the vault existed
+export const openField = (value: string): string => {
+    if (!isSealed(value)) return value;
+    if (!vaultKey) throw vaultError('locked', 'Vault is locked');
+
+    const [nonce, sealed] = value.slice(SEALED_PREFIX.length).split(':');
+    return bytesToUtf8(xchacha20poly1305(vaultKey, fromBase64(nonce)).decrypt(fromBase64(sealed)));
+};
+
+const BACKUP_FORMAT = 'socius-vault-backup';
+
+// A backup file; `data` is sealed with a key from the backup's own passphrase
+interface VaultBackup {
+    format: typeof BACKUP_FORMAT;
+    version: 1;
+    salt: string;
+    iterations: number;
+    nonce: string;
+    data: string;
+}
+
+const readBackup = (text: string): VaultBackup | null => {
+    try {
+        const backup = JSON.parse(text);
+        return backup?.format === BACKUP_FORMAT && backup.version === 1 ? backup : null;
+    } catch {
+        return null;
+    }
+};
+
+export const isVaultBackup = (text: string) => readBackup(text) !== null;
+
+/**
+ * Seals `plain` into a standalone backup file. It does not use the vault key, so
+ * the backup opens on any device with its passphrase, even after the vault is gone.
+ */
+export const sealBackup = async (plain: string, passphrase: string): Promise<string> => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        throw vaultError('weak_passphrase', `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+
+    const salt = getRandomBytes(16);
+    const { nonce, sealed } = seal(await deriveKey(passphrase, salt, KDF_ITERATIONS), utf8ToBytes(plain));
+    const backup: VaultBackup = {
+        format: BACKUP_FORMAT,
+        version: 1,
+        salt: toBase64(salt),
+        iterations: KDF_ITERATIONS,
+        nonce: toBase64(nonce),
+        data: toBase64(sealed),
+    };
+    return JSON.stringify(backup);
+};
+
+export const openBackup = async (text: string, passphrase: string): Promise<string> => {
+    const backup = readBackup(text);
+    if (!backup) throw vaultError('invalid_backup', 'Not a vault backup');
+
+    const key = await deriveKey(passphrase, fromBase64(backup.salt), backup.iterations);
+    try {
+        return bytesToUtf8(xchacha20poly1305(key, fromBase64(backup.nonce)).decrypt(fromBase64(backup.data)));
+    } catch {
+        throw vaultError('wrong_passphrase', 'Wrong passphrase');
+    }
+};
+
+export const readSharedHeader = (value: string): VaultHeader | null => {
+    if (!isSealed(value)) return null;
+    const encoded = value.slice(SEALED_PREFIX.length).split(':')[2];
+    if (!encoded) return null;
+    try {
+        return JSON.parse(bytesToUtf8(fromBase64(encoded)));
+    } catch {
+        return null;
+    }
+};
+
+// The next account on this device sets up or unlocks its own vault
+subscribeUserDataWipe(async () => {
+    lockVault();
+    header = null;
+    headerLoaded = true;
+    await SecureStore.deleteItemAsync(HEADER_KEY);
+});
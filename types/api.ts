@@ -7,20 +7,27 @@
 
 export interface TokenResponse {
     access_token: string;
+    refresh_token?: string | null;
     token_type: string;
     username: string;
     user_id: number;
 }
 
+export interface GoogleAuthRequest {
+    id_token: string;
+    photo?: string | null;
+    username?: string | null; // Google first name, used for new accounts
+}
+
 // ============== CHAT ==============
 
 export interface ChatMessage {
     id: number;
-    message_author: 'user' | 'assistant';
+    message_author?: 'user' | 'assistant' | null; // Older rows only carry `role`
     content: string;
     message_group_id: string;
     created_at: string; // ISO date string
-    role?: 'user' | 'assistant'; // Backwards compatibility
+    role?: 'user' | 'assistant' | null; // Backwards compatibility
 }
 
 export interface AskResponse {
@@ -34,21 +41,29 @@ export interface AnswerResponse {
     answer?: string;
 }
 
+export interface HistoryParams {
+    message_group_id: string;
+    before_id?: number;
+}
+
 // ============== DIARY ==============
 
 export interface DiaryEntry {
     id: number;
+    title?: string | null;
     content: string;
     date: string; // YYYY-MM-DD
     created_at: string;
 }
 
 export interface DiaryCreate {
+    title?: string;
     content: string;
     date: string;
 }
 
 export interface DiaryUpdate {
+    title?: string;
     content: string;
 }
 
@@ -58,6 +73,8 @@ export interface NoteEntry {
     id: number;
     title: string;
     content: string;
+    position: number;
+    date?: string | null;
     created_at: string;
     updated_at: string;
 }
@@ -65,6 +82,7 @@ export interface NoteEntry {
 export interface NoteCreate {
     title: string;
     content: string;
+    date: string;
 }
 
 export interface NoteUpdate {
@@ -72,11 +90,15 @@ export interface NoteUpdate {
     content: string;
 }
 
+export interface NoteReorder {
+    note_ids: number[];
+}
+
 // ============== USER ==============
 
 export interface UserProfile {
     id: number;
-    username: string;
+    username: string | null; // Null until the user picks one
     display_name: string | null;
     email: string;
     custom_avatar_url: string | null;
@@ -85,28 +107,72 @@ export interface UserProfile {
 }
 
 export interface UserUpdate {
-    username: string;
+    username?: string;
     display_name?: string;
     custom_avatar_url?: string;
     socius_role?: string;
     language?: string;
 }
 
+export interface UserSearchResult {
+    id: number;
+    username: string;
+    email: string;
+    custom_avatar_url?: string | null;
+}
+
+export interface AvatarUploadResponse {
+    custom_avatar_url: string;
+}
+
 // ============== FRIENDS ==============
 
 export interface Friend {
     id: number;
     friend_id: number;
     friend_username: string;
-    friend_avatar: string | null;
+    friend_avatar?: string | null;
     status: 'pending' | 'accepted' | 'incoming';
-    created_at: string;
+    created_at?: string | null;
 }
 
 export interface FriendRequest {
     username: string;
 }
 
+export type FriendResponseAction = 'accept' | 'reject';
+
+// ============== SOCIUS COMPANIONS ==============
+
+export interface SociusCompanion {
+    id: number;
+    name: string;
+    avatar: string;
+    role: string; // 'christian', 'cal_tracker' (legacy 'tracker'), 'multilingual', ...
+    intimacy?: number | null;
+    tone?: string | null;
+    multilingual_selection?: string | null;
+    sort_order?: number | null;
+    created_at?: string | null;
+    last_message?: string | null;
+    last_message_time?: string | null;
+    last_message_is_from_user?: boolean | null;
+    unread_count?: number | null;
+}
+
+export interface SociusCompanionCreate {
+    name: string;
+    role: string;
+    avatar: string;
+    intimacy: number;
+    tone: string;
+    multilingual_selection: string | null;
+}
+
+export interface SociusOrderUpdate {
+    orders: { id: number; sort_order: number }[];
+}
+
 // ============== MESSAGES ==============
 
 export interface DirectMessage {
@@ -121,9 +187,11 @@ export interface DirectMessage {
 export interface Conversation {
     friend_id: number;
     friend_username: string;
-    last_message: string;
-    last_message_time: string | null;
-    unread_count: number;
+    friend_display_name?: string | null;
+    friend_avatar?: string | null;
+    last_message?: string | null;
+    last_message_time?: string | null;
+    unread_count?: number | null;
 }
 
 export interface SendMessageRequest {
@@ -140,6 +208,125 @@ export interface UnreadCounts {
     total: number;
 }
 
+export interface PushTokenRequest {
+    token: string;
+    app_id: string;
+}
+
+// ============== SYNCED COLLECTIONS ==============
+// Rows exchanged by the offline sync engine; `client_id` is the id generated on device.
+
+export interface CalorieRow {
+    client_id: string;
+    food: string;
+    calories: number;
+    date: string; // YYYY-MM-DD
+    timestamp: number;
+    // Macronutrients in grams, null when not logged
+    protein?: number | null;
+    carbs?: number | null;
+    fat?: number | null;
+    fiber?: number | null;
+    sugar?: number | null;
+    meal?: 'breakfast' | 'lunch' | 'dinner' | 'snack' | null;
+    updated_at?: number | null;
+}
+
+export interface FavoriteFoodRow {
+    client_id: string;
+    food: string;
+    calories: number;
+    protein?: number | null;
+    carbs?: number | null;
+    fat?: number | null;
+    fiber?: number | null;
+    sugar?: number | null;
+    updated_at: number;
+}
+
+export interface MealTemplateRow {
+    client_id: string;
+    name: string;
+    meal: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+    items: MealTemplateItemRow[];
+    updated_at: number;
+}
+
+export interface MealTemplateItemRow {
+    food: string;
+    calories: number;
+    protein?: number | null;
+    carbs?: number | null;
+    fat?: number | null;
+    fiber?: number | null;
+    sugar?: number | null;
+}
+
+export interface WorkoutActivityRow {
+    client_id: string;
+    name: string;
+    duration: number; // minutes
+    calories: number;
+    date: string; // YYYY-MM-DD
+    timestamp: number;
+    updated_at?: number | null;
+}
+
+export interface WorkoutStatsRow {
+    weight: number;
+    height: number;
+    age: number;
+    gender: 'male' | 'female';
+    activity_level: 'sedentary' | 'light' | 'moderate' | 'active' | 'very_active';
+    weight_goal?: 'lose' | 'maintain' | 'gain' | null;
+}
+
+export interface PasswordRow {
+    client_id: string;
+    service: string;
+    username: string;
+    password: string;
+    group: string;
+    totp?: string | null; // Sealed otpauth:// link
+    url?: string | null;
+    notes?: string | null;
+    tags?: string[] | null; // Each tag sealed on its own
+    custom_fields?: PasswordFieldRow[] | null;
+    password_history?: PasswordHistoryRow[] | null;
+    password_changed_at?: number | null; // When the current password was set (ms)
+    updated_at: number;
+}
+
+export interface PasswordHistoryRow {
+    password: string; // Sealed
+    changed_at: number; // When it was replaced (ms)
+}
+
+// Label and value are both sealed
+export interface PasswordFieldRow {
+    key: string;
+    value: string;
+}
+
+export interface PasswordGroupRow {
+    client_id: string;
+    name: string; // Sealed
+    icon: string;
+    color: string;
+    updated_at: number;
+}
+
+export interface BibleBookmarkRow {
+    client_id: string;
+    version: string;
+    book_index: number;
+    chapter_index: number;
+    label?: string | null;
+    created_at: string;
+    created_at_str?: string | null; // Older rows carry the original string here
+    updated_at?: number | null;
+}
+
 // ============== API ERROR ==============
 
 export interface ApiError {
@@ -0,0 +1,52 @@
+import dayjs from 'dayjs';
+import { calculateBmr, calculateTdee, dailyBudget, energyBalance } from '../energy';
+import type { PhysicalStats } from '../../hooks/useWorkouts';
+
+const STATS: PhysicalStats = { weight: 70, height: 175, age: 30, gender: 'male', activityLevel: 'light' };
+
+describe('energy balance', () => {
+    it('computes BMR and TDEE from physical stats', () => {
+        // 700 + 1093.75 - 150 + 5
+        expect(calculateBmr(STATS)).toBe(1649);
+        expect(calculateTdee(STATS)).toBe(Math.round(1649 * 1.375));
+        expect(calculateTdee(null)).toBe(0);
+    });
+
+    it('moves the budget by the weight goal and adds workouts', () => {
+        const tdee = calculateTdee(STATS);
+        expect(dailyBudget(STATS, 0)).toBe(tdee);
+        expect(dailyBudget({ ...STATS, goal: 'lose' }, 300)).toBe(tdee - 500 + 300);
+        expect(dailyBudget({ ...STATS, goal: 'gain' }, 0)).toBe(tdee + 300);
+        expect(dailyBudget(null, 300)).toBe(0);
+    });
+
+    it('balances each day against TDEE and that day\'s workouts', () => {
+        const today = dayjs('2026-03-10');
+        const tdee = calculateTdee(STATS);
+        const entries = [
+            { date: '2026-03-10', calories: 800 },
+            { date: '2026-03-10', calories: 700 },
+            { date: '2026-03-09', calories: 3000 },
+            { date: '2026-03-01', calories: 5000 },
+        ];
+        const activities = [{ date: '2026-03-10', calories: 400 }];
+
+        const trend = energyBalance({ ...STATS, goal: 'lose' }, entries, activities, 3, today);
+
+        expect(trend.map(day => day.date)).toEqual(['2026-03-08', '2026-03-09', '2026-03-10']);
+        expect(trend[0]).toMatchObject({ intake: 0, active: 0, net: -tdee });
+        expect(trend[1].net).toBe(3000 - tdee);
+        expect(trend[2]).toMatchObject({
+            intake: 1500,
+            active: 400,
+            budget: tdee - 500 + 400,
+            remaining: tdee - 500 + 400 - 1500,
+            net: 1500 - (tdee + 400),
+        });
+    });
+
+    it('has no balance without physical stats', () => {
+        const [day] = energyBalance(null, [{ date: '2026-03-10', calories: 500 }], [], 1, dayjs('2026-03-10'));
+        expect(day).toMatchObject({ intake: 500, budget: 0, net: 0 });
+    });
+});
@@ -0,0 +1,48 @@
+import { FOODS } from '@/constants/foods';
+import { foodName, portionGrams, portionNutrition, searchFoods } from '../foodDatabase';
+
+const byId = (id: string) => FOODS.find(food => food.id === id)!;
+
+describe('food database', () => {
+    it('finds foods by English or Korean name and other spellings', () => {
+        expect(searchFoods('rice')[0].id).toBe('rice_white');
+        expect(searchFoods('김밥').map(f => f.id)).toEqual(['gimbap']);
+        expect(searchFoods('KIMBAP').map(f => f.id)).toEqual(['gimbap']);
+        expect(searchFoods('삶은달걀')[0].id).toBe('egg_boiled');
+        expect(searchFoods('   ')).toEqual([]);
+        expect(searchFoods('no such food')).toEqual([]);
+    });
+
+    it('puts exact and prefix matches before names that only contain the query', () => {
+        expect(searchFoods('egg').map(f => f.id).slice(0, 2)).toEqual(['egg_boiled', 'egg_fried']);
+        expect(searchFoods('egg', 1)).toHaveLength(1);
+    });
+
+    it('scales calories and macros to the portion', () => {
+        const rice = byId('rice_white');
+        expect(portionGrams(rice, 1.5, 'serving')).toBe(315);
+        expect(portionGrams(rice, 150, 'grams')).toBe(150);
+
+        expect(portionNutrition(rice, 315)).toEqual({
+            calories: 410,
+            macros: { protein: 8.5, carbs: 88.8, fat: 0.9, fiber: 1.3, sugar: 0.3 },
+        });
+        // No fiber or sugar in plain meat
+        expect(portionNutrition(byId('chicken_breast'), 100).macros).toEqual({ protein: 31, carbs: 0, fat: 3.6 });
+        expect(portionNutrition(rice, -10).calories).toBe(0);
+        expect(foodName(rice, 'ko')).toBe('흰쌀밥');
+    });
+
+    it('has consistent entries', () => {
+        expect(new Set(FOODS.map(f => f.id)).size).toBe(FOODS.length);
+        FOODS.forEach(food => {
+            const { calories, protein, carbs, fat, alcohol = 0 } = food.per100g;
+            // Energy from the macros should be close to the listed calories
+            const fromMacros = protein * 4 + carbs * 4 + fat * 9 + alcohol * 7;
+            expect({ id: food.id, off: Math.abs(fromMacros - calories) <= calories * 0.25 + 15 })
+                .toEqual({ id: food.id, off: true });
+            expect(food.serving.grams).toBeGreaterThan(0);
+            expect(food.en && food.ko).toBeTruthy();
+        });
+    });
+});
@@ -0,0 +1,38 @@
+import { formatMacros, macroSplit, parseMacros, sumMacros } from '../macros';
+
+describe('parseMacros', () => {
+    it('reads macros next to the calories or under `macros`', () => {
+        expect(parseMacros({ label: 'Regular', calories: 450, protein: 22, carbohydrates: '55g', fat_g: 16 }))
+            .toEqual({ protein: 22, carbs: 55, fat: 16 });
+        expect(parseMacros({ calories: 95, macros: { Fibre: 4.44, sugars: 19 } })).toEqual({ fiber: 4.4, sugar: 19 });
+    });
+
+    it('ignores missing, negative and non-numeric values', () => {
+        expect(parseMacros({ label: 'Small', calories: 250 })).toBeUndefined();
+        expect(parseMacros({ protein: '', carbs: -3, fat: 'lots' })).toBeUndefined();
+        expect(parseMacros(null)).toBeUndefined();
+    });
+});
+
+describe('macro totals', () => {
+    it('adds up entries and splits calories by energy', () => {
+        const totals = sumMacros([
+            { macros: { protein: 20, carbs: 30.5 } },
+            {},
+            { macros: { carbs: 19.5, fat: 10, fiber: 3 } },
+        ]);
+
+        expect(totals).toEqual({ protein: 20, carbs: 50, fat: 10, fiber: 3, sugar: 0 });
+        // 80 + 200 + 90 kcal
+        const split = macroSplit(totals);
+        expect(split.carbs).toBeCloseTo(200 / 370);
+        expect(split.protein + split.carbs + split.fat).toBeCloseTo(1);
+        expect(macroSplit({})).toEqual({ protein: 0, carbs: 0, fat: 0 });
+    });
+
+    it('formats only the values that were logged', () => {
+        const labels = { protein: 'P', carbs: 'C', fat: 'F', fiber: 'Fib', sugar: 'Sug' };
+        expect(formatMacros({ protein: 20, fat: 8 }, labels)).toBe('P 20g · F 8g');
+        expect(formatMacros(undefined, labels)).toBe('');
+    });
+});
@@ -0,0 +1,26 @@
+import { mealForTime, mealOf, sortByMeal } from '../meals';
+
+const at = (hour: number) => new Date(2026, 2, 10, hour, 30).getTime();
+
+describe('meals', () => {
+    it('files untagged entries by the time they were logged', () => {
+        expect(mealForTime(at(7))).toBe('breakfast');
+        expect(mealForTime(at(12))).toBe('lunch');
+        expect(mealForTime(at(16))).toBe('snack');
+        expect(mealForTime(at(19))).toBe('dinner');
+        expect(mealForTime(at(23))).toBe('snack');
+        expect(mealOf({ meal: 'dinner', timestamp: at(7) })).toBe('dinner');
+    });
+
+    it('orders each day from breakfast to snack, newest day first', () => {
+        const entries = [
+            { id: 'snack', date: '2026-03-10', timestamp: at(16) },
+            { id: 'late-lunch', date: '2026-03-10', meal: 'lunch' as const, timestamp: at(13) },
+            { id: 'yesterday', date: '2026-03-09', timestamp: at(8) },
+            { id: 'breakfast', date: '2026-03-10', timestamp: at(8) },
+            { id: 'lunch', date: '2026-03-10', meal: 'lunch' as const, timestamp: at(12) },
+        ];
+
+        expect(sortByMeal(entries).map(e => e.id)).toEqual(['breakfast', 'lunch', 'late-lunch', 'snack', 'yesterday']);
+    });
+});
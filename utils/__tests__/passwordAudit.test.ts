@@ -0,0 +1,57 @@
+import { auditPasswords, passwordStem } from '../passwordAudit';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 1);
+
+const account = (id: string, password: string, ageDays = 0) => ({ id, password, updated_at: NOW - ageDays * DAY });
+
+describe('auditPasswords', () => {
+    it('flags exact and near-duplicate reuse', () => {
+        const audit = auditPasswords([
+            account('a', 'Summer2023!'),
+            account('b', 'summer2024'),
+            account('c', 'Summer2023!'),
+            account('d', 'x9$Lq!7vTz#2mW@r'),
+        ], 180, NOW);
+        const byId = Object.fromEntries(audit.entries.map(entry => [entry.account.id, entry]));
+
+        expect(byId.a.reusedWith).toEqual(['c']);
+        expect(byId.a.similarTo).toEqual(['b']);
+        expect(byId.b.issues).toContain('similar');
+        expect(byId.b.issues).not.toContain('reused');
+        expect(byId.d.issues).toEqual([]);
+        expect(audit.counts.reused).toBe(2);
+    });
+
+    it('compares what is left once case, counters and leetspeak are removed', () => {
+        expect(passwordStem('P@ssw0rd1!')).toBe('password');
+        expect(passwordStem('2024Summer')).toBe('summer');
+    });
+
+    it('flags passwords older than the chosen age', () => {
+        const accounts = [account('old', 'x9$Lq!7vTz#2mW@r', 200)];
+
+        expect(auditPasswords(accounts, 180, NOW).entries[0].issues).toEqual(['stale']);
+        expect(auditPasswords(accounts, 365, NOW).entries[0].issues).toEqual([]);
+
+        // Edited yesterday, but the password itself was last changed 200 days ago
+        const edited = { ...account('edited', 'x9$Lq!7vTz#2mW@r', 1), history: [{ changedAt: NOW - 200 * DAY }] };
+        expect(auditPasswords([edited], 180, NOW).entries[0].ageDays).toBe(200);
+
+        // A recorded change time wins over both
+        const tracked = { ...edited, passwordChangedAt: NOW - 300 * DAY };
+        expect(auditPasswords([tracked], 180, NOW).entries[0].ageDays).toBe(300);
+    });
+
+    it('scores the vault and lists the worst entries first', () => {
+        expect(auditPasswords([], 180, NOW).score).toBe(100);
+
+        const healthy = auditPasswords([account('a', 'x9$Lq!7vTz#2mW@r'), account('b', 'Kp4#vW9!qZ2@nR7s')], 180, NOW);
+        expect(healthy.score).toBe(100);
+
+        const mixed = auditPasswords([account('a', 'x9$Lq!7vTz#2mW@r'), account('b', 'password', 400)], 180, NOW);
+        expect(mixed.entries[0].account.id).toBe('b');
+        expect(mixed.entries[0].issues).toEqual(['weak', 'stale']);
+        expect(mixed.score).toBeLessThan(healthy.score);
+    });
+});
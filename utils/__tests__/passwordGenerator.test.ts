@@ -0,0 +1,68 @@
+import { PASSPHRASE_WORDS } from '@/constants/wordlist';
+import { DEFAULT_OPTIONS, generatePassword, policyForAccount, randomInt } from '../passwordGenerator';
+import { estimatePasswordStrength } from '../passwordStrength';
+
+describe('generatePassword', () => {
+    it('uses every selected character class and nothing else', () => {
+        for (let i = 0; i < 50; i++) {
+            const password = generatePassword({ ...DEFAULT_OPTIONS, length: 8, symbolSet: '!#' });
+            expect(password).toHaveLength(8);
+            expect(password).toMatch(/[a-z]/);
+            expect(password).toMatch(/[A-Z]/);
+            expect(password).toMatch(/\d/);
+            expect(password).toMatch(/^[a-zA-Z\d!#]+$/);
+        }
+
+        const pin = generatePassword(policyForAccount('Front door lock').options);
+        expect(pin).toMatch(/^\d{6}$/);
+    });
+
+    it('builds passphrases from the wordlist', () => {
+        const passphrase = generatePassword({ ...DEFAULT_OPTIONS, mode: 'passphrase', words: 4, upper: false, digits: false, symbols: false });
+        const words = passphrase.split('-');
+
+        expect(words).toHaveLength(4);
+        words.forEach(word => expect(PASSPHRASE_WORDS).toContain(word));
+    });
+
+    it('alternates consonants and vowels in pronounceable passwords', () => {
+        const password = generatePassword({ ...DEFAULT_OPTIONS, mode: 'pronounceable', length: 12, upper: false, symbols: false });
+        const letters = password.replace(/\d/g, '');
+
+        expect(password).toHaveLength(12);
+        expect(password).toMatch(/\d/);
+        expect(letters).toMatch(/^([bcdfghjklmnprstvz][aeiou])+[bcdfghjklmnprstvz]?$/);
+    });
+
+    it('picks a policy from the service name, then the group', () => {
+        expect(policyForAccount('KakaoBank').id).toBe('banking');
+        expect(policyForAccount('Home Wi-Fi').id).toBe('memorable');
+        expect(policyForAccount('Batman Fan Club').id).toBe('strong');
+        expect(policyForAccount('Broker', 'finance').id).toBe('banking');
+        expect(policyForAccount('KakaoBank').options.length).toBe(16);
+    });
+
+    it('draws random integers evenly', () => {
+        const counts = [0, 0, 0];
+        for (let i = 0; i < 3000; i++) counts[randomInt(3)]++;
+        counts.forEach(count => expect(count).toBeGreaterThan(850));
+    });
+});
+
+describe('estimatePasswordStrength', () => {
+    it('rates common, patterned and short passwords as weak', () => {
+        expect(estimatePasswordStrength('password').score).toBe(0);
+        expect(estimatePasswordStrength('abcdefgh12345678').score).toBeLessThanOrEqual(1);
+        expect(estimatePasswordStrength('qwertyuiop!').score).toBeLessThanOrEqual(1);
+        expect(estimatePasswordStrength('Tr0ub4').score).toBeLessThanOrEqual(1);
+    });
+
+    it('rates generated passwords by what they are made of', () => {
+        expect(estimatePasswordStrength(generatePassword()).score).toBe(4);
+        // Wordlist words count as one guess each, not as letters
+        const fourWords = estimatePasswordStrength('maple-river-cloud-stone');
+        expect(fourWords.bits).toBeLessThan(50);
+        expect(fourWords.score).toBe(2);
+        expect(estimatePasswordStrength('Maple-River-Cloud-Stone-Otter-Quilt7').score).toBeGreaterThanOrEqual(3);
+    });
+});
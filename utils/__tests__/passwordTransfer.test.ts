@@ -0,0 +1,118 @@
+import { exportBitwarden, exportCsv, mergeImported, parseCsv, parseImport, planImport } from '../passwordTransfer';
+
+const GROUPS = ['social', 'work', 'personal', 'finance', 'other'].map(id => ({ id, name: '' }));
+
+describe('parseImport', () => {
+    it('reads Chrome and Firefox CSV exports', () => {
+        const chrome = 'name,url,username,password,note\r\nGitHub,https://github.com/login,jane,"p,ss""1",\r\n';
+        const firefox = 'url,username,password,httpRealm,formActionOrigin,guid,timeCreated,timeLastUsed,timePasswordChanged\n'
+            + 'https://www.example.com,jane@example.com,hunter2,,https://www.example.com,{abc},1,1,1\n'
+            + 'https://empty.example.com,nobody,,,,{def},1,1,1\n';
+
+        expect(parseImport(chrome, GROUPS)).toEqual({
+            accounts: [{ service: 'GitHub', username: 'jane', password: 'p,ss"1', url: 'https://github.com/login' }],
+            skipped: 0,
+        });
+        expect(parseImport(firefox, GROUPS)).toEqual({
+            accounts: [{ service: 'example.com', username: 'jane@example.com', password: 'hunter2', url: 'https://www.example.com' }],
+            skipped: 1,
+        });
+    });
+
+    it('maps Bitwarden folders, TOTP secrets and custom fields', () => {
+        const bitwarden = JSON.stringify({
+            encrypted: false,
+            folders: [{ id: 'f1', name: 'Work' }, { id: 'f2', name: 'Games' }],
+            items: [
+                { type: 1, name: 'Slack', folderId: 'f1', login: { username: 'jane', password: 'pw1', totp: 'JBSWY3DPEHPK3PXPJBSWY3DP', uris: [] } },
+                {
+                    type: 1,
+                    name: 'Steam',
+                    folderId: 'f2',
+                    notes: 'Family account',
+                    fields: [{ name: 'PIN', value: '1234', type: 1 }],
+                    login: { username: 'jane', password: 'pw2' },
+                },
+                { type: 2, name: 'A secure note' },
+            ],
+        });
+
+        const { accounts } = parseImport(bitwarden, GROUPS);
+        expect(accounts.map(a => [a.service, a.group])).toEqual([['Slack', 'work'], ['Steam', undefined]]);
+        expect(accounts[1]).toMatchObject({ notes: 'Family account', customFields: [{ key: 'PIN', value: '1234' }] });
+        // Folders named like a custom group land in it
+        const custom = parseImport(bitwarden, [...GROUPS, { id: 'group-1', name: 'Games' }]).accounts;
+        expect(custom.map(a => a.group)).toEqual(['work', 'group-1']);
+        expect(accounts[0].totp).toMatch(/^otpauth:\/\/totp\/\?secret=JBSWY3DPEHPK3PXPJBSWY3DP/);
+        expect(() => parseImport(JSON.stringify({ encrypted: true, items: [] }), GROUPS)).toThrow(
+            expect.objectContaining({ code: 'encrypted_export' })
+        );
+        expect(() => parseImport('title,notes\nx,y', GROUPS)).toThrow(expect.objectContaining({ code: 'unrecognized' }));
+    });
+
+    it('reads back its own exports', () => {
+        const accounts = [
+            { service: 'Bank, Inc.', username: 'jane', password: 'a"b\nc', group: 'finance', totp: undefined },
+            { service: 'Slack', username: '', password: 'pw', group: 'work', totp: 'otpauth://totp/Slack?secret=JBSWY3DPEHPK3PXPJBSWY3DP&issuer=Slack&algorithm=SHA1&digits=6&period=30' },
+            { service: 'Example', username: 'jane', password: 'pw', group: 'other', url: 'https://example.com', notes: 'Line one\nline, two' },
+        ];
+
+        expect(parseImport(exportCsv(accounts), GROUPS).accounts).toEqual(accounts);
+        expect(parseImport(exportBitwarden(accounts), GROUPS).accounts).toEqual(accounts);
+        expect(parseCsv(exportCsv(accounts))).toHaveLength(4);
+    });
+});
+
+describe('planImport', () => {
+    it('separates new, changed and duplicate logins', () => {
+        const existing = [
+            { id: '1', service: 'GitHub', username: 'Jane', password: 'same', group: 'work' },
+            { id: '2', service: 'Slack', username: 'jane', password: 'old', group: 'work' },
+        ];
+        const incoming = [
+            { service: 'github', username: 'jane', password: 'same', group: 'other' },
+            { service: 'Slack', username: 'jane', password: 'new', group: 'other' },
+            { service: 'Figma', username: 'jane', password: 'pw', group: 'other' },
+            { service: 'Figma', username: 'jane', password: 'pw', group: 'other' },
+        ];
+
+        const plan = planImport(incoming, existing, 2);
+
+        expect(plan.added.map(a => a.service)).toEqual(['Figma']);
+        // New logins from unknown folders go into 'other'
+        expect(planImport([{ service: 'Figma', username: 'jane', password: 'pw' }], existing).added[0].group).toBe('other');
+        expect(plan.changed).toEqual([{ incoming: incoming[1], existing: existing[1] }]);
+        expect(plan.duplicates).toBe(2);
+        expect(plan.skipped).toBe(2);
+    });
+
+    it('imports a login listed twice once, with its last password', () => {
+        const existing = [{ id: '1', service: 'Slack', username: 'jane', password: 'old', group: 'work' }];
+        const incoming = [
+            { service: 'Figma', username: 'jane', password: 'first', group: 'other' },
+            { service: 'Slack', username: 'jane', password: 'newer', group: 'other' },
+            { service: 'figma', username: 'Jane', password: 'second', group: 'other' },
+            { service: 'Slack', username: 'jane', password: 'newest', group: 'other' },
+        ];
+
+        const plan = planImport(incoming, existing);
+
+        // Neither repeat is planned against the unsaved first row
+        expect(plan.added).toEqual([incoming[2]]);
+        expect(plan.changed).toEqual([{ incoming: incoming[3], existing: existing[0] }]);
+        expect(plan.duplicates).toBe(2);
+    });
+});
+
+describe('mergeImported', () => {
+    it('keeps the saved group and details the file leaves out', () => {
+        const existing = {
+            service: 'Slack', username: 'jane', password: 'old', group: 'work',
+            totp: 'otpauth://totp/Slack?secret=JBSWY3DPEHPK3PXPJBSWY3DP', notes: 'Team account', tags: ['chat'],
+        };
+
+        expect(mergeImported({ service: 'Slack', username: 'jane', password: 'new' }, existing)).toEqual({ ...existing, password: 'new' });
+        expect(mergeImported({ service: 'Slack', username: 'jane', password: 'new', group: 'personal', notes: 'Moved' }, existing))
+            .toMatchObject({ group: 'personal', notes: 'Moved', totp: existing.totp });
+    });
+});
@@ -0,0 +1,52 @@
+import { favoritesMatching, rankRecentFoods, suggestFoods } from '../recentFoods';
+
+const entries = [
+    { food: 'Oatmeal', calories: 150, timestamp: 1 },
+    { food: 'Banana', calories: 105, timestamp: 2 },
+    { food: 'oatmeal ', calories: 180, macros: { protein: 6 }, timestamp: 3 },
+    { food: 'Coffee', calories: 5, timestamp: 4 },
+    { food: 'Boiled egg', calories: 78, timestamp: 5 },
+    { food: 'Coffee', calories: 5, timestamp: 6 },
+    { food: 'Oatmeal', calories: 160, timestamp: 7 },
+];
+
+describe('recent foods', () => {
+    it('ranks foods by how often they are logged and keeps the last values', () => {
+        const recent = rankRecentFoods(entries);
+
+        expect(recent.map(f => f.food)).toEqual(['Oatmeal', 'Coffee', 'Boiled egg', 'Banana']);
+        expect(recent[0]).toMatchObject({ calories: 160, count: 3, lastUsed: 7, macros: undefined });
+        expect(rankRecentFoods(entries, 2)).toHaveLength(2);
+    });
+
+    it('suggests favorites first, with the calories they were last logged with', () => {
+        const recent = rankRecentFoods(entries);
+        const favorites = [{ food: 'Banana', calories: 90 }, { food: 'Protein bar', calories: 200 }];
+
+        expect(suggestFoods(recent, favorites, '').map(s => [s.food, s.calories, s.favorite])).toEqual([
+            ['Banana', 105, true],
+            ['Protein bar', 200, true],
+            ['Oatmeal', 160, false],
+            ['Coffee', 5, false],
+            ['Boiled egg', 78, false],
+        ]);
+    });
+
+    it('puts names starting with the query before names containing it', () => {
+        const recent = rankRecentFoods([
+            ...entries,
+            { food: 'Egg fried rice', calories: 520, timestamp: 8 },
+        ]);
+
+        expect(suggestFoods(recent, [], 'EGG').map(s => s.food)).toEqual(['Egg fried rice', 'Boiled egg']);
+        expect(suggestFoods(recent, [], 'pizza')).toEqual([]);
+    });
+
+    it('matches favorites to a dish named either way round', () => {
+        const favorites = [{ food: 'Oatmeal' }, { food: 'Oatmeal with honey and nuts' }, { food: 'Kimchi' }];
+
+        expect(favoritesMatching(favorites, 'oatmeal with honey').map(f => f.food))
+            .toEqual(['Oatmeal', 'Oatmeal with honey and nuts']);
+        expect(favoritesMatching(favorites, '  ')).toEqual([]);
+    });
+});
@@ -0,0 +1,61 @@
+import { formatTotpUri, generateTotp, parseTotpInput } from '../totp';
+
+// RFC 6238 appendix B: the ASCII seed "1234567890..." for each hash
+const SEEDS = {
+    SHA1: 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ',
+    SHA256: 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZA',
+    SHA512: 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNA',
+} as const;
+
+describe('generateTotp', () => {
+    it('matches the RFC 6238 test vectors', () => {
+        const vectors: [number, Record<keyof typeof SEEDS, string>][] = [
+            [59, { SHA1: '94287082', SHA256: '46119246', SHA512: '90693936' }],
+            [1111111109, { SHA1: '07081804', SHA256: '68084774', SHA512: '25091201' }],
+            [20000000000, { SHA1: '65353130', SHA256: '77737706', SHA512: '47863826' }],
+        ];
+
+        vectors.forEach(([seconds, codes]) => {
+            (Object.keys(SEEDS) as (keyof typeof SEEDS)[]).forEach(algorithm => {
+                const config = { secret: SEEDS[algorithm], digits: 8 as const, period: 30, algorithm };
+                expect(generateTotp(config, seconds * 1000).code).toBe(codes[algorithm]);
+            });
+        });
+    });
+
+    it('counts down to the next code', () => {
+        const config = { secret: SEEDS.SHA1, digits: 6 as const, period: 30, algorithm: 'SHA1' as const };
+
+        expect(generateTotp(config, 59_000)).toEqual({ code: '287082', remaining: 1 });
+        expect(generateTotp(config, 60_000).remaining).toBe(30);
+    });
+});
+
+describe('parseTotpInput', () => {
+    it('reads otpauth links with their issuer, account and settings', () => {
+        const config = parseTotpInput('otpauth://totp/ACME%20Co:jane@example.com?secret=JBSWY3DPEHPK3PXPJBSWY3DP&issuer=ACME+Co&digits=8&period=60&algorithm=sha256');
+
+        expect(config).toEqual({
+            secret: 'JBSWY3DPEHPK3PXPJBSWY3DP',
+            digits: 8,
+            period: 60,
+            algorithm: 'SHA256',
+            issuer: 'ACME Co',
+            account: 'jane@example.com',
+        });
+        expect(parseTotpInput(formatTotpUri(config!))).toEqual(config);
+    });
+
+    it('accepts bare secrets as typed and rejects anything else', () => {
+        expect(parseTotpInput('jbsw y3dp ehpk 3pxp jbsw y3dp')).toEqual({
+            secret: 'JBSWY3DPEHPK3PXPJBSWY3DP',
+            digits: 6,
+            period: 30,
+            algorithm: 'SHA1',
+        });
+        expect(parseTotpInput('not a secret!')).toBeNull();
+        expect(parseTotpInput('JBSWY3DP')).toBeNull();
+        expect(parseTotpInput('otpauth://hotp/x?secret=JBSWY3DPEHPK3PXPJBSWY3DP')).toBeNull();
+        expect(parseTotpInput('otpauth://totp/x?secret=JBSWY3DPEHPK3PXPJBSWY3DP&digits=7')).toBeNull();
+    });
+});
@@ -0,0 +1,98 @@
+import dayjs from 'dayjs';
+import type { ActivityLevel, PhysicalStats, WeightGoal } from '../hooks/useWorkouts';
+
+/**
+ * Energy balance shared by the workout and calories screens: what the body burns
+ * (BMR, TDEE and logged workouts) against what was eaten.
+ */
+
+// Activity level multipliers (Harris-Benedict)
+export const ACTIVITY_LEVELS: { key: ActivityLevel; multiplier: number; }[] = [
+    { key: 'sedentary', multiplier: 1.2 },      // Little or no exercise
+    { key: 'light', multiplier: 1.375 },        // Light exercise 1-3 days/week
+    { key: 'moderate', multiplier: 1.55 },      // Moderate exercise 3-5 days/week
+    { key: 'active', multiplier: 1.725 },       // Hard exercise 6-7 days/week
+    { key: 'very_active', multiplier: 1.9 },    // Very hard exercise, physical job
+];
+
+export const WEIGHT_GOALS: WeightGoal[] = ['lose', 'maintain', 'gain'];
+
+// Daily kcal on top of TDEE; about 0.5 kg a week down, a slower lean gain up
+export const GOAL_ADJUSTMENTS: Record<WeightGoal, number> = {
+    lose: -500,
+    maintain: 0,
+    gain: 300,
+};
+
+export const activityMultiplier = (level: ActivityLevel): number =>
+    (ACTIVITY_LEVELS.find(l => l.key === level) || ACTIVITY_LEVELS[2]).multiplier;
+
+// Mifflin-St Jeor equation
+export const calculateBmr = (stats: PhysicalStats | null): number => {
+    if (!stats) return 0;
+    const s = stats.gender === 'male' ? 5 : -161;
+    return Math.round((10 * stats.weight) + (6.25 * stats.height) - (5 * stats.age) + s);
+};
+
+export const calculateTdee = (stats: PhysicalStats | null): number => {
+    const bmr = calculateBmr(stats);
+    if (!stats || !bmr) return 0;
+    return Math.round(bmr * activityMultiplier(stats.activityLevel));
+};
+
+/**
+ * How much to eat on a day: TDEE moved by the weight goal, plus what that day's
+ * workouts burned. Zero until physical stats are saved.
+ */
+export const dailyBudget = (stats: PhysicalStats | null, activeCalories: number): number => {
+    const tdee = calculateTdee(stats);
+    if (!stats || !tdee) return 0;
+    return Math.max(0, tdee + GOAL_ADJUSTMENTS[stats.goal || 'maintain'] + activeCalories);
+};
+
+export interface DayBalance {
+    date: string; // YYYY-MM-DD
+    intake: number;
+    active: number;
+    budget: number;
+    remaining: number; // budget - intake
+    net: number; // intake - (TDEE + active); negative is a deficit
+}
+
+const sumByDate = (items: { date: string; calories: number }[]): Record<string, number> => {
+    const map: Record<string, number> = {};
+    items.forEach(item => {
+        map[item.date] = (map[item.date] || 0) + item.calories;
+    });
+    return map;
+};
+
+/**
+ * One balance per day for the `days` days ending today, oldest first.
+ */
+export const energyBalance = (
+    stats: PhysicalStats | null,
+    entries: { date: string; calories: number }[],
+    activities: { date: string; calories: number }[],
+    days: number,
+    today = dayjs(),
+): DayBalance[] => {
+    const intakeByDate = sumByDate(entries);
+    const activeByDate = sumByDate(activities);
+    const tdee = calculateTdee(stats);
+
+    return Array.from({ length: days }, (_, i) => {
+        const date = today.subtract(days - 1 - i, 'day').format('YYYY-MM-DD');
+        const intake = intakeByDate[date] || 0;
+        const active = activeByDate[date] || 0;
+        const budget = dailyBudget(stats, active);
+        return {
+            date,
+            intake,
+            active,
+            budget,
+            remaining: budget - intake,
+            net: tdee ? intake - (tdee + active) : 0,
+        };
+    });
+};
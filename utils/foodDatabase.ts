@@ -0,0 +1,64 @@
+import { FOODS, FoodItem } from '@/constants/foods';
+import type { Language } from '@/constants/translations';
+import { MACRO_KEYS, Macros } from './macros';
+
+/**
+ * Search and portion math over the bundled food table. Everything here is local,
+ * so it works the same offline.
+ */
+
+export const SEARCH_LIMIT = 8;
+
+export type PortionUnit = 'serving' | 'grams';
+
+// Lower case without spaces, so "삶은달걀" finds "삶은 달걀"
+const normalize = (text: string): string => text.toLowerCase().replace(/\s+/g, '');
+
+// 0 exact, 1 prefix, 2 anywhere in the name, -1 no match
+const matchRank = (food: FoodItem, query: string): number => {
+    const ranks = [food.en, food.ko, ...(food.aliases ?? [])]
+        .map(normalize)
+        .map(name => name === query ? 0 : name.startsWith(query) ? 1 : name.includes(query) ? 2 : -1)
+        .filter(rank => rank >= 0);
+    return ranks.length > 0 ? Math.min(...ranks) : -1;
+};
+
+/**
+ * Foods whose English or Korean name, or one of their other spellings, contains
+ * `query`; closer matches first.
+ */
+export const searchFoods = (query: string, limit = SEARCH_LIMIT, foods: readonly FoodItem[] = FOODS): FoodItem[] => {
+    const q = normalize(query);
+    if (!q) return [];
+    return foods
+        .map(food => ({ food, rank: matchRank(food, q) }))
+        .filter(({ rank }) => rank >= 0)
+        .sort((a, b) => a.rank - b.rank)
+        .slice(0, limit)
+        .map(({ food }) => food);
+};
+
+export const foodName = (food: FoodItem, language: Language): string =>
+    language === 'ko' ? food.ko : food.en;
+
+export const servingLabel = (food: FoodItem, language: Language): string =>
+    language === 'ko' ? food.serving.ko : food.serving.en;
+
+export const portionGrams = (food: FoodItem, amount: number, unit: PortionUnit): number =>
+    unit === 'serving' ? amount * food.serving.grams : amount;
+
+/**
+ * Calories and macros in `grams` of a food. Fiber and sugar are left out for foods
+ * that have none, as they would be on a label.
+ */
+export const portionNutrition = (food: FoodItem, grams: number): { calories: number; macros: Macros } => {
+    const scale = Math.max(0, grams) / 100;
+    const macros: Macros = {};
+    MACRO_KEYS.forEach(key => {
+        const per100g = food.per100g[key];
+        if (per100g > 0 || key === 'protein' || key === 'carbs' || key === 'fat') {
+            macros[key] = Math.round(per100g * scale * 10) / 10;
+        }
+    });
+    return { calories: Math.round(food.per100g.calories * scale), macros };
+};
@@ -0,0 +1,100 @@
+/**
+ * Macronutrients logged with calorie entries. All amounts are grams and every one
+ * is optional: an entry may carry only the protein, or nothing at all.
+ */
+
+export const MACRO_KEYS = ['protein', 'carbs', 'fat', 'fiber', 'sugar'] as const;
+
+export type MacroKey = typeof MACRO_KEYS[number];
+
+export type Macros = Partial<Record<MacroKey, number>>;
+
+// The macros calories come from; fiber and sugar are counted within carbs
+export const ENERGY_MACROS = ['protein', 'carbs', 'fat'] as const;
+
+export type EnergyMacro = typeof ENERGY_MACROS[number];
+
+export const KCAL_PER_GRAM: Record<EnergyMacro, number> = { protein: 4, carbs: 4, fat: 9 };
+
+export const MACRO_COLORS: Record<MacroKey, string> = {
+    protein: '#5B8DEF',
+    carbs: '#F2994A',
+    fat: '#EB5757',
+    fiber: '#27AE60',
+    sugar: '#E056A0',
+};
+
+// Names chat replies use for the same values
+const ALIASES: Record<string, MacroKey> = {
+    protein: 'protein',
+    proteins: 'protein',
+    carbs: 'carbs',
+    carb: 'carbs',
+    carbohydrates: 'carbs',
+    carbohydrate: 'carbs',
+    fat: 'fat',
+    fats: 'fat',
+    fiber: 'fiber',
+    fibre: 'fiber',
+    sugar: 'sugar',
+    sugars: 'sugar',
+};
+
+const toGrams = (value: unknown): number | null => {
+    const grams = typeof value === 'string' ? parseFloat(value) : value;
+    return typeof grams === 'number' && Number.isFinite(grams) && grams >= 0 ? Math.round(grams * 10) / 10 : null;
+};
+
+/**
+ * Reads macros from loosely shaped data: a widget option with the values at the top
+ * level or under `macros`, in numbers or strings such as "12g". Undefined when none
+ * are present.
+ */
+export const parseMacros = (data: unknown): Macros | undefined => {
+    if (typeof data !== 'object' || data === null) return undefined;
+    const source = data as Record<string, unknown>;
+    const nested = typeof source.macros === 'object' && source.macros !== null
+        ? source.macros as Record<string, unknown>
+        : {};
+
+    const macros: Macros = {};
+    Object.entries({ ...source, ...nested }).forEach(([name, value]) => {
+        const key = ALIASES[name.toLowerCase().replace(/_g$/, '')];
+        const grams = toGrams(value);
+        if (key && grams !== null) macros[key] = grams;
+    });
+    return Object.keys(macros).length > 0 ? macros : undefined;
+};
+
+export const sumMacros = (items: { macros?: Macros }[]): Record<MacroKey, number> => {
+    const totals = Object.fromEntries(MACRO_KEYS.map(key => [key, 0])) as Record<MacroKey, number>;
+    items.forEach(({ macros }) => {
+        MACRO_KEYS.forEach(key => { totals[key] += macros?.[key] ?? 0; });
+    });
+    MACRO_KEYS.forEach(key => { totals[key] = Math.round(totals[key] * 10) / 10; });
+    return totals;
+};
+
+/**
+ * Share of the calories from protein, carbs and fat, as fractions adding up to 1.
+ * All zero when none were logged.
+ */
+export const macroSplit = (totals: Macros): Record<EnergyMacro, number> => {
+    const kcal = ENERGY_MACROS.map(key => (totals[key] ?? 0) * KCAL_PER_GRAM[key]);
+    const sum = kcal.reduce((a, b) => a + b, 0);
+    return Object.fromEntries(
+        ENERGY_MACROS.map((key, i) => [key, sum > 0 ? kcal[i] / sum : 0])
+    ) as Record<EnergyMacro, number>;
+};
+
+// "P 20g · C 35g · F 8g" style summary, only for the values that are set
+export const formatMacros = (macros: Macros | undefined, labels: Record<MacroKey, string>): string =>
+    MACRO_KEYS
+        .filter(key => macros?.[key] !== undefined)
+        .map(key => `${labels[key]} ${macros?.[key]}g`)
+        .join(' · ');
+
+export const macroLabels = (t: (key: string) => string, short = false): Record<MacroKey, string> =>
+    Object.fromEntries(
+        MACRO_KEYS.map(key => [key, t(`calories.macros.${key}${short ? '_short' : ''}`)])
+    ) as Record<MacroKey, string>;
@@ -0,0 +1,42 @@
+import type { Ionicons } from '@expo/vector-icons';
+
+/**
+ * Meals calorie entries are filed under. Entries logged before meals existed have
+ * none and are placed by the time they were logged.
+ */
+
+export const MEAL_TYPES = ['breakfast', 'lunch', 'dinner', 'snack'] as const;
+
+export type MealType = typeof MEAL_TYPES[number];
+
+export const MEAL_ICONS: Record<MealType, keyof typeof Ionicons.glyphMap> = {
+    breakfast: 'sunny-outline',
+    lunch: 'restaurant-outline',
+    dinner: 'moon-outline',
+    snack: 'cafe-outline',
+};
+
+export const isMealType = (value: unknown): value is MealType =>
+    typeof value === 'string' && (MEAL_TYPES as readonly string[]).includes(value);
+
+// Breakfast until 11, lunch until 3pm, dinner from 5 to 10pm, snacks in between
+export const mealForTime = (timestamp: number): MealType => {
+    const hour = new Date(timestamp).getHours();
+    if (hour >= 5 && hour < 11) return 'breakfast';
+    if (hour >= 11 && hour < 15) return 'lunch';
+    if (hour >= 17 && hour < 22) return 'dinner';
+    return 'snack';
+};
+
+export const mealOf = (entry: { meal?: MealType; timestamp: number }): MealType =>
+    entry.meal ?? mealForTime(entry.timestamp);
+
+/**
+ * Newest day first, and within a day breakfast to snack in the order they were eaten.
+ */
+export const sortByMeal = <T extends { date: string; meal?: MealType; timestamp: number }>(entries: T[]): T[] =>
+    [...entries].sort((a, b) => {
+        if (a.date !== b.date) return b.date.localeCompare(a.date);
+        const meal = MEAL_TYPES.indexOf(mealOf(a)) - MEAL_TYPES.indexOf(mealOf(b));
+        return meal !== 0 ? meal : a.timestamp - b.timestamp;
+    });
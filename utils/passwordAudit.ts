@@ -0,0 +1,118 @@
+import { PasswordStrength, estimatePasswordStrength } from './passwordStrength';
+
+export type AuditIssue = 'weak' | 'reused' | 'similar' | 'stale';
+
+// Only the fields the audit reads, so it works on any decrypted account shape
+export interface AuditableAccount {
+    id: string;
+    password: string;
+    updated_at: number;
+    passwordChangedAt?: number; // When the current password was set
+    history?: { changedAt: number }[]; // Newest first; the first change dates the current password
+}
+
+export interface AuditEntry<T extends AuditableAccount = AuditableAccount> {
+    account: T;
+    strength: PasswordStrength;
+    reusedWith: string[]; // Ids of accounts with the exact same password
+    similarTo: string[]; // Ids of accounts with a variation of it ("Summer2023!" / "summer2024")
+    ageDays: number;
+    issues: AuditIssue[];
+    score: number; // 0..100
+}
+
+export interface PasswordAudit<T extends AuditableAccount = AuditableAccount> {
+    entries: AuditEntry<T>[]; // Worst first
+    score: number; // 0..100, 100 for an empty vault
+    counts: Record<AuditIssue, number>;
+}
+
+export const AUDIT_ISSUES: AuditIssue[] = ['weak', 'reused', 'similar', 'stale'];
+export const STALE_AGE_OPTIONS = [90, 180, 365]; // Days
+export const DEFAULT_STALE_AGE_DAYS = 180;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_SIMILAR_LENGTH = 6;
+const MAX_SIMILAR_DISTANCE = 2;
+
+const LEET: Record<string, string> = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's' };
+
+// The stem people keep when they "change" a password: no case, no counter or
+// punctuation at either end, and digits read back as the letters they stand for
+export const passwordStem = (password: string): string =>
+    password
+        .toLowerCase()
+        .replace(/^[^a-z]+|[^a-z]+$/g, '')
+        .replace(/[013457@$]/g, c => LEET[c]);
+
+const editDistance = (a: string, b: string, max: number) => {
+    if (Math.abs(a.length - b.length) > max) return max + 1;
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+/**
+ * When the current password was set. Other edits also move `updated_at`, so it is only
+ * the last resort, for entries saved before password changes were tracked.
+ */
+export const passwordSetAt = (account: AuditableAccount): number =>
+    account.passwordChangedAt ?? account.history?.[0]?.changedAt ?? account.updated_at;
+
+const isSimilar = (a: string, b: string) => {
+    const stemA = passwordStem(a);
+    const stemB = passwordStem(b);
+    if (Math.min(stemA.length, stemB.length) < MIN_SIMILAR_LENGTH) return false;
+    return editDistance(stemA, stemB, MAX_SIMILAR_DISTANCE) <= MAX_SIMILAR_DISTANCE;
+};
+
+/**
+ * Scores every account out of 100: up to 60 for strength, 25 for a password used
+ * nowhere else (15 if only a variation of it is) and 15 for having been changed
+ * within `staleAgeDays`. The vault score is the average.
+ */
+export const auditPasswords = <T extends AuditableAccount>(
+    accounts: T[],
+    staleAgeDays: number = DEFAULT_STALE_AGE_DAYS,
+    now: number = Date.now()
+): PasswordAudit<T> => {
+    const entries = accounts.map((account): AuditEntry<T> => {
+        const strength = estimatePasswordStrength(account.password);
+        const others = accounts.filter(other => other.id !== account.id);
+        const reusedWith = others.filter(other => other.password === account.password).map(other => other.id);
+        const similarTo = others
+            .filter(other => other.password !== account.password && isSimilar(account.password, other.password))
+            .map(other => other.id);
+        const ageDays = Math.max(0, Math.floor((now - passwordSetAt(account)) / DAY_MS));
+
+        const issues: AuditIssue[] = [];
+        if (strength.score <= 1) issues.push('weak');
+        if (reusedWith.length > 0) issues.push('reused');
+        if (similarTo.length > 0) issues.push('similar');
+        if (ageDays > staleAgeDays) issues.push('stale');
+
+        const reuseScore = reusedWith.length > 0 ? 0 : similarTo.length > 0 ? 15 : 25;
+        const score = strength.score * 15 + reuseScore + (ageDays > staleAgeDays ? 0 : 15);
+
+        return { account, strength, reusedWith, similarTo, ageDays, issues, score };
+    });
+
+    const counts = { weak: 0, reused: 0, similar: 0, stale: 0 };
+    entries.forEach(entry => entry.issues.forEach(issue => counts[issue]++));
+
+    const score = entries.length === 0
+        ? 100
+        : Math.round(entries.reduce((sum, entry) => sum + entry.score, 0) / entries.length);
+
+    return { entries: entries.sort((a, b) => a.score - b.score), score, counts };
+};
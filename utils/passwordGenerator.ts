@@ -0,0 +1,171 @@
+import { getRandomBytes } from 'expo-crypto';
+import { PASSPHRASE_WORDS } from '@/constants/wordlist';
+
+export type GeneratorMode = 'random' | 'passphrase' | 'pronounceable';
+
+export interface GeneratorOptions {
+    mode: GeneratorMode;
+    length: number; // Characters, for random and pronounceable
+    words: number; // For passphrases
+    lower: boolean;
+    upper: boolean;
+    digits: boolean;
+    symbols: boolean;
+    symbolSet: string; // Some sites only accept a few symbols
+    separator: string;
+}
+
+export interface PasswordPolicy {
+    id: string;
+    label: string; // Translation key
+    options: GeneratorOptions;
+    services?: RegExp; // Services this policy is picked for automatically
+    groups?: string[]; // Account groups it is picked for
+}
+
+export const MIN_LENGTH = 4;
+export const MAX_LENGTH = 64;
+export const MIN_WORDS = 3;
+export const MAX_WORDS = 10;
+
+const LOWER = 'abcdefghijklmnopqrstuvwxyz';
+const UPPER = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const DIGITS = '0123456789';
+export const DEFAULT_SYMBOLS = '!@#$%^&*()-_=+[]{};:,.?';
+
+const CONSONANTS = 'bcdfghjklmnprstvz';
+const VOWELS = 'aeiou';
+
+export const DEFAULT_OPTIONS: GeneratorOptions = {
+    mode: 'random',
+    length: 20,
+    words: 5,
+    lower: true,
+    upper: true,
+    digits: true,
+    symbols: true,
+    symbolSet: DEFAULT_SYMBOLS,
+    separator: '-',
+};
+
+// The first policy is the fallback
+export const PASSWORD_POLICIES: PasswordPolicy[] = [
+    {
+        id: 'strong',
+        label: 'passwords.generator.policy_strong',
+        options: DEFAULT_OPTIONS,
+    },
+    {
+        // Banks often cap the length and accept only a few symbols
+        id: 'banking',
+        label: 'passwords.generator.policy_banking',
+        options: { ...DEFAULT_OPTIONS, length: 16, symbolSet: '!@#$%^&*' },
+        services: /bank|\b(card|paypal|toss|kakao ?pay|shinhan|woori|hana|chase|wells ?fargo|citi|amex|visa)\b/i,
+        groups: ['finance'],
+    },
+    {
+        id: 'memorable',
+        label: 'passwords.generator.policy_memorable',
+        options: { ...DEFAULT_OPTIONS, mode: 'passphrase', words: 5 },
+        services: /\b(wi-?fi|router|network|computer|laptop|mac|windows)\b/i,
+    },
+    {
+        id: 'pin',
+        label: 'passwords.generator.policy_pin',
+        options: { ...DEFAULT_OPTIONS, length: 6, lower: false, upper: false, symbols: false },
+        services: /\b(pin|passcode|door ?lock|atm)\b/i,
+    },
+];
+
+export const policyForAccount = (service: string, group?: string): PasswordPolicy =>
+    PASSWORD_POLICIES.find(p => p.services?.test(service))
+    || PASSWORD_POLICIES.find(p => !!group && p.groups?.includes(group))
+    || PASSWORD_POLICIES[0];
+
+// Uniform integer in [0, max), rejecting the biased top of the 32-bit range
+export const randomInt = (max: number): number => {
+    const limit = Math.floor(0x100000000 / max) * max;
+    for (; ;) {
+        const [a, b, c, d] = getRandomBytes(4);
+        const value = ((a << 24) | (b << 16) | (c << 8) | d) >>> 0;
+        if (value < limit) return value % max;
+    }
+};
+
+const pick = (chars: string) => chars[randomInt(chars.length)];
+
+const shuffle = (chars: string[]) => {
+    for (let i = chars.length - 1; i > 0; i--) {
+        const j = randomInt(i + 1);
+        [chars[i], chars[j]] = [chars[j], chars[i]];
+    }
+    return chars;
+};
+
+const characterClasses = (options: GeneratorOptions) => [
+    options.lower && LOWER,
+    options.upper && UPPER,
+    options.digits && DIGITS,
+    options.symbols && options.symbolSet,
+].filter((chars): chars is string => !!chars);
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// At least one character from every selected class, the rest from all of them
+const generateRandom = (options: GeneratorOptions) => {
+    const classes = characterClasses(options);
+    if (classes.length === 0) classes.push(LOWER);
+    const length = clamp(options.length, Math.max(MIN_LENGTH, classes.length), MAX_LENGTH);
+    const all = classes.join('');
+
+    const chars = classes.map(pick);
+    while (chars.length < length) chars.push(pick(all));
+    return shuffle(chars).join('');
+};
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+// Words from the list, with a digit (and symbol) tacked on when the policy wants them
+const generatePassphrase = (options: GeneratorOptions) => {
+    const count = clamp(options.words, MIN_WORDS, MAX_WORDS);
+    const words = Array.from({ length: count }, () => PASSPHRASE_WORDS[randomInt(PASSPHRASE_WORDS.length)]);
+    const styled = words.map(word => options.upper ? capitalize(word) : word);
+
+    const extras = [options.digits && pick(DIGITS), options.symbols && pick(options.symbolSet)].filter(Boolean).join('');
+    if (extras) {
+        const index = randomInt(styled.length);
+        styled[index] = styled[index] + extras;
+    }
+    return styled.join(options.separator);
+};
+
+// Alternating consonants and vowels, with classes mixed in at random positions
+const generatePronounceable = (options: GeneratorOptions) => {
+    const length = clamp(options.length, MIN_LENGTH, MAX_LENGTH);
+    const extras = [options.digits && pick(DIGITS), options.symbols && pick(options.symbolSet)]
+        .filter((c): c is string => !!c);
+
+    const letters: string[] = [];
+    while (letters.length < length - extras.length) {
+        letters.push(pick(letters.length % 2 === 0 ? CONSONANTS : VOWELS));
+    }
+    if (options.upper) {
+        const index = randomInt(letters.length);
+        letters[index] = letters[index].toUpperCase();
+    }
+
+    // Digits and symbols go between syllables so the word still reads aloud
+    extras.forEach(extra => letters.splice(randomInt(Math.floor(letters.length / 2) + 1) * 2, 0, extra));
+    return letters.join('');
+};
+
+export const generatePassword = (options: GeneratorOptions = DEFAULT_OPTIONS): string => {
+    switch (options.mode) {
+        case 'passphrase':
+            return generatePassphrase(options);
+        case 'pronounceable':
+            return generatePronounceable(options);
+        default:
+            return generateRandom(options);
+    }
+};
@@ -0,0 +1,90 @@
+import { PASSPHRASE_WORDS } from '@/constants/wordlist';
+
+export type StrengthScore = 0 | 1 | 2 | 3 | 4;
+
+export interface PasswordStrength {
+    score: StrengthScore; // 0 very weak .. 4 very strong
+    bits: number; // Rough entropy estimate
+}
+
+// Most common leaked passwords; anything on this list is worthless
+const COMMON_PASSWORDS = new Set([
+    'password', 'password1', 'password123', '123456', '12345678', '123456789', '1234567890',
+    'qwerty', 'qwerty123', 'abc123', '111111', '123123', 'iloveyou', 'admin', 'welcome',
+    'letmein', 'monkey', 'dragon', 'football', 'baseball', 'sunshine', 'princess', 'master',
+    '000000', '1q2w3e4r', 'qwertyuiop', 'asdfgh', 'zxcvbnm', 'trustno1', 'passw0rd',
+]);
+
+const KEYBOARD_ROWS = ['qwertyuiop', 'asdfghjkl', 'zxcvbnm', '1234567890'];
+const WORD_BITS = Math.log2(PASSPHRASE_WORDS.length);
+const WORDS = new Set(PASSPHRASE_WORDS);
+const LONGEST_WORD = PASSPHRASE_WORDS.reduce((max, w) => Math.max(max, w.length), 0);
+
+const poolSize = (password: string) =>
+    (/[a-z]/.test(password) ? 26 : 0)
+    + (/[A-Z]/.test(password) ? 26 : 0)
+    + (/\d/.test(password) ? 10 : 0)
+    + (/[^a-zA-Z\d]/.test(password) ? 33 : 0);
+
+const isStep = (a: string, b: string) => {
+    if (Math.abs(a.charCodeAt(0) - b.charCodeAt(0)) === 1) return true;
+    return KEYBOARD_ROWS.some(row => {
+        const i = row.indexOf(a);
+        return i >= 0 && (row[i + 1] === b || row[i - 1] === b);
+    });
+};
+
+// Length of a repeat ("aaaa"), alphabet/digit run ("abcd", "4321") or keyboard walk at `start`
+const patternLength = (lower: string, start: number) => {
+    let repeat = 1;
+    while (lower[start + repeat] === lower[start]) repeat++;
+    let run = 1;
+    while (start + run < lower.length && isStep(lower[start + run - 1], lower[start + run])) run++;
+    return Math.max(repeat, run);
+};
+
+const wordLength = (lower: string, start: number) => {
+    for (let length = Math.min(LONGEST_WORD, lower.length - start); length >= 3; length--) {
+        if (WORDS.has(lower.slice(start, start + length))) return length;
+    }
+    return 0;
+};
+
+/**
+ * Estimates entropy by walking the password and charging each piece what it would
+ * cost an attacker: a word from the passphrase list costs about 10 bits however long
+ * it is, a repeat or sequence costs little more than its first character, a separator
+ * between words is charged once, and any other character costs log2 of the
+ * character pool in use.
+ */
+export const estimatePasswordStrength = (password: string): PasswordStrength => {
+    if (!password || COMMON_PASSWORDS.has(password.toLowerCase())) return { score: 0, bits: 0 };
+
+    const lower = password.toLowerCase();
+    const charBits = Math.log2(Math.max(poolSize(password), 10));
+    let bits = 0;
+    let separator: string | null = null;
+
+    for (let i = 0; i < lower.length;) {
+        const word = wordLength(lower, i);
+        const pattern = patternLength(lower, i);
+        if (word > 0 && word >= pattern) {
+            // A capitalized word is one extra guess per word
+            bits += WORD_BITS + (password[i] !== lower[i] ? 1 : 0);
+            i += word;
+        } else if (lower[i] === separator) {
+            // The same separator again between words is free once it has been guessed
+            i += 1;
+        } else if (pattern >= 3) {
+            bits += charBits + Math.log2(pattern);
+            i += pattern;
+        } else {
+            if (i > 0 && /[^a-z\d]/.test(lower[i]) && wordLength(lower, i + 1) > 0) separator = lower[i];
+            bits += charBits;
+            i += 1;
+        }
+    }
+
+    const score: StrengthScore = bits < 28 ? 0 : bits < 36 ? 1 : bits < 60 ? 2 : bits < 80 ? 3 : 4;
+    return { score, bits: Math.round(bits) };
+};
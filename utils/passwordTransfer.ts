@@ -0,0 +1,305 @@
+import { parseTotpInput, formatTotpUri } from './totp';
+
+/**
+ * Converts password lists to and from the formats other managers use: browser CSV
+ * (Chrome, Firefox, Edge, Safari), the CSV from Bitwarden and 1Password, and
+ * Bitwarden's unencrypted JSON export. Column names are matched loosely, so most
+ * other CSV exports work as well.
+ */
+
+export type TransferFormat = 'csv' | 'bitwarden';
+
+// Account fields as they come in or go out, before sealing
+export interface TransferAccount {
+    service: string;
+    username: string;
+    password: string;
+    group?: string; // Unset when the file names no folder we know
+    totp?: string;
+    url?: string;
+    notes?: string;
+    tags?: string[];
+    customFields?: { key: string; value: string }[];
+}
+
+// An account as it is saved, always in a group
+export type ImportedAccount = TransferAccount & { group: string };
+
+// A group a folder name can be matched against
+export interface TransferGroup {
+    id: string;
+    name: string;
+}
+
+export interface ImportPlan<T extends ImportedAccount = ImportedAccount> {
+    added: ImportedAccount[]; // Not in the vault yet
+    changed: { incoming: TransferAccount; existing: T }[]; // Same login, different password
+    duplicates: number; // Already saved exactly
+    skipped: number; // Rows without a password
+}
+
+export type TransferErrorCode = 'unrecognized' | 'encrypted_export' | 'empty';
+
+export interface TransferError extends Error {
+    code: TransferErrorCode;
+}
+
+export const isTransferError = (error: unknown): error is TransferError =>
+    error instanceof Error && error.name === 'TransferError';
+
+const transferError = (code: TransferErrorCode, message: string): TransferError => {
+    const error = new Error(message) as TransferError;
+    error.name = 'TransferError';
+    error.code = code;
+    return error;
+};
+
+const FALLBACK_GROUP = 'other';
+
+// Header aliases, lower case, in order of preference
+const COLUMNS = {
+    service: ['name', 'title', 'service'],
+    url: ['url', 'login_uri', 'website', 'uri', 'hostname', 'origin'],
+    username: ['username', 'login_username', 'user', 'email', 'login'],
+    password: ['password', 'login_password'],
+    group: ['folder', 'group', 'grouping', 'category', 'collections'],
+    totp: ['login_totp', 'otpauth', 'totp', 'one-time password'],
+    notes: ['notes', 'note', 'extra', 'comments'],
+};
+
+// RFC 4180: quoted fields may hold commas, doubled quotes and line breaks
+export const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+const csvField = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const hostname = (url: string) => {
+    const match = /^(?:[a-z][a-z\d+.-]*:\/\/)?(?:[^@/]*@)?([^/:?#]+)/i.exec(url.trim());
+    return match ? match[1].replace(/^www\./i, '') : '';
+};
+
+// The group whose id or name matches the folder; other folders leave the group unset
+export const toGroup = (folder: string | undefined, groups: TransferGroup[]) => {
+    const name = (folder || '').trim().toLowerCase();
+    return name ? groups.find(g => g.id === name || g.name.trim().toLowerCase() === name)?.id : undefined;
+};
+
+const toTotp = (value: string | undefined) => {
+    const config = value ? parseTotpInput(value) : null;
+    return config ? formatTotpUri(config) : undefined;
+};
+
+const parseCsvAccounts = (text: string, groups: TransferGroup[]): (TransferAccount | null)[] => {
+    const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+    if (!header) throw transferError('empty', 'The file is empty');
+
+    const names = header.map(h => h.trim().toLowerCase());
+    const column = (aliases: string[]) => {
+        for (const alias of aliases) {
+            const index = names.indexOf(alias);
+            if (index >= 0) return index;
+        }
+        return -1;
+    };
+    const index = Object.fromEntries(
+        Object.entries(COLUMNS).map(([field, aliases]) => [field, column(aliases)])
+    ) as Record<keyof typeof COLUMNS, number>;
+
+    if (index.password < 0 || (index.service < 0 && index.url < 0)) {
+        throw transferError('unrecognized', 'No password or service column');
+    }
+
+    const cell = (row: string[], i: number) => (i >= 0 ? row[i] || '' : '').trim();
+    return rows.map(row => {
+        const password = cell(row, index.password);
+        if (!password) return null;
+        return {
+            service: cell(row, index.service) || hostname(cell(row, index.url)),
+            username: cell(row, index.username),
+            password,
+            group: toGroup(cell(row, index.group), groups),
+            totp: toTotp(cell(row, index.totp)),
+            url: cell(row, index.url) || undefined,
+            notes: cell(row, index.notes) || undefined,
+        };
+    });
+};
+
+interface BitwardenExport {
+    encrypted?: boolean;
+    folders?: { id: string; name: string }[];
+    items?: {
+        type: number; // 1 = login
+        name?: string;
+        folderId?: string | null;
+        notes?: string | null;
+        fields?: { name?: string | null; value?: string | null }[] | null;
+        login?: {
+            username?: string | null;
+            password?: string | null;
+            totp?: string | null;
+            uris?: { uri?: string | null }[] | null;
+        } | null;
+    }[];
+}
+
+const parseBitwardenAccounts = (data: BitwardenExport, groups: TransferGroup[]): (TransferAccount | null)[] => {
+    if (data.encrypted) throw transferError('encrypted_export', 'Encrypted Bitwarden exports cannot be read');
+    if (!Array.isArray(data.items)) throw transferError('unrecognized', 'No items in the JSON file');
+
+    const folders = new Map((data.folders || []).map(f => [f.id, f.name]));
+    return data.items
+        .filter(item => item.type === 1)
+        .map(item => {
+            const login = item.login || {};
+            if (!login.password) return null;
+            const customFields = (item.fields || [])
+                .filter(field => field.name)
+                .map(field => ({ key: field.name || '', value: field.value || '' }));
+            return {
+                service: (item.name || '').trim() || hostname(login.uris?.[0]?.uri || ''),
+                username: (login.username || '').trim(),
+                password: login.password,
+                group: toGroup(item.folderId ? folders.get(item.folderId) : undefined, groups),
+                totp: toTotp(login.totp || undefined),
+                url: login.uris?.[0]?.uri || undefined,
+                notes: item.notes || undefined,
+                customFields: customFields.length ? customFields : undefined,
+            };
+        });
+};
+
+/**
+ * Reads an export file, whichever supported format it is in. Rows without a
+ * password are dropped and only counted, so the import can say how many.
+ */
+export const parseImport = (text: string, groups: TransferGroup[]): { accounts: TransferAccount[]; skipped: number } => {
+    const trimmed = text.trim();
+    if (!trimmed) throw transferError('empty', 'The file is empty');
+
+    let parsed: (TransferAccount | null)[];
+    if (trimmed.startsWith('{')) {
+        let data: BitwardenExport;
+        try {
+            data = JSON.parse(trimmed);
+        } catch {
+            throw transferError('unrecognized', 'Invalid JSON');
+        }
+        parsed = parseBitwardenAccounts(data, groups);
+    } else {
+        parsed = parseCsvAccounts(trimmed, groups);
+    }
+
+    const accounts = parsed.filter((a): a is TransferAccount => !!a && !!a.service);
+    return { accounts, skipped: parsed.length - accounts.length };
+};
+
+// The same login: service names compared without case or "www.", usernames without case
+const loginKey = (account: TransferAccount) =>
+    `${account.service.trim().toLowerCase().replace(/^www\./, '')}\n${account.username.trim().toLowerCase()}`;
+
+/**
+ * Sorts imported accounts against the vault: new logins, logins whose password
+ * differs from the saved one, and exact duplicates, which are left out.
+ */
+export const planImport = <T extends ImportedAccount>(
+    incoming: TransferAccount[],
+    existing: T[],
+    skipped = 0
+): ImportPlan<T> => {
+    const saved = new Map(existing.map(account => [loginKey(account), account]));
+    // A file that lists the same login twice imports it once, as its last row has it
+    const rows = new Map<string, TransferAccount>();
+    incoming.forEach(account => rows.set(loginKey(account), account));
+    const plan: ImportPlan<T> = { added: [], changed: [], duplicates: incoming.length - rows.size, skipped };
+
+    rows.forEach((account, key) => {
+        const match = saved.get(key);
+        if (!match) {
+            plan.added.push({ ...account, group: account.group || FALLBACK_GROUP });
+        } else if (match.password === account.password) {
+            plan.duplicates++;
+        } else {
+            plan.changed.push({ incoming: account, existing: match });
+        }
+    });
+    return plan;
+};
+
+// A changed login as it is saved: files carry fewer fields than the vault, so what they leave out is kept
+export const mergeImported = (incoming: TransferAccount, existing: ImportedAccount): ImportedAccount => ({
+    ...incoming,
+    group: incoming.group || existing.group,
+    totp: incoming.totp || existing.totp,
+    url: incoming.url || existing.url,
+    notes: incoming.notes || existing.notes,
+    tags: incoming.tags?.length ? incoming.tags : existing.tags,
+    customFields: incoming.customFields?.length ? incoming.customFields : existing.customFields,
+});
+
+// Chrome's column layout, which Firefox, Safari and most managers import
+export const exportCsv = (accounts: TransferAccount[]): string => {
+    const header = ['name', 'url', 'username', 'password', 'note', 'folder', 'totp'];
+    const rows = accounts.map(a => [a.service, a.url || '', a.username, a.password, a.notes || '', a.group || FALLBACK_GROUP, a.totp || '']);
+    return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n') + '\n';
+};
+
+// Bitwarden's unencrypted JSON, with one folder per group
+export const exportBitwarden = (accounts: TransferAccount[]): string => {
+    const groups = Array.from(new Set(accounts.map(a => a.group || FALLBACK_GROUP)));
+    return JSON.stringify({
+        encrypted: false,
+        folders: groups.map(name => ({ id: `folder-${name}`, name })),
+        items: accounts.map((a, i) => ({
+            id: `item-${i + 1}`,
+            type: 1,
+            name: a.service,
+            folderId: `folder-${a.group || FALLBACK_GROUP}`,
+            favorite: false,
+            notes: a.notes || null,
+            fields: (a.customFields || []).map(field => ({ name: field.key, value: field.value, type: 0 })),
+            login: {
+                username: a.username || null,
+                password: a.password,
+                totp: a.totp || null,
+                uris: a.url ? [{ match: null, uri: a.url }] : [],
+            },
+        })),
+    }, null, 2);
+};
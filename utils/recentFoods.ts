@@ -0,0 +1,97 @@
+import { Macros } from './macros';
+
+/**
+ * Foods the user logs again and again, ranked for quick re-logging. Names are
+ * compared without case or surrounding spaces, so "Oatmeal" and "oatmeal " are one food.
+ */
+
+export const RECENT_FOODS_LIMIT = 20;
+export const SUGGESTIONS_LIMIT = 5;
+
+export type RecentFood = {
+    food: string; // As last written
+    calories: number; // Last logged value
+    macros?: Macros;
+    count: number;
+    lastUsed: number;
+};
+
+export type FoodSuggestion = RecentFood & { favorite: boolean };
+
+type LoggedFood = { food: string; calories: number; macros?: Macros; timestamp: number };
+
+export const foodKey = (name: string): string => name.trim().toLowerCase();
+
+// Most logged first, ties broken by the latest
+export const rankRecentFoods = (entries: LoggedFood[], limit = RECENT_FOODS_LIMIT): RecentFood[] => {
+    const byFood = new Map<string, RecentFood>();
+    entries.forEach(entry => {
+        const key = foodKey(entry.food);
+        if (!key) return;
+        const seen = byFood.get(key);
+        const latest = !seen || entry.timestamp >= seen.lastUsed;
+        byFood.set(key, {
+            food: latest ? entry.food.trim() : seen.food,
+            calories: latest ? entry.calories : seen.calories,
+            macros: latest ? entry.macros : seen.macros,
+            count: (seen?.count ?? 0) + 1,
+            lastUsed: latest ? entry.timestamp : seen.lastUsed,
+        });
+    });
+    return [...byFood.values()]
+        .sort((a, b) => b.count - a.count || b.lastUsed - a.lastUsed)
+        .slice(0, limit);
+};
+
+// 0 for a prefix match, 1 for a match inside the name, -1 for none
+const matchRank = (name: string, query: string): number => {
+    const index = foodKey(name).indexOf(query);
+    if (index < 0) return -1;
+    return index === 0 ? 0 : 1;
+};
+
+/**
+ * Favorites and recent foods matching `query`, prefix matches and favorites first.
+ * A favorite that was logged before takes the calories it was last logged with.
+ * With an empty query every favorite and the top recent foods are returned.
+ */
+export const suggestFoods = (
+    recent: RecentFood[],
+    favorites: { food: string; calories: number; macros?: Macros }[],
+    query: string,
+    limit = SUGGESTIONS_LIMIT,
+): FoodSuggestion[] => {
+    const q = foodKey(query);
+    const recentByKey = new Map(recent.map(food => [foodKey(food.food), food]));
+    const favoriteKeys = new Set(favorites.map(fav => foodKey(fav.food)));
+
+    const candidates: FoodSuggestion[] = [
+        ...favorites.map(fav => ({
+            count: 0,
+            lastUsed: 0,
+            ...fav,
+            ...recentByKey.get(foodKey(fav.food)),
+            favorite: true,
+        })),
+        ...recent
+            .filter(food => !favoriteKeys.has(foodKey(food.food)))
+            .map(food => ({ ...food, favorite: false })),
+    ];
+
+    return candidates
+        .map(food => ({ food, rank: matchRank(food.food, q) }))
+        .filter(({ rank }) => rank >= 0)
+        .sort((a, b) => a.rank - b.rank || Number(b.food.favorite) - Number(a.food.favorite))
+        .slice(0, limit)
+        .map(({ food }) => food);
+};
+
+// Favorites that name the same dish as `food`, either way round ("Oatmeal" for "oatmeal with honey")
+export const favoritesMatching = <T extends { food: string }>(favorites: T[], food: string): T[] => {
+    const key = foodKey(food);
+    if (!key) return [];
+    return favorites.filter(fav => {
+        const favKey = foodKey(fav.food);
+        return !!favKey && (key.includes(favKey) || favKey.includes(key));
+    });
+};
@@ -0,0 +1,137 @@
+import { hmac } from '@noble/hashes/hmac';
+import { sha1 } from '@noble/hashes/legacy';
+import { sha256, sha512 } from '@noble/hashes/sha2';
+
+export type TotpAlgorithm = 'SHA1' | 'SHA256' | 'SHA512';
+
+export interface TotpConfig {
+    secret: string; // Base32, upper case, no padding
+    digits: 6 | 8;
+    period: number; // Seconds
+    algorithm: TotpAlgorithm;
+    issuer?: string;
+    account?: string;
+}
+
+export interface TotpCode {
+    code: string;
+    remaining: number; // Seconds until the next code
+}
+
+const BASE32 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const HASHES = { SHA1: sha1, SHA256: sha256, SHA512: sha512 };
+const DEFAULTS = { digits: 6 as const, period: 30, algorithm: 'SHA1' as const };
+
+// Authenticator apps print secrets in groups ("JBSW Y3DP ..."), sometimes padded
+const cleanBase32 = (input: string) => input.toUpperCase().replace(/[\s-]/g, '').replace(/=+$/, '');
+
+export const decodeBase32 = (input: string): Uint8Array | null => {
+    const clean = cleanBase32(input);
+    if (!clean) return null;
+    const bytes: number[] = [];
+    let buffer = 0;
+    let bits = 0;
+    for (const char of clean) {
+        const value = BASE32.indexOf(char);
+        if (value < 0) return null;
+        buffer = (buffer << 5) | value;
+        bits += 5;
+        if (bits >= 8) {
+            bits -= 8;
+            bytes.push((buffer >> bits) & 0xff);
+        }
+    }
+    return new Uint8Array(bytes);
+};
+
+// Under 80 bits is not a real TOTP secret, and usually a typo
+const parseSecret = (secret: string) => {
+    const bytes = decodeBase32(secret);
+    return bytes && bytes.length >= 10 ? cleanBase32(secret) : null;
+};
+
+const decode = (value: string) => {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return value;
+    }
+};
+
+/**
+ * Reads what a user pastes or types into the two-factor field: an otpauth://totp/
+ * link from a QR code, or a bare base32 secret, which gets the usual 6 digits every
+ * 30 seconds. Null when it is neither.
+ */
+export const parseTotpInput = (input: string): TotpConfig | null => {
+    const text = input.trim();
+    if (!/^otpauth:/i.test(text)) {
+        const secret = parseSecret(text);
+        return secret ? { secret, ...DEFAULTS } : null;
+    }
+
+    const match = /^otpauth:\/\/totp\/([^?]*)\?(.*)$/i.exec(text);
+    if (!match) return null;
+
+    const params: Record<string, string> = {};
+    match[2].split('&').forEach(pair => {
+        const [key, value = ''] = pair.split('=');
+        params[key.toLowerCase()] = decode(value.replace(/\+/g, ' '));
+    });
+
+    const secret = parseSecret(params.secret || '');
+    if (!secret) return null;
+
+    const digits = params.digits ? parseInt(params.digits, 10) : DEFAULTS.digits;
+    const period = params.period ? parseInt(params.period, 10) : DEFAULTS.period;
+    const algorithm = (params.algorithm || DEFAULTS.algorithm).toUpperCase();
+    if ((digits !== 6 && digits !== 8) || !(period > 0) || !(algorithm in HASHES)) return null;
+
+    // The label is "Issuer:account" or just "account"
+    const label = decode(match[1]);
+    const separator = label.indexOf(':');
+    const issuer = params.issuer || (separator >= 0 ? label.slice(0, separator).trim() : undefined);
+    const name = (separator >= 0 ? label.slice(separator + 1) : label).trim();
+    // Some issuers put only their own name in the label
+    const account = name && name !== issuer ? name : undefined;
+
+    return { secret, digits, period, algorithm: algorithm as TotpAlgorithm, issuer, account };
+};
+
+// What gets stored: always a full link, so digits, period and algorithm travel with the secret
+export const formatTotpUri = (config: TotpConfig): string => {
+    const label = encodeURIComponent(config.issuer && config.account
+        ? `${config.issuer}:${config.account}`
+        : config.account || config.issuer || '');
+    const params = [
+        `secret=${config.secret}`,
+        config.issuer && `issuer=${encodeURIComponent(config.issuer)}`,
+        `algorithm=${config.algorithm}`,
+        `digits=${config.digits}`,
+        `period=${config.period}`,
+    ].filter(Boolean).join('&');
+    return `otpauth://totp/${label}?${params}`;
+};
+
+// RFC 6238: HOTP over the number of periods since the epoch
+export const generateTotp = (config: TotpConfig, now: number = Date.now()): TotpCode => {
+    const key = decodeBase32(config.secret) || new Uint8Array();
+    const seconds = Math.floor(now / 1000);
+    const counter = Math.floor(seconds / config.period);
+
+    const message = new Uint8Array(8);
+    // Counters fit in 32 bits until long after anyone reads this
+    new DataView(message.buffer).setUint32(4, counter);
+
+    const digest = hmac(HASHES[config.algorithm], key, message);
+    const offset = digest[digest.length - 1] & 0x0f;
+    const binary = ((digest[offset] & 0x7f) << 24)
+        | (digest[offset + 1] << 16)
+        | (digest[offset + 2] << 8)
+        | digest[offset + 3];
+
+    return {
+        code: String(binary % 10 ** config.digits).padStart(config.digits, '0'),
+        remaining: config.period - (seconds % config.period),
+    };
+};